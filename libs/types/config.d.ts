@@ -2,11 +2,19 @@
  * Configuration Type Definitions
  */
 
-export type StorageBackend = 'local' | 's3' | 'remote';
+export type StorageBackend = 'local' | 's3' | 'remote' | 'layered';
+
+// Backends a layered backend can stack
+export type StorageLayerBackend = Exclude<StorageBackend, 'layered'>;
+
+export type ServerTransport = 'stdio' | 'sse' | 'http';
 
 export interface StorageConfig {
   backend: StorageBackend;
 
+  // Store assets once under sha256/<hash>.riv and track which components use them
+  contentAddressedAssets?: boolean;
+
   // Local filesystem configuration
   local?: {
     basePath: string;
@@ -32,9 +40,27 @@ export interface StorageConfig {
     assetBaseUrl?: string;
     headers?: Record<string, string>;
     timeout?: number;
+    // Allow PUT and DELETE; the server must honour If-Match and If-None-Match
+    writable?: boolean;
+  };
+
+  // Layered configuration: read through the layers in order, write to one of them
+  layered?: {
+    layers: StorageLayerConfig[];
+    // Name of the layer that takes writes; defaults to the first
+    writeLayer?: string;
   };
 }
 
+export interface StorageLayerConfig {
+  // Reported by getMetadata as the layer that served a file; defaults to the backend type
+  name?: string;
+  backend: StorageLayerBackend;
+  local?: StorageConfig['local'];
+  s3?: StorageConfig['s3'];
+  remote?: StorageConfig['remote'];
+}
+
 export interface RiveRuntimeConfig {
   // Rive runtime version
   version?: string;
@@ -52,6 +78,14 @@ export interface RiveRuntimeConfig {
     enableCaching?: boolean;
     cacheSize?: number;
   };
+
+  // Worker threads that load the runtime, parse, render and simulate; 0 workers runs in process
+  parsePool?: {
+    workers?: number;
+    timeoutMs?: number; // per file
+    maxMemoryMb?: number; // JS heap per worker
+    maxJobsPerWorker?: number; // recycled afterwards
+  };
 }
 
 export interface IndexingConfig {
@@ -69,6 +103,28 @@ export interface IndexingConfig {
   cacheTTL?: number; // seconds
 }
 
+export type TelemetryStorageType = 'memory' | 'timeseries';
+
+export interface TelemetryToolsConfig {
+  // Mount collect_metrics, analyze_performance and the other telemetry tools
+  enabled?: boolean;
+
+  // Telemetry StorageAdapter backing the tools
+  storage?: TelemetryStorageType;
+}
+
+export type ToolProfile = 'read-only' | 'read-write';
+
+export interface SecurityConfig {
+  // 'read-only' hides tools that write files or manifests
+  profile?: ToolProfile;
+
+  // Directories client-supplied paths may be read from / written to
+  // Unset leaves that access unrestricted; an empty list denies it
+  readRoots?: string[];
+  writeRoots?: string[];
+}
+
 export interface ServerConfig {
   // Storage configuration
   storage: StorageConfig;
@@ -84,8 +140,21 @@ export interface ServerConfig {
     name?: string;
     version?: string;
     port?: number;
+    host?: string;
+    // Defaults to 'http' when a port is configured, otherwise 'stdio'
+    transport?: ServerTransport;
+    // Close sse and http sessions without a request for this long (default 30 minutes, 0 never)
+    sessionIdleTimeoutMs?: number;
+    // Browser origins allowed to call sse and http (default: localhost and 127.0.0.1 on any port)
+    allowedOrigins?: string[];
   };
 
+  // Telemetry tools
+  telemetry?: TelemetryToolsConfig;
+
+  // Tool profile and path sandboxing
+  security?: SecurityConfig;
+
   // Logging
   logging?: {
     level?: 'debug' | 'info' | 'warn' | 'error';
@@ -99,6 +168,8 @@ export interface EnvironmentConfig {
 
   // Storage backend selection
   STORAGE_BACKEND?: StorageBackend;
+  STORAGE_LAYERS?: string; // comma-separated backends, read in order
+  STORAGE_WRITE_LAYER?: string;
 
   // Local storage
   LOCAL_BASE_PATH?: string;
@@ -119,6 +190,11 @@ export interface EnvironmentConfig {
   REMOTE_MANIFEST_URL?: string;
   REMOTE_ASSET_BASE_URL?: string;
 
+  // Server
+  SERVER_PORT?: string;
+  SERVER_HOST?: string;
+  SERVER_TRANSPORT?: ServerTransport;
+
   // Runtime
   RIVE_RUNTIME_VERSION?: string;
 
@@ -128,6 +204,15 @@ export interface EnvironmentConfig {
   ENABLE_CACHE?: string; // 'true' | 'false'
   CACHE_TTL?: string; // seconds
 
+  // Telemetry
+  TELEMETRY_ENABLED?: string; // 'true' | 'false'
+  TELEMETRY_STORAGE?: TelemetryStorageType;
+
+  // Security
+  TOOL_PROFILE?: ToolProfile;
+  READ_ROOTS?: string; // path-delimiter separated, like PATH
+  WRITE_ROOTS?: string; // path-delimiter separated, like PATH
+
   // Logging
   LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error';
   LOG_FORMAT?: 'json' | 'text';
@@ -11,6 +11,7 @@ export interface RiveComponentManifest {
 
   // Asset references
   riveFile: string;
+  assetHash?: string; // sha256 of riveFile when it is content-addressed
   thumbnailUrl?: string;
   previewUrl?: string;
 
@@ -31,7 +32,7 @@ export interface RiveComponentManifest {
   runtimeVersion?: string;
 
   // Storage metadata
-  storageBackend?: 'local' | 's3' | 'remote';
+  storageBackend?: 'local' | 's3' | 'remote' | 'layered';
   storagePath?: string;
 }
 
@@ -82,13 +83,42 @@ export interface RiveLibraryManifest {
   updatedAt: string;
 
   // Storage metadata
-  storageBackend?: 'local' | 's3' | 'remote';
+  storageBackend?: 'local' | 's3' | 'remote' | 'layered';
   storagePath?: string;
 }
 
 export interface ManifestIndex {
   libraries: Record<string, RiveLibraryManifest>;
   components: Record<string, RiveComponentManifest>;
+  // Content-addressed asset blobs by sha256
+  assets?: Record<string, AssetBlobEntry>;
   version: string;
   lastUpdated: string;
 }
+
+export interface ComponentVersionInfo {
+  version: string; // semver
+  publishedAt: string;
+  riveFile: string; // snapshot under components/<id>/versions/<version>/
+  sha256: string;
+  size: number;
+}
+
+export interface ComponentVersionHistory {
+  componentId: string;
+  latest?: string;
+  // Newest first
+  versions: ComponentVersionInfo[];
+}
+
+export interface AssetBlobEntry {
+  key: string; // sha256/<hash>.riv
+  size?: number; // unknown for blobs recovered from manifests
+  // Components whose riveFile is this blob
+  refs: string[];
+  createdAt: string;
+  // Set while nothing references the blob; garbage collection waits a grace period after it
+  unreferencedSince?: string;
+  // Tombstone: garbage collection is deleting the blob; the entry goes once the blob is gone
+  deletingSince?: string;
+}
@@ -2,7 +2,14 @@
  * Storage Interface Type Definitions
  */
 
-import { RiveComponentManifest, RiveLibraryManifest, ManifestIndex } from './manifest';
+import {
+  RiveComponentManifest,
+  RiveLibraryManifest,
+  ManifestIndex,
+  ComponentVersionInfo,
+  ComponentVersionHistory,
+} from './manifest';
+import { StorageBackend } from './config';
 
 export interface StorageReadOptions {
   useCache?: boolean;
@@ -10,8 +17,16 @@ export interface StorageReadOptions {
 }
 
 export interface StorageWriteOptions {
+  // false only creates; an existing file is a conflict
   overwrite?: boolean;
   updateIndex?: boolean;
+  // Only replace the version with this etag, as returned by getMetadata
+  ifMatch?: string;
+}
+
+export interface StorageDeleteOptions {
+  // Only delete the version with this etag, as returned by getMetadata
+  ifMatch?: string;
 }
 
 export interface StorageListOptions {
@@ -20,12 +35,28 @@ export interface StorageListOptions {
   includeMetadata?: boolean;
 }
 
+export interface AssetGarbageCollectionOptions {
+  // How long a blob must have been unreferenced before it is removed (default 1 hour)
+  gracePeriodMs?: number;
+  // Report what would be removed without removing it
+  dryRun?: boolean;
+}
+
+export interface AssetGarbageCollectionResult {
+  removed: string[]; // asset keys
+  referenced: number;
+  // Unreferenced blobs still inside the grace period
+  pending: string[];
+}
+
 export interface StorageMetadata {
   size: number;
   lastModified: Date;
   contentType?: string;
   etag?: string;
   customMetadata?: Record<string, string>;
+  // Name of the layer that served the file, for a layered backend
+  layer?: string;
 }
 
 /**
@@ -47,6 +78,23 @@ export interface IStorageBackend {
    */
   writeIndex(index: ManifestIndex, options?: StorageWriteOptions): Promise<void>;
 
+  /**
+   * Apply a change to the manifest index with compare-and-swap, retrying when
+   * another writer updated it in between. The change may run more than once.
+   */
+  updateIndex(update: (index: ManifestIndex) => void | Promise<void>): Promise<ManifestIndex>;
+
+  /**
+   * Apply a change to another JSON file with the same compare-and-swap as updateIndex
+   * A missing file starts from create().
+   */
+  updateJSON<T>(path: string, create: () => T, update: (data: T) => void | Promise<void>): Promise<T>;
+
+  /**
+   * Reconstruct the manifest index from the component and library manifests
+   */
+  rebuildIndex(): Promise<ManifestIndex>;
+
   /**
    * Read a component manifest
    */
@@ -57,6 +105,27 @@ export interface IStorageBackend {
    */
   writeComponentManifest(manifest: RiveComponentManifest, options?: StorageWriteOptions): Promise<void>;
 
+  /**
+   * Keep an immutable snapshot of the manifest and .riv under
+   * components/<id>/versions/<version>/ and mark it as the latest version
+   */
+  publishComponentVersion(manifest: RiveComponentManifest, asset: Buffer): Promise<ComponentVersionInfo>;
+
+  /**
+   * List the published versions of a component, newest first
+   */
+  listComponentVersions(componentId: string): Promise<ComponentVersionHistory>;
+
+  /**
+   * Read the manifest of a published version ('latest' for the one marked latest)
+   */
+  readComponentVersion(componentId: string, version: string): Promise<RiveComponentManifest>;
+
+  /**
+   * Mark a published version latest and restore the component manifest from its snapshot
+   */
+  markLatestVersion(componentId: string, version: string): Promise<RiveComponentManifest>;
+
   /**
    * Read a library manifest
    */
@@ -77,6 +146,17 @@ export interface IStorageBackend {
    */
   writeAsset(assetPath: string, data: Buffer, options?: StorageWriteOptions): Promise<void>;
 
+  /**
+   * Store an asset and return the key it was stored under: assetPath, or
+   * sha256/<hash>.<ext> when content-addressed assets are enabled
+   */
+  storeAsset(assetPath: string, data: Buffer): Promise<string>;
+
+  /**
+   * Remove content-addressed blobs that no component references
+   */
+  collectGarbage(options?: AssetGarbageCollectionOptions): Promise<AssetGarbageCollectionResult>;
+
   /**
    * List all components
    */
@@ -100,12 +180,12 @@ export interface IStorageBackend {
   /**
    * Delete a file
    */
-  delete(path: string): Promise<void>;
+  delete(path: string, options?: StorageDeleteOptions): Promise<void>;
 
   /**
-   * Get the backend type
+   * Get the backend type; a layered backend reports 'layered'
    */
-  getBackendType(): 'local' | 's3' | 'remote';
+  getBackendType(): StorageBackend;
 }
 
 export interface CacheEntry<T> {
@@ -116,6 +196,8 @@ export interface CacheEntry<T> {
 
 export interface ICache {
   get<T>(key: string): Promise<CacheEntry<T> | null>;
+  // Like get, but also returns expired entries so they can be revalidated by etag
+  peek<T>(key: string): Promise<CacheEntry<T> | null>;
   set<T>(key: string, data: T, etag?: string): Promise<void>;
   has(key: string): Promise<boolean>;
   delete(key: string): Promise<void>;
@@ -7,6 +7,10 @@ export default {
     '^.+\\.[tj]s$': ['ts-jest', { tsconfig: '<rootDir>/tsconfig.json' }],
   },
   moduleFileExtensions: ['ts', 'js', 'html'],
+  moduleNameMapper: {
+    '^@astralismotion/scene-composer$': '<rootDir>/../scene-composer/src/index.ts',
+    '^@astralismotion/telemetry-service$': '<rootDir>/../telemetry-service/src/index.ts',
+  },
   coverageDirectory: '../../coverage/packages/mcp-server',
   testMatch: ['**/tests/**/*.test.ts'],
 };
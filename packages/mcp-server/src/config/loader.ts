@@ -5,7 +5,15 @@
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { ServerConfig, StorageBackend } from '../../../../libs/types';
+import {
+  ServerConfig,
+  ServerTransport,
+  StorageBackend,
+  StorageConfig,
+  StorageLayerBackend,
+  TelemetryStorageType,
+  ToolProfile,
+} from '../../../../libs/types';
 
 /**
  * Load configuration from environment variables
@@ -13,12 +21,24 @@ import { ServerConfig, StorageBackend } from '../../../../libs/types';
 export function loadEnvironmentConfig(): Partial<ServerConfig> {
   const config: Partial<ServerConfig> = {
     storage: {
-      backend: (process.env.STORAGE_BACKEND as StorageBackend) || 'local',
+      // Unset leaves the config file's backend (or the default) in place
+      backend: process.env.STORAGE_BACKEND as StorageBackend,
+      contentAddressedAssets: process.env.CONTENT_ADDRESSED_ASSETS
+        ? process.env.CONTENT_ADDRESSED_ASSETS === 'true'
+        : undefined,
     },
     server: {
       name: process.env.SERVER_NAME || 'astralismotion-rive-mcp',
       version: process.env.SERVER_VERSION || '0.1.0',
       port: process.env.SERVER_PORT ? parseInt(process.env.SERVER_PORT, 10) : undefined,
+      host: process.env.SERVER_HOST,
+      transport: process.env.SERVER_TRANSPORT as ServerTransport,
+      sessionIdleTimeoutMs: process.env.SESSION_IDLE_TIMEOUT_MS
+        ? parseInt(process.env.SESSION_IDLE_TIMEOUT_MS, 10)
+        : undefined,
+      allowedOrigins: process.env.ALLOWED_ORIGINS
+        ? process.env.ALLOWED_ORIGINS.split(',').map((origin) => origin.trim()).filter(Boolean)
+        : undefined,
     },
     logging: {
       level: (process.env.LOG_LEVEL as any) || 'info',
@@ -55,6 +75,18 @@ export function loadEnvironmentConfig(): Partial<ServerConfig> {
       manifestUrl: process.env.REMOTE_MANIFEST_URL,
       assetBaseUrl: process.env.REMOTE_ASSET_BASE_URL,
       timeout: process.env.REMOTE_TIMEOUT ? parseInt(process.env.REMOTE_TIMEOUT, 10) : undefined,
+      writable: process.env.REMOTE_WRITABLE ? process.env.REMOTE_WRITABLE === 'true' : undefined,
+    };
+  }
+
+  // Layered storage: each layer uses the section above for its backend
+  if (process.env.STORAGE_LAYERS) {
+    config.storage!.layered = {
+      layers: process.env.STORAGE_LAYERS.split(',')
+        .map((layer) => layer.trim())
+        .filter(Boolean)
+        .map((backend) => ({ backend: backend as StorageLayerBackend })),
+      writeLayer: process.env.STORAGE_WRITE_LAYER,
     };
   }
 
@@ -65,6 +97,19 @@ export function loadEnvironmentConfig(): Partial<ServerConfig> {
     };
   }
 
+  // Worker pool for parsing and rendering
+  if (process.env.PARSE_WORKERS !== undefined) {
+    config.runtime = {
+      ...config.runtime,
+      parsePool: {
+        workers: parseInt(process.env.PARSE_WORKERS, 10),
+        timeoutMs: process.env.PARSE_TIMEOUT_MS ? parseInt(process.env.PARSE_TIMEOUT_MS, 10) : undefined,
+        maxMemoryMb: process.env.PARSE_WORKER_MEMORY_MB ? parseInt(process.env.PARSE_WORKER_MEMORY_MB, 10) : undefined,
+        maxJobsPerWorker: process.env.PARSE_WORKER_MAX_JOBS ? parseInt(process.env.PARSE_WORKER_MAX_JOBS, 10) : undefined,
+      },
+    };
+  }
+
   // Indexing configuration
   if (process.env.AUTO_INDEX !== undefined) {
     config.indexing = {
@@ -75,9 +120,36 @@ export function loadEnvironmentConfig(): Partial<ServerConfig> {
     };
   }
 
+  // Telemetry tools configuration
+  if (process.env.TELEMETRY_ENABLED !== undefined) {
+    config.telemetry = {
+      enabled: process.env.TELEMETRY_ENABLED === 'true',
+      storage: process.env.TELEMETRY_STORAGE as TelemetryStorageType,
+    };
+  }
+
+  // Tool profile and path sandboxing
+  if (process.env.TOOL_PROFILE || process.env.READ_ROOTS !== undefined || process.env.WRITE_ROOTS !== undefined) {
+    config.security = {
+      profile: process.env.TOOL_PROFILE as ToolProfile,
+      readRoots: parsePathList(process.env.READ_ROOTS),
+      writeRoots: parsePathList(process.env.WRITE_ROOTS),
+    };
+  }
+
   return config;
 }
 
+/**
+ * Split a PATH-style list; an empty string yields an empty list
+ */
+function parsePathList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.split(path.delimiter).filter(Boolean);
+}
+
 /**
  * Load configuration from a JSON file
  */
@@ -120,6 +192,12 @@ export function getDefaultConfig(): ServerConfig {
         enableCaching: true,
         cacheSize: 50 * 1024 * 1024, // 50 MB
       },
+      parsePool: {
+        workers: 2,
+        timeoutMs: 30000,
+        maxMemoryMb: 512,
+        maxJobsPerWorker: 100,
+      },
     },
     indexing: {
       autoIndex: true,
@@ -134,6 +212,13 @@ export function getDefaultConfig(): ServerConfig {
       name: 'astralismotion-rive-mcp',
       version: '0.1.0',
     },
+    telemetry: {
+      enabled: false,
+      storage: 'memory',
+    },
+    security: {
+      profile: 'read-write',
+    },
     logging: {
       level: 'info',
       format: 'text',
@@ -192,27 +277,82 @@ export function validateConfig(config: ServerConfig): void {
     throw new Error('Storage backend must be specified');
   }
 
-  const backend = config.storage.backend;
+  if (config.storage.backend === 'layered') {
+    const layers = config.storage.layered?.layers;
+    if (!layers?.length) {
+      throw new Error('Layered storage requires at least one layer');
+    }
+    for (const layer of layers) {
+      validateStorageBackend(layer.backend, { ...config.storage, ...layer });
+    }
+    const writeLayer = config.storage.layered!.writeLayer;
+    if (writeLayer !== undefined && !layers.some((layer) => (layer.name || layer.backend) === writeLayer)) {
+      throw new Error(`Unknown storage write layer: ${writeLayer}`);
+    }
+  } else {
+    validateStorageBackend(config.storage.backend, config.storage);
+  }
+
+  // Validate telemetry storage
+  const telemetryStorage = config.telemetry?.storage;
+  if (telemetryStorage && !['memory', 'timeseries'].includes(telemetryStorage)) {
+    throw new Error(`Unknown telemetry storage: ${telemetryStorage}`);
+  }
+
+  // Validate tool profile
+  const profile = config.security?.profile;
+  if (profile && !['read-only', 'read-write'].includes(profile)) {
+    throw new Error(`Unknown tool profile: ${profile}`);
+  }
+
+  // Validate the parse worker pool
+  const parsePool = config.runtime?.parsePool;
+  if (parsePool) {
+    for (const key of ['workers', 'timeoutMs', 'maxMemoryMb', 'maxJobsPerWorker'] as const) {
+      const value = parsePool[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < (key === 'workers' ? 0 : 1))) {
+        throw new Error(`Invalid parse pool ${key}: ${value}`);
+      }
+    }
+  }
+
+  // Validate server transport
+  const transport = config.server?.transport;
+  if (transport && !['stdio', 'sse', 'http'].includes(transport)) {
+    throw new Error(`Unknown server transport: ${transport}`);
+  }
+  const idleTimeout = config.server?.sessionIdleTimeoutMs;
+  if (idleTimeout !== undefined && (!Number.isInteger(idleTimeout) || idleTimeout < 0)) {
+    throw new Error(`Invalid session idle timeout: ${idleTimeout}`);
+  }
+  const allowedOrigins = config.server?.allowedOrigins;
+  if (allowedOrigins !== undefined && !Array.isArray(allowedOrigins)) {
+    throw new Error('server.allowedOrigins must be a list of origins');
+  }
+}
 
-  // Validate backend-specific configuration
+/**
+ * Validate backend-specific configuration
+ */
+function validateStorageBackend(backend: StorageBackend, storage: Omit<StorageConfig, 'backend'>): void {
   switch (backend) {
     case 'local':
-      if (!config.storage.local?.basePath) {
+      if (!storage.local?.basePath) {
         throw new Error('Local storage requires basePath configuration');
       }
       break;
 
     case 's3':
-      if (!config.storage.s3?.bucket) {
+      if (!storage.s3?.bucket) {
         throw new Error('S3 storage requires bucket configuration');
       }
-      if (!config.storage.s3?.region) {
+      if (!storage.s3?.region) {
         throw new Error('S3 storage requires region configuration');
       }
       break;
 
     case 'remote':
-      if (!config.storage.remote?.manifestUrl) {
+      if (!storage.remote?.manifestUrl) {
         throw new Error('Remote storage requires manifestUrl configuration');
       }
       break;
@@ -3,6 +3,7 @@ import { generateReact } from "./templates/react.template";
 import { generateVue } from "./templates/vue.template";
 import { generateStencil } from "./templates/stencil.template";
 import { toPascalCase } from "./utils";
+import { OperationOptions, throwIfCancelled } from "../utils/progress";
 
 /**
  * Registry of framework generators
@@ -50,12 +51,19 @@ export async function generateWrapper(
  * Generates wrappers for all supported frameworks
  */
 export async function generateAllWrappers(
-  context: Omit<GeneratorContext, "framework">
+  context: Omit<GeneratorContext, "framework">,
+  options: OperationOptions = {}
 ): Promise<GeneratedComponent[]> {
   const frameworks: TargetFramework[] = ["react", "vue", "stencil"];
   const results: GeneratedComponent[] = [];
 
-  for (const framework of frameworks) {
+  for (const [index, framework] of frameworks.entries()) {
+    throwIfCancelled(options.signal);
+    options.onProgress?.({
+      progress: index,
+      total: frameworks.length,
+      message: `generating ${framework}`,
+    });
     const fullContext: GeneratorContext = {
       ...context,
       framework,
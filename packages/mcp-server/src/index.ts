@@ -1,279 +1,33 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { listLibraries } from "./tools/listLibraries.js";
-import { listComponents } from "./tools/listComponents.js";
-import { getComponentDetail } from "./tools/getComponentDetail.js";
-import { getRuntimeSurface } from "./tools/getRuntimeSurface.js";
-import { generateWrapper } from "./tools/generateWrapper.js";
-import { composeScene } from "./tools/composeScene.js";
-import { importRiveFile } from "./tools/importRiveFile.js";
+import { createServer } from "./server.js";
+import { initializeConfig } from "./config/index.js";
+import { initializeStorage, LayeredStorage } from "./storage/index.js";
+import { createTelemetryTools, createToolRegistry, ToolDefinition, ToolListing } from "./tools/index.js";
+import type { TelemetryService } from "@astralismotion/telemetry-service";
+import { startTransport, RunningTransport } from "./transport/index.js";
+import { setPathPolicy } from "./utils/pathPolicy.js";
+import { importLegacyLibraries, getStorageConfig } from "./utils/storage.js";
+import { setParsePool } from "./utils/parsePool.js";
 import { logger } from "./utils/logger.js";
 
-const server = new Server(
-  {
-    name: "astralismotion-rive-mcp",
-    version: "0.1.0"
-  },
-  {
-    capabilities: {
-      tools: {}
-    }
-  }
-);
-
-// Register tool list handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  logger.debug('ListTools request received');
-  return {
-    tools: [
-      {
-        name: "list_libraries",
-        description: "List all available Rive libraries with optional filtering by tags or search query",
-        inputSchema: {
-          type: "object",
-          properties: {
-            tags: {
-              type: "array",
-              items: { type: "string" },
-              description: "Filter by tags"
-            },
-            search: {
-              type: "string",
-              description: "Search query for library name or description"
-            }
-          }
-        }
-      },
-      {
-        name: "list_components",
-        description: "List Rive components with optional filtering",
-        inputSchema: {
-          type: "object",
-          properties: {
-            libraryId: {
-              type: "string",
-              description: "Filter by library ID"
-            },
-            tags: {
-              type: "array",
-              items: { type: "string" },
-              description: "Filter by tags"
-            },
-            search: {
-              type: "string",
-              description: "Search query"
-            }
-          }
-        }
-      },
-      {
-        name: "get_component_detail",
-        description: "Get detailed information about a specific Rive component",
-        inputSchema: {
-          type: "object",
-          properties: {
-            id: {
-              type: "string",
-              description: "Component ID"
-            }
-          },
-          required: ["id"]
-        }
-      },
-      {
-        name: "get_runtime_surface",
-        description: "Extract runtime surface information from a Rive component (state machines, inputs, events)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            componentId: {
-              type: "string",
-              description: "Component ID"
-            }
-          },
-          required: ["componentId"]
-        }
-      },
-      {
-        name: "generate_wrapper",
-        description: "Generate framework-specific wrapper components for Rive animations",
-        inputSchema: {
-          type: "object",
-          properties: {
-            surface: {
-              type: "object",
-              description: "Runtime surface data"
-            },
-            framework: {
-              type: "string",
-              enum: ["react", "vue", "stencil", "all"],
-              description: "Target framework"
-            },
-            riveSrc: {
-              type: "string",
-              description: "Path to Rive file"
-            },
-            componentName: {
-              type: "string",
-              description: "Component name"
-            },
-            outputPath: {
-              type: "string",
-              description: "Output path for generated files"
-            },
-            writeToFile: {
-              type: "boolean",
-              description: "Whether to write to file system"
-            }
-          },
-          required: ["surface", "riveSrc"]
-        }
-      },
-      {
-        name: "compose_scene",
-        description: "Compose a scene from multiple Rive components with orchestration",
-        inputSchema: {
-          type: "object",
-          properties: {
-            name: {
-              type: "string",
-              description: "Scene name"
-            },
-            description: {
-              type: "string",
-              description: "Scene description"
-            },
-            components: {
-              type: "array",
-              items: {
-                type: "object"
-              },
-              description: "Components to include in the scene"
-            },
-            orchestration: {
-              type: "object",
-              description: "Orchestration rules (timeline, rules)"
-            }
-          },
-          required: ["name", "components"]
-        }
-      },
-      {
-        name: "import_rive_file",
-        description: "Import a .riv file and auto-generate manifest from it. Accepts file path and extracts all metadata automatically.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            filePath: {
-              type: "string",
-              description: "Absolute path to the .riv file"
-            },
-            libraryId: {
-              type: "string",
-              description: "Optional library ID (defaults to 'imported-components')"
-            },
-            componentName: {
-              type: "string",
-              description: "Optional component name (defaults to filename)"
-            },
-            componentId: {
-              type: "string",
-              description: "Optional component ID (defaults to filename)"
-            }
-          },
-          required: ["filePath"]
-        }
-      }
-    ]
-  };
-});
-
-// Register tool call handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  logger.info('Tool call received', {
-    tool: name,
-    hasArguments: Boolean(args && Object.keys(args).length > 0)
-  });
-
-  try {
-    let result;
-
-    switch (name) {
-      case "list_libraries":
-        result = await listLibraries(args || {});
-        break;
-      case "list_components":
-        result = await listComponents(args || {});
-        break;
-      case "get_component_detail":
-        result = await getComponentDetail(args as any);
-        break;
-      case "get_runtime_surface":
-        result = await getRuntimeSurface(args as any);
-        break;
-      case "generate_wrapper":
-        result = await generateWrapper(args as any);
-        break;
-      case "compose_scene":
-        result = await composeScene(args as any);
-        break;
-      case "import_rive_file":
-        result = await importRiveFile(args as any);
-        break;
-      default:
-        logger.warn('Unknown tool requested', { tool: name });
-        throw new Error(`Unknown tool: ${name}`);
-    }
-
-    logger.debug('Tool call completed', {
-      tool: name,
-      status: result.status || 'unknown'
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(result, null, 2)
-        }
-      ]
-    };
-  } catch (error) {
-    logger.error('Tool call failed', {
-      tool: name,
-      error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            status: "error",
-            error: {
-              message: error instanceof Error ? error.message : String(error)
-            }
-          }, null, 2)
-        }
-      ],
-      isError: true
-    };
+// Resolve config file path from --config or CONFIG_PATH
+function resolveConfigPath(): string | undefined {
+  const args = process.argv.slice(2);
+  const configPathIndex = args.indexOf("--config");
+  if (configPathIndex !== -1 && args[configPathIndex + 1]) {
+    return args[configPathIndex + 1];
   }
-});
+  return process.env.CONFIG_PATH;
+}
 
 // Output connection configuration for consumers
-function outputConnectionConfig() {
+function outputConnectionConfig(transport: RunningTransport, tools: ToolListing[]) {
   const serverPath = process.argv[1] || __filename;
+  const serverEntry = transport.url
+    ? { url: transport.url }
+    : { command: "node", args: [serverPath] };
   const config = {
     mcpServers: {
-      "astralismotion-rive-mcp": {
-        command: "node",
-        args: [serverPath]
-      }
+      "astralismotion-rive-mcp": serverEntry
     }
   };
 
@@ -287,29 +41,122 @@ function outputConnectionConfig() {
   console.error(JSON.stringify(config, null, 2));
   console.error("\n" + "=".repeat(80));
   console.error("Available Tools:");
-  console.error("  • import_rive_file     - Import .riv file and auto-generate manifest");
-  console.error("  • list_libraries       - List all Rive libraries");
-  console.error("  • list_components      - List Rive components");
-  console.error("  • get_component_detail - Get component details");
-  console.error("  • get_runtime_surface  - Extract state machines & inputs");
-  console.error("  • generate_wrapper     - Generate React/Vue/Stencil wrappers");
-  console.error("  • compose_scene        - Compose multi-component scenes");
+  const width = Math.max(...tools.map((tool) => tool.name.length));
+  for (const tool of tools) {
+    // The first sentence of the description is enough for a summary
+    console.error(`  • ${tool.name.padEnd(width)} - ${tool.description.split(/\.(?:\s+(?=[A-Z])|$)/)[0]}`);
+  }
+  console.error("=".repeat(80));
+  console.error("Available Resources:");
+  console.error("  • rive://library/{id}");
+  console.error("  • rive://component/{id}/manifest");
+  console.error("  • rive://component/{id}/surface");
+  console.error("  • rive://component/{id}/asset");
+  console.error("=".repeat(80));
+  console.error("Available Prompts:");
+  console.error("  • wrap-component           - Generate a wrapper from manifest + surface");
+  console.error("  • compose-scene-from-brief - Compose a scene from a creative brief");
+  console.error("  • audit-component          - Audit a component's runtime surface");
   console.error("=".repeat(80));
-  console.error("\n✓ Server ready and listening on stdio\n");
+  console.error(`\n✓ Server ready and listening on ${transport.url || "stdio"}\n`);
+}
+
+// Close sessions, the listener and telemetry before exiting
+function registerShutdownHandlers(transport: RunningTransport, telemetry?: TelemetryService) {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    logger.info('Shutting down MCP server', {
+      signal,
+      mode: transport.mode,
+      sessions: transport.sessionCount()
+    });
+
+    try {
+      await transport.close();
+      await telemetry?.shutdown();
+      await setParsePool(null);
+    } catch (error) {
+      logger.error('Error during shutdown', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    logger.close();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
 }
 
 // Start server
-const transport = new StdioServerTransport();
-logger.info('Starting MCP server', {
-  serverName: 'astralismotion-rive-mcp',
-  version: '0.1.0',
-  logLevel: logger.getLevel()
-});
+async function main() {
+  const config = await initializeConfig(resolveConfigPath());
+  const storage = await initializeStorage(config);
+
+  logger.info('Starting MCP server', {
+    serverName: 'astralismotion-rive-mcp',
+    version: '0.1.0',
+    logLevel: logger.getLevel(),
+    storageBackend: storage.getBackendType(),
+    ...(storage instanceof LayeredStorage && { storageLayers: storage.getLayers() })
+  });
+
+  const legacyLibraries = await importLegacyLibraries();
+  if (legacyLibraries.length > 0) {
+    logger.info('Imported legacy library manifests into storage', {
+      libraries: legacyLibraries,
+      manifestsPath: getStorageConfig().manifestsPath
+    });
+  }
+
+  // telemetry-service is only loaded when telemetry is enabled
+  let telemetry: TelemetryService | undefined;
+  let telemetryTools: ToolDefinition[] = [];
+  if (config.telemetry?.enabled) {
+    const { createTelemetryService, createTelemetryToolsContext } = await import("@astralismotion/telemetry-service");
+    telemetry = createTelemetryService({
+      enabled: true,
+      storage: { type: config.telemetry.storage || 'memory' },
+    });
+    telemetryTools = await createTelemetryTools(createTelemetryToolsContext(telemetry));
+    logger.info('Telemetry tools enabled', { storage: config.telemetry.storage || 'memory' });
+  }
+
+  const security = config.security || {};
+  setPathPolicy({ readRoots: security.readRoots, writeRoots: security.writeRoots });
+  logger.info('Tool profile', {
+    profile: security.profile || 'read-write',
+    readRoots: security.readRoots || 'unrestricted',
+    writeRoots: security.writeRoots || 'unrestricted'
+  });
+
+  // Keep the Rive runtime and its DOM globals in worker threads
+  const { workers = 0, ...parsePool } = config.runtime?.parsePool || {};
+  await setParsePool(workers > 0 ? { size: workers, ...parsePool } : null);
+  logger.info('Rive parse pool', workers > 0 ? { workers, ...parsePool } : { workers: 'in process' });
+
+  const transport = await startTransport(config, () =>
+    createServer({ tools: telemetryTools, profile: security.profile })
+  );
+  logger.info('MCP server connected successfully', {
+    mode: transport.mode,
+    url: transport.url
+  });
+
+  registerShutdownHandlers(transport, telemetry);
+  // The tools a session gets, from the same registry the server builds
+  const tools = createToolRegistry({ tools: telemetryTools, profile: security.profile }).list();
+  outputConnectionConfig(transport, tools);
+}
 
-server.connect(transport).then(() => {
-  logger.info('MCP server connected successfully');
-  outputConnectionConfig();
-}).catch((error) => {
+main().catch((error) => {
   logger.error('Failed to start server', {
     error: error instanceof Error ? error.message : String(error),
     stack: error instanceof Error ? error.stack : undefined
@@ -0,0 +1,208 @@
+/**
+ * MCP prompt handlers
+ * Publishes reusable prompts for common motion workflows, expanded with live manifest and runtime surface data
+ */
+
+import { buildResourceUri, readResource, RiveResourceContents } from '../resources';
+import { getAllComponents } from '../utils/storage';
+import { logger } from '../utils/logger';
+
+export interface RivePromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface RivePrompt {
+  name: string;
+  description?: string;
+  arguments?: RivePromptArgument[];
+}
+
+export type RivePromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: RiveResourceContents };
+
+export interface RivePromptMessage {
+  role: 'user' | 'assistant';
+  content: RivePromptContent;
+}
+
+export interface RivePromptResult {
+  description?: string;
+  messages: RivePromptMessage[];
+}
+
+const FRAMEWORKS = ['react', 'vue', 'stencil'];
+
+const PROMPTS: RivePrompt[] = [
+  {
+    name: 'wrap-component',
+    description: 'Generate a framework wrapper for a Rive component from its manifest and runtime surface',
+    arguments: [
+      { name: 'componentId', description: 'Component ID', required: true },
+      { name: 'framework', description: `Target framework (${FRAMEWORKS.join(', ')}); defaults to react` },
+    ],
+  },
+  {
+    name: 'compose-scene-from-brief',
+    description: 'Compose a multi-component scene from a creative brief',
+    arguments: [
+      { name: 'brief', description: 'Creative brief describing the scene', required: true },
+      { name: 'componentIds', description: 'Comma-separated component IDs to use; defaults to the whole catalog' },
+    ],
+  },
+  {
+    name: 'audit-component',
+    description: 'Audit a Rive component for runtime surface issues and integration risks',
+    arguments: [{ name: 'componentId', description: 'Component ID', required: true }],
+  },
+];
+
+/**
+ * List available prompts
+ */
+export function listPrompts(): RivePrompt[] {
+  return PROMPTS;
+}
+
+/**
+ * Expand a prompt with its arguments
+ */
+export async function getPrompt(name: string, args: Record<string, string> = {}): Promise<RivePromptResult> {
+  logger.info('getPrompt called', { name, args });
+
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  for (const argument of prompt.arguments || []) {
+    if (argument.required && !args[argument.name]) {
+      throw new Error(`Missing required argument '${argument.name}' for prompt '${name}'`);
+    }
+  }
+
+  switch (name) {
+    case 'wrap-component':
+      return wrapComponentPrompt(args.componentId, args.framework || 'react');
+    case 'compose-scene-from-brief':
+      return composeScenePrompt(args.brief, args.componentIds);
+    case 'audit-component':
+      return auditComponentPrompt(args.componentId);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
+
+async function wrapComponentPrompt(componentId: string, framework: string): Promise<RivePromptResult> {
+  if (!FRAMEWORKS.includes(framework)) {
+    throw new Error(`Unsupported framework '${framework}'. Expected one of: ${FRAMEWORKS.join(', ')}`);
+  }
+
+  return {
+    description: `Generate a ${framework} wrapper for ${componentId}`,
+    messages: [
+      textMessage(
+        [
+          `Generate a ${framework} wrapper component for the Rive component "${componentId}".`,
+          'Use the attached manifest and runtime surface as the source of truth:',
+          '- expose every state machine input as a typed prop (bool → boolean, number → number, trigger → imperative method)',
+          '- expose every event as an on<EventName> callback',
+          '- do not invent inputs or events that are not in the runtime surface',
+          `Call the generate_wrapper tool with framework "${framework}" and the attached surface when you are ready.`,
+        ].join('\n')
+      ),
+      ...(await componentMessages(componentId)),
+    ],
+  };
+}
+
+async function composeScenePrompt(brief: string, componentIds?: string): Promise<RivePromptResult> {
+  let ids = (componentIds || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (ids.length === 0) {
+    ids = (await getAllComponents()).map(({ component }) => component.id);
+  }
+
+  const messages: RivePromptMessage[] = [
+    textMessage(
+      [
+        'Compose a Rive scene for the following brief:',
+        '',
+        brief,
+        '',
+        `Available components: ${ids.length > 0 ? ids.join(', ') : '(none)'}`,
+        'Only drive inputs and listen to events that exist in the attached runtime surfaces.',
+        'Call the compose_scene tool with the resulting components and orchestration.',
+      ].join('\n')
+    ),
+  ];
+
+  for (const id of ids) {
+    messages.push(...(await componentMessages(id)));
+  }
+
+  return {
+    description: 'Compose a scene from a creative brief',
+    messages,
+  };
+}
+
+async function auditComponentPrompt(componentId: string): Promise<RivePromptResult> {
+  return {
+    description: `Audit ${componentId}`,
+    messages: [
+      textMessage(
+        [
+          `Audit the Rive component "${componentId}" using the attached manifest and runtime surface.`,
+          'Report:',
+          '- inputs or events referenced in the manifest but missing from the runtime surface (and vice versa)',
+          '- state machines without inputs, or inputs with unclear names or missing defaults',
+          '- artboard sizes that are unusual for the component category',
+          '- anything that would make a generated wrapper hard to use',
+          'Classify each finding as error, warning or info.',
+        ].join('\n')
+      ),
+      ...(await componentMessages(componentId)),
+    ],
+  };
+}
+
+/**
+ * Embed a component's manifest and runtime surface as resource messages
+ */
+async function componentMessages(componentId: string): Promise<RivePromptMessage[]> {
+  const [manifest] = await readResource(buildResourceUri('manifest', componentId));
+  const messages: RivePromptMessage[] = [resourceMessage(manifest)];
+
+  try {
+    const [surface] = await readResource(buildResourceUri('surface', componentId));
+    messages.push(resourceMessage(surface));
+  } catch (error) {
+    logger.warn('Runtime surface unavailable for prompt', {
+      componentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    messages.push(
+      textMessage(
+        `Runtime surface for "${componentId}" could not be parsed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      )
+    );
+  }
+
+  return messages;
+}
+
+function textMessage(text: string): RivePromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function resourceMessage(resource: RiveResourceContents): RivePromptMessage {
+  return { role: 'user', content: { type: 'resource', resource } };
+}
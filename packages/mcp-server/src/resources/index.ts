@@ -0,0 +1,227 @@
+/**
+ * MCP resource handlers
+ * Exposes libraries, component manifests, runtime surfaces and .riv assets as rive:// URIs
+ */
+
+import { getAllLibraries, getLibraryById, getComponentById, readComponentAsset } from '../utils/storage';
+import { getRuntimeSurface } from '../tools/getRuntimeSurface';
+import { logger } from '../utils/logger';
+
+export const RESOURCE_SCHEME = 'rive://';
+
+export type RiveResourceKind = 'library' | 'manifest' | 'surface' | 'asset';
+
+export interface RiveResourceRef {
+  kind: RiveResourceKind;
+  id: string;
+}
+
+export interface RiveResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface RiveResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface RiveResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+const JSON_MIME_TYPE = 'application/json';
+const RIVE_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Build the URI for a resource
+ */
+export function buildResourceUri(kind: RiveResourceKind, id: string): string {
+  const encodedId = encodeURIComponent(id);
+  if (kind === 'library') {
+    return `${RESOURCE_SCHEME}library/${encodedId}`;
+  }
+  return `${RESOURCE_SCHEME}component/${encodedId}/${kind}`;
+}
+
+/**
+ * Parse a rive:// URI into a resource reference
+ * Returns null if the URI does not match any known resource shape
+ */
+export function parseResourceUri(uri: string): RiveResourceRef | null {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    return null;
+  }
+
+  const segments = uri.slice(RESOURCE_SCHEME.length).split('/');
+
+  if (segments.length === 2 && segments[0] === 'library' && segments[1]) {
+    return { kind: 'library', id: decodeURIComponent(segments[1]) };
+  }
+
+  if (segments.length === 3 && segments[0] === 'component' && segments[1]) {
+    const kind = segments[2];
+    if (kind === 'manifest' || kind === 'surface' || kind === 'asset') {
+      return { kind, id: decodeURIComponent(segments[1]) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List resource templates
+ */
+export function listResourceTemplates(): RiveResourceTemplate[] {
+  return [
+    {
+      uriTemplate: `${RESOURCE_SCHEME}library/{id}`,
+      name: 'Rive library',
+      description: 'Library manifest including its component list',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      uriTemplate: `${RESOURCE_SCHEME}component/{id}/manifest`,
+      name: 'Rive component manifest',
+      description: 'Component manifest with its library reference',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      uriTemplate: `${RESOURCE_SCHEME}component/{id}/surface`,
+      name: 'Rive component runtime surface',
+      description: 'Artboards, state machines, inputs and events parsed from the .riv asset',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      uriTemplate: `${RESOURCE_SCHEME}component/{id}/asset`,
+      name: 'Rive component asset',
+      description: 'Raw .riv file (base64 encoded)',
+      mimeType: RIVE_MIME_TYPE,
+    },
+  ];
+}
+
+/**
+ * List all concrete resources across libraries and components
+ */
+export async function listResources(): Promise<RiveResource[]> {
+  const libraries = await getAllLibraries();
+  const resources: RiveResource[] = [];
+
+  for (const { library } of libraries) {
+    resources.push({
+      uri: buildResourceUri('library', library.id),
+      name: library.name,
+      description: library.description,
+      mimeType: JSON_MIME_TYPE,
+    });
+
+    for (const component of library.components) {
+      resources.push(
+        {
+          uri: buildResourceUri('manifest', component.id),
+          name: `${component.name} manifest`,
+          description: component.description,
+          mimeType: JSON_MIME_TYPE,
+        },
+        {
+          uri: buildResourceUri('surface', component.id),
+          name: `${component.name} runtime surface`,
+          mimeType: JSON_MIME_TYPE,
+        },
+        {
+          uri: buildResourceUri('asset', component.id),
+          name: `${component.name} .riv asset`,
+          mimeType: RIVE_MIME_TYPE,
+        }
+      );
+    }
+  }
+
+  logger.debug(`Listed ${resources.length} resources`);
+  return resources;
+}
+
+/**
+ * Read a resource by URI
+ */
+export async function readResource(uri: string): Promise<RiveResourceContents[]> {
+  logger.info('readResource called', { uri });
+
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+
+  if (ref.kind === 'library') {
+    const libraryManifest = await getLibraryById(ref.id);
+    if (!libraryManifest) {
+      throw new Error(`Library with ID '${ref.id}' not found`);
+    }
+    return [jsonContents(uri, libraryManifest.library)];
+  }
+
+  const componentManifest = await getComponentById(ref.id);
+  if (!componentManifest) {
+    throw new Error(`Component with ID '${ref.id}' not found`);
+  }
+
+  const { component, library } = componentManifest;
+
+  switch (ref.kind) {
+    case 'manifest':
+      return [
+        jsonContents(uri, {
+          ...component,
+          library: {
+            id: library.id,
+            name: library.name,
+            version: library.version,
+          },
+        }),
+      ];
+
+    case 'surface': {
+      const result = await getRuntimeSurface({ componentId: component.id });
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || 'Failed to read runtime surface');
+      }
+      return [jsonContents(uri, result.data)];
+    }
+
+    case 'asset': {
+      try {
+        const data = await readComponentAsset(component);
+        return [
+          {
+            uri,
+            mimeType: RIVE_MIME_TYPE,
+            blob: data.toString('base64'),
+          },
+        ];
+      } catch (error) {
+        logger.warn('Failed to read asset for resource', {
+          uri,
+          filePath: component.filePath,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw new Error(`Asset for component '${component.id}' not found`);
+      }
+    }
+  }
+}
+
+function jsonContents(uri: string, data: unknown): RiveResourceContents {
+  return {
+    uri,
+    mimeType: JSON_MIME_TYPE,
+    text: JSON.stringify(data, null, 2),
+  };
+}
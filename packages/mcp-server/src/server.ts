@@ -0,0 +1,171 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createToolRegistry, ToolRegistryOptions } from "./tools/index.js";
+import { listResources, listResourceTemplates, readResource } from "./resources/index.js";
+import { listPrompts, getPrompt } from "./prompts/index.js";
+import { logger } from "./utils/logger.js";
+import { ProgressUpdate } from "./utils/progress.js";
+
+export type ServerOptions = ToolRegistryOptions;
+
+/**
+ * Create an MCP server with all tool, resource and prompt handlers registered
+ * Each transport session gets its own server instance; parsing state is shared process-wide
+ */
+export function createServer(options: ServerOptions = {}): Server {
+  const server = new Server(
+    {
+      name: "astralismotion-rive-mcp",
+      version: "0.1.0"
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {}
+      }
+    }
+  );
+
+  const tools = createToolRegistry(options);
+
+  // Register tool list handler
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    logger.debug('ListTools request received');
+    return {
+      tools: tools.list()
+    };
+  });
+
+  // Register tool call handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+
+    logger.info('Tool call received', {
+      tool: name,
+      hasArguments: Boolean(args && Object.keys(args).length > 0),
+      progressToken
+    });
+
+    // Only clients that asked for progress (via _meta.progressToken) receive notifications
+    const onProgress = progressToken === undefined
+      ? undefined
+      : (update: ProgressUpdate) => {
+          server
+            .notification({
+              method: "notifications/progress",
+              params: { progressToken, ...update }
+            })
+            .catch((error) => {
+              logger.warn('Failed to send progress notification', {
+                tool: name,
+                error: error instanceof Error ? error.message : String(error)
+              });
+            });
+        };
+
+    try {
+      const result = await tools.call(name, args || {}, { signal: extra.signal, onProgress });
+
+      logger.debug('Tool call completed', {
+        tool: name,
+        status: result.status || 'unknown'
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      logger.error('Tool call failed', {
+        tool: name,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              status: "error",
+              error: {
+                message: error instanceof Error ? error.message : String(error)
+              }
+            }, null, 2)
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  // Register resource handlers
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    logger.debug('ListResources request received');
+    return {
+      resources: await listResources()
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    logger.debug('ListResourceTemplates request received');
+    return {
+      resourceTemplates: listResourceTemplates()
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+
+    try {
+      return {
+        contents: await readResource(uri)
+      };
+    } catch (error) {
+      logger.error('Resource read failed', {
+        uri,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  });
+
+  // Register prompt handlers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    logger.debug('ListPrompts request received');
+    return {
+      prompts: listPrompts()
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      const result = await getPrompt(name, args || {});
+      return { ...result };
+    } catch (error) {
+      logger.error('Prompt expansion failed', {
+        prompt: name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  });
+
+  return server;
+}
@@ -7,18 +7,59 @@ import {
   ICache,
   StorageReadOptions,
   StorageWriteOptions,
+  StorageDeleteOptions,
   StorageListOptions,
   StorageMetadata,
+  AssetGarbageCollectionOptions,
+  AssetGarbageCollectionResult,
+  ComponentVersionInfo,
+  ComponentVersionHistory,
   RiveComponentManifest,
   RiveLibraryManifest,
   ManifestIndex,
 } from '../../../../libs/types';
+import { createHash } from 'crypto';
 import { MemoryCache } from './cache';
+import { isStorageConflictError, ComponentVersionError } from './errors';
+import { isSemver, compareSemver, componentVersionPath, componentVersionHistoryPath } from './versions';
+
+const INDEX_PATH = 'index.json';
+/** Compare-and-swap attempts at an update before the conflict is raised */
+const UPDATE_ATTEMPTS = 8;
+/** Unreferenced blobs younger than this may be about to be referenced by an import in progress */
+const DEFAULT_GC_GRACE_PERIOD_MS = 60 * 60 * 1000;
+/** A tombstone older than this was left behind by a garbage collection that crashed */
+const STALE_TOMBSTONE_MS = 10 * 60 * 1000;
+
+const CONTENT_ADDRESSED_KEY = /^sha256\/([0-9a-f]{64})\.\w+$/;
+
+/**
+ * The sha256 a content-addressed asset key (`sha256/<hash>.riv`) names, if it is one
+ */
+export function contentAddressedHash(assetKey: string | undefined): string | undefined {
+  return assetKey ? CONTENT_ADDRESSED_KEY.exec(assetKey)?.[1] : undefined;
+}
+
+/**
+ * Preconditions for a raw write or delete
+ * Backends without etags ignore them.
+ */
+export interface RawWriteConditions {
+  ifMatch?: string;
+  /** Only create the file */
+  ifNoneMatch?: '*';
+}
+
+export interface RawReadResult {
+  data: Buffer;
+  etag?: string;
+}
 
 export abstract class BaseStorage implements IStorageBackend {
   protected cache: ICache;
   protected cacheEnabled: boolean;
   protected cacheTTL: number;
+  protected contentAddressedAssets = false;
 
   constructor(cacheEnabled: boolean = true, cacheTTL: number = 300) {
     this.cache = new MemoryCache(cacheTTL);
@@ -29,52 +70,105 @@ export abstract class BaseStorage implements IStorageBackend {
   abstract initialize(): Promise<void>;
   abstract getBackendType(): 'local' | 's3' | 'remote';
 
+  /**
+   * Store assets under their content hash instead of the path they are written to
+   */
+  setContentAddressedAssets(enabled: boolean): void {
+    this.contentAddressedAssets = enabled;
+  }
+
   // Abstract methods that must be implemented by subclasses
   protected abstract readRaw(path: string): Promise<Buffer>;
-  protected abstract writeRaw(path: string, data: Buffer): Promise<void>;
+  // Returns the new etag when the backend has one
+  protected abstract writeRaw(path: string, data: Buffer, conditions?: RawWriteConditions): Promise<string | void>;
   protected abstract listRaw(prefix: string, options?: StorageListOptions): Promise<string[]>;
   protected abstract getMetadataRaw(path: string): Promise<StorageMetadata>;
   protected abstract existsRaw(path: string): Promise<boolean>;
-  protected abstract deleteRaw(path: string): Promise<void>;
+  protected abstract deleteRaw(path: string, conditions?: RawWriteConditions): Promise<void>;
+
+  /**
+   * Read raw data unless it still has the given etag, in which case null is returned
+   * Backends with etags override this; the default always reads.
+   */
+  protected async readRawIfChanged(path: string, _etag?: string): Promise<RawReadResult | null> {
+    return { data: await this.readRaw(path) };
+  }
 
   /**
    * Read JSON data with caching support
    */
   protected async readJSON<T>(path: string, options?: StorageReadOptions): Promise<T> {
-    const cacheKey = `json:${path}`;
+    return this.readThroughCache(`json:${path}`, path, options, (buffer) => JSON.parse(buffer.toString('utf-8')) as T);
+  }
 
-    // Check cache first
-    if (this.cacheEnabled && options?.useCache !== false) {
-      const cached = await this.cache.get<T>(cacheKey);
-      if (cached) {
-        return cached.data;
-      }
+  /**
+   * Write JSON data
+   */
+  protected async writeJSON<T>(path: string, data: T, options?: StorageWriteOptions): Promise<void> {
+    const json = JSON.stringify(data, null, 2);
+    const buffer = Buffer.from(json, 'utf-8');
+    await this.writeThroughCache(`json:${path}`, path, buffer, data, options);
+  }
+
+  /**
+   * Serve fresh cache entries; expired ones with an etag are revalidated instead of refetched
+   */
+  private async readThroughCache<T>(
+    cacheKey: string,
+    path: string,
+    options: StorageReadOptions | undefined,
+    decode: (buffer: Buffer) => T
+  ): Promise<T> {
+    const cached = this.cacheEnabled ? await this.cache.peek<T>(cacheKey) : null;
+
+    if (cached && options?.useCache !== false && !this.cache.isExpired(cached, this.cacheTTL)) {
+      return cached.data;
     }
 
-    // Read from storage
-    const buffer = await this.readRaw(path);
-    const data = JSON.parse(buffer.toString('utf-8')) as T;
+    const result = await this.readRawIfChanged(path, cached?.etag);
+    if (!result) {
+      // Not modified: the cached copy is current again
+      await this.cache.set(cacheKey, cached!.data, cached!.etag);
+      return cached!.data;
+    }
 
-    // Cache the result
+    const data = decode(result.data);
     if (this.cacheEnabled) {
-      await this.cache.set(cacheKey, data);
+      await this.cache.set(cacheKey, data, result.etag);
     }
-
     return data;
   }
 
   /**
-   * Write JSON data
+   * Write, on the given conditions, then cache it
+   * Only writes that pass ifMatch are conditional, such as index updates through compareAndSwapJSON;
+   * other writes replace whatever is stored.
    */
-  protected async writeJSON<T>(path: string, data: T, options?: StorageWriteOptions): Promise<void> {
-    const json = JSON.stringify(data, null, 2);
-    const buffer = Buffer.from(json, 'utf-8');
-    await this.writeRaw(path, buffer);
+  private async writeThroughCache<T>(
+    cacheKey: string,
+    path: string,
+    buffer: Buffer,
+    data: T,
+    options?: StorageWriteOptions
+  ): Promise<void> {
+    const conditions: RawWriteConditions =
+      options?.overwrite === false
+        ? { ifNoneMatch: '*' }
+        : { ifMatch: options?.ifMatch };
+
+    let etag: string | void;
+    try {
+      etag = await this.writeRaw(path, buffer, conditions);
+    } catch (error) {
+      // The cached copy lost the race, so the next read must fetch
+      if (isStorageConflictError(error)) {
+        await this.cache.delete(cacheKey);
+      }
+      throw error;
+    }
 
-    // Update cache
     if (this.cacheEnabled) {
-      const cacheKey = `json:${path}`;
-      await this.cache.set(cacheKey, data);
+      await this.cache.set(cacheKey, data, etag || undefined);
     }
   }
 
@@ -82,7 +176,7 @@ export abstract class BaseStorage implements IStorageBackend {
    * Read the manifest index
    */
   async readIndex(options?: StorageReadOptions): Promise<ManifestIndex> {
-    return this.readJSON<ManifestIndex>('index.json', options);
+    return this.readJSON<ManifestIndex>(INDEX_PATH, options);
   }
 
   /**
@@ -90,7 +184,7 @@ export abstract class BaseStorage implements IStorageBackend {
    */
   async writeIndex(index: ManifestIndex, options?: StorageWriteOptions): Promise<void> {
     index.lastUpdated = new Date().toISOString();
-    await this.writeJSON('index.json', index, options);
+    await this.writeJSON(INDEX_PATH, index, options);
   }
 
   /**
@@ -107,11 +201,14 @@ export abstract class BaseStorage implements IStorageBackend {
   async writeComponentManifest(manifest: RiveComponentManifest, options?: StorageWriteOptions): Promise<void> {
     const path = `components/${manifest.id}/manifest.json`;
     manifest.updatedAt = new Date().toISOString();
+    manifest.assetHash = contentAddressedHash(manifest.riveFile);
     await this.writeJSON(path, manifest, options);
 
     // Update index if requested
     if (options?.updateIndex) {
-      await this.updateIndexWithComponent(manifest);
+      await this.updateIndex((index) => {
+        index.components[manifest.id] = manifest;
+      });
     }
   }
 
@@ -133,7 +230,9 @@ export abstract class BaseStorage implements IStorageBackend {
 
     // Update index if requested
     if (options?.updateIndex) {
-      await this.updateIndexWithLibrary(manifest);
+      await this.updateIndex((index) => {
+        index.libraries[manifest.id] = manifest;
+      });
     }
   }
 
@@ -141,38 +240,134 @@ export abstract class BaseStorage implements IStorageBackend {
    * Read a Rive asset file
    */
   async readAsset(assetPath: string, options?: StorageReadOptions): Promise<Buffer> {
-    const cacheKey = `asset:${assetPath}`;
+    return this.readThroughCache(`asset:${assetPath}`, assetPath, options, (buffer) => buffer);
+  }
 
-    // Check cache first
-    if (this.cacheEnabled && options?.useCache !== false) {
-      const cached = await this.cache.get<Buffer>(cacheKey);
-      if (cached) {
-        return cached.data;
-      }
+  /**
+   * Write a Rive asset file
+   */
+  async writeAsset(assetPath: string, data: Buffer, options?: StorageWriteOptions): Promise<void> {
+    await this.writeThroughCache(`asset:${assetPath}`, assetPath, data, data, options);
+  }
+
+  /**
+   * Store an asset, by content hash when content-addressed assets are enabled
+   * Identical content is stored once; the blob is registered in the index before it is
+   * written so garbage collection leaves it alone until a component references it.
+   */
+  async storeAsset(assetPath: string, data: Buffer): Promise<string> {
+    if (!this.contentAddressedAssets) {
+      await this.writeAsset(assetPath, data);
+      return assetPath;
     }
 
-    // Read from storage
-    const buffer = await this.readRaw(assetPath);
+    const hash = createHash('sha256').update(data).digest('hex');
+    let key = `sha256/${hash}${/\.[^./]+$/.exec(assetPath)?.[0] ?? '.riv'}`;
+    let deleting = false;
+    let revived = false;
+
+    for (let attempt = 1; ; attempt++) {
+      await this.updateIndex((index) => {
+        const assets = (index.assets = index.assets || {});
+        const now = new Date().toISOString();
+        const entry = assets[hash];
+        deleting = false;
+
+        if (!entry) {
+          assets[hash] = { key, size: data.length, refs: [], createdAt: now, unreferencedSince: now };
+          return;
+        }
+        if (entry.deletingSince) {
+          if (Date.parse(entry.deletingSince) > Date.now() - STALE_TOMBSTONE_MS) {
+            deleting = true;
+            return;
+          }
+          // The collection that set it crashed, so the blob may be half gone
+          delete entry.deletingSince;
+          revived = true;
+        }
+        key = entry.key;
+        if (entry.refs.length === 0) {
+          entry.unreferencedSince = now;
+        }
+      });
+
+      if (!deleting) {
+        break;
+      }
+      // Garbage collection is deleting this blob; store it again once the entry is gone
+      await new Promise((resolve) => setTimeout(resolve, Math.min(2 ** attempt * 10, 1000) * (1 + Math.random())));
+    }
 
-    // Cache the result
-    if (this.cacheEnabled) {
-      await this.cache.set(cacheKey, buffer);
+    if (revived) {
+      await this.writeAsset(key, data);
+    } else if (!(await this.existsRaw(key))) {
+      try {
+        await this.writeAsset(key, data, { overwrite: false });
+      } catch (error) {
+        // Another writer stored the same content first
+        if (!isStorageConflictError(error) || error.code !== 'ALREADY_EXISTS') {
+          throw error;
+        }
+      }
     }
 
-    return buffer;
+    return key;
   }
 
   /**
-   * Write a Rive asset file
+   * Remove content-addressed blobs that have been unreferenced for longer than the grace period
+   * Entries are tombstoned before their blobs are deleted and only dropped afterwards, so
+   * storeAsset waits for the deletion instead of reusing a blob that is about to disappear.
    */
-  async writeAsset(assetPath: string, data: Buffer, options?: StorageWriteOptions): Promise<void> {
-    await this.writeRaw(assetPath, data);
+  async collectGarbage(options: AssetGarbageCollectionOptions = {}): Promise<AssetGarbageCollectionResult> {
+    const now = Date.now();
+    const cutoff = now - (options.gracePeriodMs ?? DEFAULT_GC_GRACE_PERIOD_MS);
+    const tombstone = new Date(now).toISOString();
+    let result: AssetGarbageCollectionResult = { removed: [], referenced: 0, pending: [] };
+
+    const plan = (index: ManifestIndex) => {
+      result = { removed: [], referenced: 0, pending: [] };
+
+      for (const entry of Object.values(index.assets || {})) {
+        if (entry.refs.length > 0) {
+          result.referenced++;
+        } else if (entry.deletingSince && Date.parse(entry.deletingSince) > now - STALE_TOMBSTONE_MS) {
+          // Another collection is deleting it
+          continue;
+        } else if (entry.unreferencedSince && Date.parse(entry.unreferencedSince) <= cutoff) {
+          result.removed.push(entry.key);
+          entry.deletingSince = tombstone;
+        } else {
+          result.pending.push(entry.key);
+        }
+      }
+    };
 
-    // Update cache
-    if (this.cacheEnabled) {
-      const cacheKey = `asset:${assetPath}`;
-      await this.cache.set(cacheKey, data);
+    const current = await this.readJSONForUpdate<ManifestIndex>(INDEX_PATH);
+    if (!current?.data.assets) {
+      return result;
+    }
+    if (options.dryRun) {
+      plan(current.data);
+      return result;
+    }
+
+    // Tombstone the entries first, so a blob is never deleted while the index offers it for reuse
+    await this.updateIndex(plan);
+    for (const key of result.removed) {
+      if (await this.existsRaw(key)) {
+        await this.delete(key);
+      }
     }
+    await this.updateIndex((index) => {
+      for (const [hash, entry] of Object.entries(index.assets || {})) {
+        if (entry.deletingSince === tombstone) {
+          delete index.assets![hash];
+        }
+      }
+    });
+    return result;
   }
 
   /**
@@ -206,54 +401,240 @@ export abstract class BaseStorage implements IStorageBackend {
   /**
    * Delete a file
    */
-  async delete(path: string): Promise<void> {
-    await this.deleteRaw(path);
-
-    // Remove from cache
+  async delete(path: string, options?: StorageDeleteOptions): Promise<void> {
     const jsonCacheKey = `json:${path}`;
     const assetCacheKey = `asset:${path}`;
-    await this.cache.delete(jsonCacheKey);
-    await this.cache.delete(assetCacheKey);
+
+    try {
+      // Only conditional when the caller passes an etag, like writes
+      await this.deleteRaw(path, { ifMatch: options?.ifMatch });
+    } finally {
+      // Remove from cache, also when a conflict shows the cached copy is stale
+      await this.cache.delete(jsonCacheKey);
+      await this.cache.delete(assetCacheKey);
+    }
+  }
+
+  /**
+   * Apply a change to the manifest index with compare-and-swap
+   */
+  async updateIndex(update: (index: ManifestIndex) => void | Promise<void>): Promise<ManifestIndex> {
+    return this.compareAndSwapJSON(INDEX_PATH, emptyIndex, async (index) => {
+      await update(index);
+      syncAssetReferences(index);
+      index.lastUpdated = new Date().toISOString();
+    });
+  }
+
+  async updateJSON<T>(path: string, create: () => T, update: (data: T) => void | Promise<void>): Promise<T> {
+    return this.compareAndSwapJSON(path, create, update);
+  }
+
+  /**
+   * Reconstruct the manifest index from the component and library manifests
+   * Backends that cannot list files (remote) list from the index itself, so only stale entries are refreshed.
+   */
+  async rebuildIndex(): Promise<ManifestIndex> {
+    return this.updateIndex(async (index) => {
+      index.components = {};
+      for (const componentId of await this.listManifestIds('components/')) {
+        index.components[componentId] = await this.readComponentManifest(componentId, { useCache: false });
+      }
+
+      index.libraries = {};
+      for (const libraryId of await this.listManifestIds('libraries/')) {
+        index.libraries[libraryId] = await this.readLibraryManifest(libraryId, { useCache: false });
+      }
+    });
   }
 
   /**
-   * Update index with a component
+   * Publish a version: keep an immutable snapshot of the manifest and .riv under
+   * components/<id>/versions/<version>/ and mark it latest
    */
-  private async updateIndexWithComponent(component: RiveComponentManifest): Promise<void> {
+  async publishComponentVersion(manifest: RiveComponentManifest, asset: Buffer): Promise<ComponentVersionInfo> {
+    const { id, version } = manifest;
+    if (!isSemver(version)) {
+      throw new ComponentVersionError(
+        'INVALID_VERSION',
+        id,
+        version,
+        `'${version}' is not a semantic version (major.minor.patch)`
+      );
+    }
+
+    const versionPath = componentVersionPath(id, version);
+    const manifestPath = `${versionPath}/manifest.json`;
+    const { assetHash: _assetHash, ...shipped } = manifest;
+    const snapshot: RiveComponentManifest = {
+      ...shipped,
+      riveFile: `${versionPath}/${id}.riv`,
+      storagePath: manifestPath,
+    };
+
     try {
-      const index = await this.readIndex({ useCache: false });
-      index.components[component.id] = component;
-      await this.writeIndex(index);
+      // Create-only, so the manifest also claims the version against concurrent publishers
+      await this.writeJSON(manifestPath, snapshot, { overwrite: false });
     } catch (error) {
-      // If index doesn't exist, create a new one
-      const index: ManifestIndex = {
-        libraries: {},
-        components: { [component.id]: component },
-        version: '1.0.0',
-        lastUpdated: new Date().toISOString(),
-      };
-      await this.writeIndex(index);
+      if (isStorageConflictError(error) && error.code === 'ALREADY_EXISTS') {
+        throw new ComponentVersionError(
+          'VERSION_EXISTS',
+          id,
+          version,
+          `Version ${version} of ${id} is already published; publish a new version instead`
+        );
+      }
+      throw error;
     }
+
+    try {
+      // The claim is ours, so an asset left by an earlier failed attempt may be replaced
+      await this.writeAsset(snapshot.riveFile, asset);
+    } catch (error) {
+      // Release the claim so the version can be published again
+      await this.delete(manifestPath).catch(() => undefined);
+      throw error;
+    }
+
+    const info: ComponentVersionInfo = {
+      version,
+      publishedAt: new Date().toISOString(),
+      riveFile: snapshot.riveFile,
+      sha256: createHash('sha256').update(asset).digest('hex'),
+      size: asset.length,
+    };
+
+    await this.compareAndSwapJSON(componentVersionHistoryPath(id), () => emptyHistory(id), (history) => {
+      history.versions = [info, ...history.versions.filter((published) => published.version !== version)].sort(
+        (a, b) => compareSemver(b.version, a.version)
+      );
+      history.latest = version;
+    });
+
+    return info;
+  }
+
+  /**
+   * Published versions of a component, newest first
+   */
+  async listComponentVersions(componentId: string): Promise<ComponentVersionHistory> {
+    const current = await this.readJSONForUpdate<ComponentVersionHistory>(componentVersionHistoryPath(componentId));
+    return current?.data ?? emptyHistory(componentId);
+  }
+
+  /**
+   * Read the manifest of a published version; 'latest' reads the version marked latest
+   * Its riveFile is the snapshot of the .riv that shipped with it.
+   */
+  async readComponentVersion(componentId: string, version: string): Promise<RiveComponentManifest> {
+    // Also keeps the version from escaping the component's versions directory
+    if (version !== 'latest' && !isSemver(version)) {
+      throw new ComponentVersionError(
+        'INVALID_VERSION',
+        componentId,
+        version,
+        `'${version}' is not a semantic version (major.minor.patch) or 'latest'`
+      );
+    }
+
+    const resolved = version === 'latest' ? (await this.listComponentVersions(componentId)).latest : version;
+    const manifestPath = resolved && `${componentVersionPath(componentId, resolved)}/manifest.json`;
+
+    if (!manifestPath || !(await this.existsRaw(manifestPath))) {
+      throw new ComponentVersionError(
+        'VERSION_NOT_FOUND',
+        componentId,
+        version,
+        resolved ? `Version ${resolved} of ${componentId} has not been published` : `No version of ${componentId} has been published`
+      );
+    }
+
+    return this.readJSON<RiveComponentManifest>(manifestPath);
+  }
+
+  /**
+   * Mark a published version latest and restore the component manifest from its snapshot
+   * The index is left to the caller, which also lists the component in its library again.
+   */
+  async markLatestVersion(componentId: string, version: string): Promise<RiveComponentManifest> {
+    const snapshot = await this.readComponentVersion(componentId, version);
+
+    await this.compareAndSwapJSON(componentVersionHistoryPath(componentId), () => emptyHistory(componentId), (history) => {
+      history.latest = snapshot.version;
+    });
+
+    const manifest: RiveComponentManifest = { ...snapshot, storagePath: `components/${componentId}/manifest.json` };
+    await this.writeComponentManifest(manifest);
+    return manifest;
   }
 
   /**
-   * Update index with a library
+   * Read, change and write back a JSON file with compare-and-swap
+   * The file is re-read and the change reapplied when another writer updated it first,
+   * so the change may run more than once.
    */
-  private async updateIndexWithLibrary(library: RiveLibraryManifest): Promise<void> {
+  private async compareAndSwapJSON<T>(
+    path: string,
+    create: () => T,
+    update: (data: T) => void | Promise<void>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.readJSONForUpdate<T>(path);
+      const data = current?.data ?? create();
+      await update(data);
+
+      try {
+        // A missing file may only be created once
+        await this.writeJSON(path, data, current ? { ifMatch: current.etag } : { overwrite: false });
+        return data;
+      } catch (error) {
+        if (!isStorageConflictError(error) || attempt >= UPDATE_ATTEMPTS) {
+          throw error;
+        }
+        // Back off with jitter so retrying writers spread out
+        await new Promise((resolve) => setTimeout(resolve, 2 ** attempt * 10 * (1 + Math.random())));
+      }
+    }
+  }
+
+  /**
+   * Read a JSON file bypassing the cache, with the etag to write it back against
+   * Returns null when the file does not exist yet.
+   */
+  private async readJSONForUpdate<T>(path: string): Promise<{ data: T; etag?: string } | null> {
+    let result: RawReadResult;
     try {
-      const index = await this.readIndex({ useCache: false });
-      index.libraries[library.id] = library;
-      await this.writeIndex(index);
+      result = (await this.readRawIfChanged(path))!;
     } catch (error) {
-      // If index doesn't exist, create a new one
-      const index: ManifestIndex = {
-        libraries: { [library.id]: library },
-        components: {},
-        version: '1.0.0',
-        lastUpdated: new Date().toISOString(),
-      };
-      await this.writeIndex(index);
+      if (!(await this.existsRaw(path))) {
+        return null;
+      }
+      throw error;
+    }
+
+    return { data: JSON.parse(result.data.toString('utf-8')) as T, etag: result.etag };
+  }
+
+  /**
+   * IDs under components/ or libraries/ that have a manifest.json
+   * Backends list either directories or object keys, so only the first path segment is used.
+   */
+  private async listManifestIds(prefix: 'components/' | 'libraries/'): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const item of await this.listRaw(prefix)) {
+      const id = (item.startsWith(prefix) ? item.slice(prefix.length) : item).split('/')[0];
+      if (id) {
+        ids.add(id);
+      }
     }
+
+    const withManifest: string[] = [];
+    for (const id of [...ids].sort()) {
+      if (await this.existsRaw(`${prefix}${id}/manifest.json`)) {
+        withManifest.push(id);
+      }
+    }
+    return withManifest;
   }
 
   /**
@@ -263,3 +644,52 @@ export abstract class BaseStorage implements IStorageBackend {
     await this.cache.clear();
   }
 }
+
+function emptyHistory(componentId: string): ComponentVersionHistory {
+  return { componentId, versions: [] };
+}
+
+function emptyIndex(): ManifestIndex {
+  return {
+    libraries: {},
+    components: {},
+    version: '1.0.0',
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Recount which components reference each content-addressed blob
+ * Blobs named by a manifest but missing from the index (after rebuildIndex, say) are added back.
+ */
+function syncAssetReferences(index: ManifestIndex): void {
+  const refs: Record<string, string[]> = {};
+  for (const component of Object.values(index.components)) {
+    const hash = component.assetHash ?? contentAddressedHash(component.riveFile);
+    if (hash) {
+      (refs[hash] = refs[hash] || []).push(component.id);
+    }
+  }
+
+  if (!index.assets && Object.keys(refs).length === 0) {
+    return;
+  }
+
+  const assets = (index.assets = index.assets || {});
+  const now = new Date().toISOString();
+
+  for (const [hash, componentIds] of Object.entries(refs)) {
+    if (!assets[hash]) {
+      assets[hash] = { key: index.components[componentIds[0]].riveFile, refs: [], createdAt: now };
+    }
+  }
+
+  for (const [hash, entry] of Object.entries(assets)) {
+    entry.refs = (refs[hash] || []).sort();
+    if (entry.refs.length > 0) {
+      delete entry.unreferencedSince;
+    } else if (!entry.unreferencedSince) {
+      entry.unreferencedSince = now;
+    }
+  }
+}
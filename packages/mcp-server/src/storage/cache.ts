@@ -29,6 +29,10 @@ export class MemoryCache implements ICache {
     return entry as CacheEntry<T>;
   }
 
+  async peek<T>(key: string): Promise<CacheEntry<T> | null> {
+    return (this.cache.get(key) as CacheEntry<T>) || null;
+  }
+
   async set<T>(key: string, data: T, etag?: string): Promise<void> {
     const entry: CacheEntry<T> = {
       data,
@@ -0,0 +1,83 @@
+/**
+ * Storage error types
+ */
+
+export type StorageConflictCode =
+  // The stored version no longer has the expected etag
+  | 'ETAG_MISMATCH'
+  // A create-only write found the file already there
+  | 'ALREADY_EXISTS'
+  // The server refused the write for another concurrent change
+  | 'CONFLICT';
+
+/**
+ * Raised when a conditional write or delete loses to a concurrent change
+ * Re-read the file, reapply the change and try again.
+ */
+export class StorageConflictError extends Error {
+  constructor(
+    readonly code: StorageConflictCode,
+    readonly path: string,
+    message: string,
+    /** Etag the write expected, when there was one */
+    readonly expectedEtag?: string
+  ) {
+    super(message);
+    this.name = 'StorageConflictError';
+  }
+}
+
+export function isStorageConflictError(error: unknown): error is StorageConflictError {
+  return error instanceof StorageConflictError;
+}
+
+/**
+ * Map a 412 Precondition Failed or 409 Conflict response to a StorageConflictError
+ * Returns null for any other status.
+ */
+export function conflictForStatus(
+  status: number | undefined,
+  path: string,
+  conditions: { ifMatch?: string; ifNoneMatch?: string }
+): StorageConflictError | null {
+  if (status === 412) {
+    if (conditions.ifNoneMatch) {
+      return new StorageConflictError('ALREADY_EXISTS', path, `${path} already exists`);
+    }
+    return new StorageConflictError(
+      'ETAG_MISMATCH',
+      path,
+      `${path} changed since it was read (expected ETag ${conditions.ifMatch})`,
+      conditions.ifMatch
+    );
+  }
+  if (status === 409) {
+    return new StorageConflictError('CONFLICT', path, `${path} conflicted with another change`, conditions.ifMatch);
+  }
+  return null;
+}
+
+export type ComponentVersionCode =
+  | 'INVALID_VERSION'
+  | 'VERSION_NOT_FOUND'
+  // Published versions are immutable
+  | 'VERSION_EXISTS';
+
+/**
+ * Raised by the version history APIs for bad, missing or already published versions
+ */
+export class ComponentVersionError extends Error {
+  constructor(
+    readonly code: ComponentVersionCode,
+    readonly componentId: string,
+    readonly version: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ComponentVersionError';
+  }
+}
+
+export function isComponentVersionError(error: unknown): error is ComponentVersionError {
+  return error instanceof ComponentVersionError;
+}
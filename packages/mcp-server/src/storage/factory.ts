@@ -2,16 +2,46 @@
  * Storage factory for creating storage backends
  */
 
-import { IStorageBackend, StorageConfig } from '../../../../libs/types';
+import { IStorageBackend, StorageConfig, StorageLayerConfig } from '../../../../libs/types';
+import { BaseStorage } from './base';
 import { LocalStorage } from './local';
 import { S3Storage } from './s3';
 import { RemoteStorage } from './remote';
+import { LayeredStorage } from './layered';
 
 export class StorageFactory {
   /**
    * Create a storage backend based on configuration
    */
   static createStorage(config: StorageConfig): IStorageBackend {
+    const { backend } = config;
+    const contentAddressedAssets = config.contentAddressedAssets === true;
+
+    if (backend === 'layered') {
+      if (!config.layered?.layers.length) {
+        throw new Error('Layered storage configuration with at least one layer is required');
+      }
+      // A layer without its own settings uses the top-level section for its backend
+      const layers = config.layered.layers.map((layer) => ({
+        name: layer.name || layer.backend,
+        storage: StorageFactory.createBackend(
+          { local: config.local, s3: config.s3, remote: config.remote, ...layer },
+          contentAddressedAssets
+        ),
+      }));
+      return new LayeredStorage(layers, config.layered.writeLayer);
+    }
+
+    return StorageFactory.createBackend({ ...config, backend }, contentAddressedAssets);
+  }
+
+  private static createBackend(config: StorageLayerConfig, contentAddressedAssets: boolean): BaseStorage {
+    const storage = StorageFactory.createLayer(config);
+    storage.setContentAddressedAssets(contentAddressedAssets);
+    return storage;
+  }
+
+  private static createLayer(config: StorageLayerConfig): BaseStorage {
     const backend = config.backend;
 
     switch (backend) {
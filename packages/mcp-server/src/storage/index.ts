@@ -7,10 +7,13 @@ import { IStorageBackend, ServerConfig } from '../../../../libs/types';
 import { StorageFactory } from './factory';
 
 export * from './cache';
+export * from './errors';
+export * from './versions';
 export * from './base';
 export * from './local';
 export * from './s3';
 export * from './remote';
+export * from './layered';
 export * from './factory';
 
 /**
@@ -0,0 +1,332 @@
+/**
+ * Layered storage implementation
+ * Reads fall through an ordered list of backends (say local -> s3 -> remote); writes go to one of them.
+ */
+
+import {
+  IStorageBackend,
+  StorageReadOptions,
+  StorageWriteOptions,
+  StorageDeleteOptions,
+  StorageListOptions,
+  StorageMetadata,
+  AssetGarbageCollectionOptions,
+  AssetGarbageCollectionResult,
+  ComponentVersionInfo,
+  ComponentVersionHistory,
+  RiveComponentManifest,
+  RiveLibraryManifest,
+  ManifestIndex,
+  StorageBackend,
+} from '../../../../libs/types';
+import { isComponentVersionError } from './errors';
+
+const INDEX_PATH = 'index.json';
+
+export interface StorageLayer {
+  name: string;
+  storage: IStorageBackend;
+}
+
+export class LayeredStorage implements IStorageBackend {
+  private writeLayer: StorageLayer;
+
+  constructor(private layers: StorageLayer[], writeLayer?: string) {
+    if (layers.length === 0) {
+      throw new Error('Layered storage requires at least one layer');
+    }
+
+    const names = new Set<string>();
+    for (const layer of layers) {
+      if (names.has(layer.name)) {
+        throw new Error(`Duplicate storage layer name: ${layer.name}`);
+      }
+      names.add(layer.name);
+    }
+
+    const target = writeLayer === undefined ? layers[0] : layers.find((layer) => layer.name === writeLayer);
+    if (!target) {
+      throw new Error(`Unknown storage write layer: ${writeLayer}`);
+    }
+    this.writeLayer = target;
+  }
+
+  async initialize(): Promise<void> {
+    for (const layer of this.layers) {
+      await layer.storage.initialize();
+    }
+  }
+
+  getBackendType(): 'layered' {
+    return 'layered';
+  }
+
+  /**
+   * The layers in read order with their backend types; new manifests and assets go to the write layer
+   */
+  getLayers(): Array<{ name: string; type: StorageBackend; write: boolean }> {
+    return this.layers.map((layer) => ({
+      name: layer.name,
+      type: layer.storage.getBackendType(),
+      write: layer === this.writeLayer,
+    }));
+  }
+
+  /**
+   * Merge the layers' indexes; a component or library in a higher layer hides the one below it
+   */
+  async readIndex(options?: StorageReadOptions): Promise<ManifestIndex> {
+    let merged: ManifestIndex | undefined;
+    let lastError: unknown;
+
+    for (const layer of [...this.layers].reverse()) {
+      let index: ManifestIndex;
+      try {
+        index = await layer.storage.readIndex(options);
+      } catch (error) {
+        if (await layer.storage.exists(INDEX_PATH)) {
+          throw error;
+        }
+        lastError = error;
+        continue;
+      }
+
+      merged = overlayIndex(merged, index);
+    }
+
+    if (!merged) {
+      throw lastError;
+    }
+    return merged;
+  }
+
+  async writeIndex(index: ManifestIndex, options?: StorageWriteOptions): Promise<void> {
+    await this.writeLayer.storage.writeIndex(index, options);
+  }
+
+  /**
+   * Apply a change to the merged index with the write layer's compare-and-swap
+   * The update sees entries from every layer; the ones it adds, changes or removes
+   * are copied into the write layer's index, and the merged result is returned.
+   */
+  async updateIndex(update: (index: ManifestIndex) => void | Promise<void>): Promise<ManifestIndex> {
+    const position = this.layers.indexOf(this.writeLayer);
+    const above = await this.mergeIndexes(this.layers.slice(0, position));
+    const below = await this.mergeIndexes(this.layers.slice(position + 1));
+
+    let merged: ManifestIndex | undefined;
+    await this.writeLayer.storage.updateIndex(async (index) => {
+      const before = overlayIndex(overlayIndex(below, index), above)!;
+      merged = structuredClone(before);
+      await update(merged);
+
+      copyChanges(before.libraries, merged.libraries, index.libraries);
+      copyChanges(before.components, merged.components, index.components);
+      if (merged.assets) {
+        copyChanges(before.assets || {}, merged.assets, (index.assets = index.assets || {}));
+      }
+    });
+    return merged!;
+  }
+
+  async updateJSON<T>(path: string, create: () => T, update: (data: T) => void | Promise<void>): Promise<T> {
+    return this.writeLayer.storage.updateJSON(path, create, update);
+  }
+
+  async rebuildIndex(): Promise<ManifestIndex> {
+    return this.writeLayer.storage.rebuildIndex();
+  }
+
+  async readComponentManifest(componentId: string, options?: StorageReadOptions): Promise<RiveComponentManifest> {
+    return this.readFirst(`components/${componentId}/manifest.json`, (storage) =>
+      storage.readComponentManifest(componentId, options)
+    );
+  }
+
+  async writeComponentManifest(manifest: RiveComponentManifest, options?: StorageWriteOptions): Promise<void> {
+    await this.writeLayer.storage.writeComponentManifest(manifest, options);
+  }
+
+  async publishComponentVersion(manifest: RiveComponentManifest, asset: Buffer): Promise<ComponentVersionInfo> {
+    return this.writeLayer.storage.publishComponentVersion(manifest, asset);
+  }
+
+  /**
+   * The history of the first layer that has published versions of the component
+   */
+  async listComponentVersions(componentId: string): Promise<ComponentVersionHistory> {
+    for (const layer of this.layers) {
+      const history = await layer.storage.listComponentVersions(componentId);
+      if (history.versions.length > 0) {
+        return history;
+      }
+    }
+    return this.writeLayer.storage.listComponentVersions(componentId);
+  }
+
+  async readComponentVersion(componentId: string, version: string): Promise<RiveComponentManifest> {
+    let lastError: unknown;
+    for (const layer of this.layers) {
+      try {
+        return await layer.storage.readComponentVersion(componentId, version);
+      } catch (error) {
+        if (!isComponentVersionError(error) || error.code !== 'VERSION_NOT_FOUND') {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Mark a version latest in the write layer, which must hold its snapshot
+   */
+  async markLatestVersion(componentId: string, version: string): Promise<RiveComponentManifest> {
+    return this.writeLayer.storage.markLatestVersion(componentId, version);
+  }
+
+  async readLibraryManifest(libraryId: string, options?: StorageReadOptions): Promise<RiveLibraryManifest> {
+    return this.readFirst(`libraries/${libraryId}/manifest.json`, (storage) =>
+      storage.readLibraryManifest(libraryId, options)
+    );
+  }
+
+  async writeLibraryManifest(manifest: RiveLibraryManifest, options?: StorageWriteOptions): Promise<void> {
+    await this.writeLayer.storage.writeLibraryManifest(manifest, options);
+  }
+
+  async readAsset(assetPath: string, options?: StorageReadOptions): Promise<Buffer> {
+    return this.readFirst(assetPath, (storage) => storage.readAsset(assetPath, options));
+  }
+
+  async writeAsset(assetPath: string, data: Buffer, options?: StorageWriteOptions): Promise<void> {
+    await this.writeLayer.storage.writeAsset(assetPath, data, options);
+  }
+
+  async storeAsset(assetPath: string, data: Buffer): Promise<string> {
+    return this.writeLayer.storage.storeAsset(assetPath, data);
+  }
+
+  async collectGarbage(options?: AssetGarbageCollectionOptions): Promise<AssetGarbageCollectionResult> {
+    return this.writeLayer.storage.collectGarbage(options);
+  }
+
+  async listComponents(options?: StorageListOptions): Promise<string[]> {
+    return this.listIds('components/', (storage) => storage.listComponents(options));
+  }
+
+  async listLibraries(options?: StorageListOptions): Promise<string[]> {
+    return this.listIds('libraries/', (storage) => storage.listLibraries(options));
+  }
+
+  /**
+   * Metadata from the first layer that has the file, with that layer's name
+   */
+  async getMetadata(path: string): Promise<StorageMetadata> {
+    return this.readFirst(path, async (storage, name) => ({ ...(await storage.getMetadata(path)), layer: name }));
+  }
+
+  async exists(path: string): Promise<boolean> {
+    for (const layer of this.layers) {
+      if (await layer.storage.exists(path)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Delete from the write layer; the layers below are never changed
+   */
+  async delete(path: string, options?: StorageDeleteOptions): Promise<void> {
+    await this.writeLayer.storage.delete(path, options);
+  }
+
+  /**
+   * Merge the indexes of the given layers, first layer on top; layers without an index are skipped
+   */
+  private async mergeIndexes(layers: StorageLayer[]): Promise<ManifestIndex | undefined> {
+    let merged: ManifestIndex | undefined;
+    for (const layer of [...layers].reverse()) {
+      try {
+        merged = overlayIndex(merged, await layer.storage.readIndex({ useCache: false }));
+      } catch (error) {
+        if (await layer.storage.exists(INDEX_PATH)) {
+          throw error;
+        }
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Read from the first layer that has the file
+   * A layer that fails to read a file it has raises its error instead of falling through.
+   */
+  private async readFirst<T>(path: string, read: (storage: IStorageBackend, name: string) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (const layer of this.layers) {
+      try {
+        return await read(layer.storage, layer.name);
+      } catch (error) {
+        if (await layer.storage.exists(path)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * The IDs listed by any layer
+   * Backends list directories, object keys or IDs, so only the first path segment is used.
+   */
+  private async listIds(
+    prefix: 'components/' | 'libraries/',
+    list: (storage: IStorageBackend) => Promise<string[]>
+  ): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const layer of this.layers) {
+      for (const item of await list(layer.storage)) {
+        const id = (item.startsWith(prefix) ? item.slice(prefix.length) : item).split('/')[0];
+        if (id) {
+          ids.add(id);
+        }
+      }
+    }
+    return [...ids];
+  }
+}
+
+/**
+ * The entries of `top` over those of `base`
+ */
+function overlayIndex(base: ManifestIndex | undefined, top: ManifestIndex | undefined): ManifestIndex | undefined {
+  if (!base || !top) {
+    return top || base;
+  }
+  return {
+    ...top,
+    libraries: { ...base.libraries, ...top.libraries },
+    components: { ...base.components, ...top.components },
+    ...((base.assets || top.assets) && { assets: { ...base.assets, ...top.assets } }),
+  };
+}
+
+/**
+ * Write the entries an update added, changed or removed into the write layer's entries
+ */
+function copyChanges<T>(before: Record<string, T>, after: Record<string, T>, target: Record<string, T>): void {
+  for (const [id, entry] of Object.entries(after)) {
+    if (JSON.stringify(entry) !== JSON.stringify(before[id])) {
+      target[id] = entry;
+    }
+  }
+  for (const id of Object.keys(before)) {
+    if (!(id in after)) {
+      delete target[id];
+    }
+  }
+}
@@ -1,16 +1,27 @@
 /**
  * Local filesystem storage implementation
+ * Writes go through a sibling .lock file and an atomic rename; etags are content hashes,
+ * remembered per file version so a file is only hashed again once it changes.
  */
 
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { createHash, randomBytes } from 'crypto';
 import { StorageConfig, StorageListOptions, StorageMetadata } from '../../../../libs/types';
-import { BaseStorage } from './base';
+import { BaseStorage, RawReadResult, RawWriteConditions } from './base';
+import { StorageConflictError } from './errors';
+
+/** Give up waiting for another writer's lock after this long */
+const LOCK_TIMEOUT_MS = 10000;
+/** Locks older than this were left behind by a writer that crashed */
+const STALE_LOCK_MS = 30000;
 
 export class LocalStorage extends BaseStorage {
   private basePath: string;
   private manifestPath: string;
   private assetsPath: string;
+  // Content etags by full path, with the version of the file they were computed for
+  private etags = new Map<string, { version: string; etag: string }>();
 
   constructor(config: StorageConfig['local'], cacheEnabled: boolean = true, cacheTTL: number = 300) {
     super(cacheEnabled, cacheTTL);
@@ -39,13 +50,19 @@ export class LocalStorage extends BaseStorage {
 
   /**
    * Resolve a path relative to the base path
+   * Paths that would leave the manifest or asset directory are refused.
    */
   private resolvePath(relativePath: string): string {
     // Check if it's a manifest or asset path
-    if (relativePath.startsWith('components/') || relativePath.startsWith('libraries/') || relativePath === 'index.json') {
-      return path.join(this.basePath, this.manifestPath, relativePath);
+    const isManifest =
+      relativePath.startsWith('components/') || relativePath.startsWith('libraries/') || relativePath === 'index.json';
+    const root = path.resolve(this.basePath, isManifest ? this.manifestPath : this.assetsPath);
+    const fullPath = path.resolve(root, relativePath);
+
+    if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Storage path escapes the ${isManifest ? 'manifest' : 'asset'} directory: ${relativePath}`);
     }
-    return path.join(this.basePath, this.assetsPath, relativePath);
+    return fullPath;
   }
 
   /**
@@ -73,20 +90,147 @@ export class LocalStorage extends BaseStorage {
     }
   }
 
+  /**
+   * Read raw data unless its content hash still matches the etag
+   */
+  protected async readRawIfChanged(relativePath: string, etag?: string): Promise<RawReadResult | null> {
+    const fullPath = this.resolvePath(relativePath);
+    try {
+      // Reading through the handle keeps the version and the data together when the file is replaced
+      const file = await fs.open(fullPath, 'r');
+      try {
+        const version = fileVersion(await file.stat());
+        const known = this.etags.get(fullPath);
+        if (etag && known?.version === version && known.etag === etag) {
+          return null;
+        }
+
+        const data = await file.readFile();
+        const currentEtag = known?.version === version ? known.etag : contentEtag(data);
+        this.etags.set(fullPath, { version, etag: currentEtag });
+        return etag === currentEtag ? null : { data, etag: currentEtag };
+      } finally {
+        await file.close();
+      }
+    } catch (error) {
+      throw new Error(`Failed to read file ${relativePath}: ${error}`);
+    }
+  }
+
   /**
    * Write raw data to filesystem
+   * The file is written beside the target and renamed over it, so readers never see a partial file.
    */
-  protected async writeRaw(relativePath: string, data: Buffer): Promise<void> {
+  protected async writeRaw(
+    relativePath: string,
+    data: Buffer,
+    conditions: RawWriteConditions = {}
+  ): Promise<string | undefined> {
     const fullPath = this.resolvePath(relativePath);
     const dir = path.dirname(fullPath);
 
     // Ensure directory exists
     await this.ensureDirectory(dir);
 
+    return this.withLock(relativePath, fullPath, async () => {
+      await this.assertConditions(relativePath, fullPath, conditions);
+
+      const tempPath = `${fullPath}.${process.pid}-${randomBytes(4).toString('hex')}.tmp`;
+      try {
+        await fs.writeFile(tempPath, data);
+        await fs.rename(tempPath, fullPath);
+      } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw new Error(`Failed to write file ${relativePath}: ${error}`);
+      }
+
+      // Only conditional writers compare etags, so plain writes skip hashing
+      if (!conditions.ifMatch && !conditions.ifNoneMatch) {
+        this.etags.delete(fullPath);
+        return undefined;
+      }
+      const etag = contentEtag(data);
+      this.etags.set(fullPath, { version: fileVersion(await fs.stat(fullPath)), etag });
+      return etag;
+    });
+  }
+
+  /**
+   * The content etag of the file, or null when it does not exist
+   */
+  private async currentEtag(fullPath: string): Promise<string | null> {
+    let stats;
     try {
-      await fs.writeFile(fullPath, data);
+      stats = await fs.stat(fullPath);
     } catch (error) {
-      throw new Error(`Failed to write file ${relativePath}: ${error}`);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const version = fileVersion(stats);
+    const known = this.etags.get(fullPath);
+    if (known?.version === version) {
+      return known.etag;
+    }
+    const etag = contentEtag(await fs.readFile(fullPath));
+    this.etags.set(fullPath, { version, etag });
+    return etag;
+  }
+
+  private async assertConditions(relativePath: string, fullPath: string, conditions: RawWriteConditions): Promise<void> {
+    if (!conditions.ifMatch && !conditions.ifNoneMatch) {
+      return;
+    }
+
+    const current = await this.currentEtag(fullPath);
+    if (conditions.ifNoneMatch === '*' && current) {
+      throw new StorageConflictError('ALREADY_EXISTS', relativePath, `${relativePath} already exists`);
+    }
+    if (conditions.ifMatch && current !== conditions.ifMatch) {
+      throw new StorageConflictError(
+        'ETAG_MISMATCH',
+        relativePath,
+        `${relativePath} changed since it was read (expected ETag ${conditions.ifMatch})`,
+        conditions.ifMatch
+      );
+    }
+  }
+
+  /**
+   * Run a write while holding the file's lock
+   * The lock is a sibling .lock file created exclusively, so it also holds across processes.
+   */
+  private async withLock<T>(relativePath: string, fullPath: string, task: () => Promise<T>): Promise<T> {
+    const lockPath = `${fullPath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, 'wx')).close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new Error(`Failed to lock file ${relativePath}: ${error}`);
+        }
+      }
+
+      const lockedAt = await fs.stat(lockPath).then((stats) => stats.mtimeMs, () => null);
+      if (lockedAt !== null && Date.now() - lockedAt > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new StorageConflictError('CONFLICT', relativePath, `Timed out waiting for the lock on ${relativePath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10 + Math.random() * 20));
+    }
+
+    try {
+      return await task();
+    } finally {
+      await fs.rm(lockPath, { force: true });
     }
   }
 
@@ -134,6 +278,7 @@ export class LocalStorage extends BaseStorage {
         size: stats.size,
         lastModified: stats.mtime,
         contentType: this.getContentType(relativePath),
+        etag: (await this.currentEtag(fullPath)) ?? undefined,
       };
     } catch (error) {
       throw new Error(`Failed to get metadata for ${relativePath}: ${error}`);
@@ -157,9 +302,24 @@ export class LocalStorage extends BaseStorage {
   /**
    * Delete a file
    */
-  protected async deleteRaw(relativePath: string): Promise<void> {
+  protected async deleteRaw(relativePath: string, conditions: RawWriteConditions = {}): Promise<void> {
     const fullPath = this.resolvePath(relativePath);
 
+    if (!conditions.ifMatch) {
+      return this.unlink(relativePath, fullPath);
+    }
+
+    await this.withLock(relativePath, fullPath, async () => {
+      // Already gone is as good as deleted
+      if (await fs.access(fullPath).then(() => true, () => false)) {
+        await this.assertConditions(relativePath, fullPath, conditions);
+        await this.unlink(relativePath, fullPath);
+      }
+    });
+  }
+
+  private async unlink(relativePath: string, fullPath: string): Promise<void> {
+    this.etags.delete(fullPath);
     try {
       await fs.unlink(fullPath);
     } catch (error) {
@@ -186,3 +346,14 @@ export class LocalStorage extends BaseStorage {
     return contentTypes[ext] || 'application/octet-stream';
   }
 }
+
+function contentEtag(data: Buffer): string {
+  return `"${createHash('sha256').update(data).digest('hex')}"`;
+}
+
+/**
+ * Identifies a version of a file; every write renames a new file into place, so the inode changes too
+ */
+function fileVersion(stats: { ino: number; size: number; mtimeMs: number }): string {
+  return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+}
@@ -1,19 +1,30 @@
 /**
  * Remote HTTP/HTTPS storage implementation
- * Read-only storage for fetching manifests and assets from remote URLs
+ * Fetches manifests and assets from remote URLs, revalidating cached copies by ETag.
+ * When `writable` is set, writes are PUTs and deletes are DELETEs guarded by
+ * If-Match / If-None-Match, so concurrent editors cannot overwrite each other.
  */
 
 import * as https from 'https';
 import * as http from 'http';
 import { URL } from 'url';
 import { StorageConfig, StorageListOptions, StorageMetadata } from '../../../../libs/types';
-import { BaseStorage } from './base';
+import { BaseStorage, RawReadResult, RawWriteConditions } from './base';
+import { conflictForStatus } from './errors';
+
+interface RemoteResponse {
+  statusCode: number;
+  statusMessage?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
 
 export class RemoteStorage extends BaseStorage {
   private manifestUrl: string;
   private assetBaseUrl: string;
   private headers: Record<string, string>;
   private timeout: number;
+  private writable: boolean;
 
   constructor(config: StorageConfig['remote'], cacheEnabled: boolean = true, cacheTTL: number = 300) {
     super(cacheEnabled, cacheTTL);
@@ -26,6 +37,7 @@ export class RemoteStorage extends BaseStorage {
     this.assetBaseUrl = config.assetBaseUrl || config.manifestUrl;
     this.headers = config.headers || {};
     this.timeout = config.timeout || 30000;
+    this.writable = config.writable === true;
   }
 
   async initialize(): Promise<void> {
@@ -57,33 +69,34 @@ export class RemoteStorage extends BaseStorage {
   }
 
   /**
-   * Fetch data from remote URL
+   * Send a request and collect the response, following redirects
    */
-  private async fetch(url: string): Promise<Buffer> {
+  private async send(
+    method: string,
+    url: string,
+    headers: Record<string, string> = {},
+    body?: Buffer
+  ): Promise<RemoteResponse> {
     return new Promise((resolve, reject) => {
       const parsedUrl = new URL(url);
       const client = parsedUrl.protocol === 'https:' ? https : http;
 
       const options = {
-        method: 'GET',
-        headers: this.headers,
+        method,
+        headers: { ...this.headers, ...headers },
         timeout: this.timeout,
       };
 
-      const req = client.get(url, options, (res) => {
+      const req = client.request(url, options, (res) => {
         // Handle redirects
-        if (res.statusCode === 301 || res.statusCode === 302) {
+        if (res.statusCode === 301 || res.statusCode === 302 || res.statusCode === 307 || res.statusCode === 308) {
           const redirectUrl = res.headers.location;
           if (redirectUrl) {
-            return this.fetch(redirectUrl).then(resolve).catch(reject);
+            res.resume();
+            return this.send(method, new URL(redirectUrl, url).toString(), headers, body).then(resolve).catch(reject);
           }
         }
 
-        if (res.statusCode !== 200) {
-          reject(new Error(`HTTP ${res.statusCode}: ${res.statusMessage}`));
-          return;
-        }
-
         const chunks: Buffer[] = [];
 
         res.on('data', (chunk) => {
@@ -91,7 +104,12 @@ export class RemoteStorage extends BaseStorage {
         });
 
         res.on('end', () => {
-          resolve(Buffer.concat(chunks));
+          resolve({
+            statusCode: res.statusCode || 0,
+            statusMessage: res.statusMessage,
+            headers: res.headers,
+            body: Buffer.concat(chunks),
+          });
         });
 
         res.on('error', reject);
@@ -102,6 +120,8 @@ export class RemoteStorage extends BaseStorage {
         req.destroy();
         reject(new Error(`Request timeout after ${this.timeout}ms`));
       });
+
+      req.end(body);
     });
   }
 
@@ -109,20 +129,52 @@ export class RemoteStorage extends BaseStorage {
    * Read raw data from remote URL
    */
   protected async readRaw(relativePath: string): Promise<Buffer> {
+    return (await this.readRawIfChanged(relativePath))!.data;
+  }
+
+  /**
+   * Read raw data with If-None-Match; a 304 means the cached copy is current
+   */
+  protected async readRawIfChanged(relativePath: string, etag?: string): Promise<RawReadResult | null> {
     const url = this.resolveUrl(relativePath);
 
+    let res: RemoteResponse;
     try {
-      return await this.fetch(url);
+      res = await this.send('GET', url, etag ? { 'If-None-Match': etag } : {});
     } catch (error) {
       throw new Error(`Failed to fetch ${url}: ${error}`);
     }
+
+    if (res.statusCode === 304 && etag) {
+      return null;
+    }
+    if (res.statusCode !== 200) {
+      throw new Error(`Failed to fetch ${url}: Error: HTTP ${res.statusCode}: ${res.statusMessage}`);
+    }
+
+    return { data: res.body, etag: headerValue(res.headers.etag) };
   }
 
   /**
-   * Write operations are not supported for remote storage
+   * PUT the data, conditional on the stored version's etag
    */
-  protected async writeRaw(_relativePath: string, _data: Buffer): Promise<void> {
-    throw new Error('Write operations are not supported for remote storage');
+  protected async writeRaw(relativePath: string, data: Buffer, conditions: RawWriteConditions = {}): Promise<string | void> {
+    this.assertWritable('Write');
+    const url = this.resolveUrl(relativePath);
+
+    const res = await this.send(
+      'PUT',
+      url,
+      {
+        ...conditionHeaders(conditions),
+        'Content-Type': relativePath.endsWith('.json') ? 'application/json' : 'application/octet-stream',
+        'Content-Length': String(data.length),
+      },
+      data
+    );
+
+    this.assertSucceeded(res, 'PUT', relativePath, conditions);
+    return headerValue(res.headers.etag);
   }
 
   /**
@@ -149,45 +201,20 @@ export class RemoteStorage extends BaseStorage {
    * Get metadata by making a HEAD request
    */
   protected async getMetadataRaw(relativePath: string): Promise<StorageMetadata> {
-    const url = this.resolveUrl(relativePath);
-
-    return new Promise((resolve, reject) => {
-      const parsedUrl = new URL(url);
-      const client = parsedUrl.protocol === 'https:' ? https : http;
-
-      const options = {
-        method: 'HEAD',
-        headers: this.headers,
-        timeout: this.timeout,
-      };
-
-      const req = client.request(url, options, (res) => {
-        if (res.statusCode !== 200) {
-          reject(new Error(`HTTP ${res.statusCode}: ${res.statusMessage}`));
-          return;
-        }
-
-        const contentLength = parseInt(res.headers['content-length'] || '0', 10);
-        const lastModified = res.headers['last-modified']
-          ? new Date(res.headers['last-modified'])
-          : new Date();
-
-        resolve({
-          size: contentLength,
-          lastModified,
-          contentType: res.headers['content-type'],
-          etag: res.headers['etag'],
-        });
-      });
+    const res = await this.send('HEAD', this.resolveUrl(relativePath));
+    if (res.statusCode !== 200) {
+      throw new Error(`HTTP ${res.statusCode}: ${res.statusMessage}`);
+    }
 
-      req.on('error', reject);
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error(`Request timeout after ${this.timeout}ms`));
-      });
+    const contentLength = parseInt(headerValue(res.headers['content-length']) || '0', 10);
+    const lastModified = res.headers['last-modified'] ? new Date(res.headers['last-modified']) : new Date();
 
-      req.end();
-    });
+    return {
+      size: contentLength,
+      lastModified,
+      contentType: res.headers['content-type'],
+      etag: headerValue(res.headers.etag),
+    };
   }
 
   /**
@@ -203,9 +230,51 @@ export class RemoteStorage extends BaseStorage {
   }
 
   /**
-   * Delete operations are not supported for remote storage
+   * DELETE the resource, conditional on the stored version's etag
    */
-  protected async deleteRaw(_relativePath: string): Promise<void> {
-    throw new Error('Delete operations are not supported for remote storage');
+  protected async deleteRaw(relativePath: string, conditions: RawWriteConditions = {}): Promise<void> {
+    this.assertWritable('Delete');
+
+    const res = await this.send('DELETE', this.resolveUrl(relativePath), conditionHeaders(conditions));
+    this.assertSucceeded(res, 'DELETE', relativePath, conditions);
   }
+
+  private assertWritable(operation: string): void {
+    if (!this.writable) {
+      throw new Error(`${operation} operations are not supported for read-only remote storage; set remote.writable`);
+    }
+  }
+
+  /**
+   * Map failed precondition (412) and conflict (409) responses to StorageConflictError
+   */
+  private assertSucceeded(
+    res: RemoteResponse,
+    method: string,
+    relativePath: string,
+    conditions: RawWriteConditions
+  ): void {
+    const conflict = conflictForStatus(res.statusCode, relativePath, conditions);
+    if (conflict) {
+      throw conflict;
+    }
+    if (res.statusCode < 200 || res.statusCode >= 300) {
+      throw new Error(`${method} ${this.resolveUrl(relativePath)} failed: HTTP ${res.statusCode}: ${res.statusMessage}`);
+    }
+  }
+}
+
+function conditionHeaders(conditions: RawWriteConditions): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (conditions.ifMatch) {
+    headers['If-Match'] = conditions.ifMatch;
+  }
+  if (conditions.ifNoneMatch) {
+    headers['If-None-Match'] = conditions.ifNoneMatch;
+  }
+  return headers;
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
 }
@@ -1,5 +1,6 @@
 /**
  * S3 storage implementation
+ * Conditional writes use S3's If-Match / If-None-Match support on PutObject and DeleteObject.
  */
 
 import {
@@ -11,7 +12,8 @@ import {
   DeleteObjectCommand,
 } from '@aws-sdk/client-s3';
 import { StorageConfig, StorageListOptions, StorageMetadata } from '../../../../libs/types';
-import { BaseStorage } from './base';
+import { BaseStorage, RawReadResult, RawWriteConditions } from './base';
+import { conflictForStatus } from './errors';
 
 export class S3Storage extends BaseStorage {
   private client: S3Client;
@@ -83,12 +85,20 @@ export class S3Storage extends BaseStorage {
    * Read raw data from S3
    */
   protected async readRaw(relativePath: string): Promise<Buffer> {
+    return (await this.readRawIfChanged(relativePath))!.data;
+  }
+
+  /**
+   * Read raw data with IfNoneMatch; S3 answers 304 when the cached copy is current
+   */
+  protected async readRawIfChanged(relativePath: string, etag?: string): Promise<RawReadResult | null> {
     const key = this.resolveKey(relativePath);
 
     try {
       const command = new GetObjectCommand({
         Bucket: this.bucket,
         Key: key,
+        IfNoneMatch: etag,
       });
 
       const response = await this.client.send(command);
@@ -103,16 +113,19 @@ export class S3Storage extends BaseStorage {
         chunks.push(chunk);
       }
 
-      return Buffer.concat(chunks);
+      return { data: Buffer.concat(chunks), etag: response.ETag };
     } catch (error) {
+      if (etag && httpStatus(error) === 304) {
+        return null;
+      }
       throw new Error(`Failed to read S3 object ${key}: ${error}`);
     }
   }
 
   /**
-   * Write raw data to S3
+   * Write raw data to S3, conditional on the stored object's etag
    */
-  protected async writeRaw(relativePath: string, data: Buffer): Promise<void> {
+  protected async writeRaw(relativePath: string, data: Buffer, conditions: RawWriteConditions = {}): Promise<string | void> {
     const key = this.resolveKey(relativePath);
 
     try {
@@ -121,11 +134,15 @@ export class S3Storage extends BaseStorage {
         Key: key,
         Body: data,
         ContentType: this.getContentType(relativePath),
+        IfMatch: conditions.ifMatch,
+        IfNoneMatch: conditions.ifNoneMatch,
       });
 
-      await this.client.send(command);
+      const response = await this.client.send(command);
+      return response.ETag;
     } catch (error) {
-      throw new Error(`Failed to write S3 object ${key}: ${error}`);
+      throw conflictForStatus(httpStatus(error), relativePath, conditions) ||
+        new Error(`Failed to write S3 object ${key}: ${error}`);
     }
   }
 
@@ -204,18 +221,24 @@ export class S3Storage extends BaseStorage {
   /**
    * Delete S3 object
    */
-  protected async deleteRaw(relativePath: string): Promise<void> {
+  protected async deleteRaw(relativePath: string, conditions: RawWriteConditions = {}): Promise<void> {
     const key = this.resolveKey(relativePath);
 
     try {
       const command = new DeleteObjectCommand({
         Bucket: this.bucket,
         Key: key,
+        IfMatch: conditions.ifMatch,
       });
 
       await this.client.send(command);
     } catch (error) {
-      throw new Error(`Failed to delete S3 object ${key}: ${error}`);
+      // Already gone is as good as deleted
+      if (conditions.ifMatch && httpStatus(error) === 404) {
+        return;
+      }
+      throw conflictForStatus(httpStatus(error), relativePath, conditions) ||
+        new Error(`Failed to delete S3 object ${key}: ${error}`);
     }
   }
 
@@ -236,3 +259,7 @@ export class S3Storage extends BaseStorage {
     return contentTypes[ext || ''] || 'application/octet-stream';
   }
 }
+
+function httpStatus(error: unknown): number | undefined {
+  return (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+}
@@ -0,0 +1,61 @@
+/**
+ * Component version history layout and semantic version ordering
+ */
+
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function isSemver(version: string): boolean {
+  return SEMVER.test(version);
+}
+
+/**
+ * Order two semantic versions; build metadata is ignored and a pre-release sorts before its release
+ */
+export function compareSemver(a: string, b: string): number {
+  const [, aMajor, aMinor, aPatch, aPre] = SEMVER.exec(a) || [];
+  const [, bMajor, bMinor, bPatch, bPre] = SEMVER.exec(b) || [];
+
+  const core = [aMajor, aMinor, aPatch].map(Number);
+  const otherCore = [bMajor, bMinor, bPatch].map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (core[i] !== otherCore[i]) {
+      return core[i] - otherCore[i];
+    }
+  }
+
+  if (!aPre || !bPre) {
+    return aPre ? -1 : bPre ? 1 : 0;
+  }
+
+  const ids = aPre.split('.');
+  const otherIds = bPre.split('.');
+  for (let i = 0; i < Math.max(ids.length, otherIds.length); i++) {
+    if (ids[i] === undefined || otherIds[i] === undefined) {
+      return ids[i] === undefined ? -1 : 1;
+    }
+    const numeric = /^\d+$/.test(ids[i]);
+    const otherNumeric = /^\d+$/.test(otherIds[i]);
+    if (numeric && otherNumeric) {
+      if (Number(ids[i]) !== Number(otherIds[i])) {
+        return Number(ids[i]) - Number(otherIds[i]);
+      }
+    } else if (numeric !== otherNumeric) {
+      // Numeric identifiers sort before alphanumeric ones
+      return numeric ? -1 : 1;
+    } else if (ids[i] !== otherIds[i]) {
+      return ids[i] < otherIds[i] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Directory holding the immutable snapshot of one published version
+ */
+export function componentVersionPath(componentId: string, version: string): string {
+  return `components/${componentId}/versions/${version}`;
+}
+
+export function componentVersionHistoryPath(componentId: string): string {
+  return `components/${componentId}/versions/index.json`;
+}
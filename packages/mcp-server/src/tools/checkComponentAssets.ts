@@ -0,0 +1,98 @@
+import { getComponentById, readComponentAsset } from '../utils/storage';
+import { parseRiveBuffer } from '../utils/riveParser';
+import { checkAssetInventory, AssetInventoryReport } from '../utils/assetInventory';
+import { MCPToolResponse } from '../types';
+import { logger } from '../utils/logger';
+import { ToolDefinition, ToolContext, cancelledResponse, componentNotFoundResponse, componentVersionArgument } from './registry';
+import { isCancellation, scaleProgress } from '../utils/progress';
+
+export interface CheckComponentAssetsParams {
+  componentId: string;
+  version?: string;
+}
+
+/**
+ * List a component's images, fonts and audio and check that referenced ones resolve
+ */
+export async function checkComponentAssets(
+  params: CheckComponentAssetsParams,
+  context: ToolContext = {}
+): Promise<MCPToolResponse<AssetInventoryReport>> {
+  logger.info('checkComponentAssets called', { componentId: params.componentId });
+
+  try {
+    const componentManifest = await getComponentById(params.componentId, params.version);
+
+    if (!componentManifest) {
+      logger.warn('Component not found', { componentId: params.componentId, version: params.version });
+      return componentNotFoundResponse('checkComponentAssets', params.componentId, params.version);
+    }
+
+    const { component } = componentManifest;
+    logger.debug('Reading component asset', { filePath: component.filePath });
+    const fileBuffer = await readComponentAsset(component);
+    const surface = await parseRiveBuffer(fileBuffer, component.id, component.filePath, {
+      version: params.version,
+      signal: context.signal,
+      onProgress: scaleProgress(context.onProgress, 0, 1, 2),
+    });
+
+    const report = await checkAssetInventory(component.id, surface.assets ?? [], {
+      signal: context.signal,
+      onProgress: scaleProgress(context.onProgress, 1, 1, 2),
+    });
+
+    logger.info('checkComponentAssets completed', {
+      componentId: params.componentId,
+      ...report.summary
+    });
+
+    return {
+      status: 'success',
+      tool: 'checkComponentAssets',
+      data: report,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (isCancellation(error)) {
+      logger.info('checkComponentAssets cancelled', { componentId: params.componentId });
+      return cancelledResponse('checkComponentAssets');
+    }
+
+    logger.error('checkComponentAssets failed', {
+      componentId: params.componentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'checkComponentAssets',
+      error: {
+        code: 'CHECK_COMPONENT_ASSETS_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const checkComponentAssetsTool: ToolDefinition<CheckComponentAssetsParams> = {
+  name: 'check_component_assets',
+  description:
+    "List the images, fonts and audio a component's .riv file embeds or references, with sizes and SHA-256 hashes of embedded contents, and check that each referenced asset resolves through the storage backend's assets prefix or base URL.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+      version: componentVersionArgument,
+    },
+    required: ['componentId'],
+  },
+  handler: checkComponentAssets,
+};
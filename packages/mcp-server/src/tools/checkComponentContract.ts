@@ -0,0 +1,106 @@
+import { getComponentById, getComponentManifest, readComponentAsset } from '../utils/storage';
+import { parseRiveBuffer } from '../utils/riveParser';
+import { diffComponentContract, suggestVersionBump, ContractReport } from '../utils/componentContract';
+import { MCPToolResponse } from '../types';
+import { logger } from '../utils/logger';
+import { ToolDefinition, ToolContext, cancelledResponse, componentNotFoundResponse, componentVersionArgument } from './registry';
+import { isCancellation } from '../utils/progress';
+
+export interface CheckComponentContractParams {
+  componentId: string;
+  version?: string;
+  suggestVersion?: boolean;
+}
+
+/**
+ * Diff a component's stored manifest against the surface parsed from its .riv asset
+ */
+export async function checkComponentContract(
+  params: CheckComponentContractParams,
+  context: ToolContext = {}
+): Promise<MCPToolResponse<ContractReport>> {
+  const { suggestVersion = true } = params;
+
+  logger.info('checkComponentContract called', { componentId: params.componentId });
+
+  try {
+    const manifest = await getComponentManifest(params.componentId, params.version);
+    const componentManifest = manifest && (await getComponentById(params.componentId, params.version));
+
+    if (!manifest || !componentManifest) {
+      logger.warn('Component not found', { componentId: params.componentId, version: params.version });
+      return componentNotFoundResponse('checkComponentContract', params.componentId, params.version);
+    }
+
+    const { component } = componentManifest;
+    logger.debug('Reading component asset', { filePath: component.filePath });
+    const fileBuffer = await readComponentAsset(component);
+    const surface = await parseRiveBuffer(fileBuffer, component.id, component.filePath, {
+      ...context,
+      version: params.version,
+    });
+
+    const report = diffComponentContract(manifest, surface);
+    if (suggestVersion) {
+      report.versionSuggestion = suggestVersionBump(report);
+    }
+
+    logger.info('checkComponentContract completed', {
+      componentId: params.componentId,
+      breaking: report.summary.breaking,
+      additive: report.summary.additive
+    });
+
+    return {
+      status: 'success',
+      tool: 'checkComponentContract',
+      data: report,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (isCancellation(error)) {
+      logger.info('checkComponentContract cancelled', { componentId: params.componentId });
+      return cancelledResponse('checkComponentContract');
+    }
+
+    logger.error('checkComponentContract failed', {
+      componentId: params.componentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'checkComponentContract',
+      error: {
+        code: 'CHECK_COMPONENT_CONTRACT_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const checkComponentContractTool: ToolDefinition<CheckComponentContractParams> = {
+  name: 'check_component_contract',
+  description:
+    "Diff a component's stored manifest (state machines, inputs, events, artboards) against the surface parsed from its .riv file. Classifies each change as breaking or additive and suggests a semver bump.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+      version: componentVersionArgument,
+      suggestVersion: {
+        type: 'boolean',
+        description: 'Include a suggested manifest version (default: true)',
+      },
+    },
+    required: ['componentId'],
+  },
+  handler: checkComponentContract,
+};
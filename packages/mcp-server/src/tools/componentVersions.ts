@@ -0,0 +1,151 @@
+import { listComponentVersions, markLatestComponentVersion, getComponentManifest } from '../utils/storage';
+import { isComponentVersionError } from '../storage';
+import { MCPToolResponse } from '../types';
+import { ComponentVersionHistory, RiveComponentManifest } from '../../../../libs/types';
+import { logger } from '../utils/logger';
+import { ToolDefinition, componentNotFoundResponse } from './registry';
+
+export interface ListComponentVersionsParams {
+  componentId: string;
+}
+
+export interface SetLatestComponentVersionParams {
+  componentId: string;
+  version: string;
+}
+
+/**
+ * List the published versions of a component and which one is latest
+ */
+export async function listVersions(
+  params: ListComponentVersionsParams
+): Promise<MCPToolResponse<ComponentVersionHistory>> {
+  logger.info('listComponentVersions called', { componentId: params.componentId });
+
+  try {
+    const history = await listComponentVersions(params.componentId);
+
+    // A removed component keeps its history, so only report components that never existed
+    if (history.versions.length === 0 && !(await getComponentManifest(params.componentId))) {
+      logger.warn('Component not found', { componentId: params.componentId });
+      return componentNotFoundResponse('listComponentVersions', params.componentId);
+    }
+
+    return {
+      status: 'success',
+      tool: 'listComponentVersions',
+      data: history,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error('listComponentVersions failed', {
+      componentId: params.componentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'listComponentVersions',
+      error: {
+        code: 'LIST_COMPONENT_VERSIONS_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Mark a published version latest and restore the component's manifest from its snapshot
+ */
+export async function setLatestVersion(
+  params: SetLatestComponentVersionParams
+): Promise<MCPToolResponse<RiveComponentManifest>> {
+  logger.info('setLatestComponentVersion called', { componentId: params.componentId, version: params.version });
+
+  try {
+    const manifest = await markLatestComponentVersion(params.componentId, params.version);
+    logger.info('setLatestComponentVersion completed', { componentId: params.componentId, version: manifest.version });
+
+    return {
+      status: 'success',
+      tool: 'setLatestComponentVersion',
+      data: manifest,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (isComponentVersionError(error)) {
+      logger.warn('setLatestComponentVersion rejected', { componentId: params.componentId, code: error.code });
+      return {
+        status: 'error',
+        tool: 'setLatestComponentVersion',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    logger.error('setLatestComponentVersion failed', {
+      componentId: params.componentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'setLatestComponentVersion',
+      error: {
+        code: 'SET_LATEST_COMPONENT_VERSION_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const listComponentVersionsTool: ToolDefinition<ListComponentVersionsParams> = {
+  name: 'list_component_versions',
+  description:
+    'List the published versions of a component, newest first, with when each was published, its .riv snapshot and SHA-256, and which version is marked latest.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+    },
+    required: ['componentId'],
+  },
+  handler: listVersions,
+};
+
+export const setLatestComponentVersionTool: ToolDefinition<SetLatestComponentVersionParams> = {
+  name: 'set_latest_component_version',
+  mutating: true,
+  description:
+    "Mark a published version of a component as latest and restore the component's manifest from that version's snapshot, so its .riv file and runtime surface are served from the snapshot, e.g. to roll back a release.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+      version: {
+        type: 'string',
+        minLength: 1,
+        description: "Published version (semver, or 'latest')",
+      },
+    },
+    required: ['componentId', 'version'],
+  },
+  handler: setLatestVersion,
+};
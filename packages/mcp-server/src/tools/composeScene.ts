@@ -3,6 +3,8 @@ import { MCPToolResponse, ComposeSceneParams } from '../types';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { logger } from '../utils/logger';
+import { ToolDefinition } from './registry';
+import { resolveWritePath, isPathAccessError } from '../utils/pathPolicy';
 
 export interface ComposedScene {
   id: string;
@@ -240,6 +242,19 @@ export async function composeScene(
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
+    if (isPathAccessError(error)) {
+      logger.warn('composeScene manifest path rejected', { sceneName: params.name, code: error.code });
+      return {
+        status: 'error',
+        tool: 'composeScene',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
     logger.error('composeScene failed', {
       sceneName: params.name,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -278,8 +293,111 @@ function generateSceneId(name: string): string {
 async function saveSceneManifest(scene: ComposedScene): Promise<void> {
   const scenesPath = process.env.SCENES_PATH || path.join(process.cwd(), 'libs', 'motion-scenes');
 
-  await fs.mkdir(scenesPath, { recursive: true });
-
-  const manifestPath = path.join(scenesPath, `${scene.id}.scene.json`);
+  const manifestPath = await resolveWritePath(path.resolve(scenesPath, `${scene.id}.scene.json`));
+  await fs.mkdir(path.dirname(manifestPath), { recursive: true });
   await fs.writeFile(manifestPath, JSON.stringify(scene, null, 2), 'utf-8');
 }
+
+const actionParamsSchema = {
+  type: 'object' as const,
+  description: 'Action parameters',
+};
+
+export const composeSceneTool: ToolDefinition<ComposeSceneParams> = {
+  name: 'compose_scene',
+  mutating: true,
+  description: 'Compose a scene from multiple Rive components with orchestration',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        minLength: 1,
+        description: 'Scene name',
+      },
+      description: {
+        type: 'string',
+        description: 'Scene description',
+      },
+      components: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            componentId: { type: 'string', minLength: 1 },
+            instanceName: { type: 'string', minLength: 1 },
+            position: {
+              type: 'object',
+              properties: {
+                x: { type: 'number' },
+                y: { type: 'number' },
+              },
+              required: ['x', 'y'],
+            },
+            scale: { type: 'number' },
+            zIndex: { type: 'integer' },
+            interactions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  trigger: { type: 'string' },
+                  target: { type: 'string' },
+                  action: { type: 'string' },
+                  params: actionParamsSchema,
+                },
+                required: ['trigger', 'target', 'action'],
+              },
+            },
+          },
+          required: ['componentId', 'instanceName'],
+        },
+        description: 'Components to include in the scene',
+      },
+      orchestration: {
+        type: 'object',
+        description: 'Orchestration rules (timeline, rules)',
+        properties: {
+          timeline: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                time: { type: 'number', minimum: 0 },
+                component: { type: 'string' },
+                action: { type: 'string' },
+                params: actionParamsSchema,
+              },
+              required: ['time', 'component', 'action'],
+            },
+          },
+          rules: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                condition: { type: 'string' },
+                actions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      component: { type: 'string' },
+                      action: { type: 'string' },
+                      params: actionParamsSchema,
+                    },
+                    required: ['component', 'action'],
+                  },
+                },
+              },
+              required: ['condition', 'actions'],
+            },
+          },
+        },
+      },
+    },
+    required: ['name', 'components'],
+  },
+  handler: composeScene,
+};
@@ -15,6 +15,12 @@ import type {
 import { validateScene, generateRuntimeCode } from '@astralismotion/scene-composer';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { getComponentById } from '../utils/storage';
+import { MCPToolResponse } from '../types';
+import { logger } from '../utils/logger';
+import { ToolDefinition, ToolContext, cancelledResponse } from './registry';
+import { throwIfCancelled, isCancellation } from '../utils/progress';
+import { resolveWritePath, assertSafeId, isPathAccessError } from '../utils/pathPolicy';
 
 /**
  * Enhanced scene composition parameters
@@ -164,7 +170,7 @@ export interface EnhancedComposeSceneParams {
 
   // Code generation options
   generate?: {
-    frameworks?: Array<'react' | 'vue' | 'stencil' | 'vanilla'>;
+    frameworks?: SceneFramework[];
     typescript?: boolean;
     outputPath?: string;
   };
@@ -173,13 +179,81 @@ export interface EnhancedComposeSceneParams {
   export?: boolean;
 }
 
+/**
+ * Validation diagnostic reported by the scene validator or the catalog check
+ */
+export interface SceneDiagnostic {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface SceneDiagnostics {
+  valid: boolean;
+  errors: SceneDiagnostic[];
+  warnings: SceneDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export type SceneFramework = 'react' | 'vue' | 'stencil' | 'vanilla';
+
+export interface GeneratedSceneFile {
+  framework: SceneFramework;
+  filename: string;
+  code: string;
+}
+
+export interface EnhancedComposeSceneResponse {
+  scene: {
+    id: string;
+    name: string;
+    description?: string;
+    version: string;
+    componentCount: number;
+    orchestrationType: string;
+    capabilities: {
+      hasTimeline: boolean;
+      hasStateMachine: boolean;
+      hasEventConnections: boolean;
+      stateCount: number;
+      transitionCount: number;
+      eventConnectionCount: number;
+      inputCount: number;
+      outputEventCount: number;
+    };
+    viewport: SceneComposition['viewport'];
+  };
+  specification: SceneComposition;
+  diagnostics: SceneDiagnostics;
+  generated: {
+    typescript: boolean;
+    files: GeneratedSceneFile[];
+  };
+  exported: { path: string } | null;
+}
+
+const DEFAULT_FRAMEWORKS: SceneFramework[] = ['react'];
+
 /**
  * Compose a scene with enhanced orchestration capabilities
  */
 export async function composeSceneEnhanced(
-  params: EnhancedComposeSceneParams
-): Promise<any> {
+  params: EnhancedComposeSceneParams,
+  context: ToolContext = {}
+): Promise<MCPToolResponse<EnhancedComposeSceneResponse>> {
+  const { signal, onProgress } = context;
+
+  logger.info('composeSceneEnhanced called', {
+    sceneId: params.id,
+    componentCount: params.components?.length || 0,
+    frameworks: params.generate?.frameworks,
+  });
+
   try {
+    // The ID names the exported scene directory and files
+    assertSafeId(params.id, 'scene');
+
     // Build scene specification
     const spec: SceneComposition = {
       id: params.id,
@@ -248,141 +322,219 @@ export async function composeSceneEnhanced(
       spec.performance = params.performance;
     }
 
-    // Validate scene
+    // Validate scene structure and check components against the catalog
     const validation = validateScene(spec);
-    if (!validation.valid) {
-      const errors = validation.errors.filter((e) => e.severity === 'error');
+    const diagnostics = buildDiagnostics([
+      ...validation.errors,
+      ...(await checkCatalogComponents(params.components)),
+    ]);
+
+    if (!diagnostics.valid) {
+      logger.warn('Scene validation failed', {
+        sceneId: params.id,
+        errorCount: diagnostics.errorCount,
+      });
       return {
-        success: false,
-        error: 'Scene validation failed',
-        validation: {
-          valid: false,
-          errors: errors,
-          errorCount: errors.length,
+        status: 'error',
+        tool: 'composeSceneEnhanced',
+        error: {
+          code: 'SCENE_VALIDATION_FAILED',
+          message: `Scene validation failed with ${diagnostics.errorCount} error(s)`,
+          details: { diagnostics },
         },
+        timestamp: new Date().toISOString(),
       };
     }
 
-    // Generate runtime code if requested
-    const generatedCode: any[] = [];
-    if (params.generate && params.generate.frameworks) {
-      for (const framework of params.generate.frameworks) {
-        const code = generateRuntimeCode(spec, {
-          framework,
-          typescript: params.generate.typescript ?? true,
-          includeTypes: true,
-        });
-
-        const fullCode = [
-          ...code.imports,
-          '',
-          code.types || '',
-          '',
-          code.code,
-        ].join('\n');
-
-        generatedCode.push({
-          framework,
-          filename: code.filename,
-          code: fullCode,
-        });
-
-        // Write to file if output path provided
-        if (params.generate.outputPath) {
-          const frameworkDir = path.join(
-            params.generate.outputPath,
-            framework
-          );
-          await fs.mkdir(frameworkDir, { recursive: true });
-          const filePath = path.join(frameworkDir, code.filename);
-          await fs.writeFile(filePath, fullCode, 'utf-8');
-        }
+    // Generate runtime code for the requested frameworks
+    const typescript = params.generate?.typescript ?? true;
+    const frameworks = params.generate?.frameworks || DEFAULT_FRAMEWORKS;
+    const generatedCode: GeneratedSceneFile[] = [];
+    const outputPath = params.generate?.outputPath
+      ? await resolveWritePath(params.generate.outputPath)
+      : undefined;
+
+    for (const [index, framework] of frameworks.entries()) {
+      throwIfCancelled(signal);
+      onProgress?.({ progress: index, total: frameworks.length, message: `generating ${framework}` });
+      logger.debug('Generating scene runtime code', { sceneId: params.id, framework });
+      const code = generateRuntimeCode(spec, {
+        framework,
+        typescript,
+        includeTypes: true,
+      });
+
+      const fullCode = [
+        ...code.imports,
+        '',
+        code.types || '',
+        '',
+        code.code,
+      ].join('\n');
+
+      generatedCode.push({
+        framework,
+        filename: code.filename,
+        code: fullCode,
+      });
+
+      // Write to file if output path provided
+      if (outputPath) {
+        const filePath = await resolveWritePath(path.join(outputPath, framework, code.filename));
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, fullCode, 'utf-8');
       }
     }
 
     // Export to motion-scenes library if requested
-    let exportPath = null;
+    throwIfCancelled(signal);
+    let exportPath: string | null = null;
     if (params.export) {
-      const scenesDir = path.join(
-        process.cwd(),
-        'libs',
-        'motion-scenes',
+      const scenesDir = path.resolve(
+        process.env.SCENES_PATH || path.join(process.cwd(), 'libs', 'motion-scenes'),
         params.id
       );
-      await fs.mkdir(scenesDir, { recursive: true });
-
-      // Write scene specification
-      const specPath = path.join(scenesDir, `${params.id}-scene.json`);
-      await fs.writeFile(specPath, JSON.stringify(spec, null, 2), 'utf-8');
-
-      // Write README
-      const readme = generateSceneReadme(spec, params);
-      const readmePath = path.join(scenesDir, 'README.md');
-      await fs.writeFile(readmePath, readme, 'utf-8');
+      // Every file is checked, so nothing is written when one of them is outside the write roots
+      const files = [
+        { filePath: path.join(scenesDir, `${params.id}-scene.json`), content: JSON.stringify(spec, null, 2) },
+        { filePath: path.join(scenesDir, 'README.md'), content: generateSceneReadme(spec, params) },
+        ...generatedCode.map((gen) => ({ filePath: path.join(scenesDir, gen.filename), content: gen.code })),
+      ];
+      for (const file of files) {
+        file.filePath = await resolveWritePath(file.filePath);
+      }
 
-      // Write generated code if available
-      for (const gen of generatedCode) {
-        const codePath = path.join(scenesDir, gen.filename);
-        await fs.writeFile(codePath, gen.code, 'utf-8');
+      await fs.mkdir(scenesDir, { recursive: true });
+      for (const { filePath, content } of files) {
+        await fs.writeFile(filePath, content, 'utf-8');
       }
 
       exportPath = scenesDir;
+      logger.info('Scene exported', { sceneId: params.id, path: exportPath });
     }
 
     // Determine orchestration type
     const orchestrationType = determineOrchestrationType(spec);
 
+    onProgress?.({ progress: frameworks.length, total: frameworks.length, message: 'scene composed' });
+    logger.info('composeSceneEnhanced completed successfully', {
+      sceneId: params.id,
+      orchestrationType,
+      warningCount: diagnostics.warningCount,
+    });
+
     return {
-      success: true,
-      scene: {
-        id: spec.id,
-        name: spec.name,
-        description: spec.description,
-        version: spec.version,
-        componentCount: spec.components.length,
-        orchestrationType,
-        capabilities: {
-          hasTimeline: !!spec.timeline,
-          hasStateMachine: !!(spec.states && spec.states.length > 0),
-          hasEventConnections: !!(
-            spec.eventConnections && spec.eventConnections.length > 0
-          ),
-          stateCount: spec.states?.length || 0,
-          transitionCount: spec.transitions?.length || 0,
-          eventConnectionCount: spec.eventConnections?.length || 0,
-          inputCount: spec.inputs?.length || 0,
-          outputEventCount: spec.events?.length || 0,
+      status: 'success',
+      tool: 'composeSceneEnhanced',
+      data: {
+        scene: {
+          id: spec.id,
+          name: spec.name,
+          description: spec.description,
+          version: spec.version,
+          componentCount: spec.components.length,
+          orchestrationType,
+          capabilities: {
+            hasTimeline: !!spec.timeline,
+            hasStateMachine: !!(spec.states && spec.states.length > 0),
+            hasEventConnections: !!(
+              spec.eventConnections && spec.eventConnections.length > 0
+            ),
+            stateCount: spec.states?.length || 0,
+            transitionCount: spec.transitions?.length || 0,
+            eventConnectionCount: spec.eventConnections?.length || 0,
+            inputCount: spec.inputs?.length || 0,
+            outputEventCount: spec.events?.length || 0,
+          },
+          viewport: spec.viewport,
         },
-        viewport: spec.viewport,
-      },
-      specification: spec,
-      validation: {
-        valid: true,
-        warnings: validation.errors.filter((e) => e.severity === 'warning'),
-        warningCount: validation.errors.filter((e) => e.severity === 'warning')
-          .length,
+        specification: spec,
+        diagnostics,
+        generated: {
+          typescript,
+          files: generatedCode,
+        },
+        exported: exportPath ? { path: exportPath } : null,
       },
-      generated: generatedCode.length > 0
-        ? {
-            frameworks: generatedCode.map((g) => g.framework),
-            files: generatedCode.map((g) => ({
-              framework: g.framework,
-              filename: g.filename,
-            })),
-            typescript: params.generate?.typescript ?? true,
-          }
-        : null,
-      exported: params.export ? { path: exportPath } : null,
+      timestamp: new Date().toISOString(),
     };
   } catch (error) {
-    return {
-      success: false,
+    if (isCancellation(error)) {
+      logger.info('composeSceneEnhanced cancelled', { sceneId: params.id });
+      return cancelledResponse('composeSceneEnhanced');
+    }
+
+    if (isPathAccessError(error)) {
+      logger.warn('composeSceneEnhanced output path rejected', { sceneId: params.id, code: error.code });
+      return {
+        status: 'error',
+        tool: 'composeSceneEnhanced',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    logger.error('composeSceneEnhanced failed', {
+      sceneId: params.id,
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return {
+      status: 'error',
+      tool: 'composeSceneEnhanced',
+      error: {
+        code: 'COMPOSE_SCENE_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
     };
   }
 }
 
+/**
+ * Split validator output into errors and warnings
+ */
+function buildDiagnostics(entries: SceneDiagnostic[]): SceneDiagnostics {
+  const errors = entries.filter((e) => e.severity === 'error');
+  const warnings = entries.filter((e) => e.severity === 'warning');
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    errorCount: errors.length,
+    warningCount: warnings.length,
+  };
+}
+
+/**
+ * Warn about components that are not in the manifest catalog
+ * Scenes may reference components that are published later, so this is not an error
+ */
+async function checkCatalogComponents(
+  components: EnhancedComposeSceneParams['components']
+): Promise<SceneDiagnostic[]> {
+  const diagnostics: SceneDiagnostic[] = [];
+
+  for (let i = 0; i < components.length; i++) {
+    const manifest = await getComponentById(components[i].componentId);
+    if (!manifest) {
+      diagnostics.push({
+        path: `components[${i}].componentId`,
+        message: `Component '${components[i].componentId}' not found in the manifest catalog`,
+        severity: 'warning',
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
 /**
  * Determine orchestration type from scene spec
  */
@@ -518,3 +670,267 @@ function generateSceneReadme(
 
   return readme;
 }
+
+const positionSchema = {
+  type: 'object' as const,
+  properties: {
+    x: { type: 'number' as const },
+    y: { type: 'number' as const },
+    z: { type: 'number' as const },
+  },
+  required: ['x', 'y'],
+};
+
+const scaleSchema = {
+  type: 'object' as const,
+  properties: {
+    x: { type: 'number' as const },
+    y: { type: 'number' as const },
+  },
+  required: ['x', 'y'],
+};
+
+export const composeSceneV2Tool: ToolDefinition<EnhancedComposeSceneParams> = {
+  name: 'compose_scene_v2',
+  mutating: true,
+  description:
+    'Compose a production scene from Rive components with viewport, timeline tracks, states, transitions and event connections. Returns validation diagnostics and generated React/Vue/Stencil/vanilla runtime code.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', minLength: 1, description: 'Scene ID: lowercase letters, digits, ".", "_" and "-"' },
+      name: { type: 'string', minLength: 1, description: 'Scene name' },
+      description: { type: 'string', description: 'Scene description' },
+      version: { type: 'string', description: "Scene version (defaults to '1.0.0')" },
+      components: {
+        type: 'array',
+        minItems: 1,
+        description: 'Components placed in the scene',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, description: 'Unique name within the scene' },
+            componentId: { type: 'string', minLength: 1 },
+            libraryId: { type: 'string' },
+            position: positionSchema,
+            scale: scaleSchema,
+            rotation: { type: 'number' },
+            opacity: { type: 'number', minimum: 0, maximum: 1 },
+            zIndex: { type: 'integer' },
+            artboardName: { type: 'string' },
+            stateMachineName: { type: 'string' },
+            visible: { type: 'boolean' },
+            interactive: { type: 'boolean' },
+          },
+          required: ['name', 'componentId', 'position'],
+        },
+      },
+      viewport: {
+        type: 'object',
+        properties: {
+          width: { type: 'number', minimum: 0 },
+          height: { type: 'number', minimum: 0 },
+          unit: { type: 'string', enum: ['px', '%', 'vw', 'vh'] },
+        },
+        required: ['width', 'height'],
+      },
+      timeline: {
+        type: 'object',
+        description: 'Timeline-based orchestration',
+        properties: {
+          duration: { type: 'number', minimum: 0, description: 'Duration in milliseconds' },
+          loop: { type: 'boolean' },
+          playbackRate: { type: 'number' },
+          tracks: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                componentName: { type: 'string' },
+                keyframes: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      time: { type: 'number', minimum: 0 },
+                      property: { type: 'string' },
+                      easing: { type: 'string' },
+                    },
+                    required: ['time', 'property', 'value'],
+                  },
+                },
+                stateMachineInputs: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      time: { type: 'number', minimum: 0 },
+                      inputName: { type: 'string' },
+                    },
+                    required: ['time', 'inputName', 'value'],
+                  },
+                },
+                triggers: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      time: { type: 'number', minimum: 0 },
+                      eventName: { type: 'string' },
+                    },
+                    required: ['time', 'eventName'],
+                  },
+                },
+              },
+              required: ['componentName', 'keyframes'],
+            },
+          },
+        },
+        required: ['duration', 'tracks'],
+      },
+      states: {
+        type: 'array',
+        description: 'Scene-level states',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            componentStates: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  componentName: { type: 'string' },
+                  stateMachine: { type: 'string' },
+                  state: { type: 'string' },
+                  inputs: { type: 'object' },
+                  transform: {
+                    type: 'object',
+                    properties: {
+                      position: positionSchema,
+                      scale: scaleSchema,
+                      rotation: { type: 'number' },
+                      opacity: { type: 'number', minimum: 0, maximum: 1 },
+                    },
+                  },
+                },
+                required: ['componentName'],
+              },
+            },
+          },
+          required: ['name', 'componentStates'],
+        },
+      },
+      transitions: {
+        type: 'array',
+        description: 'Transitions between scene states',
+        items: {
+          type: 'object',
+          properties: {
+            from: { type: 'string' },
+            to: { type: 'string' },
+            duration: { type: 'number', minimum: 0 },
+            easing: { type: 'string' },
+            animations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  componentName: { type: 'string' },
+                  property: { type: 'string' },
+                },
+                required: ['componentName', 'property', 'to'],
+              },
+            },
+          },
+          required: ['from', 'to', 'duration'],
+        },
+      },
+      initialState: { type: 'string', description: 'Initial scene state' },
+      eventConnections: {
+        type: 'array',
+        description: 'Route events from one component to another',
+        items: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'object',
+              properties: {
+                componentName: { type: 'string' },
+                eventName: { type: 'string' },
+              },
+              required: ['componentName', 'eventName'],
+            },
+            target: {
+              type: 'object',
+              properties: {
+                componentName: { type: 'string' },
+                action: { type: 'string', enum: ['trigger', 'setInput', 'setState'] },
+                parameter: { type: 'string' },
+              },
+              required: ['componentName', 'action'],
+            },
+            delay: { type: 'number', minimum: 0 },
+          },
+          required: ['source', 'target'],
+        },
+      },
+      inputs: {
+        type: 'array',
+        description: 'Scene inputs',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            type: { type: 'string', enum: ['string', 'number', 'boolean', 'object'] },
+            description: { type: 'string' },
+            validation: { type: 'object' },
+          },
+          required: ['name', 'type'],
+        },
+      },
+      events: {
+        type: 'array',
+        description: 'Events emitted by the scene',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            payload: { type: 'object' },
+          },
+          required: ['name'],
+        },
+      },
+      guidelines: { type: 'object', description: 'Visual and motion guidelines' },
+      performance: {
+        type: 'object',
+        properties: {
+          preload: { type: 'array', items: { type: 'string' } },
+          lazyLoad: { type: 'array', items: { type: 'string' } },
+          priority: { type: 'string', enum: ['low', 'normal', 'high'] },
+        },
+      },
+      generate: {
+        type: 'object',
+        description: 'Code generation options',
+        properties: {
+          frameworks: {
+            type: 'array',
+            items: { type: 'string', enum: ['react', 'vue', 'stencil', 'vanilla'] },
+            description: "Frameworks to generate runtime code for (defaults to ['react'])",
+          },
+          typescript: { type: 'boolean', description: 'Generate TypeScript (default: true)' },
+          outputPath: { type: 'string', description: 'Directory to write generated files to' },
+        },
+      },
+      export: {
+        type: 'boolean',
+        description: 'Export the scene specification, README and code to the motion-scenes library',
+      },
+    },
+    required: ['id', 'name', 'components', 'viewport'],
+  },
+  handler: composeSceneEnhanced,
+};
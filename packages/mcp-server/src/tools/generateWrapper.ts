@@ -10,6 +10,9 @@ import {
 } from "../generators";
 import { toPascalCase } from "../generators/utils";
 import { logger } from "../utils/logger";
+import { ToolDefinition, ToolContext, cancelledResponse } from "./registry";
+import { scaleProgress, throwIfCancelled, isCancellation } from "../utils/progress";
+import { resolveWritePath, isPathAccessError } from "../utils/pathPolicy";
 
 export interface GenerateWrapperParams {
   surface: RuntimeSurface;
@@ -26,7 +29,8 @@ export interface GenerateWrapperParams {
  * @param params - Configuration for wrapper generation
  * @returns Generated component code and metadata
  */
-export async function generateWrapper(params: GenerateWrapperParams): Promise<any> {
+export async function generateWrapper(params: GenerateWrapperParams, context: ToolContext = {}): Promise<any> {
+  const { signal, onProgress } = context;
   const {
     surface,
     framework = "react",
@@ -69,36 +73,56 @@ export async function generateWrapper(params: GenerateWrapperParams): Promise<an
   try {
     let results: GeneratedComponent[];
 
+    // Generation is the first half of the work, writing files the second
     if (framework === "all") {
       // Generate for all frameworks
       logger.debug('Generating wrappers for all frameworks');
-      const context = {
+      const generatorContext = {
         surface,
         componentName,
         riveSrc,
         outputPath,
       };
-      results = await generateAllWrappers(context);
+      results = await generateAllWrappers(generatorContext, {
+        signal,
+        onProgress: scaleProgress(onProgress, 0, 1, 2),
+      });
     } else {
       // Generate for specific framework
       logger.debug('Generating wrapper for specific framework', { framework });
-      const context: GeneratorContext = {
+      onProgress?.({ progress: 0, total: 2, message: `generating ${framework}` });
+      const generatorContext: GeneratorContext = {
         surface,
         framework: framework as TargetFramework,
         componentName,
         riveSrc,
         outputPath,
       };
-      results = [await generateWrapperCore(context)];
+      results = [await generateWrapperCore(generatorContext)];
     }
 
     logger.debug(`Generated ${results.length} wrapper component(s)`);
 
     // Write to files if requested
     if (writeToFile) {
-      logger.debug('Writing components to file system');
+      // Check every destination before writing any of them, and write to the checked paths
+      const destinations: WriteDestination[] = [];
       for (const result of results) {
-        await writeComponentToFile(result);
+        const filePath = await resolveWritePath(result.filePath);
+        const css = splitStencilCss(result);
+        const cssPath = css ? await resolveWritePath(css.cssPath) : undefined;
+        destinations.push({ filePath, cssPath });
+      }
+
+      logger.debug('Writing components to file system');
+      for (const [index, result] of results.entries()) {
+        throwIfCancelled(signal);
+        onProgress?.({
+          progress: 1 + index / results.length,
+          total: 2,
+          message: `writing ${result.framework}`,
+        });
+        await writeComponentToFile(result, destinations[index]);
         logger.debug('Component written to file', {
           framework: result.framework,
           filePath: result.filePath
@@ -106,6 +130,7 @@ export async function generateWrapper(params: GenerateWrapperParams): Promise<an
       }
     }
 
+    onProgress?.({ progress: 2, total: 2, message: 'wrappers generated' });
     logger.info('generateWrapper completed successfully', {
       componentId: surface.componentId,
       componentCount: results.length,
@@ -123,6 +148,20 @@ export async function generateWrapper(params: GenerateWrapperParams): Promise<an
       message: `Successfully generated ${results.length} wrapper component(s)`,
     };
   } catch (error: any) {
+    if (isCancellation(error)) {
+      logger.info('generateWrapper cancelled', { componentId: surface?.componentId, framework });
+      return cancelledResponse('generateWrapper');
+    }
+
+    if (isPathAccessError(error)) {
+      logger.warn('generateWrapper output path rejected', { outputPath, code: error.code });
+      return {
+        status: "error",
+        code: error.code,
+        message: error.message,
+      };
+    }
+
     logger.error('generateWrapper failed', {
       componentId: surface?.componentId,
       framework,
@@ -138,32 +177,58 @@ export async function generateWrapper(params: GenerateWrapperParams): Promise<an
   }
 }
 
+/**
+ * Checked filesystem paths a generated component is written to
+ */
+interface WriteDestination {
+  filePath: string;
+  cssPath?: string;
+}
+
 /**
  * Writes a generated component to the filesystem
  */
-async function writeComponentToFile(component: GeneratedComponent): Promise<void> {
-  const dir = path.dirname(component.filePath);
+async function writeComponentToFile(
+  component: GeneratedComponent,
+  destination: WriteDestination
+): Promise<void> {
+  const dir = path.dirname(destination.filePath);
 
   // Ensure directory exists
   await fs.mkdir(dir, { recursive: true });
 
   // Handle special case for Stencil (CSS file)
-  if (component.framework === "stencil" && component.code.includes("// CSS File:")) {
-    const [tsCode, cssSection] = component.code.split("// CSS File:");
-    const cssMatch = cssSection.match(/\/\/ (.+\.css)\n([\s\S]+)/);
-
-    if (cssMatch) {
-      const [, cssPath, cssCode] = cssMatch;
-      // Write TypeScript file
-      await fs.writeFile(component.filePath, tsCode.trim(), "utf-8");
-      // Write CSS file
-      await fs.writeFile(cssPath, cssCode.trim(), "utf-8");
-      return;
-    }
+  const css = splitStencilCss(component);
+  if (css && destination.cssPath) {
+    // Write TypeScript file
+    await fs.writeFile(destination.filePath, css.tsCode, "utf-8");
+    // Write CSS file
+    await fs.writeFile(destination.cssPath, css.cssCode, "utf-8");
+    return;
   }
 
   // Write component file
-  await fs.writeFile(component.filePath, component.code, "utf-8");
+  await fs.writeFile(destination.filePath, component.code, "utf-8");
+}
+
+/**
+ * Split a Stencil component's code into its TypeScript and the CSS file it carries, if any
+ */
+function splitStencilCss(
+  component: GeneratedComponent
+): { tsCode: string; cssPath: string; cssCode: string } | null {
+  if (component.framework !== "stencil" || !component.code.includes("// CSS File:")) {
+    return null;
+  }
+
+  const [tsCode, cssSection] = component.code.split("// CSS File:");
+  const cssMatch = cssSection.match(/\/\/ (.+\.css)\n([\s\S]+)/);
+  if (!cssMatch) {
+    return null;
+  }
+
+  const [, cssPath, cssCode] = cssMatch;
+  return { tsCode: tsCode.trim(), cssPath, cssCode: cssCode.trim() };
 }
 
 /**
@@ -181,3 +246,89 @@ export async function generateWrapperFromComponentId(
     message: "This helper requires getRuntimeSurface to be implemented first",
   };
 }
+
+export const generateWrapperTool: ToolDefinition<GenerateWrapperParams> = {
+  name: "generate_wrapper",
+  mutating: true,
+  description: "Generate framework-specific wrapper components for Rive animations",
+  inputSchema: {
+    type: "object",
+    properties: {
+      surface: {
+        type: "object",
+        description: "Runtime surface data",
+        properties: {
+          componentId: { type: "string", minLength: 1 },
+          stateMachines: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                inputs: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      name: { type: "string" },
+                      type: { type: "string", enum: ["bool", "number", "trigger", "string"] },
+                    },
+                    required: ["name", "type"],
+                  },
+                },
+                events: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      name: { type: "string" },
+                    },
+                    required: ["name"],
+                  },
+                },
+              },
+              required: ["name", "inputs"],
+            },
+          },
+          dataBindings: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                type: { type: "string" },
+              },
+              required: ["name", "type"],
+            },
+          },
+        },
+        required: ["componentId", "stateMachines"],
+      },
+      framework: {
+        type: "string",
+        enum: ["react", "vue", "stencil", "all"],
+        description: "Target framework",
+      },
+      riveSrc: {
+        type: "string",
+        minLength: 1,
+        description: "Path to Rive file",
+      },
+      componentName: {
+        type: "string",
+        description: "Component name",
+      },
+      outputPath: {
+        type: "string",
+        description: "Output path for generated files",
+      },
+      writeToFile: {
+        type: "boolean",
+        description: "Whether to write to file system",
+      },
+    },
+    required: ["surface", "riveSrc"],
+  },
+  handler: generateWrapper,
+};
@@ -1,10 +1,13 @@
-import { getComponentById, assetExists } from '../utils/storage';
+import { getComponentById, assetExists, readComponentAsset, statComponentAsset } from '../utils/storage';
 import { extractRiveMetadata } from '../utils/riveParser';
 import { MCPToolResponse, RiveComponent } from '../types';
 import { logger } from '../utils/logger';
+import { ToolDefinition, componentNotFoundResponse, componentVersionArgument } from './registry';
+import * as path from 'path';
 
 export interface GetComponentDetailParams {
   id: string;
+  version?: string;
 }
 
 export interface ComponentDetailResponse extends RiveComponent {
@@ -44,19 +47,11 @@ export async function getComponentDetail(
     }
 
     logger.debug('Fetching component by ID', { componentId: params.id });
-    const componentManifest = await getComponentById(params.id);
+    const componentManifest = await getComponentById(params.id, params.version);
 
     if (!componentManifest) {
-      logger.warn('Component not found', { componentId: params.id });
-      return {
-        status: 'error',
-        tool: 'getComponentDetail',
-        error: {
-          code: 'COMPONENT_NOT_FOUND',
-          message: `Component with ID '${params.id}' not found`,
-        },
-        timestamp: new Date().toISOString(),
-      };
+      logger.warn('Component not found', { componentId: params.id, version: params.version });
+      return componentNotFoundResponse('getComponentDetail', params.id, params.version);
     }
 
     const { component, library } = componentManifest;
@@ -68,14 +63,19 @@ export async function getComponentDetail(
 
     // Check if asset file exists
     logger.debug('Checking if asset file exists', { componentId: component.id });
-    const exists = await assetExists(component.id);
+    const exists = await assetExists(component.id, component.filePath);
     logger.debug(`Asset ${exists ? 'exists' : 'does not exist'}`, { componentId: component.id });
 
     let assetMetadata;
     if (exists && component.filePath) {
       try {
         logger.debug('Extracting asset metadata', { filePath: component.filePath });
-        assetMetadata = await extractRiveMetadata(component.filePath);
+        // filePath is a storage key unless it is absolute, so read through the backend
+        const [fileBuffer, { lastModified }] = await Promise.all([
+          readComponentAsset(component),
+          statComponentAsset(component),
+        ]);
+        assetMetadata = extractRiveMetadata(path.basename(component.filePath), fileBuffer, lastModified);
       } catch (error) {
         // If metadata extraction fails, just note that asset exists
         logger.warn('Failed to extract asset metadata', {
@@ -129,3 +129,21 @@ export async function getComponentDetail(
     };
   }
 }
+
+export const getComponentDetailTool: ToolDefinition<GetComponentDetailParams> = {
+  name: 'get_component_detail',
+  description: 'Get detailed information about a specific Rive component',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+      version: componentVersionArgument,
+    },
+    required: ['id'],
+  },
+  handler: getComponentDetail,
+};
@@ -1,10 +1,12 @@
-import { getComponentById, getAssetPath } from '../utils/storage';
-import { parseRiveFile } from '../utils/riveParser';
+import { getComponentById, readComponentAsset } from '../utils/storage';
+import { parseRiveBuffer } from '../utils/riveParser';
 import { MCPToolResponse, RiveRuntimeSurface } from '../types';
 import { logger } from '../utils/logger';
+import { ToolDefinition, componentNotFoundResponse, componentVersionArgument } from './registry';
 
 export interface GetRuntimeSurfaceParams {
   componentId: string;
+  version?: string;
 }
 
 export async function getRuntimeSurface(
@@ -28,19 +30,11 @@ export async function getRuntimeSurface(
 
     // Get component manifest
     logger.debug('Fetching component manifest', { componentId: params.componentId });
-    const componentManifest = await getComponentById(params.componentId);
+    const componentManifest = await getComponentById(params.componentId, params.version);
 
     if (!componentManifest) {
-      logger.warn('Component not found', { componentId: params.componentId });
-      return {
-        status: 'error',
-        tool: 'getRuntimeSurface',
-        error: {
-          code: 'COMPONENT_NOT_FOUND',
-          message: `Component with ID '${params.componentId}' not found`,
-        },
-        timestamp: new Date().toISOString(),
-      };
+      logger.warn('Component not found', { componentId: params.componentId, version: params.version });
+      return componentNotFoundResponse('getRuntimeSurface', params.componentId, params.version);
     }
 
     const { component } = componentManifest;
@@ -49,13 +43,15 @@ export async function getRuntimeSurface(
       componentName: component.name
     });
 
-    // Get asset path - use filePath from component or default path
-    const assetPath = component.filePath || getAssetPath(component.id);
-    logger.debug('Resolving asset path', { assetPath });
+    // Load the asset from disk or the configured storage backend
+    logger.debug('Reading component asset', { filePath: component.filePath });
+    const fileBuffer = await readComponentAsset(component);
 
     // Parse the Rive file to extract runtime surface
     logger.debug('Parsing Rive file to extract runtime surface');
-    const runtimeSurface = await parseRiveFile(assetPath);
+    const runtimeSurface = await parseRiveBuffer(fileBuffer, component.id, component.filePath, {
+      version: params.version,
+    });
 
     logger.info('getRuntimeSurface completed successfully', {
       componentId: params.componentId,
@@ -87,3 +83,21 @@ export async function getRuntimeSurface(
     };
   }
 }
+
+export const getRuntimeSurfaceTool: ToolDefinition<GetRuntimeSurfaceParams> = {
+  name: 'get_runtime_surface',
+  description: 'Extract runtime surface information from a Rive component (state machines, inputs, events)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+      version: componentVersionArgument,
+    },
+    required: ['componentId'],
+  },
+  handler: getRuntimeSurface,
+};
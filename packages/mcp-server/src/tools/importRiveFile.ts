@@ -1,7 +1,18 @@
-import { parseRiveFile } from '../utils/riveParser';
-import { saveLibrary, addComponentToLibrary } from '../utils/storage';
+import { parseRiveBuffer } from '../utils/riveParser';
+import {
+  saveLibrary,
+  addComponentToLibrary,
+  writeComponentAsset,
+  publishComponentVersion,
+  assertVersionPublishable,
+} from '../utils/storage';
+import { isComponentVersionError, isStorageConflictError } from '../storage';
 import { MCPToolResponse, RiveComponent, RiveLibrary } from '../types';
+import { ComponentVersionInfo } from '../../../../libs/types';
 import { logger } from '../utils/logger';
+import { ToolDefinition, ToolContext, cancelledResponse } from './registry';
+import { scaleProgress, throwIfCancelled, isCancellation } from '../utils/progress';
+import { resolveReadPath, assertSafeId, isPathAccessError } from '../utils/pathPolicy';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 
@@ -10,20 +21,29 @@ export interface ImportRiveFileParams {
   libraryId?: string;
   componentName?: string;
   componentId?: string;
+  /** Publish the import as this version in the component's version history */
+  version?: string;
 }
 
 export interface ImportRiveFileResponse {
   component: RiveComponent;
   library: RiveLibrary;
   manifestCreated: boolean;
+  version?: ComponentVersionInfo;
 }
 
+// read, parse (two steps), store asset, update manifests
+const IMPORT_STEPS = 5;
+
 /**
  * Import a .riv file and auto-generate manifest
  */
 export async function importRiveFile(
-  params: ImportRiveFileParams
+  params: ImportRiveFileParams,
+  context: ToolContext = {}
 ): Promise<MCPToolResponse<ImportRiveFileResponse>> {
+  const { signal, onProgress } = context;
+
   logger.info('importRiveFile called', {
     filePath: params.filePath,
     libraryId: params.libraryId
@@ -44,10 +64,19 @@ export async function importRiveFile(
       };
     }
 
+    // Reject paths outside the configured read roots, and IDs that would become paths elsewhere
+    const sourcePath = await resolveReadPath(params.filePath);
+    if (params.componentId !== undefined) {
+      assertSafeId(params.componentId, 'component');
+    }
+    if (params.libraryId !== undefined) {
+      assertSafeId(params.libraryId, 'library');
+    }
+
     // Check if file exists
     logger.debug('Checking if file exists', { filePath: params.filePath });
     try {
-      await fs.access(params.filePath);
+      await fs.access(sourcePath);
     } catch {
       logger.warn('File not found', { filePath: params.filePath });
       return {
@@ -75,15 +104,33 @@ export async function importRiveFile(
       };
     }
 
-    // Parse the .riv file to extract runtime surface
-    logger.debug('Parsing .riv file', { filePath: params.filePath });
-    const runtimeSurface = await parseRiveFile(params.filePath);
-
     // Generate component ID from filename if not provided
     const fileName = path.basename(params.filePath, '.riv');
     const componentId = params.componentId || fileName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
     const componentName = params.componentName || fileName;
 
+    // Published versions are immutable, so refuse before anything is written
+    if (params.version) {
+      await assertVersionPublishable(componentId, params.version);
+    }
+
+    // Parse the .riv file to extract runtime surface
+    logger.debug('Parsing .riv file', { filePath: params.filePath });
+    onProgress?.({ progress: 0, total: IMPORT_STEPS, message: `reading ${fileName}.riv` });
+    const fileBuffer = await fs.readFile(sourcePath);
+    const runtimeSurface = await parseRiveBuffer(fileBuffer, componentId, params.filePath, {
+      signal,
+      onProgress: scaleProgress(onProgress, 1, 2, IMPORT_STEPS),
+    });
+
+    // Nothing has been written yet; past this point the import runs to completion
+    throwIfCancelled(signal);
+
+    // Store the asset alongside the manifests
+    onProgress?.({ progress: 3, total: IMPORT_STEPS, message: 'storing asset' });
+    const assetPath = await writeComponentAsset(componentId, fileBuffer);
+    logger.debug('Stored component asset', { componentId, assetPath });
+
     logger.debug('Generated component metadata', {
       componentId,
       componentName,
@@ -96,7 +143,7 @@ export async function importRiveFile(
       libraryId: params.libraryId || 'imported-components',
       name: componentName,
       description: `Imported from ${fileName}.riv`,
-      filePath: params.filePath,
+      filePath: assetPath,
       tags: ['imported'],
       artboardName: runtimeSurface.artboards[0]?.name,
       stateMachineName: runtimeSurface.stateMachines[0]?.name,
@@ -105,10 +152,12 @@ export async function importRiveFile(
       metadata: {
         runtimeSurface,
         importedAt: new Date().toISOString(),
+        ...(params.version && { version: params.version }),
       },
     };
 
     // Determine library
+    onProgress?.({ progress: 4, total: IMPORT_STEPS, message: 'updating manifests' });
     const libraryId = params.libraryId || 'imported-components';
     logger.debug('Using library', { libraryId });
 
@@ -116,17 +165,12 @@ export async function importRiveFile(
     let library: RiveLibrary;
     let manifestCreated = false;
 
-    try {
-      // Try to add to existing library
-      const result = await addComponentToLibrary(libraryId, component);
-      if (result) {
-        library = result.library;
-        logger.info('Component added to existing library', { libraryId, componentId });
-      } else {
-        throw new Error('Library not found, will create new');
-      }
-    } catch {
-      // Library doesn't exist, create it
+    // Only a missing library is created; conflicts and I/O errors fail the import
+    const result = await addComponentToLibrary(libraryId, component);
+    if (result) {
+      library = result.library;
+      logger.info('Component added to existing library', { libraryId, componentId });
+    } else {
       logger.debug('Creating new library', { libraryId });
       library = {
         id: libraryId,
@@ -143,6 +187,9 @@ export async function importRiveFile(
       logger.info('New library created', { libraryId, componentId });
     }
 
+    const version = params.version ? await publishComponentVersion(componentId, fileBuffer) : undefined;
+
+    onProgress?.({ progress: IMPORT_STEPS, total: IMPORT_STEPS, message: 'import complete' });
     logger.info('importRiveFile completed successfully', {
       componentId,
       libraryId,
@@ -156,10 +203,55 @@ export async function importRiveFile(
         component,
         library,
         manifestCreated,
+        version,
       },
       timestamp: new Date().toISOString(),
     };
   } catch (error) {
+    if (isCancellation(error)) {
+      logger.info('importRiveFile cancelled', { filePath: params.filePath });
+      return cancelledResponse('importRiveFile');
+    }
+
+    if (isComponentVersionError(error)) {
+      logger.warn('importRiveFile version rejected', { filePath: params.filePath, code: error.code });
+      return {
+        status: 'error',
+        tool: 'importRiveFile',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    if (isStorageConflictError(error)) {
+      logger.warn('importRiveFile lost to a concurrent change', { filePath: params.filePath, code: error.code });
+      return {
+        status: 'error',
+        tool: 'importRiveFile',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    if (isPathAccessError(error)) {
+      logger.warn('importRiveFile path rejected', { filePath: params.filePath, code: error.code });
+      return {
+        status: 'error',
+        tool: 'importRiveFile',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
     logger.error('importRiveFile failed', {
       filePath: params.filePath,
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -178,3 +270,135 @@ export async function importRiveFile(
     };
   }
 }
+
+export const importRiveFileTool: ToolDefinition<ImportRiveFileParams> = {
+  name: 'import_rive_file',
+  mutating: true,
+  description:
+    'Import a .riv file and auto-generate manifest from it. Accepts file path and extracts all metadata automatically.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      filePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Absolute path to the .riv file',
+      },
+      libraryId: {
+        type: 'string',
+        description: "Optional library ID (defaults to 'imported-components')",
+      },
+      componentName: {
+        type: 'string',
+        description: 'Optional component name (defaults to filename)',
+      },
+      componentId: {
+        type: 'string',
+        description: 'Optional component ID (defaults to filename)',
+      },
+      version: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional semantic version to publish the import as; published versions are kept and cannot be overwritten',
+      },
+    },
+    required: ['filePath'],
+  },
+  handler: importRiveFile,
+};
+
+export interface ImportRiveFilesParams {
+  filePaths: string[];
+  libraryId?: string;
+}
+
+export interface ImportRiveFilesResponse {
+  imported: RiveComponent[];
+  failed: Array<{ filePath: string; error: { code: string; message: string } }>;
+}
+
+/**
+ * Import several .riv files into one library
+ * Files are imported one at a time; a failed file does not stop the batch
+ */
+export async function importRiveFiles(
+  params: ImportRiveFilesParams,
+  context: ToolContext = {}
+): Promise<MCPToolResponse<ImportRiveFilesResponse>> {
+  const { signal, onProgress } = context;
+  const filePaths = params.filePaths || [];
+
+  logger.info('importRiveFiles called', {
+    fileCount: filePaths.length,
+    libraryId: params.libraryId
+  });
+
+  const imported: RiveComponent[] = [];
+  const failed: ImportRiveFilesResponse['failed'] = [];
+
+  for (const [index, filePath] of filePaths.entries()) {
+    if (signal?.aborted) {
+      logger.info('importRiveFiles cancelled', { imported: imported.length, remaining: filePaths.length - index });
+      return cancelledResponse('importRiveFiles');
+    }
+
+    const fileName = path.basename(filePath);
+    onProgress?.({ progress: index, total: filePaths.length, message: `importing ${index + 1}/${filePaths.length}: ${fileName}` });
+
+    const result = await importRiveFile(
+      { filePath, libraryId: params.libraryId },
+      { signal, onProgress: scaleProgress(onProgress, index, 1, filePaths.length) }
+    );
+
+    if (result.status === 'success') {
+      imported.push(result.data!.component);
+    } else if (result.error?.code === 'CANCELLED') {
+      return cancelledResponse('importRiveFiles');
+    } else {
+      failed.push({
+        filePath,
+        error: { code: result.error!.code, message: result.error!.message },
+      });
+    }
+  }
+
+  onProgress?.({ progress: filePaths.length, total: filePaths.length, message: 'batch import complete' });
+  logger.info('importRiveFiles completed', {
+    imported: imported.length,
+    failed: failed.length
+  });
+
+  return {
+    status: 'success',
+    tool: 'importRiveFiles',
+    data: {
+      imported,
+      failed,
+    },
+    timestamp: new Date().toISOString(),
+  };
+}
+
+export const importRiveFilesTool: ToolDefinition<ImportRiveFilesParams> = {
+  name: 'import_rive_files',
+  mutating: true,
+  description:
+    'Import several .riv files into a library in one call. Reports per-file progress and stops between files when cancelled.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      filePaths: {
+        type: 'array',
+        minItems: 1,
+        items: { type: 'string', minLength: 1 },
+        description: 'Absolute paths to the .riv files',
+      },
+      libraryId: {
+        type: 'string',
+        description: "Optional library ID (defaults to 'imported-components')",
+      },
+    },
+    required: ['filePaths'],
+  },
+  handler: importRiveFiles,
+};
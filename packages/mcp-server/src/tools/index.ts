@@ -0,0 +1,68 @@
+/**
+ * Tools Module
+ * Builds the registry of MCP tools exposed by the server
+ */
+
+import { ToolRegistry, ToolDefinition } from './registry';
+import { listLibrariesTool } from './listLibraries';
+import { listComponentsTool } from './listComponents';
+import { getComponentDetailTool } from './getComponentDetail';
+import { getRuntimeSurfaceTool } from './getRuntimeSurface';
+import { checkComponentContractTool } from './checkComponentContract';
+import { checkComponentAssetsTool } from './checkComponentAssets';
+import { listComponentVersionsTool, setLatestComponentVersionTool } from './componentVersions';
+import { generateWrapperTool } from './generateWrapper';
+import { composeSceneTool } from './composeScene';
+import { composeSceneV2Tool } from './composeSceneEnhanced';
+import { importRiveFileTool, importRiveFilesTool } from './importRiveFile';
+import { renderComponentPreviewTool } from './renderComponentPreview';
+import { simulateStateMachineTool } from './simulateStateMachine';
+import { inspectParseCacheTool, clearParseCacheTool } from './parseCache';
+import { ToolProfile } from '../../../../libs/types';
+
+export * from './registry';
+export { createTelemetryTools } from './telemetry';
+
+export interface ToolRegistryOptions {
+  /** Mount these tools as well, such as the ones from createTelemetryTools */
+  tools?: ToolDefinition[];
+  /** 'read-only' leaves out mutating tools (default: 'read-write') */
+  profile?: ToolProfile;
+}
+
+const builtinTools: ToolDefinition[] = [
+  listLibrariesTool,
+  listComponentsTool,
+  getComponentDetailTool,
+  getRuntimeSurfaceTool,
+  checkComponentContractTool,
+  checkComponentAssetsTool,
+  listComponentVersionsTool,
+  simulateStateMachineTool,
+  generateWrapperTool,
+  composeSceneTool,
+  composeSceneV2Tool,
+  importRiveFileTool,
+  importRiveFilesTool,
+  setLatestComponentVersionTool,
+  renderComponentPreviewTool,
+  inspectParseCacheTool,
+  clearParseCacheTool,
+];
+
+/**
+ * Create a registry with all built-in tools allowed by the profile
+ */
+export function createToolRegistry(options: ToolRegistryOptions = {}): ToolRegistry {
+  const registry = new ToolRegistry();
+  const tools = [...builtinTools, ...(options.tools || [])];
+
+  for (const tool of tools) {
+    if (options.profile === 'read-only' && tool.mutating) {
+      continue;
+    }
+    registry.register(tool);
+  }
+
+  return registry;
+}
@@ -1,6 +1,7 @@
 import { getComponentsByLibrary, searchComponents } from '../utils/storage';
 import { MCPToolResponse, RiveComponent } from '../types';
 import { logger } from '../utils/logger';
+import { ToolDefinition } from './registry';
 
 export interface ListComponentsParams {
   libraryId?: string;
@@ -84,3 +85,27 @@ export async function listComponents(
     };
   }
 }
+
+export const listComponentsTool: ToolDefinition<ListComponentsParams> = {
+  name: 'list_components',
+  description: 'List Rive components with optional filtering',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      libraryId: {
+        type: 'string',
+        description: 'Filter by library ID',
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by tags',
+      },
+      search: {
+        type: 'string',
+        description: 'Search query',
+      },
+    },
+  },
+  handler: listComponents,
+};
@@ -1,6 +1,7 @@
 import { getAllLibraries } from '../utils/storage';
 import { MCPToolResponse, RiveLibrary } from '../types';
 import { logger } from '../utils/logger';
+import { ToolDefinition } from './registry';
 
 export interface ListLibrariesParams {
   tags?: string[];
@@ -69,3 +70,23 @@ export async function listLibraries(
     };
   }
 }
+
+export const listLibrariesTool: ToolDefinition<ListLibrariesParams> = {
+  name: 'list_libraries',
+  description: 'List all available Rive libraries with optional filtering by tags or search query',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Filter by tags',
+      },
+      search: {
+        type: 'string',
+        description: 'Search query for library name or description',
+      },
+    },
+  },
+  handler: listLibraries,
+};
@@ -0,0 +1,124 @@
+import { parseCache, ParseCacheStats } from '../utils/parseCache';
+import { MCPToolResponse } from '../types';
+import { logger } from '../utils/logger';
+import { ToolDefinition } from './registry';
+
+export interface InspectParseCacheParams {
+  componentId?: string;
+}
+
+export interface ClearParseCacheParams {
+  componentId?: string;
+}
+
+export interface ClearParseCacheResponse {
+  removed: number;
+}
+
+/**
+ * List the runtime surfaces held by the parse cache
+ */
+export async function inspectParseCache(
+  params: InspectParseCacheParams = {}
+): Promise<MCPToolResponse<ParseCacheStats>> {
+  logger.info('inspectParseCache called', { componentId: params.componentId });
+
+  try {
+    const stats = await parseCache.inspect(params.componentId);
+
+    return {
+      status: 'success',
+      tool: 'inspectParseCache',
+      data: stats,
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error('inspectParseCache failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'inspectParseCache',
+      error: {
+        code: 'INSPECT_PARSE_CACHE_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Drop cached runtime surfaces so the next request parses the asset again
+ */
+export async function clearParseCache(
+  params: ClearParseCacheParams = {}
+): Promise<MCPToolResponse<ClearParseCacheResponse>> {
+  logger.info('clearParseCache called', { componentId: params.componentId });
+
+  try {
+    const removed = await parseCache.clear(params.componentId);
+    logger.info('clearParseCache completed', { componentId: params.componentId, removed });
+
+    return {
+      status: 'success',
+      tool: 'clearParseCache',
+      data: { removed },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error('clearParseCache failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'clearParseCache',
+      error: {
+        code: 'CLEAR_PARSE_CACHE_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const inspectParseCacheTool: ToolDefinition<InspectParseCacheParams> = {
+  name: 'inspect_parse_cache',
+  description:
+    'List the runtime surfaces cached by content hash and runtime version, with the components that use them and hit/miss counts.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Only list entries used by this component',
+      },
+    },
+  },
+  handler: inspectParseCache,
+};
+
+export const clearParseCacheTool: ToolDefinition<ClearParseCacheParams> = {
+  name: 'clear_parse_cache',
+  mutating: true,
+  description:
+    'Remove cached runtime surfaces from memory and the storage backend, for all components or one, so they are parsed again on next use.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Only clear entries used by this component (default: everything)',
+      },
+    },
+  },
+  handler: clearParseCache,
+};
@@ -0,0 +1,124 @@
+/**
+ * Tool registry
+ * Each tool module exports a ToolDefinition; arguments are validated against the
+ * tool's input schema before its handler is invoked.
+ */
+
+import { MCPToolResponse } from '../types';
+import { JSONSchema, validateSchema, formatSchemaErrors } from '../utils/schemaValidator';
+import { logger } from '../utils/logger';
+import { OperationOptions } from '../utils/progress';
+
+/**
+ * Per-call context: the client's cancellation signal and a progress sink
+ */
+export type ToolContext = OperationOptions;
+
+export interface ToolDefinition<P = any, R = any> {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema & { type: 'object' };
+  /** Writes files, assets or manifests; hidden by the read-only profile */
+  mutating?: boolean;
+  handler: (params: P, context?: ToolContext) => Promise<R>;
+}
+
+export interface ToolListing {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema & { type: 'object' };
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  /**
+   * Register a tool definition
+   */
+  register(tool: ToolDefinition): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  /**
+   * Get a tool definition by name
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * List tools in registration order, as advertised by ListTools
+   */
+  list(): ToolListing[] {
+    return Array.from(this.tools.values()).map(({ name, description, inputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+    }));
+  }
+
+  /**
+   * Validate arguments and dispatch to the tool handler
+   */
+  async call(name: string, args: Record<string, unknown> = {}, context: ToolContext = {}): Promise<any> {
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      logger.warn('Unknown tool requested', { tool: name });
+      return toolError(name, 'UNKNOWN_TOOL', `Unknown tool: ${name}`);
+    }
+
+    const errors = validateSchema(tool.inputSchema, args);
+    if (errors.length > 0) {
+      logger.warn('Tool arguments failed validation', { tool: name, errors });
+      return toolError(name, 'INVALID_ARGUMENT', `Invalid arguments for ${name}: ${formatSchemaErrors(errors)}`, {
+        errors,
+      });
+    }
+
+    return tool.handler(args, context);
+  }
+}
+
+/**
+ * Schema of the optional `version` argument taken by tools that read a component
+ */
+export const componentVersionArgument: JSONSchema = {
+  type: 'string',
+  minLength: 1,
+  description: "Published version to use (semver, or 'latest'); defaults to the component's current manifest",
+};
+
+/**
+ * Response for a component, or a published version of it, that is not in storage
+ */
+export function componentNotFoundResponse(tool: string, componentId: string, version?: string): MCPToolResponse {
+  if (version) {
+    return toolError(tool, 'VERSION_NOT_FOUND', `Version '${version}' of component '${componentId}' not found`);
+  }
+  return toolError(tool, 'COMPONENT_NOT_FOUND', `Component with ID '${componentId}' not found`);
+}
+
+/**
+ * Response for a tool call stopped by the client's abort signal
+ */
+export function cancelledResponse(tool: string): MCPToolResponse {
+  return toolError(tool, 'CANCELLED', 'Operation cancelled by client');
+}
+
+function toolError(tool: string, code: string, message: string, details?: any): MCPToolResponse {
+  return {
+    status: 'error',
+    tool,
+    error: {
+      code,
+      message,
+      details,
+    },
+    timestamp: new Date().toISOString(),
+  };
+}
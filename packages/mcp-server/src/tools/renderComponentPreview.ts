@@ -0,0 +1,257 @@
+import { getComponentById, readComponentAsset, writeComponentPreview, addComponentToLibrary } from '../utils/storage';
+import { renderPreview, isPreviewRenderError, PreviewInputStep } from '../utils/previewRenderer';
+import { MCPToolResponse } from '../types';
+import { logger } from '../utils/logger';
+import { ToolDefinition, ToolContext, cancelledResponse, componentNotFoundResponse, componentVersionArgument } from './registry';
+import { scaleProgress, throwIfCancelled, isCancellation } from '../utils/progress';
+
+export interface RenderComponentPreviewParams {
+  componentId: string;
+  version?: string;
+  artboard?: string;
+  stateMachine?: string;
+  width?: number;
+  height?: number;
+  /** Seconds at which to capture stills; the first becomes the thumbnail */
+  times?: number[];
+  inputs?: PreviewInputStep[];
+  /** true for the default sheet, false to skip it */
+  spriteSheet?: boolean | { frames?: number; duration?: number; columns?: number };
+}
+
+export interface StoredPreviewFrame {
+  time: number;
+  url: string;
+}
+
+export interface RenderComponentPreviewResponse {
+  componentId: string;
+  artboard: string;
+  stateMachine?: string;
+  width: number;
+  height: number;
+  thumbnailUrl: string;
+  previewUrl?: string;
+  frames: StoredPreviewFrame[];
+  spriteSheet?: {
+    url: string;
+    frames: number;
+    columns: number;
+    rows: number;
+    frameWidth: number;
+    frameHeight: number;
+    duration: number;
+  };
+}
+
+const DEFAULT_SIZE = 512;
+const DEFAULT_SPRITE_FRAMES = 12;
+const DEFAULT_SPRITE_DURATION = 1;
+
+// render (four steps), store images, update manifests
+const RENDER_STEPS = 6;
+
+/**
+ * Render stills and a sprite sheet of a component, store them next to its asset
+ * and link them from the manifest
+ * A published version is rendered from its snapshot; its images are stored under the version and its
+ * manifest, being immutable, is left as published.
+ */
+export async function renderComponentPreview(
+  params: RenderComponentPreviewParams,
+  context: ToolContext = {}
+): Promise<MCPToolResponse<RenderComponentPreviewResponse>> {
+  const { signal, onProgress } = context;
+  const { width = DEFAULT_SIZE, height = DEFAULT_SIZE, spriteSheet = true } = params;
+  const times = params.times?.length ? params.times : [0];
+
+  logger.info('renderComponentPreview called', { componentId: params.componentId, version: params.version });
+
+  try {
+    const componentManifest = await getComponentById(params.componentId, params.version);
+
+    if (!componentManifest) {
+      logger.warn('Component not found', { componentId: params.componentId, version: params.version });
+      return componentNotFoundResponse('renderComponentPreview', params.componentId, params.version);
+    }
+
+    const { component, library } = componentManifest;
+    // 'latest' resolves to the published version the snapshot records
+    const namePrefix = params.version ? `${component.metadata?.version}.` : '';
+    logger.debug('Reading component asset', { filePath: component.filePath });
+    const fileBuffer = await readComponentAsset(component);
+
+    const rendered = await renderPreview(fileBuffer, {
+      artboard: params.artboard ?? component.artboardName,
+      stateMachine: params.stateMachine ?? (params.artboard ? undefined : component.stateMachineName),
+      width,
+      height,
+      times,
+      inputs: params.inputs,
+      spriteSheet: spriteSheet
+        ? {
+            frames: (spriteSheet !== true && spriteSheet.frames) || DEFAULT_SPRITE_FRAMES,
+            duration: (spriteSheet !== true && spriteSheet.duration) || DEFAULT_SPRITE_DURATION,
+            columns: spriteSheet !== true ? spriteSheet.columns : undefined,
+          }
+        : undefined,
+      signal,
+      onProgress: scaleProgress(onProgress, 0, 4, RENDER_STEPS),
+    });
+
+    // Nothing has been written yet; past this point the render runs to completion
+    throwIfCancelled(signal);
+
+    onProgress?.({ progress: 4, total: RENDER_STEPS, message: 'storing previews' });
+    const frames: StoredPreviewFrame[] = [];
+    for (const [index, frame] of rendered.frames.entries()) {
+      const name = namePrefix + (index === 0 ? 'thumbnail' : `frame-${Math.round(frame.time * 1000)}ms`);
+      frames.push({ time: frame.time, url: await writeComponentPreview(component.id, name, frame.png) });
+    }
+
+    let spriteSheetData: RenderComponentPreviewResponse['spriteSheet'];
+    if (rendered.spriteSheet) {
+      const { png, ...layout } = rendered.spriteSheet;
+      spriteSheetData = { url: await writeComponentPreview(component.id, `${namePrefix}sprites`, png), ...layout };
+    }
+    const sheetUrl = spriteSheetData?.url;
+
+    const thumbnailUrl = frames[0].url;
+    if (!params.version) {
+      onProgress?.({ progress: 5, total: RENDER_STEPS, message: 'updating manifests' });
+      // Without a new sprite sheet the existing preview stays linked
+      component.metadata = { ...component.metadata, thumbnailUrl, previewUrl: sheetUrl ?? component.metadata?.previewUrl };
+      component.updatedAt = new Date().toISOString();
+      await addComponentToLibrary(library.id, component);
+    }
+
+    onProgress?.({ progress: RENDER_STEPS, total: RENDER_STEPS, message: 'render complete' });
+    logger.info('renderComponentPreview completed', {
+      componentId: component.id,
+      frames: frames.length,
+      spriteSheet: Boolean(sheetUrl)
+    });
+
+    return {
+      status: 'success',
+      tool: 'renderComponentPreview',
+      data: {
+        componentId: component.id,
+        artboard: rendered.artboard,
+        stateMachine: rendered.stateMachine,
+        width: rendered.width,
+        height: rendered.height,
+        thumbnailUrl,
+        previewUrl: sheetUrl,
+        frames,
+        spriteSheet: spriteSheetData,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (isCancellation(error)) {
+      logger.info('renderComponentPreview cancelled', { componentId: params.componentId });
+      return cancelledResponse('renderComponentPreview');
+    }
+
+    if (isPreviewRenderError(error)) {
+      logger.warn('renderComponentPreview rejected', { componentId: params.componentId, code: error.code });
+      return {
+        status: 'error',
+        tool: 'renderComponentPreview',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    logger.error('renderComponentPreview failed', {
+      componentId: params.componentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'renderComponentPreview',
+      error: {
+        code: 'RENDER_COMPONENT_PREVIEW_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const renderComponentPreviewTool: ToolDefinition<RenderComponentPreviewParams> = {
+  name: 'render_component_preview',
+  mutating: true,
+  description:
+    "Render a component's artboard and state machine headlessly to PNG stills at given times (optionally after input changes) plus an animated sprite sheet. Stores the images next to the .riv asset and links them as the manifest's thumbnailUrl and previewUrl; a published version's images are stored under the version without changing its manifest.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+      version: componentVersionArgument,
+      artboard: {
+        type: 'string',
+        description: "Artboard to render (default: the component's artboard)",
+      },
+      stateMachine: {
+        type: 'string',
+        description: "State machine to run (default: the component's state machine, else the artboard's first)",
+      },
+      width: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 4096,
+        description: 'Frame width in pixels (default: 512)',
+      },
+      height: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 4096,
+        description: 'Frame height in pixels (default: 512)',
+      },
+      times: {
+        type: 'array',
+        items: { type: 'number', minimum: 0 },
+        description: 'Seconds at which to capture stills; the first is stored as the thumbnail (default: [0])',
+      },
+      inputs: {
+        type: 'array',
+        description: 'State machine input changes applied as the timeline reaches them',
+        items: {
+          type: 'object',
+          properties: {
+            at: { type: 'number', minimum: 0, description: 'Seconds from the start' },
+            input: { type: 'string', minLength: 1, description: 'Input name' },
+            value: {
+              type: ['boolean', 'number'],
+              description: 'New value for bool and number inputs; omit to fire a trigger',
+            },
+          },
+          required: ['at', 'input'],
+        },
+      },
+      spriteSheet: {
+        type: ['boolean', 'object'],
+        description: 'Render an animated sprite sheet as the preview (default: true, 12 frames over 1 second)',
+        properties: {
+          frames: { type: 'integer', minimum: 1, maximum: 120, description: 'Frames in the sheet (default: 12)' },
+          duration: { type: 'number', minimum: 0.01, description: 'Seconds covered, from 0 (default: 1)' },
+          columns: { type: 'integer', minimum: 1, description: 'Frames per row (default: square grid); the sheet is limited to 16384 px per side' },
+        },
+      },
+    },
+    required: ['componentId'],
+  },
+  handler: renderComponentPreview,
+};
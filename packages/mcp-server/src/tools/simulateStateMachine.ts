@@ -0,0 +1,157 @@
+import { getComponentById, readComponentAsset } from '../utils/storage';
+import {
+  simulateStateMachine as runSimulation,
+  isSimulationError,
+  SimulationStep,
+  SimulationResult,
+} from '../utils/stateMachineSimulator';
+import { MCPToolResponse } from '../types';
+import { logger } from '../utils/logger';
+import { ToolDefinition, ToolContext, cancelledResponse, componentNotFoundResponse, componentVersionArgument } from './registry';
+import { isCancellation } from '../utils/progress';
+
+export interface SimulateStateMachineParams {
+  componentId: string;
+  version?: string;
+  artboard?: string;
+  stateMachine?: string;
+  steps: SimulationStep[];
+  frameRate?: number;
+}
+
+export interface SimulateStateMachineResponse extends SimulationResult {
+  componentId: string;
+}
+
+/**
+ * Run a scripted sequence of input changes and advances against a component's state machine
+ */
+export async function simulateStateMachine(
+  params: SimulateStateMachineParams,
+  context: ToolContext = {}
+): Promise<MCPToolResponse<SimulateStateMachineResponse>> {
+  logger.info('simulateStateMachine called', {
+    componentId: params.componentId,
+    stateMachine: params.stateMachine,
+    steps: params.steps?.length
+  });
+
+  try {
+    const componentManifest = await getComponentById(params.componentId, params.version);
+
+    if (!componentManifest) {
+      logger.warn('Component not found', { componentId: params.componentId, version: params.version });
+      return componentNotFoundResponse('simulateStateMachine', params.componentId, params.version);
+    }
+
+    const { component } = componentManifest;
+    logger.debug('Reading component asset', { filePath: component.filePath });
+    const fileBuffer = await readComponentAsset(component);
+
+    const result = await runSimulation(fileBuffer, {
+      artboard: params.artboard ?? component.artboardName,
+      stateMachine: params.stateMachine ?? (params.artboard ? undefined : component.stateMachineName),
+      steps: params.steps,
+      frameRate: params.frameRate,
+      signal: context.signal,
+      onProgress: context.onProgress,
+    });
+
+    logger.info('simulateStateMachine completed', {
+      componentId: component.id,
+      stateMachine: result.stateMachine,
+      duration: result.duration,
+      events: result.events.length
+    });
+
+    return {
+      status: 'success',
+      tool: 'simulateStateMachine',
+      data: { componentId: component.id, ...result },
+      timestamp: new Date().toISOString(),
+    };
+  } catch (error) {
+    if (isCancellation(error)) {
+      logger.info('simulateStateMachine cancelled', { componentId: params.componentId });
+      return cancelledResponse('simulateStateMachine');
+    }
+
+    if (isSimulationError(error)) {
+      logger.warn('simulateStateMachine rejected', { componentId: params.componentId, code: error.code });
+      return {
+        status: 'error',
+        tool: 'simulateStateMachine',
+        error: {
+          code: error.code,
+          message: error.message,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    logger.error('simulateStateMachine failed', {
+      componentId: params.componentId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return {
+      status: 'error',
+      tool: 'simulateStateMachine',
+      error: {
+        code: 'SIMULATE_STATE_MACHINE_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: error,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const simulateStateMachineTool: ToolDefinition<SimulateStateMachineParams> = {
+  name: 'simulate_state_machine',
+  description:
+    "Run a component's state machine headlessly through a script of timed steps (set input, fire trigger, advance N ms) at a fixed frame rate. Returns each layer's state, the events reported and the per-frame cost after every step, so behavior can be verified without a browser.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      componentId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Component ID',
+      },
+      version: componentVersionArgument,
+      artboard: {
+        type: 'string',
+        description: "Artboard to simulate (default: the component's artboard)",
+      },
+      stateMachine: {
+        type: 'string',
+        description: "State machine to run (default: the component's state machine, else the artboard's first)",
+      },
+      steps: {
+        type: 'array',
+        minItems: 1,
+        description: 'Steps run in order; only advance steps move simulated time',
+        items: {
+          type: 'object',
+          properties: {
+            action: { type: 'string', enum: ['setInput', 'fireTrigger', 'advance'] },
+            input: { type: 'string', minLength: 1, description: 'Input name for setInput and fireTrigger' },
+            value: { type: ['boolean', 'number'], description: 'New value for setInput' },
+            ms: { type: 'number', minimum: 0, description: 'Milliseconds to advance' },
+          },
+          required: ['action'],
+        },
+      },
+      frameRate: {
+        type: 'number',
+        minimum: 1,
+        maximum: 240,
+        description: 'Simulated frames per second (default: 60)',
+      },
+    },
+    required: ['componentId', 'steps'],
+  },
+  handler: simulateStateMachine,
+};
@@ -0,0 +1,83 @@
+/**
+ * Telemetry tools
+ * Mounts the telemetry-service MCP tools on this server, backed by the
+ * telemetry StorageAdapter held in the given context. telemetry-service is
+ * only loaded when the tools are created, so servers without telemetry never require it.
+ */
+
+import type { TelemetryToolsContext } from '@astralismotion/telemetry-service';
+import { MCPToolResponse } from '../types';
+import { logger } from '../utils/logger';
+import { ToolDefinition } from './registry';
+
+interface TelemetryToolResult {
+  success: boolean;
+  data?: any;
+  error?: string;
+}
+
+type TelemetryToolHandler = (context: TelemetryToolsContext, params: any) => Promise<TelemetryToolResult>;
+
+// Telemetry tools that collect into the telemetry storage; hidden by the read-only profile
+const MUTATING_TELEMETRY_TOOLS = new Set(['collect_metrics']);
+
+/**
+ * Build tool definitions for every telemetry tool
+ */
+export async function createTelemetryTools(context: TelemetryToolsContext): Promise<ToolDefinition[]> {
+  const telemetry = await import('@astralismotion/telemetry-service');
+  const telemetryHandlers: Record<string, TelemetryToolHandler> = {
+    collect_metrics: telemetry.collectMetrics,
+    analyze_performance: telemetry.analyzePerformance,
+    analyze_user_behavior: telemetry.analyzeUserBehavior,
+    get_realtime_stats: telemetry.getRealtimeStats,
+    analyze_feature_adoption: telemetry.analyzeFeatureAdoption,
+  };
+
+  return telemetry.telemetryToolDefinitions.map((definition) => {
+    const handler = telemetryHandlers[definition.name];
+    if (!handler) {
+      throw new Error(`No handler for telemetry tool: ${definition.name}`);
+    }
+
+    return {
+      name: definition.name,
+      description: definition.description,
+      inputSchema: definition.inputSchema as ToolDefinition['inputSchema'],
+      mutating: MUTATING_TELEMETRY_TOOLS.has(definition.name),
+      handler: (params: any) => runTelemetryTool(definition.name, () => handler(context, params)),
+    };
+  });
+}
+
+/**
+ * Convert the telemetry { success, data, error } result into a tool response
+ */
+async function runTelemetryTool(
+  tool: string,
+  run: () => Promise<TelemetryToolResult>
+): Promise<MCPToolResponse> {
+  logger.info('Telemetry tool called', { tool });
+
+  const result = await run();
+
+  if (!result.success) {
+    logger.error('Telemetry tool failed', { tool, error: result.error });
+    return {
+      status: 'error',
+      tool,
+      error: {
+        code: 'TELEMETRY_ERROR',
+        message: result.error || 'Unknown error occurred',
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  return {
+    status: 'success',
+    tool,
+    data: result.data,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Transport Module
+ * Starts the MCP server over stdio, SSE or streamable HTTP based on configuration
+ */
+
+import * as http from 'http';
+import { URL } from 'url';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { ServerConfig, ServerTransport } from '../../../../libs/types';
+import { StreamableHttpServerTransport, SESSION_HEADER, isInitializeRequest } from './streamableHttp';
+import { logger } from '../utils/logger';
+
+export * from './streamableHttp';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+/** Sessions without a request for this long are closed */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export interface RunningTransport {
+  mode: ServerTransport;
+  url?: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: Server;
+  transport: SSEServerTransport | StreamableHttpServerTransport;
+  lastActivity: number;
+}
+
+/**
+ * Resolve the transport mode from configuration
+ * An explicit transport wins; otherwise a configured port selects streamable HTTP
+ */
+export function resolveTransportMode(config: ServerConfig): ServerTransport {
+  if (config.server?.transport) {
+    return config.server.transport;
+  }
+  return config.server?.port ? 'http' : 'stdio';
+}
+
+/**
+ * Start the configured transport
+ */
+export async function startTransport(config: ServerConfig, createServer: () => Server): Promise<RunningTransport> {
+  const mode = resolveTransportMode(config);
+
+  if (mode === 'stdio') {
+    return startStdioTransport(createServer);
+  }
+
+  return startHttpTransport(mode, {
+    port: config.server?.port ?? DEFAULT_PORT,
+    host: config.server?.host || DEFAULT_HOST,
+    sessionIdleTimeoutMs: config.server?.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+    allowedOrigins: config.server?.allowedOrigins,
+    createServer,
+  });
+}
+
+async function startStdioTransport(createServer: () => Server): Promise<RunningTransport> {
+  const server = createServer();
+  await server.connect(new StdioServerTransport());
+
+  return {
+    mode: 'stdio',
+    sessionCount: () => 1,
+    close: () => server.close(),
+  };
+}
+
+async function startHttpTransport(
+  mode: 'sse' | 'http',
+  options: {
+    port: number;
+    host: string;
+    sessionIdleTimeoutMs: number;
+    allowedOrigins?: string[];
+    createServer: () => Server;
+  }
+): Promise<RunningTransport> {
+  const sessions = new Map<string, Session>();
+
+  const openSession = async (transport: Session['transport']): Promise<void> => {
+    const server = options.createServer();
+    sessions.set(transport.sessionId, { server, transport, lastActivity: Date.now() });
+    server.onclose = () => {
+      sessions.delete(transport.sessionId);
+      logger.info('MCP session closed', { sessionId: transport.sessionId, sessions: sessions.size });
+    };
+    await server.connect(transport);
+    logger.info('MCP session opened', { mode, sessionId: transport.sessionId, sessions: sessions.size });
+  };
+
+  /**
+   * Look up a session and record that its client is still there
+   */
+  const touchSession = (sessionId: string | undefined): Session | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  };
+
+  // Clients that go away without closing their session would otherwise keep it forever
+  const closeIdleSessions = async (): Promise<void> => {
+    const cutoff = Date.now() - options.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of Array.from(sessions.entries())) {
+      if (session.lastActivity <= cutoff) {
+        logger.info('MCP session idle, closing', { sessionId });
+        try {
+          await session.server.close();
+        } catch (error) {
+          logger.error('Failed to close idle MCP session', {
+            sessionId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        } finally {
+          // A session that fails to close is dropped anyway so later sweeps do not retry it
+          sessions.delete(sessionId);
+        }
+      }
+    }
+  };
+  const idleSweep =
+    options.sessionIdleTimeoutMs > 0
+      ? setInterval(() => {
+          closeIdleSessions().catch((error) => {
+            logger.error('Failed to close idle MCP sessions', {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+        }, Math.min(options.sessionIdleTimeoutMs, 60000))
+      : undefined;
+  idleSweep?.unref();
+
+  const handleSse = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      await openSession(new SSEServerTransport('/messages', res));
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const session = touchSession(url.searchParams.get('sessionId') || undefined);
+      if (!session) {
+        sendJson(res, 404, { error: 'Unknown session' });
+        return;
+      }
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  const handleStreamableHttp = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    if (url.pathname !== '/mcp') {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+    const session = touchSession(sessionId);
+
+    if (sessionId && !session) {
+      sendJson(res, 404, jsonRpcError(-32001, 'Session not found'));
+      return;
+    }
+
+    switch (req.method) {
+      case 'POST': {
+        let body: unknown;
+        try {
+          body = JSON.parse((await readBody(req)).toString('utf-8'));
+        } catch (error) {
+          sendJson(res, 400, jsonRpcError(-32700, error instanceof Error ? error.message : 'Parse error'));
+          return;
+        }
+
+        if (session) {
+          await (session.transport as StreamableHttpServerTransport).handlePost(req, res, body);
+          return;
+        }
+
+        if (!isInitializeRequest(body)) {
+          sendJson(res, 400, jsonRpcError(-32600, `Missing ${SESSION_HEADER} header`));
+          return;
+        }
+
+        const transport = new StreamableHttpServerTransport();
+        await openSession(transport);
+        await transport.handlePost(req, res, body);
+        return;
+      }
+
+      case 'GET':
+        if (!session) {
+          sendJson(res, 400, jsonRpcError(-32600, `Missing ${SESSION_HEADER} header`));
+          return;
+        }
+        (session.transport as StreamableHttpServerTransport).handleGet(req, res);
+        return;
+
+      case 'DELETE':
+        if (!session) {
+          sendJson(res, 400, jsonRpcError(-32600, `Missing ${SESSION_HEADER} header`));
+          return;
+        }
+        await session.server.close();
+        res.writeHead(204).end();
+        return;
+
+      default:
+        res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    // Browsers send Origin; refusing unknown ones keeps web pages (and DNS rebinding) off the server
+    const origin = req.headers.origin;
+    if (origin !== undefined && !isOriginAllowed(origin, options.allowedOrigins)) {
+      logger.warn('HTTP transport request from a disallowed origin', { origin, path: url.pathname });
+      sendJson(res, 403, jsonRpcError(-32000, `Origin not allowed: ${origin}`));
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok', mode, sessions: sessions.size });
+      return;
+    }
+
+    const handler = mode === 'sse' ? handleSse : handleStreamableHttp;
+    handler(req, res, url).catch((error) => {
+      logger.error('HTTP transport request failed', {
+        method: req.method,
+        path: url.pathname,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!res.headersSent) {
+        sendJson(res, 500, jsonRpcError(-32603, 'Internal error'));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  const url = `http://${options.host}:${port}${mode === 'sse' ? '/sse' : '/mcp'}`;
+
+  return {
+    mode,
+    url,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(idleSweep);
+      for (const { server } of Array.from(sessions.values())) {
+        await server.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Whether a browser origin may call the server
+ * Without a configured list only loopback origins are allowed.
+ */
+export function isOriginAllowed(origin: string, allowedOrigins?: string[]): boolean {
+  if (allowedOrigins) {
+    return allowedOrigins.includes(origin);
+  }
+
+  try {
+    return LOOPBACK_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function jsonRpcError(code: number, message: string) {
+  return {
+    jsonrpc: '2.0',
+    id: null,
+    error: { code, message },
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
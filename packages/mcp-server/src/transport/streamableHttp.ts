@@ -0,0 +1,245 @@
+/**
+ * Streamable HTTP server transport
+ * Receives JSON-RPC messages over HTTP POST and answers each POST either with a JSON body
+ * or, when the client accepts it, with a server-sent event stream that also carries
+ * notifications (such as progress) related to the requests it holds.
+ * A GET request opens a standalone event stream for all other server-initiated messages.
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export const SESSION_HEADER = 'mcp-session-id';
+
+type RequestId = string | number;
+type ProgressToken = string | number;
+
+interface PostStream {
+  res: ServerResponse;
+  eventStream: boolean;
+  batch: boolean;
+  pendingIds: Set<RequestId>;
+  // Progress tokens of the requests, so their progress notifications find this stream
+  progressTokens: Set<ProgressToken>;
+  responses: JSONRPCMessage[];
+}
+
+export interface StreamableHttpSendOptions {
+  // The request a notification or server request belongs to
+  relatedRequestId?: RequestId;
+}
+
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId: string = randomUUID();
+
+  private postStreams: PostStream[] = [];
+  private standaloneStream: ServerResponse | null = null;
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  async start(): Promise<void> {
+    // Connections are driven by incoming HTTP requests
+  }
+
+  /**
+   * Handle a POST carrying one JSON-RPC message or a batch
+   */
+  async handlePost(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const batch = Array.isArray(body);
+    const messages = (batch ? body : [body]) as JSONRPCMessage[];
+    const requests = messages.filter(isRequest);
+    const requestIds = requests.map((message) => (message as { id: RequestId }).id);
+
+    // Notifications and responses only: acknowledge immediately
+    if (requestIds.length === 0) {
+      res.writeHead(202, { [SESSION_HEADER]: this.sessionId }).end();
+      this.dispatch(messages);
+      return;
+    }
+
+    const stream: PostStream = {
+      res,
+      eventStream: acceptsEventStream(req),
+      batch,
+      pendingIds: new Set(requestIds),
+      progressTokens: new Set(
+        requests.map(progressTokenOf).filter((token): token is ProgressToken => token !== undefined)
+      ),
+      responses: [],
+    };
+    this.postStreams.push(stream);
+
+    if (stream.eventStream) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        [SESSION_HEADER]: this.sessionId,
+      });
+    }
+
+    res.on('close', () => this.removePostStream(stream));
+    this.dispatch(messages);
+  }
+
+  /**
+   * Handle a GET opening the standalone event stream
+   */
+  handleGet(_req: IncomingMessage, res: ServerResponse): void {
+    if (this.standaloneStream) {
+      res.writeHead(409, { 'Content-Type': 'text/plain' }).end('An event stream is already open for this session');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      [SESSION_HEADER]: this.sessionId,
+    });
+
+    this.standaloneStream = res;
+    res.on('close', () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = null;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage, options?: StreamableHttpSendOptions): Promise<void> {
+    if (this.closed) {
+      throw new Error('Transport is closed');
+    }
+
+    if (isResponse(message)) {
+      const id = (message as { id: RequestId }).id;
+      const stream = this.postStreams.find((s) => s.pendingIds.has(id));
+      if (!stream) {
+        // The client disconnected before the response was ready
+        return;
+      }
+
+      stream.pendingIds.delete(id);
+      if (stream.eventStream) {
+        writeEvent(stream.res, message);
+      } else {
+        stream.responses.push(message);
+      }
+
+      if (stream.pendingIds.size === 0) {
+        this.finishPostStream(stream);
+      }
+      return;
+    }
+
+    // Messages related to a request in flight go to its event stream, all others to the standalone one
+    const relatedId = options?.relatedRequestId;
+    const token = progressTokenOf(message);
+    const target = this.postStreams.find(
+      (s) =>
+        s.eventStream &&
+        ((relatedId !== undefined && s.pendingIds.has(relatedId)) ||
+          (token !== undefined && s.progressTokens.has(token)))
+    );
+    if (target) {
+      writeEvent(target.res, message);
+    } else if (this.standaloneStream) {
+      writeEvent(this.standaloneStream, message);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const stream of this.postStreams) {
+      stream.res.end();
+    }
+    this.postStreams = [];
+
+    if (this.standaloneStream) {
+      this.standaloneStream.end();
+      this.standaloneStream = null;
+    }
+
+    this.onclose?.();
+  }
+
+  private dispatch(messages: JSONRPCMessage[]): void {
+    for (const message of messages) {
+      try {
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  private finishPostStream(stream: PostStream): void {
+    this.removePostStream(stream);
+
+    if (stream.eventStream) {
+      stream.res.end();
+      return;
+    }
+
+    const payload = stream.batch ? stream.responses : stream.responses[0];
+    stream.res.writeHead(200, {
+      'Content-Type': 'application/json',
+      [SESSION_HEADER]: this.sessionId,
+    });
+    stream.res.end(JSON.stringify(payload));
+  }
+
+  private removePostStream(stream: PostStream): void {
+    this.postStreams = this.postStreams.filter((s) => s !== stream);
+  }
+}
+
+/**
+ * Check whether a JSON-RPC message is an initialize request
+ */
+export function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some((message) => isRequest(message) && (message as { method: string }).method === 'initialize');
+}
+
+function isRequest(message: unknown): boolean {
+  return typeof message === 'object' && message !== null && 'method' in message && 'id' in message;
+}
+
+function isResponse(message: unknown): boolean {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    'id' in message &&
+    ('result' in message || 'error' in message)
+  );
+}
+
+/**
+ * The progress token a request asked for, or the one a progress notification reports on
+ */
+function progressTokenOf(message: unknown): ProgressToken | undefined {
+  const { method, params } = message as {
+    method?: string;
+    params?: { progressToken?: unknown; _meta?: { progressToken?: unknown } };
+  };
+  const token = method === 'notifications/progress' ? params?.progressToken : params?._meta?.progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+}
+
+function acceptsEventStream(req: IncomingMessage): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+function writeEvent(res: ServerResponse, message: JSONRPCMessage): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
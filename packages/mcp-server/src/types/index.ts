@@ -35,27 +35,187 @@ export interface RiveStateMachineInput {
   defaultValue?: boolean | number;
 }
 
+export type RiveEventType = 'general' | 'openUrl' | 'audio';
+
+export type RiveEventPropertyType = 'string' | 'number' | 'boolean';
+
+export interface RiveEventProperty {
+  name: string;
+  type: RiveEventPropertyType;
+  value: string | number | boolean;
+}
+
+export interface RiveEventSource {
+  stateMachine: string;
+  layer: string;
+  state: string;
+  /**
+   * 'start' and 'end' fire when the state (or the transition out of it) starts or
+   * ends; 'timeline' fires from a key on the animation the state plays
+   */
+  occurs: 'start' | 'end' | 'timeline';
+  /** Set when a transition out of the state fires the event */
+  transitionTo?: string;
+}
+
 export interface RiveStateMachineEvent {
   name: string;
+  /** Custom property values by name */
   properties?: Record<string, any>;
+  type?: RiveEventType;
+  /** Artboard that declares the event */
+  artboard?: string;
+  /** Target of an open URL event */
+  url?: string;
+  customProperties?: RiveEventProperty[];
+  /** States that can fire the event */
+  firedBy?: RiveEventSource[];
 }
 
 export interface RiveDataBinding {
   name: string;
   type: string;
   path: string;
+  /** Artboard bound to the view model */
+  artboard?: string;
+  viewModel?: string;
+}
+
+export type RiveViewModelPropertyType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'color'
+  | 'enum'
+  | 'list'
+  | 'viewModel'
+  | 'image'
+  | 'trigger'
+  | 'artboard';
+
+export interface RiveViewModelProperty {
+  name: string;
+  type: RiveViewModelPropertyType;
+  /** Value in the view model's default instance; colors are 0xAARRGGBB */
+  defaultValue?: string | number | boolean;
+  /** Options of an enum property */
+  enumValues?: string[];
+  /** Properties of a nested view model, as found on the default instance */
+  properties?: RiveViewModelProperty[];
+}
+
+export interface RiveViewModel {
+  name: string;
+  properties: RiveViewModelProperty[];
+  instances: string[];
+}
+
+export interface RiveDataEnum {
+  name: string;
+  values: string[];
 }
 
 export interface RiveArtboard {
   name: string;
   width: number;
   height: number;
+  /** Default view model the artboard binds to */
+  viewModel?: string;
+}
+
+export interface RiveNestedArtboard {
+  name: string;
+  /** Artboard that contains the instance */
+  artboard: string;
+  /** Artboard the instance renders */
+  source: string;
+}
+
+export interface RiveTextRun {
+  name: string;
+  /** Text the run shows until the host changes it */
+  text: string;
+  artboard: string;
+  /** Name of the text object the run belongs to */
+  textObject?: string;
+}
+
+export interface RiveNamedNode {
+  name: string;
+  /** Selects the runtime lookup: artboard.node(), artboard.bone() or artboard.rootBone() */
+  type: 'node' | 'bone' | 'rootBone';
+  artboard: string;
+}
+
+export type RiveAssetType = 'image' | 'font' | 'audio';
+
+export interface RiveFileAsset {
+  type: RiveAssetType;
+  name: string;
+  assetId: number;
+  /** Whether the bytes are packed in the .riv file; otherwise the host or CDN supplies them */
+  embedded: boolean;
+  /** Byte length of embedded contents */
+  size?: number;
+  /** SHA-256 of embedded contents, hex */
+  hash?: string;
+  cdnUuid?: string;
+  cdnBaseUrl?: string;
 }
 
 export interface RiveStateMachine {
   name: string;
   inputs: RiveStateMachineInput[];
   layerCount: number;
+  layers?: RiveStateMachineLayer[];
+  /** Events this state machine's states can fire */
+  events?: RiveStateMachineEvent[];
+}
+
+export interface RiveStateMachineLayer {
+  name: string;
+  states: RiveLayerState[];
+}
+
+export type RiveLayerStateType = 'entry' | 'any' | 'exit' | 'animation' | 'blend1d' | 'blendDirect';
+
+export interface RiveLayerState {
+  /** Index within the layer; transitions refer to states by this index */
+  id: number;
+  type: RiveLayerStateType;
+  name: string;
+  /** Animation played by an animation state */
+  animation?: string;
+  /** Animations mixed by a blend state */
+  blendAnimations?: string[];
+  /** Number input driving a 1D blend state */
+  blendInput?: string;
+  /** Whether any enabled transition path from Entry or Any leads here */
+  reachable: boolean;
+  transitions: RiveStateTransition[];
+}
+
+export interface RiveStateTransition {
+  to: number;
+  toName: string;
+  /** Milliseconds, or percent of the source animation when durationIsPercentage */
+  duration: number;
+  durationIsPercentage?: boolean;
+  /** Set when the transition waits for the source animation; milliseconds unless exitTimeIsPercentage */
+  exitTime?: number;
+  exitTimeIsPercentage?: boolean;
+  disabled?: boolean;
+  conditions: RiveTransitionCondition[];
+}
+
+export type RiveConditionOperator = '==' | '!=' | '<=' | '>=' | '<' | '>';
+
+export interface RiveTransitionCondition {
+  input: string;
+  inputType: 'bool' | 'number' | 'trigger';
+  /** Omitted for triggers, which only fire */
+  op?: RiveConditionOperator;
+  value?: boolean | number;
 }
 
 export interface RiveRuntimeSurface {
@@ -64,10 +224,21 @@ export interface RiveRuntimeSurface {
   stateMachines: RiveStateMachine[];
   events: RiveStateMachineEvent[];
   dataBindings?: RiveDataBinding[];
+  viewModels?: RiveViewModel[];
+  enums?: RiveDataEnum[];
+  /** Named text runs the host can update */
+  textRuns?: RiveTextRun[];
+  /** Named nodes and bones the host can address */
+  nodes?: RiveNamedNode[];
+  nestedArtboards?: RiveNestedArtboard[];
+  /** Images, fonts and audio the file embeds or references */
+  assets?: RiveFileAsset[];
   metadata: {
     fileSize: number;
     parseDate: string;
     runtimeVersion?: string;
+    /** 'static' when the WASM runtime was unavailable and the file was read directly */
+    parser?: 'runtime' | 'static';
   };
 }
 
@@ -0,0 +1,91 @@
+/**
+ * Asset inventory checks
+ * Works out whether the assets a .riv file references, rather than embeds, can be
+ * served from the configured storage backend.
+ */
+
+import { RiveFileAsset } from '../types';
+import { referencedAssetFileName } from './riveAssets';
+import { getStorageBackend, storedAssetExists } from './storage';
+import { OperationOptions, throwIfCancelled } from './progress';
+
+export type AssetResolutionStatus = 'embedded' | 'resolved' | 'missing';
+
+export interface AssetResolution extends RiveFileAsset {
+  status: AssetResolutionStatus;
+  /** Storage key the asset resolved to */
+  key?: string;
+  /** Keys tried, in order, relative to the assets prefix or base URL */
+  candidates?: string[];
+}
+
+export interface AssetInventoryReport {
+  componentId: string;
+  /** Storage backend type, or 'filesystem' for the assets directory */
+  storage: 'local' | 's3' | 'remote' | 'layered' | 'filesystem';
+  assets: AssetResolution[];
+  summary: {
+    embedded: number;
+    referenced: number;
+    resolved: number;
+    missing: number;
+  };
+  /** True when every referenced asset resolved */
+  resolvable: boolean;
+}
+
+/**
+ * Storage keys a referenced asset may be published under
+ * CDN assets are mirrored by UUID; others by the file name the runtimes ask hosts for.
+ */
+export function assetCandidateKeys(asset: RiveFileAsset): string[] {
+  const keys = asset.cdnUuid ? [asset.cdnUuid] : [];
+  return [...keys, referencedAssetFileName(asset)];
+}
+
+/**
+ * Check every referenced asset against the storage backend
+ */
+export async function checkAssetInventory(
+  componentId: string,
+  assets: RiveFileAsset[],
+  options: OperationOptions = {}
+): Promise<AssetInventoryReport> {
+  const resolutions: AssetResolution[] = [];
+
+  for (const [index, asset] of assets.entries()) {
+    throwIfCancelled(options.signal);
+
+    if (asset.embedded) {
+      resolutions.push({ ...asset, status: 'embedded' });
+    } else {
+      const candidates = assetCandidateKeys(asset);
+      let key: string | undefined;
+      for (const candidate of candidates) {
+        if (await storedAssetExists(candidate)) {
+          key = candidate;
+          break;
+        }
+      }
+      resolutions.push(key ? { ...asset, status: 'resolved', key, candidates } : { ...asset, status: 'missing', candidates });
+    }
+
+    options.onProgress?.({ progress: index + 1, total: assets.length, message: `checked ${asset.type} '${asset.name}'` });
+  }
+
+  const count = (status: AssetResolutionStatus) => resolutions.filter((asset) => asset.status === status).length;
+  const missing = count('missing');
+
+  return {
+    componentId,
+    storage: getStorageBackend()?.getBackendType() ?? 'filesystem',
+    assets: resolutions,
+    summary: {
+      embedded: count('embedded'),
+      referenced: resolutions.length - count('embedded'),
+      resolved: count('resolved'),
+      missing,
+    },
+    resolvable: missing === 0,
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Component contract checks
+ * Diffs the runtime surface recorded in a component manifest against the surface
+ * parsed from its .riv asset. Anything a wrapper or scene could depend on that
+ * disappears or changes type is breaking; anything new is additive.
+ */
+
+import { RiveComponentManifest } from '../../../../libs/types';
+import { RiveRuntimeSurface } from '../types';
+
+export type ContractChangeKind = 'breaking' | 'additive';
+
+export type ContractChangeType =
+  | 'artboard_removed'
+  | 'artboard_added'
+  | 'state_machine_removed'
+  | 'state_machine_added'
+  | 'input_removed'
+  | 'input_added'
+  | 'input_retyped'
+  | 'event_removed'
+  | 'event_added';
+
+export interface ContractChange {
+  kind: ContractChangeKind;
+  type: ContractChangeType;
+  /** Dotted location, e.g. stateMachines.Main.inputs.isOn */
+  path: string;
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export type VersionBump = 'major' | 'minor' | 'none';
+
+export interface VersionSuggestion {
+  current: string;
+  suggested: string;
+  bump: VersionBump;
+}
+
+export interface ContractReport {
+  componentId: string;
+  manifestVersion: string;
+  compatible: boolean;
+  summary: {
+    breaking: number;
+    additive: number;
+  };
+  changes: ContractChange[];
+  versionSuggestion?: VersionSuggestion;
+}
+
+/**
+ * Diff a stored manifest against the live parsed surface
+ */
+export function diffComponentContract(
+  manifest: RiveComponentManifest,
+  surface: RiveRuntimeSurface
+): ContractReport {
+  const changes: ContractChange[] = [];
+
+  diffNames(
+    changes,
+    manifest.artboards || [],
+    surface.artboards.map((artboard) => artboard.name),
+    (name) => `artboards.${name}`,
+    'artboard'
+  );
+
+  const stored = new Map(manifest.stateMachines.map((stateMachine) => [stateMachine.name, stateMachine]));
+  const live = new Map(surface.stateMachines.map((stateMachine) => [stateMachine.name, stateMachine]));
+
+  for (const [name, stateMachine] of stored) {
+    const path = `stateMachines.${name}`;
+    const current = live.get(name);
+    if (!current) {
+      changes.push({
+        kind: 'breaking',
+        type: 'state_machine_removed',
+        path,
+        message: `State machine '${name}' was removed`,
+      });
+      continue;
+    }
+
+    const liveInputs = new Map(current.inputs.map((input) => [input.name, input]));
+    for (const input of stateMachine.inputs) {
+      const inputPath = `${path}.inputs.${input.name}`;
+      const liveInput = liveInputs.get(input.name);
+      if (!liveInput) {
+        changes.push({
+          kind: 'breaking',
+          type: 'input_removed',
+          path: inputPath,
+          message: `Input '${input.name}' was removed from '${name}'`,
+          expected: input.type,
+        });
+      } else if (liveInput.type !== input.type) {
+        changes.push({
+          kind: 'breaking',
+          type: 'input_retyped',
+          path: inputPath,
+          message: `Input '${input.name}' of '${name}' changed type from ${input.type} to ${liveInput.type}`,
+          expected: input.type,
+          actual: liveInput.type,
+        });
+      }
+    }
+
+    const storedInputs = new Set(stateMachine.inputs.map((input) => input.name));
+    for (const input of current.inputs) {
+      if (!storedInputs.has(input.name)) {
+        changes.push({
+          kind: 'additive',
+          type: 'input_added',
+          path: `${path}.inputs.${input.name}`,
+          message: `Input '${input.name}' (${input.type}) was added to '${name}'`,
+          actual: input.type,
+        });
+      }
+    }
+
+    // Manifests written before events were recorded leave them out; nothing to compare
+    if (stateMachine.events) {
+      diffNames(
+        changes,
+        stateMachine.events.map((event) => event.name),
+        (current.events || []).map((event) => event.name),
+        (event) => `${path}.events.${event}`,
+        'event',
+        name
+      );
+    }
+  }
+
+  for (const name of live.keys()) {
+    if (!stored.has(name)) {
+      changes.push({
+        kind: 'additive',
+        type: 'state_machine_added',
+        path: `stateMachines.${name}`,
+        message: `State machine '${name}' was added`,
+      });
+    }
+  }
+
+  const breaking = changes.filter((change) => change.kind === 'breaking').length;
+
+  return {
+    componentId: manifest.id,
+    manifestVersion: manifest.version,
+    compatible: breaking === 0,
+    summary: {
+      breaking,
+      additive: changes.length - breaking,
+    },
+    changes,
+  };
+}
+
+/**
+ * Suggest the next manifest version for a report's changes
+ * Breaking changes bump major, additive changes bump minor
+ */
+export function suggestVersionBump(report: ContractReport): VersionSuggestion {
+  const current = report.manifestVersion;
+  const bump: VersionBump = report.summary.breaking > 0 ? 'major' : report.summary.additive > 0 ? 'minor' : 'none';
+
+  if (bump === 'none') {
+    return { current, suggested: current, bump };
+  }
+
+  const match = /^(\d+)\.(\d+)\.(\d+)/.exec(current || '');
+  if (!match) {
+    return { current, suggested: '1.0.0', bump };
+  }
+
+  const [major, minor] = [Number(match[1]), Number(match[2])];
+  const suggested = bump === 'major' ? `${major + 1}.0.0` : `${major}.${minor + 1}.0`;
+
+  return { current, suggested, bump };
+}
+
+function diffNames(
+  changes: ContractChange[],
+  stored: string[],
+  live: string[],
+  pathFor: (name: string) => string,
+  label: 'artboard' | 'event',
+  stateMachine?: string
+): void {
+  const storedSet = new Set(stored);
+  const liveSet = new Set(live);
+  const title = label === 'artboard' ? 'Artboard' : 'Event';
+
+  for (const name of storedSet) {
+    if (!liveSet.has(name)) {
+      changes.push({
+        kind: 'breaking',
+        type: `${label}_removed`,
+        path: pathFor(name),
+        message: stateMachine ? `${title} '${name}' was removed from '${stateMachine}'` : `${title} '${name}' was removed`,
+      });
+    }
+  }
+
+  for (const name of liveSet) {
+    if (!storedSet.has(name)) {
+      changes.push({
+        kind: 'additive',
+        type: `${label}_added`,
+        path: pathFor(name),
+        message: stateMachine ? `${title} '${name}' was added to '${stateMachine}'` : `${title} '${name}' was added`,
+      });
+    }
+  }
+}
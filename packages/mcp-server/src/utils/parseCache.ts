@@ -0,0 +1,382 @@
+/**
+ * Parse cache
+ * Keeps parsed runtime surfaces keyed by the SHA-256 of the .riv bytes and the parser version,
+ * in memory and in the storage backend, so unchanged assets are parsed once.
+ */
+
+import { createHash } from 'crypto';
+import { RiveRuntimeSurface } from '../types';
+import { getStorageBackend } from './storage';
+import { logger } from './logger';
+
+export interface ParseCacheEntry {
+  /** `<sha256>-<runtimeVersion>` */
+  key: string;
+  hash: string;
+  /** Rive runtime version, or 'static' for surfaces read without the runtime */
+  runtimeVersion: string;
+  /** Components using the surface, as `<componentId>@<version>` for a published version */
+  componentIds: string[];
+  /** Size of the parsed .riv in bytes */
+  fileSize: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface ParseCacheStats {
+  entries: ParseCacheEntry[];
+  memoryEntries: number;
+  persisted: boolean;
+  hits: number;
+  misses: number;
+}
+
+interface PersistedSurface {
+  entry: ParseCacheEntry;
+  surface: RiveRuntimeSurface;
+}
+
+// Persisted entries live beside the assets in the storage backend
+const CACHE_PREFIX = 'cache/surfaces/';
+const INDEX_KEY = `${CACHE_PREFIX}index.json`;
+
+// Surfaces are small, but a catalog can be large; the oldest unused entries go first
+const MAX_MEMORY_ENTRIES = 500;
+
+export class ParseCache {
+  private memory: Map<string, PersistedSurface> = new Map();
+  private index: Map<string, ParseCacheEntry> | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private maxEntries: number = MAX_MEMORY_ENTRIES) {}
+
+  /**
+   * Build the cache key for file contents parsed by a given runtime version
+   */
+  static keyFor(fileBuffer: Buffer, runtimeVersion: string): { key: string; hash: string } {
+    const hash = createHash('sha256').update(fileBuffer).digest('hex');
+    return { key: `${hash}-${runtimeVersion}`, hash };
+  }
+
+  /**
+   * Look up a surface; the copy returned carries the requesting component's ID
+   * `version` names the published component version the bytes were read for, if any.
+   */
+  async get(key: string, componentId: string, version?: string): Promise<RiveRuntimeSurface | null> {
+    let cached = this.memory.get(key);
+
+    if (!cached) {
+      cached = (await this.readPersisted(key)) ?? undefined;
+    }
+    if (!cached) {
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    const entry = cached.entry;
+    entry.lastUsedAt = new Date().toISOString();
+    this.remember(key, cached);
+
+    const user = userOf(componentId, version);
+    if (!entry.componentIds.includes(user)) {
+      this.releaseFromMemory(user, key);
+      entry.componentIds.push(user);
+
+      // A hit only writes the index when it evicts an entry the component no longer uses
+      if (wouldEvict(await this.loadIndex(), user, key)) {
+        await this.updateIndex((index) => {
+          const dropped = release(index, user, key);
+          const persisted = index.get(key);
+          if (persisted && !persisted.componentIds.includes(user)) {
+            persisted.componentIds.push(user);
+            persisted.lastUsedAt = entry.lastUsedAt;
+          }
+          return dropped;
+        });
+      }
+    }
+
+    return { ...clone(cached.surface), componentId };
+  }
+
+  /**
+   * Store a freshly parsed surface
+   * The component is released from the entries it used before, since its asset changed; a published
+   * `version` is tracked apart, so it never releases the entry of the component's current asset.
+   */
+  async set(
+    key: string,
+    hash: string,
+    runtimeVersion: string,
+    surface: RiveRuntimeSurface,
+    fileSize: number,
+    version?: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const user = userOf(surface.componentId, version);
+    const existing = this.memory.get(key)?.entry ?? (await this.loadIndex()).get(key);
+    const componentIds = existing?.componentIds.filter((id) => id !== user) ?? [];
+    const cached: PersistedSurface = {
+      entry: {
+        key,
+        hash,
+        runtimeVersion,
+        componentIds: [...componentIds, user],
+        fileSize,
+        createdAt: now,
+        lastUsedAt: now,
+      },
+      surface: clone(surface),
+    };
+
+    this.releaseFromMemory(user, key);
+    this.remember(key, cached);
+
+    const backend = getStorageBackend();
+    if (!backend) {
+      return;
+    }
+
+    let written = true;
+    try {
+      await backend.writeAsset(entryKey(key), Buffer.from(JSON.stringify(cached), 'utf-8'));
+    } catch (error) {
+      logger.warn('Failed to persist parsed surface', {
+        key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      written = false;
+    }
+
+    // The older entries are released even when the new one could not be stored
+    await this.updateIndex((index) => {
+      const dropped = release(index, user, key);
+      if (written) {
+        const persisted = index.get(key);
+        index.set(key, {
+          ...clone(cached.entry),
+          componentIds: Array.from(new Set([...(persisted?.componentIds ?? []), user])),
+        });
+      }
+      return dropped;
+    });
+  }
+
+  /**
+   * List cached surfaces from memory and the storage backend
+   */
+  async inspect(componentId?: string): Promise<ParseCacheStats> {
+    const entries = new Map<string, ParseCacheEntry>();
+    for (const [key, entry] of await this.loadIndex()) {
+      entries.set(key, entry);
+    }
+    for (const [key, cached] of this.memory) {
+      entries.set(key, cached.entry);
+    }
+
+    return {
+      entries: Array.from(entries.values()).filter((entry) => !componentId || usedBy(entry, componentId)),
+      memoryEntries: this.memory.size,
+      persisted: getStorageBackend() !== null,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Drop cached surfaces, all of them or those recorded for one component
+   * Returns the number of entries removed
+   */
+  async clear(componentId?: string): Promise<number> {
+    const { entries } = await this.inspect(componentId);
+
+    for (const entry of entries) {
+      this.memory.delete(entry.key);
+    }
+    if (entries.length > 0) {
+      await this.updateIndex((index) => {
+        const dropped = Array.from(index.values())
+          .filter((entry) => !componentId || usedBy(entry, componentId))
+          .map((entry) => entry.key);
+        dropped.forEach((key) => index.delete(key));
+        return dropped;
+      });
+    }
+
+    if (!componentId) {
+      this.hits = 0;
+      this.misses = 0;
+    }
+    return entries.length;
+  }
+
+  /**
+   * Forget what was loaded from the backend, e.g. after the storage backend changes
+   */
+  reset(): void {
+    this.memory.clear();
+    this.index = null;
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Detach a component from the in-memory entries but `keepKey`, dropping those no component uses
+   */
+  private releaseFromMemory(user: string, keepKey: string): void {
+    for (const [key, cached] of Array.from(this.memory)) {
+      if (key !== keepKey && cached.entry.componentIds.includes(user)) {
+        cached.entry.componentIds = cached.entry.componentIds.filter((id) => id !== user);
+        if (cached.entry.componentIds.length === 0) {
+          this.memory.delete(key);
+        }
+      }
+    }
+  }
+
+  private remember(key: string, cached: PersistedSurface): void {
+    // Re-inserting keeps the Map in least recently used order
+    this.memory.delete(key);
+    this.memory.set(key, cached);
+
+    while (this.memory.size > this.maxEntries) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+
+  private async readPersisted(key: string): Promise<PersistedSurface | null> {
+    const backend = getStorageBackend();
+    if (!backend || !(await this.loadIndex()).has(key)) {
+      return null;
+    }
+
+    try {
+      const { surface } = JSON.parse((await backend.readAsset(entryKey(key))).toString('utf-8')) as PersistedSurface;
+      // The index holds the current component list; the entry file keeps the one it was written with
+      return { entry: clone(this.index!.get(key)!), surface };
+    } catch (error) {
+      logger.warn('Cached surface unreadable, parsing again', {
+        key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async loadIndex(): Promise<Map<string, ParseCacheEntry>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    this.index = new Map();
+    const backend = getStorageBackend();
+    if (!backend) {
+      return this.index;
+    }
+
+    try {
+      if (await backend.exists(INDEX_KEY)) {
+        const entries = JSON.parse((await backend.readAsset(INDEX_KEY, { useCache: false })).toString('utf-8'));
+        for (const entry of entries as ParseCacheEntry[]) {
+          this.index.set(entry.key, entry);
+        }
+      }
+    } catch (error) {
+      logger.warn('Parse cache index unreadable, starting empty', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    return this.index;
+  }
+
+  /**
+   * Apply one change to the persisted index with the backend's compare-and-swap
+   * The change returns the keys of the entries it removed, whose surfaces are then deleted.
+   */
+  private async updateIndex(change: (index: Map<string, ParseCacheEntry>) => string[]): Promise<void> {
+    const backend = getStorageBackend();
+    if (!backend) {
+      return;
+    }
+
+    let dropped: string[] = [];
+    try {
+      const entries = await backend.updateJSON<ParseCacheEntry[]>(INDEX_KEY, () => [], (current) => {
+        const index = new Map(current.map((entry) => [entry.key, entry]));
+        dropped = change(index);
+        current.splice(0, current.length, ...index.values());
+      });
+      this.index = new Map(entries.map((entry) => [entry.key, entry]));
+    } catch (error) {
+      // The cache is an optimization; a stale index only costs a re-parse
+      logger.warn('Failed to persist parse cache index', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      change(await this.loadIndex());
+      return;
+    }
+
+    for (const key of dropped) {
+      this.memory.delete(key);
+      await backend.delete(entryKey(key)).catch((error) =>
+        logger.warn('Failed to delete cached surface', {
+          key,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      );
+    }
+  }
+}
+
+export const parseCache = new ParseCache();
+
+/**
+ * Detach a component from every entry but `keepKey`, returning the entries no component uses any more
+ * `user` is the component as recorded in `componentIds`, so other published versions are left alone.
+ */
+function release(index: Map<string, ParseCacheEntry>, user: string, keepKey: string): string[] {
+  const dropped: string[] = [];
+  for (const [key, entry] of Array.from(index)) {
+    if (key !== keepKey && entry.componentIds.includes(user)) {
+      entry.componentIds = entry.componentIds.filter((id) => id !== user);
+      if (entry.componentIds.length === 0) {
+        index.delete(key);
+        dropped.push(key);
+      }
+    }
+  }
+  return dropped;
+}
+
+/**
+ * Whether releasing the component would leave an entry with no component, as release would find it
+ */
+function wouldEvict(index: Map<string, ParseCacheEntry>, user: string, keepKey: string): boolean {
+  return Array.from(index).some(
+    ([key, entry]) => key !== keepKey && entry.componentIds.length === 1 && entry.componentIds[0] === user
+  );
+}
+
+/**
+ * How a component is recorded in `componentIds`; IDs never contain '@'
+ */
+function userOf(componentId: string, version?: string): string {
+  return version ? `${componentId}@${version}` : componentId;
+}
+
+/**
+ * Whether any version of the component uses the entry
+ */
+function usedBy(entry: ParseCacheEntry, componentId: string): boolean {
+  return entry.componentIds.some((user) => user === componentId || user.startsWith(`${componentId}@`));
+}
+
+function entryKey(key: string): string {
+  return `${CACHE_PREFIX}${key}.json`;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
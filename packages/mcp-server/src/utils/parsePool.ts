@@ -0,0 +1,365 @@
+/**
+ * Rive worker pool
+ * Runs parsing, rendering and simulation in worker threads so the Rive runtime and the
+ * DOM globals it needs stay out of the server process. Workers are started on demand,
+ * time-limited per job, memory-limited and replaced after a number of jobs or a crash.
+ */
+
+import { Worker } from 'worker_threads';
+import * as path from 'path';
+import { OperationOptions, OperationCancelledError, ProgressUpdate } from './progress';
+import { logger } from './logger';
+
+export type RiveWorkerTask = 'parse' | 'render' | 'simulate';
+
+export interface ParsePoolOptions {
+  /** Maximum concurrent workers */
+  size: number;
+  /** Per-job limit; the worker is terminated when it is exceeded */
+  timeoutMs: number;
+  /** V8 old-generation heap limit per worker; WASM memory is not included */
+  maxMemoryMb: number;
+  /** Jobs a worker runs before it is replaced */
+  maxJobsPerWorker: number;
+}
+
+export const DEFAULT_PARSE_POOL_OPTIONS: ParsePoolOptions = {
+  size: 2,
+  timeoutMs: 30000,
+  maxMemoryMb: 512,
+  maxJobsPerWorker: 100,
+};
+
+export type ParsePoolErrorCode = 'WORKER_TIMEOUT' | 'WORKER_CRASHED' | 'POOL_CLOSED';
+
+/**
+ * Raised when a worker cannot complete a job
+ */
+export class ParsePoolError extends Error {
+  constructor(readonly code: ParsePoolErrorCode, message: string) {
+    super(message);
+    this.name = 'ParsePoolError';
+  }
+}
+
+export function isParsePoolError(error: unknown): error is ParsePoolError {
+  return error instanceof ParsePoolError;
+}
+
+/**
+ * An error thrown by the task inside the worker, carrying its original name and code
+ */
+export class WorkerTaskError extends Error {
+  constructor(readonly originalName: string, message: string, readonly code?: string) {
+    super(message);
+    this.name = 'WorkerTaskError';
+  }
+}
+
+/** Messages posted by parseWorker.ts */
+export type WorkerMessage =
+  | { type: 'ready'; parserVersion: string }
+  | { type: 'progress'; id: number; update: ProgressUpdate }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: { name: string; message: string; code?: string } };
+
+export interface WorkerJobMessage {
+  id: number;
+  task: RiveWorkerTask;
+  bytes: Uint8Array;
+  args: unknown;
+}
+
+export interface ParsePoolStats {
+  size: number;
+  workers: number;
+  busy: number;
+  queued: number;
+  completed: number;
+  recycled: number;
+  parserVersion?: string;
+}
+
+interface Job {
+  id: number;
+  task: RiveWorkerTask;
+  bytes: Uint8Array;
+  args: unknown;
+  options: OperationOptions;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: Promise<string>;
+  job: Job | null;
+  jobs: number;
+  timer?: NodeJS.Timeout;
+}
+
+const WORKER_SCRIPT = path.join(__dirname, `parseWorker${path.extname(__filename)}`);
+
+export class ParsePool {
+  private workers: PoolWorker[] = [];
+  private queue: Job[] = [];
+  private nextJobId = 1;
+  private completed = 0;
+  private recycled = 0;
+  private closed = false;
+  private version: string | undefined;
+
+  constructor(readonly options: ParsePoolOptions = DEFAULT_PARSE_POOL_OPTIONS) {}
+
+  /**
+   * Run a task on the next free worker
+   */
+  run<T>(task: RiveWorkerTask, fileBuffer: Buffer, args: unknown, options: OperationOptions = {}): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new ParsePoolError('POOL_CLOSED', 'The parse pool has been shut down'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new OperationCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = {
+        id: this.nextJobId++,
+        task,
+        bytes: new Uint8Array(fileBuffer),
+        args,
+        options,
+        resolve,
+        reject,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort),
+      };
+      const onAbort = () => this.cancel(job);
+      options.signal?.addEventListener('abort', onAbort);
+
+      this.queue.push(job);
+      this.pump();
+    });
+  }
+
+  /**
+   * Version tag of the parser the workers use: the runtime version, or 'static'
+   * when the runtime failed to load in the worker
+   */
+  async parserVersion(): Promise<string> {
+    if (this.version) {
+      return this.version;
+    }
+    const poolWorker = this.workers[0] ?? this.spawn();
+    return poolWorker.ready;
+  }
+
+  getStats(): ParsePoolStats {
+    return {
+      size: this.options.size,
+      workers: this.workers.length,
+      busy: this.workers.filter((poolWorker) => poolWorker.job).length,
+      queued: this.queue.length,
+      completed: this.completed,
+      recycled: this.recycled,
+      parserVersion: this.version,
+    };
+  }
+
+  /**
+   * Reject queued jobs and stop every worker
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) {
+      this.settle(job, new ParsePoolError('POOL_CLOSED', 'The parse pool has been shut down'));
+    }
+    await Promise.all(this.workers.map((poolWorker) => this.retire(poolWorker, 'POOL_CLOSED', 'The parse pool has been shut down')));
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0) {
+      const poolWorker =
+        this.workers.find((candidate) => !candidate.job) ??
+        (this.workers.length < this.options.size ? this.spawn() : null);
+      if (!poolWorker) {
+        return;
+      }
+      this.assign(poolWorker, this.queue.shift()!);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const worker = createWorker(this.options);
+    let markReady: (version: string) => void;
+    let markFailed: (error: Error) => void;
+    const poolWorker: PoolWorker = {
+      worker,
+      ready: new Promise<string>((resolve, reject) => {
+        markReady = resolve;
+        markFailed = reject;
+      }),
+      job: null,
+      jobs: 0,
+    };
+    // Only parserVersion() callers observe a failed start
+    poolWorker.ready.catch(() => undefined);
+
+    worker.on('message', (message: WorkerMessage) => {
+      if (message.type === 'ready') {
+        this.version = message.parserVersion;
+        markReady(message.parserVersion);
+        return;
+      }
+
+      const job = poolWorker.job;
+      if (!job || job.id !== message.id) {
+        return;
+      }
+      if (message.type === 'progress') {
+        job.options.onProgress?.(message.update);
+      } else if (message.type === 'result') {
+        this.finish(poolWorker, job, null, message.result);
+      } else {
+        const { name, message: text, code } = message.error;
+        this.finish(poolWorker, job, new WorkerTaskError(name, text, code));
+      }
+    });
+
+    // Uncaught errors include ERR_WORKER_OUT_OF_MEMORY when the heap limit is hit
+    worker.on('error', (error) => {
+      logger.warn('Rive worker crashed', { error: error.message });
+      markFailed(new ParsePoolError('WORKER_CRASHED', `Rive worker crashed: ${error.message}`));
+      void this.retire(poolWorker, 'WORKER_CRASHED', `Rive worker crashed: ${error.message}`);
+    });
+    worker.on('exit', (exitCode) => {
+      markFailed(new ParsePoolError('WORKER_CRASHED', `Rive worker exited with code ${exitCode}`));
+      void this.retire(poolWorker, 'WORKER_CRASHED', `Rive worker exited with code ${exitCode}`);
+    });
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private assign(poolWorker: PoolWorker, job: Job): void {
+    poolWorker.job = job;
+
+    const start = () => {
+      // The job may have been cancelled while the worker was starting
+      if (poolWorker.job !== job) {
+        return;
+      }
+      poolWorker.timer = setTimeout(() => {
+        logger.warn('Rive worker timed out', { task: job.task, timeoutMs: this.options.timeoutMs });
+        void this.retire(poolWorker, 'WORKER_TIMEOUT', `Rive ${job.task} timed out after ${this.options.timeoutMs}ms`);
+      }, this.options.timeoutMs);
+
+      const message: WorkerJobMessage = { id: job.id, task: job.task, bytes: job.bytes, args: job.args };
+      poolWorker.worker.postMessage(message);
+    };
+    // A worker that fails to start fails its job through retire()
+    poolWorker.ready.then(start, () => undefined);
+  }
+
+  private finish(poolWorker: PoolWorker, job: Job, error: Error | null, result?: unknown): void {
+    clearTimeout(poolWorker.timer);
+    poolWorker.job = null;
+    poolWorker.jobs++;
+    this.completed++;
+    this.settle(job, error, result);
+
+    if (poolWorker.jobs >= this.options.maxJobsPerWorker) {
+      this.recycled++;
+      void this.retire(poolWorker);
+    } else {
+      this.pump();
+    }
+  }
+
+  private cancel(job: Job): void {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      this.settle(job, new OperationCancelledError());
+      return;
+    }
+
+    // A running job can only be stopped with its worker
+    const poolWorker = this.workers.find((candidate) => candidate.job === job);
+    if (poolWorker) {
+      poolWorker.job = null;
+      this.settle(job, new OperationCancelledError());
+      void this.retire(poolWorker);
+    }
+  }
+
+  /**
+   * Remove a worker from the pool, failing its job if it had one, and start queued work elsewhere
+   */
+  private async retire(poolWorker: PoolWorker, code?: ParsePoolErrorCode, message?: string): Promise<void> {
+    const index = this.workers.indexOf(poolWorker);
+    if (index < 0) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    clearTimeout(poolWorker.timer);
+
+    if (poolWorker.job) {
+      this.settle(poolWorker.job, new ParsePoolError(code ?? 'WORKER_CRASHED', message ?? 'Rive worker stopped'));
+      poolWorker.job = null;
+    }
+
+    await poolWorker.worker.terminate();
+    if (!this.closed) {
+      this.pump();
+    }
+  }
+
+  private settle(job: Job, error: Error | null, result?: unknown): void {
+    job.cleanup();
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(result);
+    }
+  }
+}
+
+/**
+ * Start a worker; sources are loaded through ts-node when running unbuilt
+ */
+function createWorker(options: ParsePoolOptions): Worker {
+  const resourceLimits = { maxOldGenerationSizeMb: options.maxMemoryMb };
+
+  if (WORKER_SCRIPT.endsWith('.ts')) {
+    const project = path.join(__dirname, '..', '..', 'tsconfig.json');
+    // Evaluated code resolves modules from the working directory, so pass absolute paths
+    const bootstrap = [
+      `require(${JSON.stringify(require.resolve('ts-node'))}).register({ project: ${JSON.stringify(project)}, transpileOnly: true });`,
+      `require(${JSON.stringify(WORKER_SCRIPT)});`,
+    ].join('\n');
+    return new Worker(bootstrap, { eval: true, resourceLimits });
+  }
+
+  return new Worker(WORKER_SCRIPT, { resourceLimits });
+}
+
+let pool: ParsePool | null = null;
+
+/**
+ * Get the configured worker pool; null means work runs in this process
+ */
+export function getParsePool(): ParsePool | null {
+  return pool;
+}
+
+/**
+ * Configure the worker pool, or pass null to run in process
+ * Any previous pool is shut down
+ */
+export async function setParsePool(options: Partial<ParsePoolOptions> | null): Promise<void> {
+  const previous = pool;
+  const defined = Object.entries(options ?? {}).filter(([, value]) => value !== undefined);
+  pool = options ? new ParsePool({ ...DEFAULT_PARSE_POOL_OPTIONS, ...Object.fromEntries(defined) }) : null;
+  await previous?.close();
+}
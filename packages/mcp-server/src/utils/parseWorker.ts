@@ -0,0 +1,48 @@
+/**
+ * Rive worker thread entry point
+ * Loads the runtime (and its jsdom globals) inside the worker, reports the parser version,
+ * then runs one job at a time for the pool in parsePool.ts.
+ */
+
+import { parentPort } from 'worker_threads';
+import { parseRiveBufferInProcess, getParserVersion } from './riveParser';
+import { renderPreviewInProcess, PreviewRenderOptions } from './previewRenderer';
+import { simulateStateMachineInProcess, SimulationOptions } from './stateMachineSimulator';
+import { OperationOptions } from './progress';
+import { WorkerJobMessage, WorkerMessage } from './parsePool';
+
+async function runJob(job: WorkerJobMessage, options: OperationOptions): Promise<unknown> {
+  const fileBuffer = Buffer.from(job.bytes.buffer, job.bytes.byteOffset, job.bytes.byteLength);
+
+  switch (job.task) {
+    case 'parse':
+      return parseRiveBufferInProcess(fileBuffer, (job.args as { componentId: string }).componentId, options);
+    case 'render':
+      return renderPreviewInProcess(fileBuffer, { ...(job.args as PreviewRenderOptions), ...options });
+    case 'simulate':
+      return simulateStateMachineInProcess(fileBuffer, { ...(job.args as SimulationOptions), ...options });
+    default:
+      throw new Error(`Unknown worker task: ${job.task}`);
+  }
+}
+
+async function start(): Promise<void> {
+  const port = parentPort!;
+  const post = (message: WorkerMessage) => port.postMessage(message);
+
+  port.on('message', async (job: WorkerJobMessage) => {
+    const onProgress: OperationOptions['onProgress'] = (update) => post({ type: 'progress', id: job.id, update });
+
+    try {
+      post({ type: 'result', id: job.id, result: await runJob(job, { onProgress }) });
+    } catch (error) {
+      // Typed errors keep their name and code so the pool side can rebuild them
+      const { name, message, code } = (error instanceof Error ? error : new Error(String(error))) as Error & { code?: unknown };
+      post({ type: 'error', id: job.id, error: { name, message, code: typeof code === 'string' ? code : undefined } });
+    }
+  });
+
+  post({ type: 'ready', parserVersion: await getParserVersion() });
+}
+
+void start();
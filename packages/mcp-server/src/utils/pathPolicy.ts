@@ -0,0 +1,150 @@
+/**
+ * Path policy for client-supplied file paths
+ *
+ * Tools that read or write a path chosen by the client resolve it through
+ * resolveReadPath/resolveWritePath. When read or write roots are configured,
+ * the resolved path (after following symlinks) must fall inside one of them.
+ * Paths containing `..` segments are always rejected, and IDs that end up in file
+ * names are checked with assertSafeId.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type PathAccessErrorCode = 'PATH_TRAVERSAL' | 'PATH_NOT_ALLOWED';
+
+/**
+ * Raised when a client-supplied path is rejected by the policy
+ */
+export class PathAccessError extends Error {
+  constructor(
+    readonly code: PathAccessErrorCode,
+    message: string,
+    readonly requestedPath: string
+  ) {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+}
+
+export function isPathAccessError(error: unknown): error is PathAccessError {
+  return error instanceof PathAccessError;
+}
+
+// Component, library and scene IDs become file and directory names
+const SAFE_ID = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Reject a client-supplied ID that could leave the directory it is stored in
+ */
+export function assertSafeId(id: string, kind: string): void {
+  if (!SAFE_ID.test(id) || id.includes('..')) {
+    throw new PathAccessError(
+      'PATH_TRAVERSAL',
+      `Invalid ${kind} ID: ${id} (use lowercase letters, digits, '.', '_' and '-')`,
+      id
+    );
+  }
+}
+
+/**
+ * Path policy configuration
+ * Undefined roots leave that access mode unrestricted; an empty list denies it entirely
+ */
+interface PathPolicy {
+  readRoots?: string[];
+  writeRoots?: string[];
+}
+
+const policy: PathPolicy = {};
+
+/**
+ * Get path policy
+ */
+export function getPathPolicy(): PathPolicy {
+  return {
+    readRoots: policy.readRoots && [...policy.readRoots],
+    writeRoots: policy.writeRoots && [...policy.writeRoots],
+  };
+}
+
+/**
+ * Set path policy; roots are resolved against the working directory
+ */
+export function setPathPolicy(config: PathPolicy): void {
+  policy.readRoots = config.readRoots?.map((root) => path.resolve(root));
+  policy.writeRoots = config.writeRoots?.map((root) => path.resolve(root));
+}
+
+/**
+ * Resolve a path the client asked to read
+ * With read roots configured this is the real path that was checked; read from it, not the
+ * requested path, so a symlink swapped in after the check is not followed.
+ */
+export async function resolveReadPath(requestedPath: string): Promise<string> {
+  return resolveWithinRoots(requestedPath, policy.readRoots, 'read');
+}
+
+/**
+ * Resolve a path the client asked to write; the file need not exist yet
+ * With write roots configured this is the real path that was checked.
+ */
+export async function resolveWritePath(requestedPath: string): Promise<string> {
+  return resolveWithinRoots(requestedPath, policy.writeRoots, 'write');
+}
+
+async function resolveWithinRoots(
+  requestedPath: string,
+  roots: string[] | undefined,
+  mode: 'read' | 'write'
+): Promise<string> {
+  if (requestedPath.split(/[\\/]+/).includes('..')) {
+    throw new PathAccessError('PATH_TRAVERSAL', `Path traversal is not allowed: ${requestedPath}`, requestedPath);
+  }
+
+  const resolved = path.resolve(requestedPath);
+  if (!roots) {
+    return resolved;
+  }
+
+  // Compare real paths so a symlink inside a root cannot point outside it
+  const real = await realpathOfNearestAncestor(resolved);
+  for (const root of roots) {
+    const realRoot = await realpathOfNearestAncestor(root);
+    if (isWithin(real, realRoot)) {
+      return real;
+    }
+  }
+
+  throw new PathAccessError(
+    'PATH_NOT_ALLOWED',
+    `Path is outside the allowed ${mode} roots: ${requestedPath}`,
+    requestedPath
+  );
+}
+
+/**
+ * Real path of the target, or of its nearest existing ancestor joined with the missing remainder
+ */
+async function realpathOfNearestAncestor(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isWithin(target: string, root: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
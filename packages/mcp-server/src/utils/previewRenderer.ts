@@ -0,0 +1,341 @@
+/**
+ * Headless preview rendering
+ * Draws an artboard with the Rive runtime onto node-canvas, capturing PNG stills at
+ * chosen times (optionally after scripted input changes) and an animated sprite sheet.
+ */
+
+import type { File, Artboard, StateMachine, StateMachineInstance, SMIInput } from '@rive-app/canvas-advanced';
+import { getRiveRuntime } from './riveParser';
+import { OperationOptions, throwIfCancelled } from './progress';
+import { getParsePool, WorkerTaskError } from './parsePool';
+
+export type PreviewRenderErrorCode =
+  | 'RENDER_UNAVAILABLE'
+  | 'ARTBOARD_NOT_FOUND'
+  | 'STATE_MACHINE_NOT_FOUND'
+  | 'INPUT_NOT_FOUND'
+  | 'SPRITE_SHEET_TOO_LARGE';
+
+/**
+ * Raised when a preview cannot be rendered as requested
+ */
+export class PreviewRenderError extends Error {
+  constructor(readonly code: PreviewRenderErrorCode, message: string) {
+    super(message);
+    this.name = 'PreviewRenderError';
+  }
+}
+
+export function isPreviewRenderError(error: unknown): error is PreviewRenderError {
+  return error instanceof PreviewRenderError;
+}
+
+/**
+ * Set a state machine input once the timeline reaches `at` seconds
+ * Triggers fire; bool and number inputs take `value`
+ */
+export interface PreviewInputStep {
+  at: number;
+  input: string;
+  value?: boolean | number;
+}
+
+export interface SpriteSheetOptions {
+  frames: number;
+  /** Seconds covered by the sheet, starting at 0 */
+  duration: number;
+  columns?: number;
+}
+
+export interface PreviewRenderOptions extends OperationOptions {
+  artboard?: string;
+  /** Defaults to the artboard's first state machine; without one the artboard is drawn as authored */
+  stateMachine?: string;
+  width: number;
+  height: number;
+  /** Seconds at which to capture stills */
+  times: number[];
+  inputs?: PreviewInputStep[];
+  spriteSheet?: SpriteSheetOptions;
+}
+
+export interface RenderedFrame {
+  time: number;
+  png: Buffer;
+}
+
+export interface RenderedSpriteSheet {
+  png: Buffer;
+  frames: number;
+  columns: number;
+  rows: number;
+  frameWidth: number;
+  frameHeight: number;
+  duration: number;
+}
+
+export interface RenderedPreview {
+  artboard: string;
+  stateMachine?: string;
+  width: number;
+  height: number;
+  frames: RenderedFrame[];
+  spriteSheet?: RenderedSpriteSheet;
+}
+
+export type PreviewTimelineStep =
+  | { time: number; kind: 'input'; input: PreviewInputStep }
+  | { time: number; kind: 'still' }
+  | { time: number; kind: 'sprite'; index: number };
+
+// Simulation step; the runtime behaves as it would at 60 fps
+const FRAME_SECONDS = 1 / 60;
+// Largest sprite sheet side; bigger canvases exhaust memory or exceed cairo's limits
+const MAX_SPRITE_SHEET_SIDE = 16384;
+
+/**
+ * Order input changes and captures on one timeline
+ * Inputs sort before captures at the same time so a still taken "after" an input sees it.
+ */
+export function planPreviewTimeline(
+  times: number[],
+  inputs: PreviewInputStep[] = [],
+  spriteSheet?: SpriteSheetOptions
+): PreviewTimelineStep[] {
+  const steps: PreviewTimelineStep[] = [
+    ...inputs.map((input) => ({ time: input.at, kind: 'input' as const, input })),
+    ...times.map((time) => ({ time, kind: 'still' as const })),
+  ];
+
+  if (spriteSheet) {
+    for (let index = 0; index < spriteSheet.frames; index++) {
+      steps.push({ time: (index * spriteSheet.duration) / spriteSheet.frames, kind: 'sprite', index });
+    }
+  }
+
+  const order = { input: 0, still: 1, sprite: 2 };
+  return steps.sort((a, b) => a.time - b.time || order[a.kind] - order[b.kind]);
+}
+
+/**
+ * Grid for a sprite sheet of frames this size; a square grid unless columns are given
+ * Throws when the sheet would be larger than MAX_SPRITE_SHEET_SIDE on either side.
+ */
+export function spriteSheetLayout(
+  spriteSheet: SpriteSheetOptions,
+  width: number,
+  height: number
+): { columns: number; rows: number } {
+  const columns = Math.max(1, Math.min(spriteSheet.columns ?? Math.ceil(Math.sqrt(spriteSheet.frames)), spriteSheet.frames));
+  const rows = Math.ceil(spriteSheet.frames / columns);
+
+  if (columns * width > MAX_SPRITE_SHEET_SIDE || rows * height > MAX_SPRITE_SHEET_SIDE) {
+    throw new PreviewRenderError(
+      'SPRITE_SHEET_TOO_LARGE',
+      `A ${columns}x${rows} sprite sheet of ${width}x${height} frames is ${columns * width}x${rows * height} px; ` +
+        `sheets are limited to ${MAX_SPRITE_SHEET_SIDE} px per side, so use fewer frames, other columns or smaller frames`
+    );
+  }
+  return { columns, rows };
+}
+
+/**
+ * Render stills and a sprite sheet of a .riv file, in a worker when a parse pool is configured
+ */
+export async function renderPreview(fileBuffer: Buffer, options: PreviewRenderOptions): Promise<RenderedPreview> {
+  // Refuse oversized sheets before a worker allocates them
+  if (options.spriteSheet) {
+    spriteSheetLayout(options.spriteSheet, options.width, options.height);
+  }
+
+  const pool = getParsePool();
+  if (!pool) {
+    return renderPreviewInProcess(fileBuffer, options);
+  }
+
+  const { signal, onProgress, ...args } = options;
+  let preview: RenderedPreview;
+  try {
+    preview = await pool.run<RenderedPreview>('render', fileBuffer, args, { signal, onProgress });
+  } catch (error) {
+    if (error instanceof WorkerTaskError && error.originalName === 'PreviewRenderError') {
+      throw new PreviewRenderError(error.code as PreviewRenderErrorCode, error.message);
+    }
+    throw error;
+  }
+
+  // Buffers cross the thread boundary as plain Uint8Arrays
+  return {
+    ...preview,
+    frames: preview.frames.map((frame) => ({ ...frame, png: toBuffer(frame.png) })),
+    spriteSheet: preview.spriteSheet && { ...preview.spriteSheet, png: toBuffer(preview.spriteSheet.png) },
+  };
+}
+
+/**
+ * Render in this process; loads the runtime and its DOM globals here
+ */
+export async function renderPreviewInProcess(fileBuffer: Buffer, options: PreviewRenderOptions): Promise<RenderedPreview> {
+  const { signal, onProgress, width, height } = options;
+
+  const rive = await getRiveRuntime();
+  if (!rive) {
+    throw new PreviewRenderError(
+      'RENDER_UNAVAILABLE',
+      'Headless rendering needs node-canvas and the Rive WASM runtime, which failed to load'
+    );
+  }
+  const { Canvas } = await import('canvas');
+
+  const file = await rive.load(new Uint8Array(fileBuffer));
+  let artboard: Artboard | null = null;
+  let stateMachine: StateMachineInstance | null = null;
+
+  try {
+    artboard = options.artboard ? findArtboard(file, options.artboard) : file.defaultArtboard();
+    if (!artboard) {
+      throw new PreviewRenderError('ARTBOARD_NOT_FOUND', `Artboard '${options.artboard}' not found`);
+    }
+
+    const stateMachineName = options.stateMachine ?? firstStateMachineName(artboard);
+    if (stateMachineName !== undefined) {
+      const definition = findStateMachine(artboard, stateMachineName);
+      if (!definition) {
+        throw new PreviewRenderError('STATE_MACHINE_NOT_FOUND', `State machine '${stateMachineName}' not found`);
+      }
+      stateMachine = new rive.StateMachineInstance(definition, artboard);
+    }
+
+    const canvas = new Canvas(width, height);
+    const renderer = rive.makeRenderer(canvas as any);
+    const sheet = options.spriteSheet;
+    const { columns, rows } = sheet ? spriteSheetLayout(sheet, width, height) : { columns: 0, rows: 0 };
+    const sheetCanvas = sheet ? new Canvas(columns * width, rows * height) : null;
+
+    const steps = planPreviewTimeline(options.times, options.inputs, sheet);
+    const frames: RenderedFrame[] = [];
+    let elapsed = 0;
+
+    const draw = () => {
+      renderer.clear();
+      renderer.save();
+      renderer.align(rive.Fit.contain, rive.Alignment.center, { minX: 0, minY: 0, maxX: width, maxY: height }, artboard!.bounds);
+      artboard!.draw(renderer);
+      renderer.restore();
+      renderer.flush();
+      rive.resolveAnimationFrame();
+    };
+
+    // Advance once so the first capture shows the state machine's initial state
+    stateMachine?.advance(0);
+    artboard.advance(0);
+
+    for (let i = 0; i < steps.length; i++) {
+      throwIfCancelled(signal);
+      const step = steps[i];
+
+      while (elapsed + 1e-9 < step.time) {
+        const delta = Math.min(FRAME_SECONDS, step.time - elapsed);
+        stateMachine?.advance(delta);
+        artboard.advance(delta);
+        elapsed += delta;
+      }
+
+      if (step.kind === 'input') {
+        applyInput(stateMachine, step.input);
+        continue;
+      }
+
+      draw();
+      if (step.kind === 'still') {
+        frames.push({ time: step.time, png: canvas.toBuffer('image/png') });
+      } else {
+        const context = sheetCanvas!.getContext('2d');
+        context.drawImage(canvas, (step.index % columns) * width, Math.floor(step.index / columns) * height);
+      }
+      onProgress?.({ progress: i + 1, total: steps.length, message: `rendered ${step.kind} at ${step.time}s` });
+    }
+
+    return {
+      artboard: artboard.name,
+      stateMachine: stateMachineName,
+      width,
+      height,
+      frames,
+      spriteSheet: sheet && {
+        png: sheetCanvas!.toBuffer('image/png'),
+        frames: sheet.frames,
+        columns,
+        rows,
+        frameWidth: width,
+        frameHeight: height,
+        duration: sheet.duration,
+      },
+    };
+  } finally {
+    stateMachine?.delete();
+    if (artboard && typeof artboard.delete === 'function') {
+      artboard.delete();
+    }
+    if (file && typeof file.unref === 'function') {
+      file.unref();
+    }
+  }
+}
+
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Find an artboard instance by name; the caller deletes it
+ */
+export function findArtboard(file: File, name: string): Artboard | null {
+  for (let i = 0; i < file.artboardCount(); i++) {
+    const artboard = file.artboardByIndex(i);
+    if (artboard.name === name) {
+      return artboard;
+    }
+    artboard.delete?.();
+  }
+  return null;
+}
+
+export function findStateMachine(artboard: Artboard, name: string): StateMachine | null {
+  for (let i = 0; i < artboard.stateMachineCount(); i++) {
+    const stateMachine = artboard.stateMachineByIndex(i);
+    if (stateMachine.name === name) {
+      return stateMachine;
+    }
+  }
+  return null;
+}
+
+export function findInput(stateMachine: StateMachineInstance | null, name: string): SMIInput | null {
+  for (let i = 0; stateMachine && i < stateMachine.inputCount(); i++) {
+    const input = stateMachine.input(i);
+    if (input.name === name) {
+      return input;
+    }
+  }
+  return null;
+}
+
+function firstStateMachineName(artboard: Artboard): string | undefined {
+  return artboard.stateMachineCount() > 0 ? artboard.stateMachineByIndex(0).name : undefined;
+}
+
+function applyInput(stateMachine: StateMachineInstance | null, step: PreviewInputStep): void {
+  const input = findInput(stateMachine, step.input);
+  if (!input) {
+    throw new PreviewRenderError('INPUT_NOT_FOUND', `State machine input '${step.input}' not found`);
+  }
+
+  if (step.value === undefined) {
+    input.asTrigger().fire();
+  } else if (typeof step.value === 'boolean') {
+    input.asBool().value = step.value;
+  } else {
+    input.asNumber().value = step.value;
+  }
+}
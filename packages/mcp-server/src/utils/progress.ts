@@ -0,0 +1,65 @@
+/**
+ * Progress reporting and cancellation for long-running operations
+ */
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+export interface OperationOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Raised when an operation stops because its abort signal fired
+ */
+export class OperationCancelledError extends Error {
+  readonly code = 'CANCELLED';
+
+  constructor(message = 'Operation cancelled') {
+    super(message);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+/**
+ * Throw if the signal has been aborted
+ * Call between units of work so cancellation takes effect promptly
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+}
+
+export function isCancellation(error: unknown): error is OperationCancelledError {
+  return error instanceof OperationCancelledError;
+}
+
+/**
+ * Scale progress from a sub-operation into a slice [offset, offset + span) of the parent's total
+ */
+export function scaleProgress(
+  onProgress: ProgressCallback | undefined,
+  offset: number,
+  span: number,
+  total: number
+): ProgressCallback | undefined {
+  if (!onProgress) {
+    return undefined;
+  }
+
+  return (update) => {
+    const fraction = update.total ? update.progress / update.total : 0;
+    onProgress({
+      progress: offset + fraction * span,
+      total,
+      message: update.message,
+    });
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * File asset extraction
+ * Lists the images, fonts and audio a .riv file uses, telling assets packed into
+ * the file from those the host or the Rive CDN has to supply.
+ */
+
+import { createHash } from 'crypto';
+import { RiveFileAsset, RiveAssetType } from '../types';
+import { RiveObjectRecord, RiveTypeKey, RivePropertyKey } from './riveBinaryReader';
+
+const ASSET_TYPES: Record<number, RiveAssetType> = {
+  [RiveTypeKey.ImageAsset]: 'image',
+  [RiveTypeKey.FontAsset]: 'font',
+  [RiveTypeKey.AudioAsset]: 'audio',
+};
+
+// Extensions the runtimes append when naming referenced assets
+const FILE_EXTENSIONS: Record<RiveAssetType, string> = {
+  image: 'png',
+  font: 'ttf',
+  audio: 'wav',
+};
+
+/**
+ * Extract file assets from an object stream
+ * Embedded contents follow the asset they belong to; their size and SHA-256 are recorded.
+ */
+export function extractAssets(objects: RiveObjectRecord[]): RiveFileAsset[] {
+  const assets: RiveFileAsset[] = [];
+  let asset: RiveFileAsset | null = null;
+
+  for (const object of objects) {
+    const type = ASSET_TYPES[object.typeKey];
+
+    if (type) {
+      asset = {
+        type,
+        name: stringProperty(object, RivePropertyKey.assetName),
+        assetId: numberProperty(object, RivePropertyKey.fileAssetId),
+        embedded: false,
+      };
+
+      const cdnUuid = object.properties.get(RivePropertyKey.fileAssetCdnUuid);
+      if (cdnUuid instanceof Uint8Array && cdnUuid.length > 0) {
+        asset.cdnUuid = formatUuid(cdnUuid);
+      }
+      const cdnBaseUrl = stringProperty(object, RivePropertyKey.fileAssetCdnBaseUrl);
+      if (cdnBaseUrl) {
+        asset.cdnBaseUrl = cdnBaseUrl;
+      }
+      assets.push(asset);
+    } else if (object.typeKey === RiveTypeKey.FileAssetContents && asset) {
+      const contents = object.properties.get(RivePropertyKey.fileAssetBytes);
+      const bytes = contents instanceof Uint8Array ? contents : new Uint8Array(0);
+      asset.embedded = true;
+      asset.size = bytes.length;
+      asset.hash = createHash('sha256').update(bytes).digest('hex');
+    } else {
+      asset = null;
+    }
+  }
+
+  return assets;
+}
+
+/**
+ * File name the runtimes give a referenced asset: `<name without extension>-<assetId>.<ext>`
+ */
+export function referencedAssetFileName(asset: RiveFileAsset): string {
+  const dot = asset.name.lastIndexOf('.');
+  const baseName = dot > 0 ? asset.name.slice(0, dot) : asset.name;
+  return `${baseName}-${asset.assetId}.${FILE_EXTENSIONS[asset.type]}`;
+}
+
+/**
+ * Format a 16-byte CDN id as 8-4-4-4-12 hex, in stored byte order
+ */
+function formatUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  if (bytes.length !== 16) {
+    return hex;
+  }
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+}
+
+function stringProperty(object: RiveObjectRecord, key: number): string {
+  const value = object.properties.get(key);
+  return typeof value === 'string' ? value : '';
+}
+
+function numberProperty(object: RiveObjectRecord, key: number): number {
+  const value = object.properties.get(key);
+  return typeof value === 'number' ? value : 0;
+}
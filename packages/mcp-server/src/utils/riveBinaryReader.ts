@@ -0,0 +1,428 @@
+/**
+ * Low-level reader for the .riv binary format
+ *
+ * A .riv file is a header (fingerprint, version, file id and a table of contents
+ * giving the field type of property keys the reader may not know) followed by a
+ * flat stream of objects. Each object is a type key and a list of
+ * (property key, value) pairs terminated by 0. Hierarchy is implicit: objects
+ * belong to the most recent object of their parent kind, and cross references
+ * are indices (e.g. a transition's target state is an index into its layer).
+ */
+
+export type RiveFieldType = 'uint' | 'string' | 'double' | 'color' | 'bool' | 'bytes';
+
+export type RivePropertyValue = number | string | boolean | Uint8Array;
+
+export interface RiveFileHeader {
+  majorVersion: number;
+  minorVersion: number;
+  fileId: number;
+  /** Field types declared by the table of contents, keyed by property key */
+  propertyFieldTypes: Map<number, RiveFieldType>;
+}
+
+export interface RiveObjectRecord {
+  typeKey: number;
+  properties: Map<number, RivePropertyValue>;
+}
+
+export interface RiveBinaryFile {
+  header: RiveFileHeader;
+  objects: RiveObjectRecord[];
+}
+
+export const SUPPORTED_MAJOR_VERSION = 7;
+
+/**
+ * Raised when the buffer is not a readable .riv file
+ */
+export class RiveFormatError extends Error {
+  constructor(message: string, readonly offset?: number) {
+    super(offset === undefined ? message : `${message} (at byte ${offset})`);
+    this.name = 'RiveFormatError';
+  }
+}
+
+/**
+ * Object type keys used by the readers in this package
+ */
+export const RiveTypeKey = {
+  Artboard: 1,
+  Node: 2,
+  Shape: 3,
+  Backboard: 23,
+  KeyedObject: 25,
+  KeyedProperty: 26,
+  KeyFrameDouble: 30,
+  LinearAnimation: 31,
+  KeyFrameColor: 37,
+  KeyFrameId: 50,
+  Bone: 40,
+  RootBone: 41,
+  KeyFrameBool: 84,
+  NestedArtboard: 92,
+  FolderAsset: 102,
+  ImageAsset: 105,
+  FileAssetContents: 106,
+  StateMachine: 53,
+  StateMachineNumber: 56,
+  StateMachineLayer: 57,
+  StateMachineTrigger: 58,
+  StateMachineBool: 59,
+  AnimationState: 61,
+  AnyState: 62,
+  EntryState: 63,
+  ExitState: 64,
+  StateTransition: 65,
+  TransitionTriggerCondition: 68,
+  TransitionNumberCondition: 70,
+  TransitionBoolCondition: 71,
+  BlendStateDirect: 73,
+  BlendAnimation1D: 75,
+  BlendState1D: 76,
+  BlendAnimationDirect: 77,
+  BlendStateTransition: 78,
+  StateMachineListener: 114,
+  ListenerTriggerChange: 115,
+  ListenerBoolChange: 117,
+  ListenerNumberChange: 118,
+  CustomPropertyNumber: 127,
+  Event: 128,
+  CustomPropertyBoolean: 129,
+  CustomPropertyString: 130,
+  OpenUrlEvent: 131,
+  Text: 134,
+  TextValueRun: 135,
+  FontAsset: 141,
+  KeyFrameString: 142,
+  StateMachineFireEvent: 169,
+  KeyFrameCallback: 171,
+  AudioAsset: 406,
+  AudioEvent: 407,
+} as const;
+
+/**
+ * Property keys used by the readers in this package
+ */
+export const RivePropertyKey = {
+  componentName: 4,
+  parentId: 5,
+  keyedObjectId: 51,
+  artboardWidth: 7,
+  artboardHeight: 8,
+  animationName: 55,
+  stateMachineComponentName: 138,
+  numberInputValue: 140,
+  boolInputValue: 141,
+  animationStateAnimationId: 149,
+  transitionStateToId: 151,
+  transitionFlags: 152,
+  conditionInputId: 155,
+  conditionOpValue: 156,
+  numberConditionValue: 157,
+  transitionDuration: 158,
+  transitionExitTime: 160,
+  blendAnimationId: 165,
+  blendAnimation1DValue: 166,
+  blendState1DInputId: 167,
+  blendAnimationDirectInputId: 168,
+  nestedArtboardArtboardId: 197,
+  assetName: 203,
+  fileAssetId: 204,
+  fileAssetBytes: 212,
+  customPropertyNumberValue: 243,
+  customPropertyBooleanValue: 245,
+  customPropertyStringValue: 246,
+  openUrlEventUrl: 248,
+  textValueRunText: 268,
+  openUrlEventTargetValue: 249,
+  fileAssetCdnUuid: 359,
+  fileAssetCdnBaseUrl: 362,
+  fireEventEventId: 392,
+  fireEventOccursValue: 393,
+  audioEventAssetId: 408,
+} as const;
+
+/**
+ * Objects the runtime keeps outside the artboard's component list: the backboard,
+ * assets, and everything owned by animations and state machines
+ */
+const NON_COMPONENT_TYPE_KEYS = new Set<number>([
+  RiveTypeKey.Backboard,
+  RiveTypeKey.FolderAsset,
+  RiveTypeKey.ImageAsset,
+  RiveTypeKey.FileAssetContents,
+  RiveTypeKey.FontAsset,
+  RiveTypeKey.AudioAsset,
+  RiveTypeKey.LinearAnimation,
+  RiveTypeKey.KeyedObject,
+  RiveTypeKey.KeyedProperty,
+  RiveTypeKey.KeyFrameDouble,
+  RiveTypeKey.KeyFrameColor,
+  RiveTypeKey.KeyFrameId,
+  RiveTypeKey.KeyFrameBool,
+  RiveTypeKey.KeyFrameString,
+  RiveTypeKey.KeyFrameCallback,
+  RiveTypeKey.StateMachine,
+  RiveTypeKey.StateMachineNumber,
+  RiveTypeKey.StateMachineLayer,
+  RiveTypeKey.StateMachineTrigger,
+  RiveTypeKey.StateMachineBool,
+  RiveTypeKey.AnimationState,
+  RiveTypeKey.AnyState,
+  RiveTypeKey.EntryState,
+  RiveTypeKey.ExitState,
+  RiveTypeKey.StateTransition,
+  RiveTypeKey.TransitionTriggerCondition,
+  RiveTypeKey.TransitionNumberCondition,
+  RiveTypeKey.TransitionBoolCondition,
+  RiveTypeKey.BlendStateDirect,
+  RiveTypeKey.BlendAnimation1D,
+  RiveTypeKey.BlendState1D,
+  RiveTypeKey.BlendAnimationDirect,
+  RiveTypeKey.BlendStateTransition,
+  RiveTypeKey.StateMachineListener,
+  RiveTypeKey.ListenerTriggerChange,
+  RiveTypeKey.ListenerBoolChange,
+  RiveTypeKey.ListenerNumberChange,
+  RiveTypeKey.StateMachineFireEvent,
+]);
+
+/**
+ * Whether an object takes a slot in its artboard's component list
+ * Parent ids, keyed object ids and similar references index into that list, which
+ * starts with the artboard itself. Unknown types still take a slot, as in the runtime.
+ */
+export function isArtboardComponent(typeKey: number): boolean {
+  return !NON_COMPONENT_TYPE_KEYS.has(typeKey);
+}
+
+/**
+ * Field types of the core property keys, as generated from the Rive core definitions
+ * Keys missing here are resolved through the file's table of contents
+ */
+const PROPERTY_FIELD_TYPES: Record<number, RiveFieldType> = {
+  // Component, Node, TransformComponent, Drawable
+  4: 'string', 5: 'uint', 13: 'double', 14: 'double', 15: 'double', 16: 'double', 17: 'double',
+  18: 'double', 23: 'uint', 129: 'uint',
+  // Artboard / layout
+  7: 'double', 8: 'double', 9: 'double', 10: 'double', 11: 'double', 12: 'double', 196: 'bool',
+  236: 'uint',
+  // Paths and vertices
+  20: 'double', 21: 'double', 24: 'double', 25: 'double', 26: 'double', 31: 'double', 32: 'bool',
+  79: 'double', 80: 'double', 81: 'double', 82: 'double', 83: 'double', 84: 'double', 85: 'double',
+  86: 'double', 87: 'double', 123: 'double', 124: 'double', 125: 'uint', 126: 'double', 127: 'double',
+  128: 'uint', 161: 'double', 162: 'double', 163: 'double', 164: 'bool',
+  // Paints, gradients, trim paths
+  33: 'double', 34: 'double', 35: 'double', 37: 'color', 38: 'color', 39: 'double', 40: 'uint',
+  41: 'bool', 42: 'double', 46: 'double', 47: 'double', 48: 'uint', 49: 'uint', 50: 'bool',
+  114: 'double', 115: 'double', 116: 'double', 117: 'uint',
+  // Animations, keyed objects, key frames, interpolators
+  51: 'uint', 53: 'uint', 55: 'string', 56: 'uint', 57: 'uint', 58: 'double', 59: 'uint', 60: 'uint',
+  61: 'uint', 62: 'bool', 63: 'double', 64: 'double', 65: 'double', 66: 'double', 67: 'uint',
+  68: 'uint', 69: 'uint', 70: 'double', 88: 'color', 122: 'uint', 181: 'bool', 280: 'string',
+  376: 'uint',
+  // Clipping, bones, skins, weights, draw order
+  89: 'double', 90: 'double', 91: 'double', 92: 'uint', 93: 'uint', 94: 'bool', 95: 'uint',
+  96: 'double', 97: 'double', 98: 'double', 99: 'double', 100: 'double', 101: 'double', 102: 'uint',
+  103: 'uint', 104: 'double', 105: 'double', 106: 'double', 107: 'double', 108: 'double',
+  109: 'double', 110: 'uint', 111: 'uint', 112: 'uint', 113: 'uint', 119: 'uint', 120: 'uint',
+  121: 'uint',
+  // Constraints
+  172: 'double', 173: 'uint', 174: 'bool', 175: 'uint', 177: 'double', 178: 'uint', 179: 'uint',
+  180: 'uint', 182: 'double', 183: 'double', 184: 'double', 185: 'double', 186: 'double',
+  187: 'double', 188: 'bool', 189: 'bool', 190: 'bool', 191: 'bool', 192: 'bool', 193: 'bool',
+  194: 'bool', 195: 'uint', 363: 'double', 364: 'bool', 365: 'bool',
+  // State machines
+  138: 'string', 140: 'double', 141: 'bool', 149: 'uint', 151: 'uint', 152: 'uint', 155: 'uint',
+  156: 'uint', 157: 'double', 158: 'uint', 160: 'uint', 165: 'uint', 166: 'double', 167: 'uint',
+  168: 'uint', 171: 'uint', 297: 'double', 298: 'uint', 349: 'uint', 350: 'uint',
+  // Listeners
+  224: 'uint', 225: 'uint', 227: 'uint', 228: 'uint', 229: 'double', 240: 'uint', 399: 'uint',
+  // Nested artboards
+  197: 'uint', 198: 'uint', 199: 'double', 200: 'double', 201: 'bool', 202: 'double', 237: 'uint',
+  238: 'bool', 239: 'double',
+  // Assets
+  203: 'string', 204: 'uint', 206: 'uint', 207: 'double', 208: 'double', 212: 'bytes', 359: 'bytes',
+  362: 'string', 380: 'double', 381: 'double',
+  // Meshes
+  215: 'double', 216: 'double', 223: 'bytes',
+  // Events, custom properties
+  243: 'double', 245: 'bool', 246: 'string', 248: 'string', 249: 'uint', 392: 'uint', 393: 'uint',
+  408: 'uint',
+  // Text
+  268: 'string', 272: 'uint', 274: 'double', 279: 'uint', 281: 'uint', 284: 'uint', 285: 'double',
+  286: 'double', 287: 'uint', 288: 'double', 289: 'uint', 366: 'double', 367: 'double',
+  370: 'double', 371: 'double', 377: 'uint', 390: 'double',
+  // Solo
+  296: 'uint',
+};
+
+/**
+ * Field types encoded in the table of contents (two bits per property key)
+ */
+const TOC_FIELD_TYPES: RiveFieldType[] = ['uint', 'string', 'double', 'color'];
+
+class BinaryReader {
+  private readonly view: DataView;
+  private readonly decoder = new TextDecoder('utf-8');
+
+  constructor(private readonly bytes: Uint8Array, private offset = 0) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get isEnd(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  readByte(): number {
+    this.ensure(1);
+    return this.bytes[this.offset++];
+  }
+
+  readVarUint(): number {
+    let result = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.readByte();
+      result += (byte & 0x7f) * scale;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      scale *= 128;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new RiveFormatError('Variable-length integer is too long', this.offset);
+      }
+    }
+  }
+
+  readUint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  readFloat32(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarUint();
+    this.ensure(length);
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  readString(): string {
+    return this.decoder.decode(this.readBytes());
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new RiveFormatError('Unexpected end of file', this.offset);
+    }
+  }
+}
+
+/**
+ * Check for the RIVE fingerprint without reading the rest of the file
+ */
+export function hasRiveFingerprint(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x56 && bytes[3] === 0x45;
+}
+
+/**
+ * Read the header and flat object stream of a .riv file
+ */
+export function readRiveBinary(bytes: Uint8Array): RiveBinaryFile {
+  if (!hasRiveFingerprint(bytes)) {
+    throw new RiveFormatError('Missing RIVE fingerprint', 0);
+  }
+
+  const reader = new BinaryReader(bytes, 4);
+  const header = readHeader(reader);
+  const objects: RiveObjectRecord[] = [];
+
+  while (!reader.isEnd) {
+    const typeKey = reader.readVarUint();
+    const properties = new Map<number, RivePropertyValue>();
+
+    for (;;) {
+      const propertyKey = reader.readVarUint();
+      if (propertyKey === 0) {
+        break;
+      }
+
+      const fieldType = PROPERTY_FIELD_TYPES[propertyKey] ?? header.propertyFieldTypes.get(propertyKey);
+      if (!fieldType) {
+        throw new RiveFormatError(
+          `Unknown property key ${propertyKey} on object type ${typeKey}`,
+          reader.position
+        );
+      }
+      properties.set(propertyKey, readField(reader, fieldType));
+    }
+
+    objects.push({ typeKey, properties });
+  }
+
+  return { header, objects };
+}
+
+function readHeader(reader: BinaryReader): RiveFileHeader {
+  const majorVersion = reader.readVarUint();
+  const minorVersion = reader.readVarUint();
+  if (majorVersion !== SUPPORTED_MAJOR_VERSION) {
+    throw new RiveFormatError(
+      `Unsupported .riv major version ${majorVersion} (expected ${SUPPORTED_MAJOR_VERSION})`
+    );
+  }
+
+  const fileId = reader.readVarUint();
+
+  const propertyKeys: number[] = [];
+  for (let key = reader.readVarUint(); key !== 0; key = reader.readVarUint()) {
+    propertyKeys.push(key);
+  }
+
+  const propertyFieldTypes = new Map<number, RiveFieldType>();
+  // Matches the runtime: a fresh uint32 is read every four keys
+  let packed = 0;
+  let bit = 8;
+  for (const key of propertyKeys) {
+    if (bit === 8) {
+      packed = reader.readUint32();
+      bit = 0;
+    }
+    propertyFieldTypes.set(key, TOC_FIELD_TYPES[(packed >>> bit) & 3]);
+    bit += 2;
+  }
+
+  return { majorVersion, minorVersion, fileId, propertyFieldTypes };
+}
+
+function readField(reader: BinaryReader, fieldType: RiveFieldType): RivePropertyValue {
+  switch (fieldType) {
+    case 'uint':
+      return reader.readVarUint();
+    case 'bool':
+      return reader.readByte() === 1;
+    case 'double':
+      return reader.readFloat32();
+    case 'color':
+      return reader.readUint32();
+    case 'string':
+      return reader.readString();
+    case 'bytes':
+      return reader.readBytes();
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Rive event extraction
+ * Enumerates every event an artboard declares, with its custom properties and the
+ * states that fire it, instead of waiting for the runtime to report one.
+ */
+
+import {
+  RiveStateMachineEvent,
+  RiveEventType,
+  RiveEventProperty,
+  RiveEventSource,
+  RiveLayerState,
+} from '../types';
+import { RiveObjectRecord, RiveTypeKey, RivePropertyKey, isArtboardComponent } from './riveBinaryReader';
+import { RiveArtboardStateMachines } from './riveStateMachineGraph';
+
+const EVENT_TYPES: Record<number, RiveEventType> = {
+  [RiveTypeKey.Event]: 'general',
+  [RiveTypeKey.OpenUrlEvent]: 'openUrl',
+  [RiveTypeKey.AudioEvent]: 'audio',
+};
+
+const CUSTOM_PROPERTIES: Record<number, { type: RiveEventProperty['type']; key: number; fallback: RiveEventProperty['value'] }> = {
+  [RiveTypeKey.CustomPropertyNumber]: { type: 'number', key: RivePropertyKey.customPropertyNumberValue, fallback: 0 },
+  [RiveTypeKey.CustomPropertyBoolean]: { type: 'boolean', key: RivePropertyKey.customPropertyBooleanValue, fallback: false },
+  [RiveTypeKey.CustomPropertyString]: { type: 'string', key: RivePropertyKey.customPropertyStringValue, fallback: '' },
+};
+
+// StateMachineFireOccurance in the Rive runtime, by occursValue
+const FIRE_OCCURS: Array<RiveEventSource['occurs']> = ['start', 'end'];
+
+/**
+ * A StateMachineFireEvent, located by index the same way the graph reader counts
+ */
+interface FireEventRecord {
+  eventId: number;
+  occurs: RiveEventSource['occurs'];
+  stateMachine: number;
+  layer: number;
+  state: number;
+  transition?: number;
+}
+
+interface ArtboardEvents {
+  components: RiveObjectRecord[];
+  /** Component ids keyed with callbacks, by animation index */
+  animationCallbacks: Array<Set<number>>;
+  animationNames: string[];
+  fireEvents: FireEventRecord[];
+}
+
+/**
+ * Extract the events of every artboard
+ * Each state machine in `graphs` also gets the list of events its states fire, so
+ * wrappers generated from the surface expose a callback for each of them.
+ */
+export function extractEvents(objects: RiveObjectRecord[], graphs: RiveArtboardStateMachines[]): RiveStateMachineEvent[] {
+  const artboards: ArtboardEvents[] = [];
+  let artboard: ArtboardEvents | null = null;
+
+  let keyedObjectId: number | undefined;
+  let stateMachine = -1;
+  let layer = -1;
+  let state = -1;
+  let transition: number | undefined;
+
+  for (const object of objects) {
+    const { typeKey, properties } = object;
+
+    if (typeKey === RiveTypeKey.Artboard) {
+      artboard = { components: [], animationCallbacks: [], animationNames: [], fireEvents: [] };
+      artboards.push(artboard);
+      stateMachine = -1;
+    }
+    if (!artboard) {
+      continue;
+    }
+    if (isArtboardComponent(typeKey)) {
+      artboard.components.push(object);
+      continue;
+    }
+
+    switch (typeKey) {
+      case RiveTypeKey.LinearAnimation:
+        artboard.animationNames.push(stringProperty(object, RivePropertyKey.animationName));
+        artboard.animationCallbacks.push(new Set());
+        keyedObjectId = undefined;
+        break;
+
+      case RiveTypeKey.KeyedObject:
+        keyedObjectId = properties.get(RivePropertyKey.keyedObjectId) as number | undefined;
+        break;
+
+      case RiveTypeKey.KeyFrameCallback:
+        if (keyedObjectId !== undefined && artboard.animationCallbacks.length > 0) {
+          artboard.animationCallbacks[artboard.animationCallbacks.length - 1].add(keyedObjectId);
+        }
+        break;
+
+      case RiveTypeKey.StateMachine:
+        stateMachine++;
+        layer = -1;
+        break;
+
+      case RiveTypeKey.StateMachineLayer:
+        layer++;
+        state = -1;
+        break;
+
+      case RiveTypeKey.EntryState:
+      case RiveTypeKey.AnyState:
+      case RiveTypeKey.ExitState:
+      case RiveTypeKey.AnimationState:
+      case RiveTypeKey.BlendState1D:
+      case RiveTypeKey.BlendStateDirect:
+        state++;
+        transition = undefined;
+        break;
+
+      case RiveTypeKey.StateTransition:
+      case RiveTypeKey.BlendStateTransition:
+        transition = transition === undefined ? 0 : transition + 1;
+        break;
+
+      case RiveTypeKey.StateMachineFireEvent: {
+        // Fire events belong to the latest state or transition
+        const eventId = properties.get(RivePropertyKey.fireEventEventId) as number | undefined;
+        if (eventId !== undefined && state >= 0) {
+          artboard.fireEvents.push({
+            eventId,
+            occurs: FIRE_OCCURS[(properties.get(RivePropertyKey.fireEventOccursValue) as number) ?? 0] ?? 'start',
+            stateMachine,
+            layer,
+            state,
+            transition,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return artboards.flatMap((entry, index) => resolveArtboardEvents(entry, graphs[index]));
+}
+
+/**
+ * Resolve component references once the whole artboard is known; parents may follow their children
+ */
+function resolveArtboardEvents(
+  artboard: ArtboardEvents,
+  graph: RiveArtboardStateMachines | undefined
+): RiveStateMachineEvent[] {
+  const artboardName = stringProperty(artboard.components[0], RivePropertyKey.componentName);
+  const byComponent = new Map<number, RiveStateMachineEvent>();
+
+  artboard.components.forEach((component, id) => {
+    const type = EVENT_TYPES[component.typeKey];
+    if (!type) {
+      return;
+    }
+
+    const event: RiveStateMachineEvent = {
+      name: stringProperty(component, RivePropertyKey.componentName),
+      type,
+      artboard: artboardName,
+      properties: {},
+      customProperties: [],
+      firedBy: [],
+    };
+    if (type === 'openUrl') {
+      event.url = stringProperty(component, RivePropertyKey.openUrlEventUrl);
+    }
+    byComponent.set(id, event);
+  });
+
+  for (const component of artboard.components) {
+    const property = CUSTOM_PROPERTIES[component.typeKey];
+    const event = property && byComponent.get(component.properties.get(RivePropertyKey.parentId) as number);
+    if (event) {
+      const name = stringProperty(component, RivePropertyKey.componentName);
+      const value = (component.properties.get(property.key) as RiveEventProperty['value']) ?? property.fallback;
+      event.customProperties!.push({ name, type: property.type, value });
+      event.properties![name] = value;
+    }
+  }
+
+  for (const fire of artboard.fireEvents) {
+    const event = byComponent.get(fire.eventId);
+    const stateMachine = graph?.stateMachines[fire.stateMachine];
+    const layer = stateMachine?.layers?.[fire.layer];
+    const state = layer?.states[fire.state];
+    if (event && state) {
+      const source: RiveEventSource = {
+        stateMachine: stateMachine.name,
+        layer: layer.name,
+        state: state.name,
+        occurs: fire.occurs,
+      };
+      if (fire.transition !== undefined && state.transitions[fire.transition]) {
+        source.transitionTo = state.transitions[fire.transition].toName;
+      }
+      event.firedBy!.push(source);
+    }
+  }
+
+  // Timeline events fire from whichever states play the keyed animation
+  for (const stateMachine of graph?.stateMachines ?? []) {
+    for (const layer of stateMachine.layers ?? []) {
+      for (const state of layer.states) {
+        for (const eventId of timelineEvents(state, artboard)) {
+          byComponent.get(eventId)?.firedBy!.push({
+            stateMachine: stateMachine.name,
+            layer: layer.name,
+            state: state.name,
+            occurs: 'timeline',
+          });
+        }
+      }
+    }
+  }
+
+  const events = Array.from(byComponent.values());
+
+  for (const stateMachine of graph?.stateMachines ?? []) {
+    stateMachine.events = events
+      .filter((event) => event.firedBy!.some((source) => source.stateMachine === stateMachine.name))
+      .map((event) => ({ name: event.name }));
+  }
+
+  return events;
+}
+
+function timelineEvents(state: RiveLayerState, artboard: ArtboardEvents): Set<number> {
+  const animations = state.animation ? [state.animation] : state.blendAnimations ?? [];
+  const eventIds = new Set<number>();
+
+  artboard.animationNames.forEach((name, index) => {
+    if (animations.includes(name)) {
+      artboard.animationCallbacks[index].forEach((id) => eventIds.add(id));
+    }
+  });
+
+  return eventIds;
+}
+
+function stringProperty(object: RiveObjectRecord, key: number): string {
+  const value = object.properties.get(key);
+  return typeof value === 'string' ? value : '';
+}
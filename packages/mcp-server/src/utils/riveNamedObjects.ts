@@ -0,0 +1,82 @@
+/**
+ * Named object extraction
+ * Lists the objects a host can address by name at runtime: text runs, nodes and
+ * bones, and nested artboard instances.
+ */
+
+import { RiveTextRun, RiveNamedNode, RiveNestedArtboard } from '../types';
+import { RiveObjectRecord, RiveTypeKey, RivePropertyKey, isArtboardComponent } from './riveBinaryReader';
+
+export interface RiveNamedObjects {
+  textRuns: RiveTextRun[];
+  nodes: RiveNamedNode[];
+  nestedArtboards: RiveNestedArtboard[];
+}
+
+const NODE_TYPES: Record<number, RiveNamedNode['type']> = {
+  [RiveTypeKey.Node]: 'node',
+  [RiveTypeKey.Bone]: 'bone',
+  [RiveTypeKey.RootBone]: 'rootBone',
+};
+
+/**
+ * Extract named text runs, nodes, bones and nested artboards from an object stream
+ * Unnamed objects are skipped since the runtime can only look objects up by name.
+ */
+export function extractNamedObjects(objects: RiveObjectRecord[]): RiveNamedObjects {
+  const artboards: RiveObjectRecord[][] = [];
+  let components: RiveObjectRecord[] | null = null;
+
+  for (const object of objects) {
+    if (object.typeKey === RiveTypeKey.Artboard) {
+      components = [];
+      artboards.push(components);
+    }
+    if (components && isArtboardComponent(object.typeKey)) {
+      components.push(object);
+    }
+  }
+
+  const artboardNames = artboards.map((artboard) => stringProperty(artboard[0], RivePropertyKey.componentName));
+  const named: RiveNamedObjects = { textRuns: [], nodes: [], nestedArtboards: [] };
+
+  artboards.forEach((artboardComponents, index) => {
+    const artboard = artboardNames[index];
+
+    for (const component of artboardComponents) {
+      const name = stringProperty(component, RivePropertyKey.componentName);
+      const nodeType = NODE_TYPES[component.typeKey];
+
+      if (component.typeKey === RiveTypeKey.TextValueRun && name) {
+        const textRun: RiveTextRun = {
+          name,
+          text: stringProperty(component, RivePropertyKey.textValueRunText),
+          artboard,
+        };
+        // Runs are children of their text object; parents may come later in the stream
+        const parent = artboardComponents[component.properties.get(RivePropertyKey.parentId) as number];
+        if (parent?.typeKey === RiveTypeKey.Text) {
+          textRun.textObject = stringProperty(parent, RivePropertyKey.componentName);
+        }
+        named.textRuns.push(textRun);
+      } else if (nodeType && name) {
+        named.nodes.push({ name, type: nodeType, artboard });
+      } else if (component.typeKey === RiveTypeKey.NestedArtboard) {
+        // Nested artboards refer to their source by index into the file's artboards
+        const sourceIndex = component.properties.get(RivePropertyKey.nestedArtboardArtboardId) as number | undefined;
+        named.nestedArtboards.push({
+          name,
+          artboard,
+          source: sourceIndex === undefined ? '' : artboardNames[sourceIndex] ?? '',
+        });
+      }
+    }
+  });
+
+  return named;
+}
+
+function stringProperty(object: RiveObjectRecord, key: number): string {
+  const value = object.properties.get(key);
+  return typeof value === 'string' ? value : '';
+}
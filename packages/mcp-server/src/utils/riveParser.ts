@@ -4,15 +4,17 @@
  *
  * This implementation uses jsdom to provide a proper DOM environment for the Rive runtime.
  * The @rive-app/canvas-advanced package requires Web APIs that are mocked via jsdom.
+ * These dependencies load on first use; when they or the WASM fail to start, files
+ * are read with the static reader instead.
+ * When a parse pool is configured (parsePool.ts) this all happens in worker threads, so
+ * the DOM globals never reach the server process.
  */
 
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
-import { JSDOM } from 'jsdom';
-import { Canvas } from 'canvas';
+import type { JSDOM } from 'jsdom';
 import fetch from 'node-fetch';
-import RiveCanvas from '@rive-app/canvas-advanced';
 import type { RiveCanvas as RiveCanvasType, File, Artboard, StateMachineInstance, SMIInput } from '@rive-app/canvas-advanced';
 import {
   RiveRuntimeSurface,
@@ -20,7 +22,19 @@ import {
   RiveStateMachine,
   RiveStateMachineInput,
   RiveStateMachineEvent,
+  RiveFileAsset,
 } from '../types';
+import { OperationOptions, throwIfCancelled, isCancellation } from './progress';
+import { extractStateMachineGraphs, RiveArtboardStateMachines } from './riveStateMachineGraph';
+import { extractEvents } from './riveEvents';
+import { extractNamedObjects, RiveNamedObjects } from './riveNamedObjects';
+import { extractAssets } from './riveAssets';
+import { readRiveBinary } from './riveBinaryReader';
+import { extractViewModels, RiveViewModelDetails } from './riveViewModels';
+import { readRiveSurface, validateRiveBuffer } from './riveFileReader';
+import { ParseCache, parseCache } from './parseCache';
+import { getParsePool, isParsePoolError } from './parsePool';
+import { logger } from './logger';
 
 // Singleton for Rive runtime
 let riveRuntime: RiveCanvasType | null = null;
@@ -28,14 +42,21 @@ let runtimeInitializationAttempted = false;
 let runtimeInitializationError: Error | null = null;
 let jsdomInstance: JSDOM | null = null;
 
+// Cache version of surfaces read by the static reader
+const STATIC_PARSER_VERSION = 'static';
+
 /**
  * Setup DOM environment using jsdom
  */
-function setupDOMEnvironment(): void {
+async function setupDOMEnvironment(): Promise<void> {
   if (jsdomInstance) {
     return; // Already setup
   }
 
+  // node-canvas is a native module, so it is only required once the runtime is needed
+  const { JSDOM } = await import('jsdom');
+  const { Canvas } = await import('canvas');
+
   // Create a jsdom instance
   jsdomInstance = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
     url: 'http://localhost',
@@ -126,7 +147,7 @@ function setupDOMEnvironment(): void {
  * Initialize and get the Rive runtime
  * Returns null if initialization fails
  */
-async function getRiveRuntime(): Promise<RiveCanvasType | null> {
+export async function getRiveRuntime(): Promise<RiveCanvasType | null> {
   if (runtimeInitializationError) {
     return null;
   }
@@ -136,7 +157,8 @@ async function getRiveRuntime(): Promise<RiveCanvasType | null> {
 
     try {
       // Setup DOM environment first
-      setupDOMEnvironment();
+      await setupDOMEnvironment();
+      const { default: RiveCanvas } = await import('@rive-app/canvas-advanced');
 
       // Find the WASM file path
       const wasmPath = require.resolve('@rive-app/canvas-advanced/rive.wasm');
@@ -167,25 +189,101 @@ async function getRiveRuntime(): Promise<RiveCanvasType | null> {
  * This requires the Rive runtime to properly inspect the file
  */
 export async function parseRiveFile(filePath: string): Promise<RiveRuntimeSurface> {
+  let fileBuffer: Buffer;
   try {
-    // Read the .riv file
-    const fileBuffer = await fs.readFile(filePath);
-    const fileStats = await fs.stat(filePath);
+    fileBuffer = await fs.readFile(filePath);
+  } catch (error) {
+    throw new Error(`Failed to parse Rive file at ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
 
-    // Use the actual Rive runtime to parse the file
-    const runtimeSurface = await inspectRiveRuntime(fileBuffer, filePath);
+  return parseRiveBuffer(fileBuffer, path.basename(filePath, '.riv'), filePath);
+}
 
-    return {
-      ...runtimeSurface,
-      metadata: {
-        fileSize: fileStats.size,
-        parseDate: new Date().toISOString(),
-        runtimeVersion: getRiveRuntimeVersion(),
-      },
-    };
+export interface ParseOptions extends OperationOptions {
+  /** Reuse a surface parsed earlier from identical bytes (default: true) */
+  useCache?: boolean;
+  /** Published component version the bytes belong to; tracked apart from the current asset in the cache */
+  version?: string;
+}
+
+/**
+ * Parse Rive file contents that were already loaded, e.g. from a storage backend
+ * Surfaces are cached by content hash and runtime version
+ */
+export async function parseRiveBuffer(
+  fileBuffer: Buffer,
+  componentId: string,
+  source: string = componentId,
+  options: ParseOptions = {}
+): Promise<RiveRuntimeSurface> {
+  try {
+    throwIfCancelled(options.signal);
+    const pool = getParsePool();
+
+    // Static and runtime surfaces differ, so each gets its own cache entry
+    const parserVersion = pool ? await pool.parserVersion() : await getParserVersion();
+    throwIfCancelled(options.signal);
+    const { key, hash } = ParseCache.keyFor(fileBuffer, parserVersion);
+    if (options.useCache !== false) {
+      const cached = await parseCache.get(key, componentId, options.version);
+      if (cached) {
+        logger.debug('Using cached runtime surface', { componentId, key });
+        return cached;
+      }
+    }
+
+    const { signal, onProgress } = options;
+    const surface = pool
+      ? await pool.run<RiveRuntimeSurface>('parse', fileBuffer, { componentId }, { signal, onProgress })
+      : await parseRiveBufferInProcess(fileBuffer, componentId, options);
+
+    await parseCache.set(key, hash, parserVersion, surface, fileBuffer.length, options.version);
+    return surface;
   } catch (error) {
-    throw new Error(`Failed to parse Rive file at ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (isCancellation(error) || isParsePoolError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to parse Rive file at ${source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Parse in this process, without the cache
+ * The parse pool's workers call this; the server calls it only when no pool is configured
+ */
+export async function parseRiveBufferInProcess(
+  fileBuffer: Buffer,
+  componentId: string,
+  options: OperationOptions = {}
+): Promise<RiveRuntimeSurface> {
+  const rive = await getRiveRuntime();
+  throwIfCancelled(options.signal);
+
+  if (!rive) {
+    // Without the runtime, read what the file itself declares
+    logger.debug('Rive runtime unavailable, reading file statically', { componentId });
+    return readRiveSurface(fileBuffer, componentId);
   }
+
+  // Use the actual Rive runtime to parse the file
+  const runtimeSurface = await inspectRiveRuntime(rive, fileBuffer, componentId, options);
+  return {
+    ...runtimeSurface,
+    metadata: {
+      fileSize: fileBuffer.length,
+      parseDate: new Date().toISOString(),
+      runtimeVersion: getRiveRuntimeVersion(),
+      parser: 'runtime',
+    },
+  };
+}
+
+/**
+ * Version tag of the parser this process uses: the runtime version, or 'static'
+ * when the runtime cannot load
+ */
+export async function getParserVersion(): Promise<string> {
+  return (await getRiveRuntime()) ? getRiveRuntimeVersion() : STATIC_PARSER_VERSION;
 }
 
 /**
@@ -193,28 +291,40 @@ export async function parseRiveFile(filePath: string): Promise<RiveRuntimeSurfac
  * Uses @rive-app/canvas-advanced to extract actual runtime surface information
  */
 async function inspectRiveRuntime(
+  rive: RiveCanvasType,
   fileBuffer: Buffer,
-  filePath: string
+  componentId: string,
+  options: OperationOptions
 ): Promise<Omit<RiveRuntimeSurface, 'metadata'>> {
-  const rive = await getRiveRuntime();
-  const componentId = path.basename(filePath, '.riv');
-
   // Load the Rive file - convert Buffer to Uint8Array
   const riveFile = await rive.load(new Uint8Array(fileBuffer));
 
   try {
     // Extract artboards
-    const artboards = await extractArtboards(riveFile);
+    const artboards = await extractArtboards(riveFile, options);
+
+    // Extract state machines from all artboards; events come from the file itself
+    const { graphs, events, named, assets } = readFileDetails(fileBuffer, componentId);
+    const stateMachines = await extractStateMachines(riveFile, artboards, graphs, options);
 
-    // Extract state machines and events from all artboards
-    const { stateMachines, events } = await extractStateMachinesAndEvents(riveFile, artboards);
+    // View models are only reachable through the runtime's data binding API
+    const { viewModels, enums, artboardViewModels, dataBindings } = readViewModels(riveFile, componentId);
+    artboardViewModels.forEach((viewModel, index) => {
+      if (viewModel && artboards[index]) {
+        artboards[index].viewModel = viewModel;
+      }
+    });
 
     return {
       componentId,
       artboards,
       stateMachines,
       events,
-      dataBindings: [],
+      dataBindings,
+      viewModels,
+      enums,
+      ...named,
+      assets,
     };
   } finally {
     // Clean up the file reference
@@ -224,15 +334,69 @@ async function inspectRiveRuntime(
   }
 }
 
+/**
+ * Read layers, states, transitions, events, named objects and assets from the file itself;
+ * the runtime API can only look these up by name, and reports events as they fire
+ * Returns empty lists when the file uses objects this reader does not understand
+ */
+function readFileDetails(
+  fileBuffer: Buffer,
+  componentId: string
+): {
+  graphs: RiveArtboardStateMachines[];
+  events: RiveStateMachineEvent[];
+  named: RiveNamedObjects;
+  assets: RiveFileAsset[];
+} {
+  try {
+    const { objects } = readRiveBinary(fileBuffer);
+    const graphs = extractStateMachineGraphs(objects);
+    return {
+      graphs,
+      events: extractEvents(objects, graphs),
+      named: extractNamedObjects(objects),
+      assets: extractAssets(objects),
+    };
+  } catch (error) {
+    logger.warn('File details unavailable', {
+      componentId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { graphs: [], events: [], named: { textRuns: [], nodes: [], nestedArtboards: [] }, assets: [] };
+  }
+}
+
+/**
+ * Read view models without failing the parse when the data binding API misbehaves
+ */
+function readViewModels(riveFile: File, componentId: string): RiveViewModelDetails {
+  try {
+    return extractViewModels(riveFile);
+  } catch (error) {
+    logger.warn('View models unavailable', {
+      componentId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { viewModels: [], enums: [], artboardViewModels: [], dataBindings: [] };
+  }
+}
+
 /**
  * Extract artboards from Rive file
  * Uses the Rive runtime to get actual artboard information
  */
-async function extractArtboards(riveFile: File): Promise<RiveArtboard[]> {
+async function extractArtboards(riveFile: File, options: OperationOptions = {}): Promise<RiveArtboard[]> {
   const artboards: RiveArtboard[] = [];
   const artboardCount = riveFile.artboardCount();
 
+  // Artboards and state machines are each half of the parse
   for (let i = 0; i < artboardCount; i++) {
+    throwIfCancelled(options.signal);
+    options.onProgress?.({
+      progress: i,
+      total: artboardCount * 2,
+      message: `parsing artboard ${i + 1}/${artboardCount}`,
+    });
     const artboard = riveFile.artboardByIndex(i);
 
     try {
@@ -255,24 +419,27 @@ async function extractArtboards(riveFile: File): Promise<RiveArtboard[]> {
 }
 
 /**
- * Extract state machines, their inputs, and events from Rive file
+ * Extract state machines and their inputs from Rive file
  * Uses the Rive runtime to inspect all artboards and their state machines
  */
-async function extractStateMachinesAndEvents(
+async function extractStateMachines(
   riveFile: File,
-  artboards: RiveArtboard[]
-): Promise<{
-  stateMachines: RiveStateMachine[];
-  events: RiveStateMachineEvent[];
-}> {
+  artboards: RiveArtboard[],
+  graphs: RiveArtboardStateMachines[],
+  options: OperationOptions = {}
+): Promise<RiveStateMachine[]> {
   const stateMachines: RiveStateMachine[] = [];
-  const eventsSet = new Set<string>();
-  const events: RiveStateMachineEvent[] = [];
 
   const rive = await getRiveRuntime();
 
   // Iterate through all artboards to collect state machines
   for (let artboardIndex = 0; artboardIndex < artboards.length; artboardIndex++) {
+    throwIfCancelled(options.signal);
+    options.onProgress?.({
+      progress: artboards.length + artboardIndex,
+      total: artboards.length * 2,
+      message: `inspecting state machines of artboard ${artboardIndex + 1}/${artboards.length}`,
+    });
     const artboard = riveFile.artboardByIndex(artboardIndex);
 
     try {
@@ -310,28 +477,15 @@ async function extractStateMachinesAndEvents(
             });
           }
 
-          // Add state machine info
+          // Layers come from the file graph; the runtime API only exposes inputs
+          const graph = graphs[artboardIndex]?.stateMachines.find((candidate) => candidate.name === stateMachine.name);
           stateMachines.push({
             name: stateMachine.name,
             inputs,
-            layerCount: 1, // Layer count is not directly exposed in the API
+            layerCount: graph ? graph.layerCount : 1,
+            layers: graph?.layers,
+            events: graph?.events,
           });
-
-          // Extract events by advancing the state machine briefly
-          // This is a heuristic approach - we advance the state machine to see if any events are reported
-          stateMachineInstance.advance(0.016); // Advance by one frame (~16ms)
-          const reportedEventCount = stateMachineInstance.reportedEventCount();
-
-          for (let eventIndex = 0; eventIndex < reportedEventCount; eventIndex++) {
-            const event = stateMachineInstance.reportedEventAt(eventIndex);
-            if (event && !eventsSet.has(event.name)) {
-              eventsSet.add(event.name);
-              events.push({
-                name: event.name,
-                properties: event.properties || {},
-              });
-            }
-          }
         } finally {
           // Clean up state machine instance
           if (stateMachineInstance && typeof stateMachineInstance.delete === 'function') {
@@ -347,13 +501,13 @@ async function extractStateMachinesAndEvents(
     }
   }
 
-  return { stateMachines, events };
+  return stateMachines;
 }
 
 /**
  * Get Rive runtime version
  */
-function getRiveRuntimeVersion(): string {
+export function getRiveRuntimeVersion(): string {
   try {
     // Get the version from package.json
     const packageJson = require('@rive-app/canvas-advanced/package.json');
@@ -366,41 +520,36 @@ function getRiveRuntimeVersion(): string {
 
 /**
  * Validate a Rive file
+ * Checks the header, format version and that every object can be read to the end of the file
  */
 export async function validateRiveFile(filePath: string): Promise<boolean> {
   try {
     const fileBuffer = await fs.readFile(filePath);
-
-    // Check if it's a valid Rive file by checking magic bytes
-    // Rive files start with specific bytes
-    if (fileBuffer.length < 4) {
-      return false;
-    }
-
-    // Basic validation - in production, use actual Rive runtime validation
-    const header = fileBuffer.toString('utf-8', 0, 4);
-    return header === 'RIVE' || fileBuffer[0] === 0x52; // 'R' in ASCII
+    return validateRiveBuffer(fileBuffer).valid;
   } catch (error) {
     return false;
   }
 }
 
 /**
- * Extract metadata from Rive file without full parsing
+ * Extract metadata from a Rive file's bytes without full parsing
  */
-export async function extractRiveMetadata(filePath: string): Promise<{
+export function extractRiveMetadata(fileName: string, fileBuffer: Buffer, lastModified: Date): {
   fileName: string;
   fileSize: number;
   isValid: boolean;
+  formatVersion?: string;
+  validationError?: string;
   lastModified: Date;
-}> {
-  const stats = await fs.stat(filePath);
-  const isValid = await validateRiveFile(filePath);
+} {
+  const validation = validateRiveBuffer(fileBuffer);
 
   return {
-    fileName: path.basename(filePath),
-    fileSize: stats.size,
-    isValid,
-    lastModified: stats.mtime,
+    fileName,
+    fileSize: fileBuffer.length,
+    isValid: validation.valid,
+    formatVersion: validation.version,
+    validationError: validation.error,
+    lastModified,
   };
 }
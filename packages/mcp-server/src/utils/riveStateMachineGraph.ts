@@ -0,0 +1,314 @@
+/**
+ * State machine graph extraction
+ * Rebuilds each state machine's layers, states, transitions and conditions from
+ * the .riv object stream, which the runtime API does not expose.
+ */
+
+import {
+  RiveStateMachine,
+  RiveStateMachineInput,
+  RiveStateMachineLayer,
+  RiveLayerState,
+  RiveLayerStateType,
+  RiveStateTransition,
+  RiveTransitionCondition,
+  RiveConditionOperator,
+} from '../types';
+import {
+  RiveObjectRecord,
+  RiveTypeKey,
+  RivePropertyKey,
+  readRiveBinary,
+} from './riveBinaryReader';
+
+export interface RiveArtboardStateMachines {
+  artboard: string;
+  stateMachines: RiveStateMachine[];
+}
+
+// StateTransitionFlags in the Rive runtime
+const TRANSITION_DISABLED = 1 << 0;
+const TRANSITION_DURATION_IS_PERCENTAGE = 1 << 1;
+const TRANSITION_ENABLE_EXIT_TIME = 1 << 2;
+const TRANSITION_EXIT_TIME_IS_PERCENTAGE = 1 << 3;
+
+// TransitionConditionOp in the Rive runtime, by opValue
+const CONDITION_OPERATORS: RiveConditionOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+const STATE_TYPES: Record<number, RiveLayerStateType> = {
+  [RiveTypeKey.EntryState]: 'entry',
+  [RiveTypeKey.AnyState]: 'any',
+  [RiveTypeKey.ExitState]: 'exit',
+  [RiveTypeKey.AnimationState]: 'animation',
+  [RiveTypeKey.BlendState1D]: 'blend1d',
+  [RiveTypeKey.BlendStateDirect]: 'blendDirect',
+};
+
+const STATE_NAMES: Record<RiveLayerStateType, string> = {
+  entry: 'Entry',
+  any: 'Any State',
+  exit: 'Exit',
+  animation: 'Empty',
+  blend1d: 'Blend 1D',
+  blendDirect: 'Blend Direct',
+};
+
+/**
+ * Read the state machine graphs of every artboard in a .riv buffer
+ */
+export function readStateMachineGraphs(bytes: Uint8Array): RiveArtboardStateMachines[] {
+  return extractStateMachineGraphs(readRiveBinary(bytes).objects);
+}
+
+/**
+ * Build state machine graphs from an object stream
+ * Objects attach to the most recent artboard, state machine, layer, state and
+ * transition, mirroring the runtime's import stack.
+ */
+export function extractStateMachineGraphs(objects: RiveObjectRecord[]): RiveArtboardStateMachines[] {
+  const artboards: RiveArtboardStateMachines[] = [];
+
+  let animations: string[] = [];
+  let artboard: RiveArtboardStateMachines | null = null;
+  let stateMachine: RiveStateMachine | null = null;
+  let layer: RiveStateMachineLayer | null = null;
+  let state: RiveLayerState | null = null;
+  let transition: RiveStateTransition | null = null;
+  let pendingTargets: Array<{ transition: RiveStateTransition; to: number }> = [];
+
+  const finishLayer = () => {
+    if (layer) {
+      resolveTransitions(layer, pendingTargets);
+      markReachableStates(layer);
+    }
+    layer = null;
+    state = null;
+    transition = null;
+    pendingTargets = [];
+  };
+
+  for (const object of objects) {
+    const { typeKey, properties } = object;
+
+    switch (typeKey) {
+      case RiveTypeKey.Artboard:
+        finishLayer();
+        artboard = { artboard: stringProperty(object, RivePropertyKey.componentName), stateMachines: [] };
+        artboards.push(artboard);
+        animations = [];
+        stateMachine = null;
+        break;
+
+      case RiveTypeKey.LinearAnimation:
+        animations.push(stringProperty(object, RivePropertyKey.animationName));
+        break;
+
+      case RiveTypeKey.StateMachine:
+        finishLayer();
+        stateMachine = {
+          name: stringProperty(object, RivePropertyKey.animationName),
+          inputs: [],
+          layerCount: 0,
+          layers: [],
+        };
+        artboard?.stateMachines.push(stateMachine);
+        break;
+
+      case RiveTypeKey.StateMachineBool:
+      case RiveTypeKey.StateMachineNumber:
+      case RiveTypeKey.StateMachineTrigger:
+        stateMachine?.inputs.push(readInput(object));
+        break;
+
+      case RiveTypeKey.StateMachineLayer:
+        finishLayer();
+        if (stateMachine) {
+          layer = { name: stringProperty(object, RivePropertyKey.stateMachineComponentName), states: [] };
+          stateMachine.layers!.push(layer);
+          stateMachine.layerCount = stateMachine.layers!.length;
+        }
+        break;
+
+      case RiveTypeKey.EntryState:
+      case RiveTypeKey.AnyState:
+      case RiveTypeKey.ExitState:
+      case RiveTypeKey.AnimationState:
+      case RiveTypeKey.BlendState1D:
+      case RiveTypeKey.BlendStateDirect:
+        if (layer) {
+          state = readState(object, layer.states.length, animations, stateMachine!.inputs);
+          layer.states.push(state);
+          transition = null;
+        }
+        break;
+
+      case RiveTypeKey.BlendAnimation1D:
+      case RiveTypeKey.BlendAnimationDirect: {
+        const animationId = properties.get(RivePropertyKey.blendAnimationId) as number | undefined;
+        if (state?.blendAnimations && animationId !== undefined && animations[animationId] !== undefined) {
+          state.blendAnimations.push(animations[animationId]);
+        }
+        break;
+      }
+
+      case RiveTypeKey.StateTransition:
+      case RiveTypeKey.BlendStateTransition:
+        if (state) {
+          transition = readTransition(object);
+          state.transitions.push(transition);
+          const to = properties.get(RivePropertyKey.transitionStateToId) as number | undefined;
+          if (to !== undefined) {
+            pendingTargets.push({ transition, to });
+          }
+        }
+        break;
+
+      case RiveTypeKey.TransitionBoolCondition:
+      case RiveTypeKey.TransitionNumberCondition:
+      case RiveTypeKey.TransitionTriggerCondition: {
+        const condition = transition && readCondition(object, stateMachine!.inputs);
+        if (condition) {
+          transition!.conditions.push(condition);
+        }
+        break;
+      }
+    }
+  }
+
+  finishLayer();
+  return artboards;
+}
+
+function readInput(object: RiveObjectRecord): RiveStateMachineInput {
+  const name = stringProperty(object, RivePropertyKey.stateMachineComponentName);
+  const { properties } = object;
+
+  switch (object.typeKey) {
+    case RiveTypeKey.StateMachineBool:
+      return { name, type: 'bool', defaultValue: (properties.get(RivePropertyKey.boolInputValue) as boolean) ?? false };
+    case RiveTypeKey.StateMachineNumber:
+      return { name, type: 'number', defaultValue: (properties.get(RivePropertyKey.numberInputValue) as number) ?? 0 };
+    default:
+      return { name, type: 'trigger' };
+  }
+}
+
+function readState(
+  object: RiveObjectRecord,
+  id: number,
+  animations: string[],
+  inputs: RiveStateMachineInput[]
+): RiveLayerState {
+  const type = STATE_TYPES[object.typeKey];
+  const state: RiveLayerState = { id, type, name: STATE_NAMES[type], reachable: false, transitions: [] };
+
+  if (type === 'animation') {
+    const animationId = object.properties.get(RivePropertyKey.animationStateAnimationId) as number | undefined;
+    const animation = animationId === undefined ? undefined : animations[animationId];
+    if (animation !== undefined) {
+      state.animation = animation;
+      state.name = animation;
+    }
+  } else if (type === 'blend1d' || type === 'blendDirect') {
+    state.blendAnimations = [];
+    const inputId = object.properties.get(RivePropertyKey.blendState1DInputId) as number | undefined;
+    if (type === 'blend1d' && inputId !== undefined && inputs[inputId]) {
+      state.blendInput = inputs[inputId].name;
+    }
+  }
+
+  return state;
+}
+
+function readTransition(object: RiveObjectRecord): RiveStateTransition {
+  const flags = (object.properties.get(RivePropertyKey.transitionFlags) as number) ?? 0;
+  const transition: RiveStateTransition = {
+    to: -1,
+    toName: '',
+    duration: (object.properties.get(RivePropertyKey.transitionDuration) as number) ?? 0,
+    conditions: [],
+  };
+
+  if (flags & TRANSITION_DURATION_IS_PERCENTAGE) {
+    transition.durationIsPercentage = true;
+  }
+  if (flags & TRANSITION_ENABLE_EXIT_TIME) {
+    transition.exitTime = (object.properties.get(RivePropertyKey.transitionExitTime) as number) ?? 0;
+    if (flags & TRANSITION_EXIT_TIME_IS_PERCENTAGE) {
+      transition.exitTimeIsPercentage = true;
+    }
+  }
+  if (flags & TRANSITION_DISABLED) {
+    transition.disabled = true;
+  }
+
+  return transition;
+}
+
+function readCondition(object: RiveObjectRecord, inputs: RiveStateMachineInput[]): RiveTransitionCondition | null {
+  const inputId = object.properties.get(RivePropertyKey.conditionInputId) as number | undefined;
+  const input = inputId === undefined ? undefined : inputs[inputId];
+  if (!input) {
+    return null;
+  }
+
+  const opValue = (object.properties.get(RivePropertyKey.conditionOpValue) as number) ?? 0;
+
+  switch (object.typeKey) {
+    case RiveTypeKey.TransitionBoolCondition:
+      // The runtime passes when the input is true for "equal" and false for "not equal"
+      return { input: input.name, inputType: 'bool', op: '==', value: opValue === 0 };
+    case RiveTypeKey.TransitionNumberCondition:
+      return {
+        input: input.name,
+        inputType: 'number',
+        op: CONDITION_OPERATORS[opValue] ?? '==',
+        value: (object.properties.get(RivePropertyKey.numberConditionValue) as number) ?? 0,
+      };
+    default:
+      return { input: input.name, inputType: 'trigger' };
+  }
+}
+
+/**
+ * Point transitions at their target states once the whole layer has been read
+ */
+function resolveTransitions(
+  layer: RiveStateMachineLayer,
+  pendingTargets: Array<{ transition: RiveStateTransition; to: number }>
+): void {
+  for (const { transition, to } of pendingTargets) {
+    const target = layer.states[to];
+    if (target) {
+      transition.to = to;
+      transition.toName = target.name;
+    }
+  }
+}
+
+/**
+ * Walk enabled transitions from Entry and Any State
+ */
+function markReachableStates(layer: RiveStateMachineLayer): void {
+  const queue = layer.states.filter((state) => state.type === 'entry' || state.type === 'any');
+
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    if (state.reachable) {
+      continue;
+    }
+    state.reachable = true;
+
+    for (const transition of state.transitions) {
+      const target = layer.states[transition.to];
+      if (!transition.disabled && target && !target.reachable) {
+        queue.push(target);
+      }
+    }
+  }
+}
+
+function stringProperty(object: RiveObjectRecord, key: number): string {
+  const value = object.properties.get(key);
+  return typeof value === 'string' ? value : '';
+}
@@ -0,0 +1,208 @@
+/**
+ * View model and data binding extraction
+ * Reads view models, their properties and each artboard's default view model
+ * through the Rive runtime's data binding API.
+ */
+
+import type { File, ViewModelInstance, ViewModelProperty } from '@rive-app/canvas-advanced';
+import {
+  RiveViewModel,
+  RiveViewModelProperty,
+  RiveViewModelPropertyType,
+  RiveDataEnum,
+  RiveDataBinding,
+} from '../types';
+
+export interface RiveViewModelDetails {
+  viewModels: RiveViewModel[];
+  enums: RiveDataEnum[];
+  /** Default view model name by artboard index */
+  artboardViewModels: Array<string | undefined>;
+  /** One binding per property reachable from each artboard's default view model */
+  dataBindings: RiveDataBinding[];
+}
+
+// DataType in the Rive runtime, by value; none and symbolListIndex are not bindable
+const DATA_TYPES: Array<RiveViewModelPropertyType | null> = [
+  null,
+  'string',
+  'number',
+  'boolean',
+  'color',
+  'list',
+  'enum',
+  'trigger',
+  'viewModel',
+  'number',
+  null,
+  'image',
+  'artboard',
+];
+
+const DATA_TYPE_NAMES: Record<string, RiveViewModelPropertyType> = {
+  string: 'string',
+  number: 'number',
+  integer: 'number',
+  boolean: 'boolean',
+  color: 'color',
+  list: 'list',
+  enumType: 'enum',
+  trigger: 'trigger',
+  viewModel: 'viewModel',
+  assetImage: 'image',
+  artboard: 'artboard',
+};
+
+// View models may nest each other; stop describing well before a cycle matters
+const MAX_NESTING_DEPTH = 8;
+
+/**
+ * Extract view models, data enums and artboard bindings from a loaded file
+ * Returns empty lists for runtimes that predate data binding
+ */
+export function extractViewModels(riveFile: File): RiveViewModelDetails {
+  const details: RiveViewModelDetails = { viewModels: [], enums: [], artboardViewModels: [], dataBindings: [] };
+  if (typeof riveFile.viewModelCount !== 'function') {
+    return details;
+  }
+
+  details.enums = riveFile.enums().map((dataEnum) => ({ name: dataEnum.name, values: Array.from(dataEnum.values) }));
+
+  const viewModelCount = riveFile.viewModelCount();
+  for (let i = 0; i < viewModelCount; i++) {
+    const viewModel = riveFile.viewModelByIndex(i);
+    const instance = viewModel.defaultInstance();
+
+    try {
+      details.viewModels.push({
+        name: viewModel.name,
+        properties: describeProperties(viewModel.getProperties(), instance, 0),
+        instances: typeof viewModel.getInstanceNames === 'function' ? Array.from(viewModel.getInstanceNames()) : [],
+      });
+    } finally {
+      if (instance && typeof instance.unref === 'function') {
+        instance.unref();
+      }
+    }
+  }
+
+  const artboardCount = riveFile.artboardCount();
+  for (let i = 0; i < artboardCount; i++) {
+    const artboard = riveFile.artboardByIndex(i);
+
+    try {
+      const viewModelName = riveFile.defaultArtboardViewModel(artboard)?.name;
+      details.artboardViewModels.push(viewModelName);
+
+      const viewModel = details.viewModels.find((candidate) => candidate.name === viewModelName);
+      if (viewModel) {
+        details.dataBindings.push(...toDataBindings(viewModel.properties, artboard.name, viewModel.name, ''));
+      }
+    } finally {
+      if (artboard && typeof artboard.delete === 'function') {
+        artboard.delete();
+      }
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Map a runtime DataType, which arrives as a name, a number or an embind enum value
+ */
+export function toPropertyType(type: unknown): RiveViewModelPropertyType | null {
+  if (typeof type === 'string') {
+    return DATA_TYPE_NAMES[type] ?? null;
+  }
+  if (typeof type === 'number') {
+    return DATA_TYPES[type] ?? null;
+  }
+  if (type && typeof type === 'object' && typeof (type as { value?: unknown }).value === 'number') {
+    return DATA_TYPES[(type as { value: number }).value] ?? null;
+  }
+  return null;
+}
+
+function describeProperties(
+  properties: ViewModelProperty[],
+  instance: ViewModelInstance | null,
+  depth: number
+): RiveViewModelProperty[] {
+  const described: RiveViewModelProperty[] = [];
+
+  for (const { name, type: dataType } of properties) {
+    const type = toPropertyType(dataType);
+    if (!type) {
+      continue;
+    }
+
+    const property: RiveViewModelProperty = { name, type };
+    if (instance) {
+      readDefault(property, instance, depth);
+    }
+    described.push(property);
+  }
+
+  return described;
+}
+
+/**
+ * Fill in what the default instance knows about a property
+ */
+function readDefault(property: RiveViewModelProperty, instance: ViewModelInstance, depth: number): void {
+  const { name } = property;
+
+  switch (property.type) {
+    case 'number':
+      property.defaultValue = instance.number(name)?.value;
+      break;
+    case 'string':
+      property.defaultValue = instance.string(name)?.value;
+      break;
+    case 'boolean':
+      property.defaultValue = instance.boolean(name)?.value;
+      break;
+    case 'color': {
+      const value = instance.color(name)?.value;
+      // Colors come back as signed 32-bit integers
+      property.defaultValue = value === undefined ? undefined : value >>> 0;
+      break;
+    }
+    case 'enum': {
+      const value = instance.enum(name);
+      if (value) {
+        property.defaultValue = value.value;
+        property.enumValues = Array.from(value.values);
+      }
+      break;
+    }
+    case 'viewModel': {
+      const nested = instance.viewModel(name);
+      if (nested && depth < MAX_NESTING_DEPTH) {
+        property.properties = describeProperties(nested.getProperties(), nested, depth + 1);
+      }
+      break;
+    }
+  }
+
+  if (property.defaultValue === undefined) {
+    delete property.defaultValue;
+  }
+}
+
+/**
+ * Flatten properties into bindings; nested paths use '/' as the runtime does
+ */
+function toDataBindings(
+  properties: RiveViewModelProperty[],
+  artboard: string,
+  viewModel: string,
+  prefix: string
+): RiveDataBinding[] {
+  return properties.flatMap((property) => {
+    const path = prefix ? `${prefix}/${property.name}` : property.name;
+    const binding: RiveDataBinding = { name: property.name, type: property.type, path, artboard, viewModel };
+    return [binding, ...toDataBindings(property.properties ?? [], artboard, viewModel, path)];
+  });
+}
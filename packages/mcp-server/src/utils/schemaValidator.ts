@@ -0,0 +1,152 @@
+/**
+ * Minimal JSON Schema validator for tool arguments
+ * Supports the subset of keywords used by the tool input schemas:
+ * type, properties, required, additionalProperties, items, enum, minItems, minLength, minimum, maximum
+ */
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: Array<string | number | boolean | null>;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface SchemaValidationError {
+  /** JSON pointer to the offending value ('' is the root) */
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+/**
+ * Validate a value against a schema
+ * Returns an empty array when the value is valid
+ */
+export function validateSchema(schema: JSONSchema, value: unknown): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  validateNode(schema, value, '', errors);
+  return errors;
+}
+
+/**
+ * Format validation errors into a single readable message
+ */
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map((error) => `${error.path || '/'}: ${error.message}`).join('; ');
+}
+
+function validateNode(schema: JSONSchema, value: unknown, path: string, errors: SchemaValidationError[]): void {
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some((type) => matchesType(type, value))) {
+      errors.push({
+        path,
+        keyword: 'type',
+        message: `must be ${allowed.join(' or ')}, got ${describeType(value)}`,
+      });
+      // Nested keywords are meaningless once the type is wrong
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push({
+      path,
+      keyword: 'enum',
+      message: `must be one of: ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, keyword: 'minLength', message: `must have at least ${schema.minLength} character(s)` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, keyword: 'minimum', message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, keyword: 'maximum', message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, keyword: 'minItems', message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(schema.items!, item, `${path}/${index}`, errors));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({
+          path: `${path}/${escapePointer(key)}`,
+          keyword: 'required',
+          message: 'is required',
+        });
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      const propertySchema = schema.properties?.[key];
+
+      if (propertySchema) {
+        if (child !== undefined) {
+          validateNode(propertySchema, child, childPath, errors);
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath, keyword: 'additionalProperties', message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(schema.additionalProperties, child, childPath, errors);
+      }
+    }
+  }
+}
+
+function matchesType(type: JSONSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,385 @@
+/**
+ * Deterministic state machine simulation
+ * Steps a state machine instance with fixed frame times through a script of input
+ * changes and advances, recording layer states and reported events after each step.
+ */
+
+import { performance } from 'perf_hooks';
+import type { Artboard, StateMachineInstance, SMIInput, RiveEvent } from '@rive-app/canvas-advanced';
+import { RiveEventType, RiveStateMachineLayer, RiveLayerState } from '../types';
+import { getRiveRuntime } from './riveParser';
+import { readStateMachineGraphs } from './riveStateMachineGraph';
+import { findArtboard, findStateMachine, findInput } from './previewRenderer';
+import { OperationOptions, throwIfCancelled } from './progress';
+import { getParsePool, WorkerTaskError } from './parsePool';
+import { logger } from './logger';
+
+export type SimulationErrorCode =
+  | 'RUNTIME_UNAVAILABLE'
+  | 'ARTBOARD_NOT_FOUND'
+  | 'STATE_MACHINE_NOT_FOUND'
+  | 'INPUT_NOT_FOUND'
+  | 'INVALID_STEP';
+
+/**
+ * Raised when a simulation script cannot run against the file
+ */
+export class SimulationError extends Error {
+  constructor(readonly code: SimulationErrorCode, message: string) {
+    super(message);
+    this.name = 'SimulationError';
+  }
+}
+
+export function isSimulationError(error: unknown): error is SimulationError {
+  return error instanceof SimulationError;
+}
+
+export type SimulationStep =
+  | { action: 'setInput'; input: string; value: boolean | number }
+  | { action: 'fireTrigger'; input: string }
+  | { action: 'advance'; ms: number };
+
+export interface SimulationOptions extends OperationOptions {
+  artboard?: string;
+  /** Defaults to the artboard's first state machine */
+  stateMachine?: string;
+  steps: SimulationStep[];
+  /** Frames per simulated second (default: 60) */
+  frameRate?: number;
+}
+
+export interface SimulatedLayerState {
+  layer: string;
+  state: string;
+}
+
+export interface SimulatedEvent {
+  name: string;
+  type: RiveEventType;
+  /** Milliseconds since the simulation started, at the end of the frame that reported it */
+  time: number;
+  properties?: Record<string, string | number | boolean>;
+  url?: string;
+}
+
+export interface SimulatedStepResult {
+  index: number;
+  step: SimulationStep;
+  /** Simulated milliseconds since the start, after the step */
+  time: number;
+  layers: SimulatedLayerState[];
+  /** States entered during the step, as the runtime names them */
+  stateChanges: string[];
+  events: SimulatedEvent[];
+  frames?: number;
+  /** Wall-clock cost of advancing the runtime, per frame */
+  frameTime?: { averageMs: number; maxMs: number };
+}
+
+export interface SimulationResult {
+  artboard: string;
+  stateMachine: string;
+  frameRate: number;
+  /** Layer states once the state machine has settled at t=0 */
+  initial: SimulatedStepResult;
+  steps: SimulatedStepResult[];
+  /** Every reported event, in order */
+  events: SimulatedEvent[];
+  duration: number;
+}
+
+const DEFAULT_FRAME_RATE = 60;
+
+// Keeps a runaway script from pinning the server
+export const MAX_SIMULATED_MS = 5 * 60 * 1000;
+
+// Rive type keys of the events a state machine can report
+const EVENT_TYPES: Record<number, RiveEventType> = { 128: 'general', 131: 'openUrl', 407: 'audio' };
+
+/**
+ * Run a step script against a state machine of a .riv file, in a worker when a parse pool is configured
+ */
+export async function simulateStateMachine(fileBuffer: Buffer, options: SimulationOptions): Promise<SimulationResult> {
+  const pool = getParsePool();
+  if (!pool) {
+    return simulateStateMachineInProcess(fileBuffer, options);
+  }
+
+  const { signal, onProgress, ...args } = options;
+  validateSteps(args.steps);
+  try {
+    return await pool.run<SimulationResult>('simulate', fileBuffer, args, { signal, onProgress });
+  } catch (error) {
+    if (error instanceof WorkerTaskError && error.originalName === 'SimulationError') {
+      throw new SimulationError(error.code as SimulationErrorCode, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Simulate in this process; loads the runtime and its DOM globals here
+ */
+export async function simulateStateMachineInProcess(
+  fileBuffer: Buffer,
+  options: SimulationOptions
+): Promise<SimulationResult> {
+  const { signal, onProgress, steps } = options;
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  validateSteps(steps);
+
+  const rive = await getRiveRuntime();
+  if (!rive) {
+    throw new SimulationError('RUNTIME_UNAVAILABLE', 'Simulation needs the Rive WASM runtime, which failed to load');
+  }
+
+  const file = await rive.load(new Uint8Array(fileBuffer));
+  let artboard: Artboard | null = null;
+  let instance: StateMachineInstance | null = null;
+
+  try {
+    artboard = options.artboard ? findArtboard(file, options.artboard) : file.defaultArtboard();
+    if (!artboard) {
+      throw new SimulationError('ARTBOARD_NOT_FOUND', `Artboard '${options.artboard}' not found`);
+    }
+
+    const stateMachineName =
+      options.stateMachine ?? (artboard.stateMachineCount() > 0 ? artboard.stateMachineByIndex(0).name : undefined);
+    const definition = stateMachineName === undefined ? null : findStateMachine(artboard, stateMachineName);
+    if (!definition) {
+      throw new SimulationError(
+        'STATE_MACHINE_NOT_FOUND',
+        stateMachineName === undefined
+          ? `Artboard '${artboard.name}' has no state machines`
+          : `State machine '${stateMachineName}' not found`
+      );
+    }
+    instance = new rive.StateMachineInstance(definition, artboard);
+
+    const tracker = new LayerTracker(readLayers(fileBuffer, artboard.name, definition.name));
+    const frameSeconds = 1 / frameRate;
+    // Check for cancellation about once per simulated second, whole or fractional frame rate alike
+    const framesPerCheck = Math.ceil(frameRate);
+    const allEvents: SimulatedEvent[] = [];
+    let elapsed = 0;
+
+    // Advance one frame's worth of time and collect what the runtime reported
+    const advance = (seconds: number, result: SimulatedStepResult, frameTimes: number[]) => {
+      const started = performance.now();
+      instance!.advance(seconds);
+      artboard!.advance(seconds);
+      frameTimes.push(performance.now() - started);
+      elapsed += seconds;
+
+      for (let i = 0; i < instance!.stateChangedCount(); i++) {
+        const state = instance!.stateChangedNameByIndex(i);
+        result.stateChanges.push(state);
+        tracker.enter(state, i === 0);
+      }
+      for (let i = 0; i < instance!.reportedEventCount(); i++) {
+        const event = instance!.reportedEventAt(i);
+        if (event) {
+          const simulated = toSimulatedEvent(event, elapsed);
+          result.events.push(simulated);
+          allEvents.push(simulated);
+        }
+      }
+    };
+
+    const newResult = (index: number, step: SimulationStep): SimulatedStepResult => ({
+      index,
+      step,
+      time: 0,
+      layers: [],
+      stateChanges: [],
+      events: [],
+    });
+    const finish = (result: SimulatedStepResult): SimulatedStepResult => {
+      result.time = round(elapsed * 1000);
+      result.layers = tracker.snapshot();
+      return result;
+    };
+
+    // Settle entry transitions so the initial snapshot shows the starting states
+    const initial = newResult(-1, { action: 'advance', ms: 0 });
+    advance(0, initial, []);
+    finish(initial);
+
+    const results: SimulatedStepResult[] = [];
+    for (let index = 0; index < steps.length; index++) {
+      throwIfCancelled(signal);
+      const step = steps[index];
+      const result = newResult(index, step);
+
+      if (step.action === 'advance') {
+        const frameTimes: number[] = [];
+        let remaining = step.ms / 1000;
+        while (remaining > 1e-9) {
+          const seconds = Math.min(frameSeconds, remaining);
+          advance(seconds, result, frameTimes);
+          remaining -= seconds;
+          if (frameTimes.length % framesPerCheck === 0) {
+            throwIfCancelled(signal);
+          }
+        }
+        result.frames = frameTimes.length;
+        if (frameTimes.length > 0) {
+          result.frameTime = {
+            averageMs: round(frameTimes.reduce((sum, time) => sum + time, 0) / frameTimes.length),
+            maxMs: round(Math.max(...frameTimes)),
+          };
+        }
+      } else {
+        const input = findInput(instance, step.input);
+        if (!input) {
+          throw new SimulationError('INPUT_NOT_FOUND', `State machine input '${step.input}' not found`);
+        }
+        applyStep(step, input, rive.SMIInput);
+      }
+
+      results.push(finish(result));
+      onProgress?.({ progress: index + 1, total: steps.length, message: `step ${index + 1}/${steps.length}: ${step.action}` });
+    }
+
+    return {
+      artboard: artboard.name,
+      stateMachine: definition.name,
+      frameRate,
+      initial,
+      steps: results,
+      events: allEvents,
+      duration: round(elapsed * 1000),
+    };
+  } finally {
+    instance?.delete();
+    if (artboard && typeof artboard.delete === 'function') {
+      artboard.delete();
+    }
+    if (file && typeof file.unref === 'function') {
+      file.unref();
+    }
+  }
+}
+
+/**
+ * Follows each layer's current state from the runtime's state change names
+ * The runtime reports changes by name in layer order, so a name is matched to the
+ * first layer at or after the previous match that has a state with that name.
+ */
+class LayerTracker {
+  private current: string[];
+  private cursor = 0;
+
+  constructor(private layers: RiveStateMachineLayer[]) {
+    this.current = layers.map(() => 'Entry');
+  }
+
+  enter(runtimeName: string, firstInFrame: boolean): void {
+    if (firstInFrame) {
+      this.cursor = 0;
+    }
+
+    let index = this.layers.findIndex((layer, candidate) => candidate >= this.cursor && findState(layer, runtimeName));
+    if (index < 0) {
+      index = this.layers.findIndex((layer) => findState(layer, runtimeName));
+    }
+    if (index < 0) {
+      return;
+    }
+
+    this.current[index] = findState(this.layers[index], runtimeName)!.name;
+    this.cursor = index;
+  }
+
+  snapshot(): SimulatedLayerState[] {
+    return this.layers.map((layer, index) => ({ layer: layer.name, state: this.current[index] }));
+  }
+}
+
+/**
+ * The runtime names animation states by their animation, and Entry and Exit in lower case
+ */
+function findState(layer: RiveStateMachineLayer, runtimeName: string): RiveLayerState | undefined {
+  return layer.states.find((state) =>
+    runtimeName === 'entry' || runtimeName === 'exit' ? state.type === runtimeName : state.name === runtimeName
+  );
+}
+
+function readLayers(fileBuffer: Buffer, artboard: string, stateMachine: string): RiveStateMachineLayer[] {
+  try {
+    const graph = readStateMachineGraphs(fileBuffer).find((candidate) => candidate.artboard === artboard);
+    return graph?.stateMachines.find((candidate) => candidate.name === stateMachine)?.layers ?? [];
+  } catch (error) {
+    // Layer names are a nicety; state changes are still reported without them
+    logger.warn('State machine layers unavailable for simulation', {
+      stateMachine,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+}
+
+function validateSteps(steps: SimulationStep[]): void {
+  let total = 0;
+
+  steps.forEach((step, index) => {
+    if (step.action === 'advance') {
+      if (typeof step.ms !== 'number' || !(step.ms >= 0)) {
+        throw new SimulationError('INVALID_STEP', `Step ${index}: advance needs a non-negative 'ms'`);
+      }
+      total += step.ms;
+    } else if (step.action === 'setInput' || step.action === 'fireTrigger') {
+      if (typeof step.input !== 'string' || step.input === '') {
+        throw new SimulationError('INVALID_STEP', `Step ${index}: ${step.action} needs an 'input' name`);
+      }
+      if (step.action === 'setInput' && typeof step.value !== 'boolean' && typeof step.value !== 'number') {
+        throw new SimulationError('INVALID_STEP', `Step ${index}: setInput needs a boolean or number 'value'`);
+      }
+    } else {
+      throw new SimulationError('INVALID_STEP', `Step ${index}: unknown action '${(step as { action: string }).action}'`);
+    }
+  });
+
+  if (total > MAX_SIMULATED_MS) {
+    throw new SimulationError('INVALID_STEP', `Scripts may simulate at most ${MAX_SIMULATED_MS}ms, got ${total}ms`);
+  }
+}
+
+function applyStep(
+  step: Exclude<SimulationStep, { action: 'advance' }>,
+  input: SMIInput,
+  types: { bool: number; number: number; trigger: number }
+): void {
+  if (step.action === 'fireTrigger') {
+    if (input.type !== types.trigger) {
+      throw new SimulationError('INVALID_STEP', `Input '${step.input}' is not a trigger`);
+    }
+    input.asTrigger().fire();
+  } else if (input.type === types.bool && typeof step.value === 'boolean') {
+    input.asBool().value = step.value;
+  } else if (input.type === types.number && typeof step.value === 'number') {
+    input.asNumber().value = step.value;
+  } else {
+    throw new SimulationError('INVALID_STEP', `Input '${step.input}' cannot be set to ${JSON.stringify(step.value)}`);
+  }
+}
+
+function toSimulatedEvent(event: RiveEvent, elapsed: number): SimulatedEvent {
+  const simulated: SimulatedEvent = {
+    name: event.name,
+    type: EVENT_TYPES[event.type ?? 128] ?? 'general',
+    time: round(elapsed * 1000),
+  };
+  if (event.properties && Object.keys(event.properties).length > 0) {
+    simulated.properties = { ...event.properties };
+  }
+  if ('url' in event && typeof event.url === 'string') {
+    simulated.url = event.url;
+  }
+  return simulated;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
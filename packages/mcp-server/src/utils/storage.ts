@@ -1,5 +1,10 @@
 /**
  * Storage utilities for accessing Rive manifests and components
+ *
+ * When a storage backend has been initialized (see storage/index.ts), manifests
+ * and assets are resolved through it using the manifest index. Otherwise the
+ * legacy `*.library.json` files under MANIFESTS_PATH/ASSETS_PATH are used;
+ * importLegacyLibraries copies them into an empty backend.
  */
 
 import * as fs from 'fs/promises';
@@ -7,9 +12,19 @@ import * as path from 'path';
 import {
   RiveLibrary,
   RiveComponent,
+  RiveRuntimeSurface,
   LibraryManifest,
   ComponentManifest,
 } from '../types';
+import {
+  IStorageBackend,
+  ManifestIndex,
+  RiveComponentManifest,
+  RiveLibraryManifest,
+  ComponentVersionInfo,
+  ComponentVersionHistory,
+} from '../../../../libs/types';
+import { storageManager, isSemver, ComponentVersionError, isComponentVersionError } from '../storage';
 
 /**
  * Storage configuration
@@ -38,6 +53,13 @@ export function setStorageConfig(config: Partial<StorageConfig>): void {
   Object.assign(defaultConfig, config);
 }
 
+/**
+ * Get the configured storage backend, or null when running on the legacy directories
+ */
+export function getStorageBackend(): IStorageBackend | null {
+  return storageManager.isInitialized() ? storageManager.getStorage() : null;
+}
+
 /**
  * Ensure storage directories exist
  */
@@ -51,33 +73,61 @@ export async function ensureStorageDirectories(): Promise<void> {
  * Get all library manifests
  */
 export async function getAllLibraries(): Promise<LibraryManifest[]> {
-  const config = getStorageConfig();
-  const manifestsPath = config.manifestsPath;
+  const backend = getStorageBackend();
+  if (backend) {
+    const index = await readIndexOrEmpty(backend);
+    const components = Object.values(index.components);
+
+    return Object.values(index.libraries).map((library) => ({
+      library: toRiveLibrary(
+        library,
+        components.filter((component) => component.libraryId === library.id)
+      ),
+      storagePath: libraryManifestPath(library.id),
+    }));
+  }
 
-  try {
-    await ensureStorageDirectories();
-    const entries = await fs.readdir(manifestsPath, { withFileTypes: true });
-    const libraryManifests: LibraryManifest[] = [];
+  return readLegacyLibraries();
+}
 
-    for (const entry of entries) {
-      if (entry.isFile() && entry.name.endsWith('.library.json')) {
-        const manifestPath = path.join(manifestsPath, entry.name);
-        const content = await fs.readFile(manifestPath, 'utf-8');
-        const library: RiveLibrary = JSON.parse(content);
-        libraryManifests.push({
-          library,
-          storagePath: manifestPath,
-        });
+/**
+ * Copy the legacy `*.library.json` catalog into the storage backend on first start
+ * Nothing is imported once the backend's index lists any library or component.
+ * Assets found under ASSETS_PATH are stored in the backend too; other paths are kept as they are.
+ * Returns the IDs of the imported libraries.
+ */
+export async function importLegacyLibraries(): Promise<string[]> {
+  const backend = getStorageBackend();
+  if (!backend) {
+    return [];
+  }
+
+  const index = await readIndexOrEmpty(backend, false);
+  if (Object.keys(index.libraries).length > 0 || Object.keys(index.components).length > 0) {
+    return [];
+  }
+
+  const imported: string[] = [];
+  for (const { library } of await readLegacyLibraries()) {
+    for (const component of library.components) {
+      const legacyPath = component.filePath && path.isAbsolute(component.filePath)
+        ? component.filePath
+        : getAssetPath(component.id);
+
+      try {
+        component.filePath = await writeComponentAsset(component.id, await fs.readFile(legacyPath));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
       }
     }
 
-    return libraryManifests;
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      return [];
-    }
-    throw error;
+    await saveLibraryToBackend(backend, library);
+    imported.push(library.id);
   }
+
+  return imported;
 }
 
 /**
@@ -92,6 +142,11 @@ export async function getLibraryById(libraryId: string): Promise<LibraryManifest
  * Save a library manifest
  */
 export async function saveLibrary(library: RiveLibrary): Promise<LibraryManifest> {
+  const backend = getStorageBackend();
+  if (backend) {
+    return saveLibraryToBackend(backend, library);
+  }
+
   const config = getStorageConfig();
   await ensureStorageDirectories();
 
@@ -144,12 +199,120 @@ export async function getAllComponents(): Promise<ComponentManifest[]> {
 
 /**
  * Get a specific component by ID
+ * With a version, the component is read from that published snapshot instead
  */
-export async function getComponentById(componentId: string): Promise<ComponentManifest | null> {
+export async function getComponentById(componentId: string, version?: string): Promise<ComponentManifest | null> {
+  if (version) {
+    const manifest = await readComponentVersion(componentId, version);
+    if (!manifest) {
+      return null;
+    }
+
+    const component = toRiveComponent(manifest);
+    const libraryManifest = await getLibraryById(manifest.libraryId);
+    return {
+      component,
+      // The library may have moved on or been removed since the version was published
+      library: libraryManifest?.library || {
+        id: manifest.libraryId,
+        name: manifest.libraryId,
+        version: manifest.version,
+        createdAt: manifest.createdAt,
+        updatedAt: manifest.updatedAt,
+        components: [component],
+      },
+      storagePath: manifest.storagePath,
+    };
+  }
+
   const allComponents = await getAllComponents();
   return allComponents.find((comp) => comp.component.id === componentId) || null;
 }
 
+/**
+ * Get the stored manifest (the recorded runtime contract) for a component
+ * Without a backend it is derived from the legacy library file, as saveLibrary would write it
+ */
+export async function getComponentManifest(componentId: string, version?: string): Promise<RiveComponentManifest | null> {
+  if (version) {
+    return readComponentVersion(componentId, version);
+  }
+
+  const backend = getStorageBackend();
+  if (backend) {
+    const index = await readIndexOrEmpty(backend);
+    return index.components[componentId] || null;
+  }
+
+  const componentManifest = await getComponentById(componentId);
+  if (!componentManifest) {
+    return null;
+  }
+
+  return toComponentManifest(componentManifest.component, componentManifest.library, undefined);
+}
+
+/**
+ * Publish the component's current manifest and .riv as an immutable version
+ * The version is the one recorded in the manifest.
+ */
+export async function publishComponentVersion(componentId: string, asset: Buffer): Promise<ComponentVersionInfo> {
+  const backend = requireVersionedBackend();
+  const manifest = await getComponentManifest(componentId);
+  if (!manifest) {
+    throw new Error(`Component with ID '${componentId}' not found`);
+  }
+  return backend.publishComponentVersion(manifest, asset);
+}
+
+/**
+ * Throw unless the version can still be published: semver, and not published before
+ */
+export async function assertVersionPublishable(componentId: string, version: string): Promise<void> {
+  if (!isSemver(version)) {
+    throw new ComponentVersionError(
+      'INVALID_VERSION',
+      componentId,
+      version,
+      `'${version}' is not a semantic version (major.minor.patch)`
+    );
+  }
+
+  const history = await listComponentVersions(componentId);
+  if (history.versions.some((published) => published.version === version)) {
+    throw new ComponentVersionError(
+      'VERSION_EXISTS',
+      componentId,
+      version,
+      `Version ${version} of ${componentId} is already published; publish a new version instead`
+    );
+  }
+}
+
+/**
+ * Published versions of a component, newest first
+ */
+export async function listComponentVersions(componentId: string): Promise<ComponentVersionHistory> {
+  return requireVersionedBackend().listComponentVersions(componentId);
+}
+
+/**
+ * Mark a published version latest, restoring the component to that snapshot
+ * A component removed from its library since is listed in it again, in the same index update.
+ */
+export async function markLatestComponentVersion(componentId: string, version: string): Promise<RiveComponentManifest> {
+  const backend = requireVersionedBackend();
+  const manifest = await backend.markLatestVersion(componentId, version);
+
+  const libraryManifest = await getLibraryById(manifest.libraryId);
+  const restored = libraryManifest && (await addComponentToBackend(backend, libraryManifest.library, toRiveComponent(manifest)));
+  if (!restored) {
+    // Without its library the component is still indexed on its own
+    await backend.writeComponentManifest(manifest, { updateIndex: true });
+  }
+  return manifest;
+}
+
 /**
  * Add a component to a library
  */
@@ -162,6 +325,11 @@ export async function addComponentToLibrary(
     return null;
   }
 
+  const backend = getStorageBackend();
+  if (backend) {
+    return addComponentToBackend(backend, libraryManifest.library, component);
+  }
+
   const { library } = libraryManifest;
 
   // Check if component already exists
@@ -193,6 +361,11 @@ export async function removeComponentFromLibrary(
   libraryId: string,
   componentId: string
 ): Promise<boolean> {
+  const backend = getStorageBackend();
+  if (backend) {
+    return removeComponentFromBackend(backend, libraryId, componentId);
+  }
+
   const libraryManifest = await getLibraryById(libraryId);
   if (!libraryManifest) {
     return false;
@@ -243,6 +416,62 @@ export async function searchComponents(query: {
   return components;
 }
 
+/**
+ * Read the .riv asset for a component
+ * Absolute paths are read from disk; anything else is an asset key in the storage backend
+ */
+export async function readComponentAsset(component: RiveComponent): Promise<Buffer> {
+  const assetPath = component.filePath || getAssetKey(component.id);
+  const backend = getStorageBackend();
+
+  if (backend && !path.isAbsolute(assetPath)) {
+    return backend.readAsset(assetPath);
+  }
+
+  return fs.readFile(path.isAbsolute(assetPath) ? assetPath : getAssetPath(component.id));
+}
+
+/**
+ * Size and modification time of the .riv asset for a component, resolved like readComponentAsset
+ */
+export async function statComponentAsset(component: RiveComponent): Promise<{ size: number; lastModified: Date }> {
+  const assetPath = component.filePath || getAssetKey(component.id);
+  const backend = getStorageBackend();
+
+  if (backend && !path.isAbsolute(assetPath)) {
+    const { size, lastModified } = await backend.getMetadata(assetPath);
+    return { size, lastModified };
+  }
+
+  const stats = await fs.stat(path.isAbsolute(assetPath) ? assetPath : getAssetPath(component.id));
+  return { size: stats.size, lastModified: stats.mtime };
+}
+
+/**
+ * Store the .riv asset for a component
+ * Returns the path to record as the component's filePath; with content-addressed
+ * assets that is the shared `sha256/<hash>.riv` blob rather than `<componentId>.riv`
+ */
+export async function writeComponentAsset(componentId: string, data: Buffer): Promise<string> {
+  const backend = getStorageBackend();
+
+  if (backend) {
+    return backend.storeAsset(getAssetKey(componentId), data);
+  }
+
+  await ensureStorageDirectories();
+  const assetPath = getAssetPath(componentId);
+  await fs.writeFile(assetPath, data);
+  return assetPath;
+}
+
+/**
+ * Get the storage backend key for a component asset
+ */
+export function getAssetKey(componentId: string): string {
+  return `${componentId}.riv`;
+}
+
 /**
  * Get asset file path for a component
  */
@@ -251,15 +480,360 @@ export function getAssetPath(componentId: string): string {
   return path.join(config.assetsPath, `${componentId}.riv`);
 }
 
+/**
+ * Store a rendered preview image next to the component asset
+ * Returns the key or path to record as the thumbnail or preview URL
+ */
+export async function writeComponentPreview(componentId: string, name: string, data: Buffer): Promise<string> {
+  const backend = getStorageBackend();
+  const previewKey = getPreviewKey(componentId, name);
+
+  if (backend) {
+    await backend.writeAsset(previewKey, data);
+    return previewKey;
+  }
+
+  await ensureStorageDirectories();
+  const previewPath = path.join(getStorageConfig().assetsPath, previewKey);
+  await fs.writeFile(previewPath, data);
+  return previewPath;
+}
+
+/**
+ * Get the storage backend key for a rendered preview, e.g. `button.thumbnail.png`
+ */
+export function getPreviewKey(componentId: string, name: string): string {
+  return `${componentId}.${name}.png`;
+}
+
 /**
  * Check if asset file exists for a component
+ * Pass the component's filePath when it may not be the default `<componentId>.riv` key
  */
-export async function assetExists(componentId: string): Promise<boolean> {
-  const assetPath = getAssetPath(componentId);
+export async function assetExists(componentId: string, filePath?: string): Promise<boolean> {
+  if (filePath && path.isAbsolute(filePath)) {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  return storedAssetExists(filePath || getAssetKey(componentId));
+}
+
+/**
+ * Check if an asset key resolves, through the backend's assets prefix or base URL,
+ * or under the assets directory when no backend is configured
+ */
+export async function storedAssetExists(assetKey: string): Promise<boolean> {
+  const backend = getStorageBackend();
+  if (backend) {
+    return backend.exists(assetKey);
+  }
+
   try {
-    await fs.access(assetPath);
+    await fs.access(path.join(getStorageConfig().assetsPath, assetKey));
     return true;
   } catch {
     return false;
   }
 }
+
+/**
+ * The `*.library.json` files under MANIFESTS_PATH
+ */
+async function readLegacyLibraries(): Promise<LibraryManifest[]> {
+  const manifestsPath = getStorageConfig().manifestsPath;
+
+  try {
+    await ensureStorageDirectories();
+    const entries = await fs.readdir(manifestsPath, { withFileTypes: true });
+    const libraryManifests: LibraryManifest[] = [];
+
+    for (const entry of entries) {
+      if (entry.isFile() && entry.name.endsWith('.library.json')) {
+        const manifestPath = path.join(manifestsPath, entry.name);
+        const content = await fs.readFile(manifestPath, 'utf-8');
+        const library: RiveLibrary = JSON.parse(content);
+        libraryManifests.push({
+          library,
+          storagePath: manifestPath,
+        });
+      }
+    }
+
+    return libraryManifests;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function componentManifestPath(componentId: string): string {
+  return `components/${componentId}/manifest.json`;
+}
+
+function libraryManifestPath(libraryId: string): string {
+  return `libraries/${libraryId}/manifest.json`;
+}
+
+function requireVersionedBackend(): IStorageBackend {
+  const backend = getStorageBackend();
+  if (!backend) {
+    throw new Error('Component versions require a configured storage backend');
+  }
+  return backend;
+}
+
+/**
+ * A published version's manifest, or null when that version has not been published
+ */
+async function readComponentVersion(componentId: string, version: string): Promise<RiveComponentManifest | null> {
+  try {
+    return await requireVersionedBackend().readComponentVersion(componentId, version);
+  } catch (error) {
+    if (isComponentVersionError(error) && error.code === 'VERSION_NOT_FOUND') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readIndexOrEmpty(backend: IStorageBackend, useCache = true): Promise<ManifestIndex> {
+  try {
+    return await backend.readIndex({ useCache });
+  } catch (error) {
+    if (!(await backend.exists('index.json'))) {
+      return {
+        libraries: {},
+        components: {},
+        version: '1.0.0',
+        lastUpdated: new Date().toISOString(),
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write the library and its components, then update the index in a single compare-and-swap.
+ * Components already in the library stay in it; only removeComponentFromLibrary drops one,
+ * since a list read before the update may miss components added concurrently.
+ */
+async function saveLibraryToBackend(backend: IStorageBackend, library: RiveLibrary): Promise<LibraryManifest> {
+  const backendType = backend.getBackendType();
+  const manifests = library.components.map((component) => toComponentManifest(component, library, backendType));
+
+  for (const manifest of manifests) {
+    await backend.writeComponentManifest(manifest);
+  }
+
+  let libraryManifest = toLibraryManifest(library, backendType);
+  await backend.updateIndex((index) => {
+    for (const manifest of manifests) {
+      index.components[manifest.id] = manifest;
+    }
+
+    const kept = (index.libraries[library.id]?.components || []).filter(
+      (componentId) => index.components[componentId]?.libraryId === library.id
+    );
+    libraryManifest = {
+      ...toLibraryManifest(library, backendType),
+      components: Array.from(new Set([...kept, ...manifests.map((manifest) => manifest.id)])),
+    };
+    index.libraries[library.id] = libraryManifest;
+  });
+  await backend.writeLibraryManifest(libraryManifest);
+
+  return {
+    library,
+    storagePath: libraryManifestPath(library.id),
+  };
+}
+
+/**
+ * Add or replace one component, applied to the latest index so concurrent additions are kept
+ * Returns null when the library is gone by the time the index is updated.
+ */
+async function addComponentToBackend(
+  backend: IStorageBackend,
+  library: RiveLibrary,
+  component: RiveComponent
+): Promise<ComponentManifest | null> {
+  const manifest = toComponentManifest(component, library, backend.getBackendType());
+  await backend.writeComponentManifest(manifest);
+
+  let libraryManifest: RiveLibraryManifest | undefined;
+  const index = await backend.updateIndex((index) => {
+    libraryManifest = index.libraries[library.id];
+    if (!libraryManifest) {
+      return;
+    }
+
+    index.components[manifest.id] = manifest;
+    if (!libraryManifest.components.includes(manifest.id)) {
+      libraryManifest.components.push(manifest.id);
+    }
+    libraryManifest.updatedAt = new Date().toISOString();
+  });
+
+  if (!libraryManifest) {
+    await backend.delete(componentManifestPath(manifest.id));
+    return null;
+  }
+  await backend.writeLibraryManifest(libraryManifest);
+
+  const updated = toRiveLibrary(
+    libraryManifest,
+    Object.values(index.components).filter((candidate) => candidate.libraryId === library.id)
+  );
+  return {
+    component,
+    library: updated,
+    storagePath: component.filePath,
+  };
+}
+
+/**
+ * Remove one component from the library and the index, then delete its manifest
+ */
+async function removeComponentFromBackend(
+  backend: IStorageBackend,
+  libraryId: string,
+  componentId: string
+): Promise<boolean> {
+  let libraryManifest: RiveLibraryManifest | undefined;
+  await backend.updateIndex((index) => {
+    libraryManifest = undefined;
+    const library = index.libraries[libraryId];
+    if (!library || index.components[componentId]?.libraryId !== libraryId) {
+      return;
+    }
+
+    delete index.components[componentId];
+    library.components = library.components.filter((id) => id !== componentId);
+    library.updatedAt = new Date().toISOString();
+    libraryManifest = library;
+  });
+
+  if (!libraryManifest) {
+    return false;
+  }
+  await backend.delete(componentManifestPath(componentId));
+  await backend.writeLibraryManifest(libraryManifest);
+  return true;
+}
+
+function toRiveLibrary(manifest: RiveLibraryManifest, components: RiveComponentManifest[]): RiveLibrary {
+  return {
+    id: manifest.id,
+    name: manifest.name,
+    version: manifest.version,
+    description: manifest.description,
+    createdAt: manifest.createdAt,
+    updatedAt: manifest.updatedAt,
+    components: components.map(toRiveComponent),
+    tags: manifest.tags,
+    metadata: {
+      author: manifest.author,
+      license: manifest.license,
+      storageBackend: manifest.storageBackend,
+    },
+  };
+}
+
+function toRiveComponent(manifest: RiveComponentManifest): RiveComponent {
+  return {
+    id: manifest.id,
+    libraryId: manifest.libraryId,
+    name: manifest.name,
+    description: manifest.description,
+    filePath: manifest.riveFile,
+    artboardName: manifest.artboards?.[0],
+    stateMachineName: manifest.stateMachines?.[0]?.name,
+    createdAt: manifest.createdAt,
+    updatedAt: manifest.updatedAt,
+    tags: manifest.tags,
+    metadata: {
+      version: manifest.version,
+      category: manifest.category,
+      author: manifest.author,
+      thumbnailUrl: manifest.thumbnailUrl,
+      previewUrl: manifest.previewUrl,
+      artboards: manifest.artboards,
+      stateMachines: manifest.stateMachines,
+      dataBindings: manifest.dataBindings,
+      recommendedFrameworks: manifest.recommendedFrameworks,
+      runtimeVersion: manifest.runtimeVersion,
+      storageBackend: manifest.storageBackend,
+    },
+  };
+}
+
+function toComponentManifest(
+  component: RiveComponent,
+  library: RiveLibrary,
+  backendType: RiveComponentManifest['storageBackend']
+): RiveComponentManifest {
+  const metadata = component.metadata || {};
+  const surface: RiveRuntimeSurface | undefined = metadata.runtimeSurface;
+
+  return {
+    id: component.id,
+    name: component.name,
+    description: component.description,
+    version: metadata.version || library.version,
+    libraryId: library.id,
+    riveFile: component.filePath,
+    thumbnailUrl: metadata.thumbnailUrl,
+    previewUrl: metadata.previewUrl,
+    tags: component.tags,
+    category: metadata.category,
+    author: metadata.author,
+    createdAt: component.createdAt,
+    updatedAt: component.updatedAt,
+    stateMachines:
+      metadata.stateMachines ||
+      (surface?.stateMachines || []).map((stateMachine) => ({
+        name: stateMachine.name,
+        inputs: stateMachine.inputs.map((input) => ({
+          name: input.name,
+          type: input.type,
+          defaultValue: input.defaultValue,
+        })),
+        events: (stateMachine.events || []).map((event) => ({
+          name: event.name,
+          eventType: event.type,
+        })),
+      })),
+    artboards: metadata.artboards || surface?.artboards.map((artboard) => artboard.name),
+    dataBindings: metadata.dataBindings,
+    recommendedFrameworks: metadata.recommendedFrameworks,
+    runtimeVersion: metadata.runtimeVersion || surface?.metadata.runtimeVersion,
+    storageBackend: backendType,
+    storagePath: componentManifestPath(component.id),
+  };
+}
+
+function toLibraryManifest(
+  library: RiveLibrary,
+  backendType: RiveLibraryManifest['storageBackend']
+): RiveLibraryManifest {
+  return {
+    id: library.id,
+    name: library.name,
+    description: library.description,
+    version: library.version,
+    components: library.components.map((component) => component.id),
+    tags: library.tags,
+    author: library.metadata?.author,
+    license: library.metadata?.license,
+    createdAt: library.createdAt,
+    updatedAt: library.updatedAt,
+    storageBackend: backendType,
+    storagePath: libraryManifestPath(library.id),
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Integration Tests for the check_component_assets MCP Tool
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+// Parse with the static reader so the test does not depend on node-canvas
+jest.mock('canvas', () => {
+  throw new Error('canvas native module missing');
+}, { virtual: true });
+
+import { storageManager } from '../../src/storage';
+import { getStorageBackend, saveLibrary, writeComponentAsset } from '../../src/utils/storage';
+import { parseCache } from '../../src/utils/parseCache';
+import { checkComponentAssets } from '../../src/tools/checkComponentAssets';
+import { encodeRiv } from './fixtures/encodeRiv';
+
+const FONT_UUID = Uint8Array.from({ length: 16 }, (_, i) => i);
+
+const profileCard = encodeRiv([
+  [23, {}],
+  [105, { 203: ['string', 'hero.png'], 204: ['uint', 1] }],
+  [106, { 212: ['bytes', Uint8Array.from([1, 2, 3])] }],
+  [141, { 203: ['string', 'Inter'], 204: ['uint', 2], 359: ['bytes', FONT_UUID] }],
+  [105, { 203: ['string', 'avatar.webp'], 204: ['uint', 3] }],
+  [406, { 203: ['string', 'click.wav'], 204: ['uint', 4] }],
+  [1, { 4: ['string', 'Card'], 7: ['double', 320], 8: ['double', 200] }],
+]);
+
+describe('check_component_assets MCP Tool', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-assets-test-'));
+    await storageManager.initialize({
+      storage: { backend: 'local', local: { basePath: tmpDir, assetsPath: 'cdn' } },
+    });
+
+    const now = new Date().toISOString();
+    const filePath = await writeComponentAsset('profile-card', profileCard);
+    await saveLibrary({
+      id: 'profile',
+      name: 'Profile',
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      components: [{ id: 'profile-card', libraryId: 'profile', name: 'Profile Card', filePath, createdAt: now, updatedAt: now }],
+    });
+
+    // The font is mirrored by CDN id and the sound under its runtime file name; the avatar is not published
+    const backend = getStorageBackend()!;
+    await backend.writeAsset('00010203-0405-0607-0809-0a0b0c0d0e0f', Buffer.from('font'));
+    await backend.writeAsset('click-4.wav', Buffer.from('audio'));
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    parseCache.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should inventory embedded and referenced assets and resolve them through the assets prefix', async () => {
+    const result = await checkComponentAssets({ componentId: 'profile-card' });
+
+    expect(result.status).toBe('success');
+    const report = result.data!;
+
+    expect(report.storage).toBe('local');
+    expect(report.assets).toEqual([
+      {
+        type: 'image',
+        name: 'hero.png',
+        assetId: 1,
+        embedded: true,
+        size: 3,
+        hash: '039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81',
+        status: 'embedded',
+      },
+      {
+        type: 'font',
+        name: 'Inter',
+        assetId: 2,
+        embedded: false,
+        cdnUuid: '00010203-0405-0607-0809-0a0b0c0d0e0f',
+        status: 'resolved',
+        key: '00010203-0405-0607-0809-0a0b0c0d0e0f',
+        candidates: ['00010203-0405-0607-0809-0a0b0c0d0e0f', 'Inter-2.ttf'],
+      },
+      {
+        type: 'image',
+        name: 'avatar.webp',
+        assetId: 3,
+        embedded: false,
+        status: 'missing',
+        candidates: ['avatar-3.png'],
+      },
+      {
+        type: 'audio',
+        name: 'click.wav',
+        assetId: 4,
+        embedded: false,
+        status: 'resolved',
+        key: 'click-4.wav',
+        candidates: ['click-4.wav'],
+      },
+    ]);
+    expect(report.summary).toEqual({ embedded: 1, referenced: 3, resolved: 2, missing: 1 });
+    expect(report.resolvable).toBe(false);
+  });
+
+  it('should report unknown components', async () => {
+    const result = await checkComponentAssets({ componentId: 'missing-card' });
+
+    expect(result.status).toBe('error');
+    expect(result.error!.code).toBe('COMPONENT_NOT_FOUND');
+  });
+});
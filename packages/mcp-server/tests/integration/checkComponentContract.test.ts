@@ -0,0 +1,214 @@
+/**
+ * Integration Tests for the check_component_contract MCP Tool
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { RiveRuntimeSurface } from '../../src/types';
+import { RiveComponentManifest } from '../../../../libs/types';
+
+const liveSurface: RiveRuntimeSurface = {
+  componentId: 'slot-machine',
+  artboards: [{ name: 'Machine', width: 800, height: 600 }],
+  stateMachines: [
+    {
+      name: 'SlotMachine',
+      inputs: [
+        { name: 'spin', type: 'trigger' },
+        { name: 'bet', type: 'bool' },
+        { name: 'turbo', type: 'bool' },
+      ],
+      layerCount: 1,
+      events: [{ name: 'SpinStarted' }],
+    },
+    { name: 'Lights', inputs: [], layerCount: 1 },
+  ],
+  events: [{ name: 'SpinStarted' }],
+  metadata: { fileSize: 4, parseDate: '2024-01-01T00:00:00.000Z' },
+};
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async () => liveSurface),
+}));
+
+import { setStorageConfig, saveLibrary, getComponentManifest } from '../../src/utils/storage';
+import { checkComponentContract } from '../../src/tools/checkComponentContract';
+import { diffComponentContract, suggestVersionBump } from '../../src/utils/componentContract';
+
+describe('check_component_contract MCP Tool', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-contract-test-'));
+    setStorageConfig({ manifestsPath: path.join(tmpDir, 'manifests'), assetsPath: path.join(tmpDir, 'assets') });
+
+    const filePath = path.join(tmpDir, 'slot-machine.riv');
+    await fs.writeFile(filePath, Buffer.from('RIVE'));
+
+    const now = new Date().toISOString();
+    await saveLibrary({
+      id: 'casino',
+      name: 'Casino',
+      version: '1.4.2',
+      createdAt: now,
+      updatedAt: now,
+      components: [
+        {
+          id: 'slot-machine',
+          libraryId: 'casino',
+          name: 'Slot Machine',
+          filePath,
+          createdAt: now,
+          updatedAt: now,
+          metadata: {
+            artboards: ['Machine', 'Paytable'],
+            stateMachines: [
+              {
+                name: 'SlotMachine',
+                inputs: [
+                  { name: 'spin', type: 'trigger' },
+                  { name: 'bet', type: 'number' },
+                  { name: 'autoplay', type: 'bool' },
+                ],
+                events: [{ name: 'SpinStarted' }, { name: 'WinSequenceComplete' }],
+              },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should classify breaking and additive changes', async () => {
+    const result = await checkComponentContract({ componentId: 'slot-machine' });
+
+    expect(result.status).toBe('success');
+    const report = result.data!;
+    expect(report.compatible).toBe(false);
+    expect(report.summary).toEqual({ breaking: 4, additive: 2 });
+
+    const byPath = Object.fromEntries(report.changes.map((change) => [change.path, change]));
+    expect(byPath['artboards.Paytable']).toMatchObject({ kind: 'breaking', type: 'artboard_removed' });
+    expect(byPath['stateMachines.SlotMachine.inputs.bet']).toMatchObject({
+      kind: 'breaking',
+      type: 'input_retyped',
+      expected: 'number',
+      actual: 'bool',
+    });
+    expect(byPath['stateMachines.SlotMachine.inputs.autoplay']).toMatchObject({ kind: 'breaking', type: 'input_removed' });
+    expect(byPath['stateMachines.SlotMachine.events.WinSequenceComplete']).toMatchObject({ kind: 'breaking', type: 'event_removed' });
+    expect(byPath['stateMachines.SlotMachine.inputs.turbo']).toMatchObject({ kind: 'additive', type: 'input_added' });
+    expect(byPath['stateMachines.Lights']).toMatchObject({ kind: 'additive', type: 'state_machine_added' });
+  });
+
+  it('should record events per state machine and report the removed ones', async () => {
+    const now = new Date().toISOString();
+    await saveLibrary({
+      id: 'arcade',
+      name: 'Arcade',
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      components: [
+        {
+          id: 'jackpot',
+          libraryId: 'arcade',
+          name: 'Jackpot',
+          filePath: path.join(tmpDir, 'slot-machine.riv'),
+          createdAt: now,
+          updatedAt: now,
+          metadata: {
+            runtimeSurface: {
+              ...liveSurface,
+              stateMachines: [
+                { ...liveSurface.stateMachines[0], events: [{ name: 'SpinStarted' }, { name: 'JackpotHit', type: 'general' }] },
+                liveSurface.stateMachines[1],
+              ],
+            },
+          },
+        },
+      ],
+    });
+
+    const manifest = (await getComponentManifest('jackpot'))!;
+    expect(manifest.stateMachines[0].events).toEqual([{ name: 'SpinStarted' }, { name: 'JackpotHit', eventType: 'general' }]);
+    expect(manifest.stateMachines[1].events).toEqual([]);
+
+    const result = await checkComponentContract({ componentId: 'jackpot' });
+
+    expect(result.data!.summary).toEqual({ breaking: 1, additive: 0 });
+    expect(result.data!.changes).toEqual([
+      {
+        kind: 'breaking',
+        type: 'event_removed',
+        path: 'stateMachines.SlotMachine.events.JackpotHit',
+        message: "Event 'JackpotHit' was removed from 'SlotMachine'",
+      },
+    ]);
+  });
+
+  it('should compare events within each state machine', () => {
+    const manifest = {
+      id: 'lights',
+      version: '1.0.0',
+      stateMachines: [
+        { name: 'SlotMachine', inputs: [], events: [{ name: 'SpinStarted' }] },
+        { name: 'Lights', inputs: [], events: [] },
+      ],
+    } as unknown as RiveComponentManifest;
+    const surface: RiveRuntimeSurface = {
+      ...liveSurface,
+      artboards: [],
+      stateMachines: [
+        { name: 'SlotMachine', inputs: [], layerCount: 1 },
+        { name: 'Lights', inputs: [], layerCount: 1, events: [{ name: 'SpinStarted' }] },
+      ],
+    };
+
+    const types = diffComponentContract(manifest, surface).changes.map((change) => `${change.type} ${change.path}`);
+
+    expect(types).toEqual([
+      'event_removed stateMachines.SlotMachine.events.SpinStarted',
+      'event_added stateMachines.Lights.events.SpinStarted',
+    ]);
+  });
+
+  it('should suggest a major bump for breaking changes', async () => {
+    const result = await checkComponentContract({ componentId: 'slot-machine' });
+
+    expect(result.data!.versionSuggestion).toEqual({ current: '1.4.2', suggested: '2.0.0', bump: 'major' });
+  });
+
+  it('should omit the suggestion when not requested', async () => {
+    const result = await checkComponentContract({ componentId: 'slot-machine', suggestVersion: false });
+
+    expect(result.data!.versionSuggestion).toBeUndefined();
+  });
+
+  it('should suggest minor bumps for additive-only reports', () => {
+    const base = { componentId: 'x', manifestVersion: '1.4.2', compatible: true, changes: [] };
+
+    expect(suggestVersionBump({ ...base, summary: { breaking: 0, additive: 1 } })).toMatchObject({
+      suggested: '1.5.0',
+      bump: 'minor',
+    });
+    expect(suggestVersionBump({ ...base, summary: { breaking: 0, additive: 0 } })).toMatchObject({
+      suggested: '1.4.2',
+      bump: 'none',
+    });
+  });
+
+  it('should return an error for unknown components', async () => {
+    const result = await checkComponentContract({ componentId: 'missing' });
+
+    expect(result.status).toBe('error');
+    expect(result.error!.code).toBe('COMPONENT_NOT_FOUND');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Integration Tests for component version history
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { RiveRuntimeSurface } from '../../src/types';
+
+// The artboard name follows the file contents so each version parses differently
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => ({
+    componentId,
+    artboards: [{ name: buffer.toString(), width: 100, height: 100 }],
+    stateMachines: [],
+    events: [],
+    metadata: {
+      fileSize: buffer.length,
+      parseDate: new Date().toISOString(),
+    },
+  })),
+  extractRiveMetadata: jest.fn(() => ({})),
+}));
+
+import { storageManager, LocalStorage } from '../../src/storage';
+import { RiveComponentManifest } from '../../../../libs/types';
+import { importRiveFile } from '../../src/tools/importRiveFile';
+import { getRuntimeSurface } from '../../src/tools/getRuntimeSurface';
+import { getComponentDetail } from '../../src/tools/getComponentDetail';
+import { listVersions, setLatestVersion } from '../../src/tools/componentVersions';
+import { listComponents } from '../../src/tools/listComponents';
+import { removeComponentFromLibrary, getStorageBackend } from '../../src/utils/storage';
+
+describe('Component versions', () => {
+  let tmpDir: string;
+
+  async function importVersion(content: string, version?: string) {
+    const sourcePath = path.join(tmpDir, 'Toggle.riv');
+    await fs.writeFile(sourcePath, content);
+    return importRiveFile({ filePath: sourcePath, libraryId: 'ui', version });
+  }
+
+  async function artboardOf(version?: string): Promise<string | undefined> {
+    const result = await getRuntimeSurface({ componentId: 'toggle', version });
+    return result.data?.artboards[0].name;
+  }
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-versions-test-'));
+    await storageManager.initialize({
+      storage: { backend: 'local', local: { basePath: path.join(tmpDir, 'data') } },
+    });
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should publish imports as immutable snapshots', async () => {
+    const first = await importVersion('RIVE-1.0.0', '1.0.0');
+    expect(first.status).toBe('success');
+    expect(first.data!.version).toMatchObject({
+      version: '1.0.0',
+      riveFile: 'components/toggle/versions/1.0.0/toggle.riv',
+      size: 10,
+    });
+
+    expect((await importVersion('RIVE-1.10.0', '1.10.0')).status).toBe('success');
+    expect((await importVersion('RIVE-1.2.0', '1.2.0')).status).toBe('success');
+
+    const duplicate = await importVersion('RIVE-other', '1.2.0');
+    expect(duplicate.error?.code).toBe('VERSION_EXISTS');
+    const invalid = await importVersion('RIVE-other', 'v2');
+    expect(invalid.error?.code).toBe('INVALID_VERSION');
+
+    // Rejected imports leave the current manifest alone
+    expect(await artboardOf()).toBe('RIVE-1.2.0');
+  });
+
+  it('should release the version when its asset fails to store', async () => {
+    const storage = new LocalStorage({ basePath: path.join(tmpDir, 'retry') });
+    await storage.initialize();
+    const manifest = {
+      id: 'slider',
+      name: 'Slider',
+      version: '1.0.0',
+      libraryId: 'ui',
+      stateMachines: [],
+    } as unknown as RiveComponentManifest;
+    jest.spyOn(storage, 'writeAsset').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(storage.publishComponentVersion(manifest, Buffer.from('RIVE'))).rejects.toThrow('disk full');
+    expect((await storage.listComponentVersions('slider')).versions).toEqual([]);
+
+    const retried = await storage.publishComponentVersion(manifest, Buffer.from('RIVE'));
+    expect(retried).toMatchObject({ version: '1.0.0', riveFile: 'components/slider/versions/1.0.0/slider.riv' });
+    expect((await storage.readAsset(retried.riveFile)).toString()).toBe('RIVE');
+  });
+
+  it('should list versions newest first by semver precedence', async () => {
+    const result = await listVersions({ componentId: 'toggle' });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.latest).toBe('1.2.0');
+    expect(result.data!.versions.map((info) => info.version)).toEqual(['1.10.0', '1.2.0', '1.0.0']);
+
+    expect((await listVersions({ componentId: 'missing' })).error?.code).toBe('COMPONENT_NOT_FOUND');
+  });
+
+  it('should read a published version on request', async () => {
+    expect(await artboardOf('1.0.0')).toBe('RIVE-1.0.0');
+    expect(await artboardOf('latest')).toBe('RIVE-1.2.0');
+
+    const detail = await getComponentDetail({ id: 'toggle', version: '1.10.0' });
+    expect(detail.data?.metadata?.version).toBe('1.10.0');
+
+    const missing = await getRuntimeSurface({ componentId: 'toggle', version: '9.9.9' });
+    expect(missing.error?.code).toBe('VERSION_NOT_FOUND');
+    const traversal = await getRuntimeSurface({ componentId: 'toggle', version: '../../index.json' });
+    expect(traversal.error?.message).toContain('is not a semantic version');
+  });
+
+  it('should roll the component back to the version marked latest', async () => {
+    const result = await setLatestVersion({ componentId: 'toggle', version: '1.0.0' });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.riveFile).toBe('components/toggle/versions/1.0.0/toggle.riv');
+    expect(await artboardOf()).toBe('RIVE-1.0.0');
+    expect((await listVersions({ componentId: 'toggle' })).data!.latest).toBe('1.0.0');
+
+    expect((await setLatestVersion({ componentId: 'toggle', version: '3.0.0' })).error?.code).toBe('VERSION_NOT_FOUND');
+  });
+
+  it('should list a removed component in its library again when a version is marked latest', async () => {
+    expect(await removeComponentFromLibrary('ui', 'toggle')).toBe(true);
+    expect((await listComponents({ libraryId: 'ui' })).data).toEqual([]);
+
+    expect((await setLatestVersion({ componentId: 'toggle', version: '1.2.0' })).status).toBe('success');
+
+    expect((await listComponents({ libraryId: 'ui' })).data!.map((component) => component.id)).toEqual(['toggle']);
+    const index = await getStorageBackend()!.readIndex({ useCache: false });
+    expect(index.libraries.ui.components).toEqual(['toggle']);
+    expect(await artboardOf()).toBe('RIVE-1.2.0');
+  });
+});
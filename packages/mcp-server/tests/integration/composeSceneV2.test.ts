@@ -0,0 +1,125 @@
+/**
+ * Integration Tests for the compose_scene_v2 MCP Tool
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { setStorageConfig, saveLibrary } from '../../src/utils/storage';
+import { composeSceneEnhanced, EnhancedComposeSceneParams } from '../../src/tools/composeSceneEnhanced';
+
+describe('compose_scene_v2 MCP Tool', () => {
+  let tmpDir: string;
+
+  const baseScene = (): EnhancedComposeSceneParams => ({
+    id: 'jackpot-celebration',
+    name: 'Jackpot Celebration',
+    viewport: { width: 1280, height: 720 },
+    components: [
+      { name: 'slot', componentId: 'slot-machine', position: { x: 0, y: 0 }, zIndex: 1 },
+      { name: 'coins', componentId: 'coin-burst', position: { x: 640, y: 360 }, zIndex: 2 },
+    ],
+  });
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-scene-v2-test-'));
+    const manifestsDir = path.join(tmpDir, 'manifests');
+    setStorageConfig({ manifestsPath: manifestsDir, assetsPath: path.join(tmpDir, 'assets') });
+
+    const now = new Date().toISOString();
+    await saveLibrary({
+      id: 'casino',
+      name: 'Casino',
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      components: [
+        {
+          id: 'slot-machine',
+          libraryId: 'casino',
+          name: 'Slot Machine',
+          filePath: path.join(tmpDir, 'assets', 'slot-machine.riv'),
+          createdAt: now,
+          updatedAt: now,
+        },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return diagnostics and React code by default', async () => {
+    const result = await composeSceneEnhanced(baseScene());
+
+    expect(result.status).toBe('success');
+    expect(result.data!.scene.orchestrationType).toBe('static');
+    expect(result.data!.generated.files.map((f) => f.framework)).toEqual(['react']);
+    expect(result.data!.generated.files[0].code).toContain('JackpotCelebrationScene');
+
+    // coin-burst is not in the catalog
+    expect(result.data!.diagnostics.valid).toBe(true);
+    expect(result.data!.diagnostics.warnings).toContainEqual(
+      expect.objectContaining({ path: 'components[1].componentId', severity: 'warning' })
+    );
+  });
+
+  it('should compose hybrid scenes and generate every framework', async () => {
+    const result = await composeSceneEnhanced({
+      ...baseScene(),
+      timeline: {
+        duration: 3000,
+        tracks: [
+          {
+            componentName: 'slot',
+            keyframes: [{ time: 0, property: 'transform.opacity', value: 1 }],
+            triggers: [{ time: 500, eventName: 'spin' }],
+          },
+        ],
+      },
+      states: [
+        { name: 'idle', componentStates: [{ componentName: 'slot', inputs: { isSpinning: false } }] },
+        { name: 'win', componentStates: [{ componentName: 'coins', transform: { opacity: 1 } }] },
+      ],
+      transitions: [{ from: 'idle', to: 'win', duration: 300 }],
+      initialState: 'idle',
+      eventConnections: [
+        {
+          source: { componentName: 'slot', eventName: 'WinSequenceComplete' },
+          target: { componentName: 'coins', action: 'trigger', parameter: 'burst' },
+        },
+      ],
+      generate: { frameworks: ['react', 'vue', 'stencil', 'vanilla'] },
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.scene.orchestrationType).toBe('hybrid-timeline-state-machine-event-driven');
+    expect(result.data!.scene.capabilities).toMatchObject({
+      stateCount: 2,
+      transitionCount: 1,
+      eventConnectionCount: 1,
+    });
+    expect(result.data!.generated.files.map((f) => f.framework)).toEqual(['react', 'vue', 'stencil', 'vanilla']);
+    result.data!.generated.files.forEach((file) => expect(file.code.length).toBeGreaterThan(0));
+  });
+
+  it('should report validation errors as diagnostics', async () => {
+    const result = await composeSceneEnhanced({
+      ...baseScene(),
+      eventConnections: [
+        {
+          source: { componentName: 'missing', eventName: 'Done' },
+          target: { componentName: 'coins', action: 'trigger' },
+        },
+      ],
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.error!.code).toBe('SCENE_VALIDATION_FAILED');
+    expect(result.error!.details.diagnostics.errorCount).toBeGreaterThan(0);
+    expect(result.error!.details.diagnostics.errors[0].path).toContain('eventConnections');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Integration Tests for the content-addressed asset store
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { RiveRuntimeSurface } from '../../src/types';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => ({
+    componentId,
+    artboards: [{ name: 'Main', width: 100, height: 100 }],
+    stateMachines: [],
+    events: [],
+    metadata: {
+      fileSize: buffer.length,
+      parseDate: new Date().toISOString(),
+    },
+  })),
+}));
+
+import { storageManager } from '../../src/storage';
+import { getStorageBackend, removeComponentFromLibrary } from '../../src/utils/storage';
+import { importRiveFile } from '../../src/tools/importRiveFile';
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+describe('Content-addressed assets', () => {
+  let tmpDir: string;
+  let blobDir: string;
+
+  async function importAs(fileName: string, content: string, libraryId: string) {
+    const sourcePath = path.join(tmpDir, fileName);
+    await fs.writeFile(sourcePath, content);
+    const result = await importRiveFile({ filePath: sourcePath, libraryId });
+    expect(result.status).toBe('success');
+    return result.data!.component;
+  }
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(__dirname, 'fixtures', 'cas-'));
+    blobDir = path.join(tmpDir, 'data', 'assets', 'sha256');
+
+    await storageManager.initialize({
+      storage: {
+        backend: 'local',
+        local: { basePath: path.join(tmpDir, 'data') },
+        contentAddressedAssets: true,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should store identical files once and count the components using them', async () => {
+    const toggle = await importAs('Toggle.riv', 'RIVE-shared', 'ui');
+    const sw = await importAs('Switch.riv', 'RIVE-shared', 'forms');
+    const hash = sha256('RIVE-shared');
+
+    expect(toggle.filePath).toBe(`sha256/${hash}.riv`);
+    expect(sw.filePath).toBe(toggle.filePath);
+    await expect(fs.readdir(blobDir)).resolves.toEqual([`${hash}.riv`]);
+
+    const backend = getStorageBackend()!;
+    const index = await backend.readIndex({ useCache: false });
+    expect(index.components.toggle.assetHash).toBe(hash);
+    expect(index.assets![hash]).toMatchObject({ key: `sha256/${hash}.riv`, size: 11, refs: ['switch', 'toggle'] });
+    expect(index.assets![hash].unreferencedSince).toBeUndefined();
+  });
+
+  it('should give a changed file a new blob and leave the old one to its other users', async () => {
+    const toggle = await importAs('Toggle.riv', 'RIVE-toggle-v2', 'ui');
+
+    expect(toggle.filePath).toBe(`sha256/${sha256('RIVE-toggle-v2')}.riv`);
+    const index = await getStorageBackend()!.readIndex({ useCache: false });
+    expect(index.assets![sha256('RIVE-shared')].refs).toEqual(['switch']);
+    expect(index.assets![sha256('RIVE-toggle-v2')].refs).toEqual(['toggle']);
+  });
+
+  it('should collect blobs only once they have been unreferenced for the grace period', async () => {
+    const backend = getStorageBackend()!;
+    const shared = `sha256/${sha256('RIVE-shared')}.riv`;
+    expect(await removeComponentFromLibrary('forms', 'switch')).toBe(true);
+
+    expect(await backend.collectGarbage()).toEqual({ removed: [], referenced: 1, pending: [shared] });
+    expect(await backend.collectGarbage({ gracePeriodMs: 0, dryRun: true })).toEqual({
+      removed: [shared],
+      referenced: 1,
+      pending: [],
+    });
+    expect(await backend.exists(shared)).toBe(true);
+
+    expect(await backend.collectGarbage({ gracePeriodMs: 0 })).toEqual({ removed: [shared], referenced: 1, pending: [] });
+    expect(await backend.exists(shared)).toBe(false);
+    const index = await backend.readIndex({ useCache: false });
+    expect(Object.keys(index.assets!)).toEqual([sha256('RIVE-toggle-v2')]);
+  });
+
+  it('should not lose a blob stored again while it is being collected', async () => {
+    const backend = getStorageBackend()!;
+    const hash = sha256('RIVE-orphan');
+    const key = await backend.storeAsset('Orphan.riv', Buffer.from('RIVE-orphan'));
+
+    // The same content is stored between the collection's index update and its blob deletion
+    const deleteBlob = backend.delete.bind(backend);
+    let store: Promise<string> | undefined;
+    const spy = jest.spyOn(backend, 'delete').mockImplementationOnce(async (target, options) => {
+      store = backend.storeAsset('Orphan.riv', Buffer.from('RIVE-orphan'));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await deleteBlob(target, options);
+    });
+
+    try {
+      expect((await backend.collectGarbage({ gracePeriodMs: 0 })).removed).toEqual([key]);
+      expect(await store).toBe(key);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect((await backend.readAsset(key, { useCache: false })).toString()).toBe('RIVE-orphan');
+    const index = await backend.readIndex({ useCache: false });
+    expect(index.assets![hash]).toMatchObject({ key, refs: [] });
+    expect(index.assets![hash].deletingSince).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Minimal .riv encoder for building test files object by object
+ */
+
+export type RivField =
+  | ['uint', number]
+  | ['double', number]
+  | ['bool', boolean]
+  | ['string', string]
+  | ['bytes', Uint8Array];
+
+export type RivObject = [typeKey: number, properties: Record<number, RivField>];
+
+function varuint(value: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value >>>= 7;
+    if (value > 0) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (value > 0);
+  return bytes;
+}
+
+/**
+ * Encode a v7 .riv file with an empty table of contents
+ */
+export function encodeRiv(objects: RivObject[]): Buffer {
+  const bytes: number[] = [...Buffer.from('RIVE'), ...varuint(7), ...varuint(0), ...varuint(42), 0];
+
+  for (const [typeKey, properties] of objects) {
+    bytes.push(...varuint(typeKey));
+    for (const [key, [type, value]] of Object.entries(properties)) {
+      bytes.push(...varuint(Number(key)));
+      if (type === 'uint') {
+        bytes.push(...varuint(value as number));
+      } else if (type === 'bool') {
+        bytes.push(value ? 1 : 0);
+      } else if (type === 'double') {
+        const float = Buffer.alloc(4);
+        float.writeFloatLE(value as number);
+        bytes.push(...float);
+      } else {
+        const data = type === 'string' ? Buffer.from(value as string) : (value as Uint8Array);
+        bytes.push(...varuint(data.length), ...data);
+      }
+    }
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,104 @@
+/**
+ * Minimal REST file server for storage tests
+ * GET/HEAD/PUT/DELETE on any path, with strong ETags and If-Match / If-None-Match.
+ */
+
+import * as http from 'http';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  ifMatch?: string;
+  ifNoneMatch?: string;
+  status: number;
+}
+
+export interface RestStandIn {
+  url: string;
+  files: Map<string, Buffer>;
+  requests: RecordedRequest[];
+  etagOf(path: string): string | undefined;
+  close(): Promise<void>;
+}
+
+function etag(data: Buffer): string {
+  return `"${createHash('sha256').update(data).digest('hex').slice(0, 16)}"`;
+}
+
+export async function startRestStandIn(): Promise<RestStandIn> {
+  const files = new Map<string, Buffer>();
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const path = decodeURIComponent(new URL(req.url!, 'http://stand-in').pathname);
+      const current = files.get(path);
+      const currentEtag = current && etag(current);
+      const ifMatch = req.headers['if-match'];
+      const ifNoneMatch = req.headers['if-none-match'];
+
+      const reply = (status: number, body?: Buffer) => {
+        requests.push({ method: req.method!, path, ifMatch, ifNoneMatch, status });
+        if (currentEtag) {
+          res.setHeader('ETag', currentEtag);
+        }
+        res.statusCode = status;
+        res.end(req.method === 'GET' && status === 200 ? body : undefined);
+      };
+
+      if (req.method === 'GET' || req.method === 'HEAD') {
+        if (!current) {
+          return reply(404);
+        }
+        if (ifNoneMatch && ifNoneMatch === currentEtag) {
+          return reply(304);
+        }
+        if (req.method === 'HEAD') {
+          res.setHeader('Content-Length', current.length);
+        }
+        return reply(200, current);
+      }
+
+      if ((ifMatch && ifMatch !== currentEtag) || (ifNoneMatch === '*' && current)) {
+        return reply(412);
+      }
+
+      if (req.method === 'PUT') {
+        const body = Buffer.concat(chunks);
+        files.set(path, body);
+        res.setHeader('ETag', etag(body));
+        requests.push({ method: 'PUT', path, ifMatch, ifNoneMatch, status: current ? 200 : 201 });
+        res.statusCode = current ? 200 : 201;
+        return res.end();
+      }
+      if (req.method === 'DELETE') {
+        if (!current) {
+          return reply(404);
+        }
+        files.delete(path);
+        requests.push({ method: 'DELETE', path, ifMatch, ifNoneMatch, status: 204 });
+        res.statusCode = 204;
+        return res.end();
+      }
+      reply(405);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    files,
+    requests,
+    etagOf: (path) => {
+      const data = files.get(path);
+      return data && etag(data);
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -7,6 +7,10 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { setStorageConfig, saveLibrary, getComponentById } from '../../src/utils/storage';
 import { RiveLibrary } from '../../src/types';
+import { RiveComponentManifest, ManifestIndex } from '../../../../libs/types';
+import { storageManager } from '../../src/storage';
+import { getComponentDetail } from '../../src/tools/getComponentDetail';
+import { startRestStandIn, RestStandIn } from './fixtures/restStandIn';
 
 describe('getComponentDetail MCP Tool', () => {
   let testManifestsDir: string;
@@ -181,3 +185,65 @@ describe('getComponentDetail MCP Tool', () => {
     expect(manifest1!.library.id).toBe(manifest2!.library.id); // Same library
   });
 });
+
+describe('getComponentDetail with a remote storage backend', () => {
+  let server: RestStandIn;
+  let vehicles: Buffer;
+
+  beforeAll(async () => {
+    vehicles = await fs.readFile(path.join(__dirname, 'fixtures', 'vehicles.riv'));
+    const manifest: RiveComponentManifest = {
+      id: 'vehicles',
+      name: 'Vehicles',
+      version: '1.0.0',
+      libraryId: 'transport',
+      riveFile: 'vehicles.riv',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      stateMachines: [],
+    };
+    const index: ManifestIndex = {
+      libraries: {
+        transport: {
+          id: 'transport',
+          name: 'Transport',
+          version: '1.0.0',
+          components: ['vehicles'],
+          createdAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      },
+      components: { vehicles: manifest },
+      version: '1.0.0',
+      lastUpdated: '',
+    };
+
+    server = await startRestStandIn();
+    server.files.set('/manifests/index.json', Buffer.from(JSON.stringify(index)));
+    server.files.set('/assets/vehicles.riv', vehicles);
+
+    await storageManager.initialize({
+      storage: {
+        backend: 'remote',
+        remote: { manifestUrl: `${server.url}/manifests`, assetBaseUrl: `${server.url}/assets` },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    await server.close();
+  });
+
+  it('should read asset metadata through the backend rather than from disk', async () => {
+    const result = await getComponentDetail({ id: 'vehicles' });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.asset.exists).toBe(true);
+    expect(result.data!.asset.metadata).toMatchObject({
+      fileName: 'vehicles.riv',
+      fileSize: vehicles.length,
+      isValid: true,
+    });
+  });
+});
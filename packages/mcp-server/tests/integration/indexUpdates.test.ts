@@ -0,0 +1,196 @@
+/**
+ * Integration Tests for compare-and-swap updates of the manifest index
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { RiveRuntimeSurface } from '../../src/types';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => ({
+    componentId,
+    artboards: [{ name: 'Main', width: 100, height: 100 }],
+    stateMachines: [],
+    events: [],
+    metadata: {
+      fileSize: buffer.length,
+      parseDate: new Date().toISOString(),
+    },
+  })),
+}));
+
+import {
+  LocalStorage,
+  RemoteStorage,
+  StorageConflictError,
+  isStorageConflictError,
+  storageManager,
+} from '../../src/storage';
+import { RiveComponentManifest, ManifestIndex } from '../../../../libs/types';
+import { getLibraryById, getStorageBackend, saveLibrary } from '../../src/utils/storage';
+import { importRiveFile } from '../../src/tools/importRiveFile';
+import { startRestStandIn } from './fixtures/restStandIn';
+
+function component(id: string): RiveComponentManifest {
+  return {
+    id,
+    name: id,
+    version: '1.0.0',
+    libraryId: 'ui',
+    riveFile: `${id}.riv`,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    stateMachines: [],
+  };
+}
+
+describe('Manifest index updates', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-index-test-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    storageManager.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  async function openLocal(): Promise<LocalStorage> {
+    const storage = new LocalStorage({ basePath: tmpDir });
+    await storage.initialize();
+    return storage;
+  }
+
+  it('should keep every entry when separate writers update the index at once', async () => {
+    // Separate instances have separate caches, like the server and batch-import running side by side
+    const writers = [await openLocal(), await openLocal()];
+    const ids = Array.from({ length: 10 }, (_, i) => `component-${i}`);
+
+    await Promise.all(
+      ids.map((id, i) =>
+        writers[i % 2].writeComponentManifest(component(id), { updateIndex: true })
+      )
+    );
+
+    const index = await (await openLocal()).readIndex();
+    expect(Object.keys(index.components).sort()).toEqual([...ids].sort());
+    await expect(fs.readdir(path.join(tmpDir, 'manifests'))).resolves.toEqual(['components', 'index.json', 'libraries']);
+  });
+
+  it('should refuse to overwrite a manifest changed since the etag it was given', async () => {
+    const [editor, other] = [await openLocal(), await openLocal()];
+    await editor.writeComponentManifest(component('button'));
+
+    const manifest = await editor.readComponentManifest('button');
+    const { etag } = await editor.getMetadata('components/button/manifest.json');
+    await other.writeComponentManifest({ ...component('button'), version: '1.1.0' });
+
+    const error = await editor
+      .writeComponentManifest({ ...manifest, version: '2.0.0' }, { ifMatch: etag })
+      .catch((caught) => caught);
+    expect(isStorageConflictError(error) && error.code).toBe('ETAG_MISMATCH');
+    expect((await editor.readComponentManifest('button', { useCache: false })).version).toBe('1.1.0');
+
+    // Without an etag the last write wins
+    await editor.writeComponentManifest({ ...manifest, version: '2.0.0' });
+    expect((await other.readComponentManifest('button', { useCache: false })).version).toBe('2.0.0');
+  });
+
+  it('should take over a lock left behind by a crashed writer', async () => {
+    const storage = await openLocal();
+    const lockPath = path.join(tmpDir, 'manifests', 'index.json.lock');
+    await fs.writeFile(lockPath, '');
+    const longAgo = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, longAgo, longAgo);
+
+    await storage.updateIndex((index) => {
+      index.components.button = component('button');
+    });
+
+    expect(Object.keys((await storage.readIndex()).components)).toEqual(['button']);
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  it('should rebuild the index from the manifests', async () => {
+    const storage = await openLocal();
+    await storage.writeComponentManifest(component('button'));
+    await storage.writeComponentManifest(component('toggle'));
+    await storage.writeLibraryManifest({
+      id: 'ui',
+      name: 'UI',
+      version: '1.0.0',
+      components: ['button', 'toggle'],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+    await storage.writeIndex({
+      libraries: {},
+      components: { removed: component('removed') },
+      version: '1.0.0',
+      lastUpdated: '',
+    });
+
+    const index = await storage.rebuildIndex();
+
+    expect(Object.keys(index.components)).toEqual(['button', 'toggle']);
+    expect(Object.keys(index.libraries)).toEqual(['ui']);
+    expect(await storage.readIndex()).toEqual(index);
+  });
+
+  it('should retry with the latest index when a remote write loses the ETag race', async () => {
+    const server = await startRestStandIn();
+    const initial: ManifestIndex = { libraries: {}, components: {}, version: '1.0.0', lastUpdated: '' };
+    server.files.set('/manifests/index.json', Buffer.from(JSON.stringify(initial)));
+
+    try {
+      const storage = new RemoteStorage({ manifestUrl: `${server.url}/manifests`, writable: true });
+      let attempts = 0;
+
+      await storage.updateIndex((index) => {
+        if (attempts++ === 0) {
+          // Another client lands its update between our read and write
+          const theirs = { ...initial, components: { toggle: component('toggle') } };
+          server.files.set('/manifests/index.json', Buffer.from(JSON.stringify(theirs)));
+        }
+        index.components.button = component('button');
+      });
+
+      const stored: ManifestIndex = JSON.parse(server.files.get('/manifests/index.json')!.toString());
+      expect(attempts).toBe(2);
+      expect(Object.keys(stored.components).sort()).toEqual(['button', 'toggle']);
+      expect(server.requests.filter((request) => request.method === 'PUT').map((request) => request.status)).toEqual([412, 200]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should fail an import that loses the index update instead of recreating its library', async () => {
+    await storageManager.initialize({ storage: { backend: 'local', local: { basePath: tmpDir } } });
+    await saveLibrary({
+      id: 'ui',
+      name: 'UI',
+      version: '3.0.0',
+      components: [],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    const backend = getStorageBackend()!;
+    jest
+      .spyOn(backend, 'updateIndex')
+      .mockRejectedValueOnce(new StorageConflictError('ETAG_MISMATCH', 'index.json', 'index.json changed since it was read'));
+    const sourcePath = path.join(tmpDir, 'Toggle.riv');
+    await fs.writeFile(sourcePath, 'RIVE-toggle');
+
+    const result = await importRiveFile({ filePath: sourcePath, libraryId: 'ui' });
+
+    expect(result.status).toBe('error');
+    expect(result.error?.code).toBe('ETAG_MISMATCH');
+    const { library } = (await getLibraryById('ui'))!;
+    expect(library.name).toBe('UI');
+    expect(library.version).toBe('3.0.0');
+  });
+});
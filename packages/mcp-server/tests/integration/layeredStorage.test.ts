@@ -0,0 +1,170 @@
+/**
+ * Integration Tests for layered storage
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { IStorageBackend, ManifestIndex, RiveComponentManifest, StorageConfig } from '../../../../libs/types';
+import { RiveRuntimeSurface } from '../../src/types';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => ({
+    componentId,
+    artboards: [{ name: 'Main', width: 100, height: 100 }],
+    stateMachines: [],
+    events: [],
+    metadata: {
+      fileSize: buffer.length,
+      parseDate: new Date().toISOString(),
+    },
+  })),
+}));
+
+import { LayeredStorage, LocalStorage, StorageFactory, storageManager } from '../../src/storage';
+import { validateConfig } from '../../src/config/loader';
+import { importRiveFile } from '../../src/tools/importRiveFile';
+import { startRestStandIn, RestStandIn } from './fixtures/restStandIn';
+
+function component(id: string, version = '1.0.0', libraryId = 'ui'): RiveComponentManifest {
+  return {
+    id,
+    name: id,
+    version,
+    libraryId,
+    riveFile: `${id}.riv`,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    stateMachines: [],
+  };
+}
+
+describe('Layered storage', () => {
+  let tmpDir: string;
+  let server: RestStandIn;
+  let catalog: LocalStorage;
+  let layered: IStorageBackend;
+  let config: StorageConfig;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-layered-test-'));
+
+    catalog = new LocalStorage({ basePath: path.join(tmpDir, 'catalog') });
+    await catalog.initialize();
+    for (const id of ['button', 'toggle']) {
+      await catalog.writeComponentManifest(component(id), { updateIndex: true });
+      await catalog.writeAsset(`${id}.riv`, Buffer.from(`catalog ${id}`));
+    }
+
+    // The CDN only serves what is in neither of the layers above it
+    server = await startRestStandIn();
+    const cdnIndex: ManifestIndex = {
+      libraries: {
+        motion: {
+          id: 'motion',
+          name: 'Motion Kit',
+          version: '2.1.0',
+          components: ['dial'],
+          createdAt: '2026-01-01T00:00:00.000Z',
+          updatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      },
+      components: { slider: component('slider'), dial: component('dial', '2.1.0', 'motion') },
+      version: '1.0.0',
+      lastUpdated: '',
+    };
+    server.files.set('/manifests/index.json', Buffer.from(JSON.stringify(cdnIndex)));
+    server.files.set('/manifests/components/slider/manifest.json', Buffer.from(JSON.stringify(component('slider'))));
+    server.files.set('/assets/slider.riv', Buffer.from('cdn slider'));
+
+    config = {
+      backend: 'layered',
+      layered: {
+        layers: [
+          { name: 'workspace', backend: 'local', local: { basePath: path.join(tmpDir, 'workspace') } },
+          { name: 'catalog', backend: 'local' },
+          { backend: 'remote' },
+        ],
+      },
+      local: { basePath: path.join(tmpDir, 'catalog') },
+      remote: { manifestUrl: `${server.url}/manifests`, assetBaseUrl: `${server.url}/assets` },
+    };
+    layered = await StorageFactory.createAndInitialize(config);
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    await server.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report itself as layered along with its layers', () => {
+    expect(layered.getBackendType()).toBe('layered');
+    expect((layered as LayeredStorage).getLayers()).toEqual([
+      { name: 'workspace', type: 'local', write: true },
+      { name: 'catalog', type: 'local', write: false },
+      { name: 'remote', type: 'remote', write: false },
+    ]);
+  });
+
+  it('should read through the layers and report which one served a file', async () => {
+    expect((await layered.readAsset('button.riv')).toString()).toBe('catalog button');
+    expect((await layered.readComponentManifest('slider')).id).toBe('slider');
+
+    expect((await layered.getMetadata('button.riv')).layer).toBe('catalog');
+    expect((await layered.getMetadata('slider.riv')).layer).toBe('remote');
+    await expect(layered.readAsset('missing.riv')).rejects.toThrow();
+    expect(await layered.exists('missing.riv')).toBe(false);
+  });
+
+  it('should write to the write layer and let it hide the layers below', async () => {
+    await layered.writeComponentManifest(component('toggle', '2.0.0'), { updateIndex: true });
+    await layered.writeAsset('toggle.riv', Buffer.from('workspace toggle'));
+
+    const index = await layered.readIndex({ useCache: false });
+    expect(Object.keys(index.components).sort()).toEqual(['button', 'dial', 'slider', 'toggle']);
+    expect(index.components.toggle.version).toBe('2.0.0');
+    expect((await layered.readAsset('toggle.riv')).toString()).toBe('workspace toggle');
+    expect((await layered.getMetadata('toggle.riv')).layer).toBe('workspace');
+    expect((await layered.listComponents()).sort()).toEqual(['button', 'dial', 'slider', 'toggle']);
+
+    // The catalog and the CDN are left as they were
+    expect((await catalog.readComponentManifest('toggle', { useCache: false })).version).toBe('1.0.0');
+    expect((await catalog.readAsset('toggle.riv', { useCache: false })).toString()).toBe('catalog toggle');
+    expect(server.requests.filter((request) => request.method !== 'GET' && request.method !== 'HEAD')).toEqual([]);
+  });
+
+  it('should import into a library that only a read-only layer has', async () => {
+    await storageManager.initialize({ storage: config });
+    const sourcePath = path.join(tmpDir, 'Knob.riv');
+    await fs.writeFile(sourcePath, 'RIVE-knob');
+
+    const result = await importRiveFile({ filePath: sourcePath, libraryId: 'motion' });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.manifestCreated).toBe(false);
+    expect(result.data!.library.name).toBe('Motion Kit');
+    expect(result.data!.library.version).toBe('2.1.0');
+    expect(result.data!.library.components.map((c) => c.id).sort()).toEqual(['dial', 'knob']);
+
+    // Only the library entry is copied into the workspace; the CDN is left as it was
+    const workspace = await new LocalStorage({ basePath: path.join(tmpDir, 'workspace') }).readIndex({ useCache: false });
+    expect(workspace.libraries.motion.components).toEqual(['dial', 'knob']);
+    expect(workspace.components.dial).toBeUndefined();
+    expect(server.requests.filter((request) => request.method !== 'GET' && request.method !== 'HEAD')).toEqual([]);
+  });
+
+  it('should reject layer configurations it cannot build', () => {
+    const local = { basePath: path.join(tmpDir, 'catalog') };
+
+    expect(() =>
+      StorageFactory.createStorage({ backend: 'layered', layered: { layers: [{ backend: 'local' }], writeLayer: 's3' }, local })
+    ).toThrow('Unknown storage write layer: s3');
+    expect(() =>
+      StorageFactory.createStorage({ backend: 'layered', layered: { layers: [{ backend: 'local' }, { backend: 'local' }] }, local })
+    ).toThrow('Duplicate storage layer name: local');
+    expect(() =>
+      validateConfig({ storage: { backend: 'layered', layered: { layers: [{ backend: 'local' }, { backend: 's3' }] }, local } })
+    ).toThrow('S3 storage requires bucket configuration');
+  });
+});
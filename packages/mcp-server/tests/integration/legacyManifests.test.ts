@@ -0,0 +1,87 @@
+/**
+ * Integration Tests for importing legacy *.library.json catalogs into a storage backend
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { storageManager } from '../../src/storage';
+import {
+  setStorageConfig,
+  getStorageBackend,
+  getAllLibraries,
+  getComponentById,
+  readComponentAsset,
+  importLegacyLibraries,
+} from '../../src/utils/storage';
+import { RiveLibrary } from '../../src/types';
+
+function legacyLibrary(id: string, componentIds: string[], filePath?: (componentId: string) => string): RiveLibrary {
+  const now = '2026-01-01T00:00:00.000Z';
+  return {
+    id,
+    name: id,
+    version: '1.0.0',
+    createdAt: now,
+    updatedAt: now,
+    components: componentIds.map((componentId) => ({
+      id: componentId,
+      libraryId: id,
+      name: componentId,
+      filePath: filePath?.(componentId),
+      createdAt: now,
+      updatedAt: now,
+    })),
+  };
+}
+
+describe('Legacy library manifests', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-legacy-test-'));
+    const manifestsPath = path.join(tmpDir, 'manifests');
+    const assetsPath = path.join(tmpDir, 'assets');
+    await fs.mkdir(manifestsPath, { recursive: true });
+    await fs.mkdir(assetsPath, { recursive: true });
+
+    // One asset sits in ASSETS_PATH, the other was recorded at a path that no longer exists
+    await fs.writeFile(path.join(assetsPath, 'toggle.riv'), 'RIVE-toggle');
+    const libraries = [
+      legacyLibrary('ui', ['toggle']),
+      legacyLibrary('vehicles', ['truck'], () => '/nonexistent/vehicles.riv'),
+    ];
+    for (const library of libraries) {
+      await fs.writeFile(path.join(manifestsPath, `${library.id}.library.json`), JSON.stringify(library));
+    }
+
+    setStorageConfig({ manifestsPath, assetsPath });
+    await storageManager.initialize({
+      storage: { backend: 'local', local: { basePath: path.join(tmpDir, 'data') } },
+    });
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should import the legacy catalog into an empty backend', async () => {
+    expect(await getAllLibraries()).toEqual([]);
+
+    expect((await importLegacyLibraries()).sort()).toEqual(['ui', 'vehicles']);
+
+    expect((await getAllLibraries()).map(({ library }) => library.id).sort()).toEqual(['ui', 'vehicles']);
+    const toggle = await getComponentById('toggle');
+    expect(toggle!.component.filePath).toBe('toggle.riv');
+    expect((await readComponentAsset(toggle!.component)).toString()).toBe('RIVE-toggle');
+    expect((await getComponentById('truck'))!.component.filePath).toBe('/nonexistent/vehicles.riv');
+  });
+
+  it('should leave a backend that already has a catalog alone', async () => {
+    const before = await getStorageBackend()!.readIndex({ useCache: false });
+
+    expect(await importLegacyLibraries()).toEqual([]);
+    expect(await getStorageBackend()!.readIndex({ useCache: false })).toEqual(before);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Integration Tests for the parse cache and its MCP tools
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+// Parse with the static reader so the test does not depend on node-canvas
+jest.mock('canvas', () => {
+  throw new Error('canvas native module missing');
+}, { virtual: true });
+
+import { storageManager } from '../../src/storage';
+import { getStorageBackend } from '../../src/utils/storage';
+import * as riveFileReader from '../../src/utils/riveFileReader';
+import { parseRiveBuffer } from '../../src/utils/riveParser';
+import { parseCache, ParseCache } from '../../src/utils/parseCache';
+import { inspectParseCache, clearParseCache } from '../../src/tools/parseCache';
+import { importRiveFile } from '../../src/tools/importRiveFile';
+import { checkComponentAssets } from '../../src/tools/checkComponentAssets';
+import { encodeRiv } from './fixtures/encodeRiv';
+
+const button = encodeRiv([
+  [23, {}],
+  [1, { 4: ['string', 'Button'], 7: ['double', 200], 8: ['double', 80] }],
+]);
+const buttonV2 = encodeRiv([
+  [23, {}],
+  [1, { 4: ['string', 'Button'], 7: ['double', 240], 8: ['double', 80] }],
+]);
+
+describe('Parse cache', () => {
+  let tmpDir: string;
+  const readSurface = jest.spyOn(riveFileReader, 'readRiveSurface');
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-parse-cache-test-'));
+    await storageManager.initialize({
+      storage: { backend: 'local', local: { basePath: tmpDir } },
+    });
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    parseCache.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await parseCache.clear();
+    readSurface.mockClear();
+  });
+
+  it('should parse identical bytes once and hand out independent copies', async () => {
+    const first = await parseRiveBuffer(button, 'button');
+    first.artboards[0].name = 'Mutated';
+    const second = await parseRiveBuffer(button, 'primary-button');
+
+    expect(readSurface).toHaveBeenCalledTimes(1);
+    expect(second.componentId).toBe('primary-button');
+    expect(second.artboards[0]).toEqual({ name: 'Button', width: 200, height: 80 });
+
+    const { data } = await inspectParseCache({ componentId: 'button' });
+    expect(data!.entries).toHaveLength(1);
+    expect(data!.entries[0]).toMatchObject({ runtimeVersion: 'static', componentIds: ['button', 'primary-button'] });
+    expect(data!.entries[0].key).toBe(`${data!.entries[0].hash}-static`);
+    expect(data!).toMatchObject({ hits: 1, misses: 1, persisted: true });
+  });
+
+  it('should reuse surfaces persisted through the storage backend after a restart', async () => {
+    await parseRiveBuffer(button, 'button');
+    expect(await getStorageBackend()!.exists('cache/surfaces/index.json')).toBe(true);
+
+    parseCache.reset();
+    const surface = await parseRiveBuffer(button, 'button');
+
+    expect(readSurface).toHaveBeenCalledTimes(1);
+    expect(surface.artboards[0].name).toBe('Button');
+  });
+
+  it('should drop the old entry when a component asset changes', async () => {
+    await parseRiveBuffer(button, 'button');
+    const surface = await parseRiveBuffer(buttonV2, 'button');
+
+    expect(readSurface).toHaveBeenCalledTimes(2);
+    expect(surface.artboards[0].width).toBe(240);
+
+    const { data } = await inspectParseCache();
+    expect(data!.entries).toHaveLength(1);
+    expect(data!.entries[0].fileSize).toBe(buttonV2.length);
+  });
+
+  it('should clear entries through the tool and parse again afterwards', async () => {
+    await parseRiveBuffer(button, 'button');
+    await parseRiveBuffer(buttonV2, 'toggle');
+
+    const cleared = await clearParseCache({ componentId: 'toggle' });
+    expect(cleared.data).toEqual({ removed: 1 });
+    expect((await inspectParseCache()).data!.entries.map((entry) => entry.componentIds)).toEqual([['button']]);
+
+    await parseRiveBuffer(buttonV2, 'toggle');
+    await parseRiveBuffer(button, 'button', 'button.riv', { useCache: false });
+    expect(readSurface).toHaveBeenCalledTimes(4);
+  });
+
+  it('should only write the persisted index when a hit evicts an entry, keeping entries from other processes', async () => {
+    const backend = getStorageBackend()!;
+    await parseRiveBuffer(button, 'button');
+    await parseRiveBuffer(buttonV2, 'toggle');
+
+    // Another server process caches a surface in between
+    const other = new ParseCache();
+    const slider = ParseCache.keyFor(Buffer.from('slider'), 'static');
+    const surface = { componentId: 'slider', artboards: [], stateMachines: [], events: [], metadata: { fileSize: 0, parseDate: '' } };
+    await other.set(slider.key, slider.hash, 'static', surface, 6);
+
+    const updateJSON = jest.spyOn(backend, 'updateJSON');
+    const writeAsset = jest.spyOn(backend, 'writeAsset');
+    try {
+      const buttonKey = ParseCache.keyFor(button, 'static').key;
+      expect(await parseCache.get(buttonKey, 'primary-button')).not.toBeNull();
+      expect(updateJSON).not.toHaveBeenCalled();
+
+      // Toggle now has the button's bytes, so its old entry goes, in one index update
+      expect(await parseCache.get(buttonKey, 'toggle')).not.toBeNull();
+      expect(updateJSON).toHaveBeenCalledTimes(1);
+      expect(writeAsset).not.toHaveBeenCalled();
+    } finally {
+      updateJSON.mockRestore();
+      writeAsset.mockRestore();
+    }
+
+    const { entries } = await new ParseCache().inspect();
+    expect(entries.map((entry) => entry.componentIds).sort()).toEqual([['button', 'toggle'], ['slider']]);
+  });
+
+  it('should track published versions apart from the current asset', async () => {
+    await parseRiveBuffer(buttonV2, 'button');
+    await parseRiveBuffer(button, 'button', 'button.riv', { version: '1.0.0' });
+    await parseRiveBuffer(buttonV2, 'button');
+    await parseRiveBuffer(button, 'button', 'button.riv', { version: '1.0.0' });
+
+    expect(readSurface).toHaveBeenCalledTimes(2);
+    const { data } = await inspectParseCache({ componentId: 'button' });
+    expect(data!.entries.map((entry) => entry.componentIds).sort()).toEqual([['button'], ['button@1.0.0']]);
+    expect(data!.entries.every((entry) => entry.key === `${entry.hash}-static`)).toBe(true);
+  });
+
+  it('should share one entry between the current asset and a version published from it', async () => {
+    await parseRiveBuffer(button, 'button');
+    await parseRiveBuffer(button, 'button', 'button.riv', { version: '1.0.0' });
+
+    expect(readSurface).toHaveBeenCalledTimes(1);
+    const { data } = await inspectParseCache({ componentId: 'button' });
+    expect(data!.entries).toHaveLength(1);
+    expect(data!.entries[0].componentIds).toEqual(['button', 'button@1.0.0']);
+  });
+
+  it('should keep the current asset entry when a tool reads a published version', async () => {
+    const sourcePath = path.join(tmpDir, 'switch.riv');
+    await fs.writeFile(sourcePath, button);
+    expect((await importRiveFile({ filePath: sourcePath, version: '1.0.0' })).status).toBe('success');
+    await fs.writeFile(sourcePath, buttonV2);
+    expect((await importRiveFile({ filePath: sourcePath, version: '2.0.0' })).status).toBe('success');
+
+    const checked = await checkComponentAssets({ componentId: 'switch', version: '1.0.0' });
+    expect(checked.status).toBe('success');
+
+    const { data } = await inspectParseCache({ componentId: 'switch' });
+    const users = (bytes: Buffer) =>
+      data!.entries.find((entry) => entry.key === ParseCache.keyFor(bytes, 'static').key)?.componentIds;
+    expect(users(buttonV2)).toEqual(['switch']);
+    expect(users(button)).toEqual(['switch@1.0.0']);
+  });
+});
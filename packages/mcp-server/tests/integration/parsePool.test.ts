@@ -0,0 +1,90 @@
+/**
+ * Integration Tests for the Rive worker pool
+ * Workers are real threads running the sources through ts-node; node-canvas is not
+ * built here, so they fall back to the static reader.
+ */
+
+import { describe, it, expect, beforeAll, afterEach } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { ParsePool, isParsePoolError, setParsePool, getParsePool } from '../../src/utils/parsePool';
+import { parseRiveBuffer, parseRiveBufferInProcess } from '../../src/utils/riveParser';
+import { renderPreview, isPreviewRenderError } from '../../src/utils/previewRenderer';
+import { isCancellation } from '../../src/utils/progress';
+import { RiveRuntimeSurface } from '../../src/types';
+
+const WORKER_TEST_TIMEOUT = 60000;
+
+describe('Rive worker pool', () => {
+  let vehicles: Buffer;
+  let pool: ParsePool | null = null;
+
+  beforeAll(async () => {
+    vehicles = await fs.readFile(path.join(__dirname, 'fixtures', 'vehicles.riv'));
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = null;
+    await setParsePool(null);
+  });
+
+  it('should parse in a worker without touching the main thread globals', async () => {
+    pool = new ParsePool({ size: 1, timeoutMs: 30000, maxMemoryMb: 256, maxJobsPerWorker: 10 });
+
+    const surface = await pool.run<RiveRuntimeSurface>('parse', vehicles, { componentId: 'vehicles' });
+    const local = await parseRiveBufferInProcess(vehicles, 'vehicles');
+
+    expect(surface.artboards).toEqual(local.artboards);
+    expect(surface.stateMachines).toEqual(local.stateMachines);
+    expect(await pool.parserVersion()).toBe('static');
+    expect((global as any).window).toBeUndefined();
+    expect(pool.getStats()).toMatchObject({ workers: 1, busy: 0, completed: 1, recycled: 0 });
+  }, WORKER_TEST_TIMEOUT);
+
+  it('should replace a worker after its job limit and queue work beyond the pool size', async () => {
+    pool = new ParsePool({ size: 1, timeoutMs: 30000, maxMemoryMb: 256, maxJobsPerWorker: 2 });
+
+    const surfaces = await Promise.all(
+      ['car', 'truck', 'bus'].map((componentId) =>
+        pool!.run<RiveRuntimeSurface>('parse', vehicles, { componentId })
+      )
+    );
+
+    expect(surfaces.map((surface) => surface.componentId)).toEqual(['car', 'truck', 'bus']);
+    expect(pool.getStats()).toMatchObject({ completed: 3, recycled: 1, workers: 1 });
+  }, WORKER_TEST_TIMEOUT);
+
+  it('should terminate a worker that runs past the timeout', async () => {
+    pool = new ParsePool({ size: 1, timeoutMs: 1, maxMemoryMb: 256, maxJobsPerWorker: 10 });
+
+    const error = await pool.run('parse', vehicles, { componentId: 'vehicles' }).catch((caught) => caught);
+    expect(isParsePoolError(error) && error.code).toBe('WORKER_TIMEOUT');
+    expect(pool.getStats().workers).toBe(0);
+  }, WORKER_TEST_TIMEOUT);
+
+  it('should cancel queued and running jobs', async () => {
+    pool = new ParsePool({ size: 1, timeoutMs: 30000, maxMemoryMb: 256, maxJobsPerWorker: 10 });
+    const controller = new AbortController();
+
+    const running = pool.run('parse', vehicles, { componentId: 'car' }, { signal: controller.signal });
+    const queued = pool.run('parse', vehicles, { componentId: 'truck' }, { signal: controller.signal });
+    controller.abort();
+
+    const errors = await Promise.all([running, queued].map((job) => job.catch((caught) => caught)));
+    expect(errors.every(isCancellation)).toBe(true);
+    expect(pool.getStats()).toMatchObject({ workers: 0, queued: 0 });
+  }, WORKER_TEST_TIMEOUT);
+
+  it('should route parsing and rendering through the configured pool', async () => {
+    await setParsePool({ size: 1 });
+
+    const surface = await parseRiveBuffer(vehicles, 'vehicles', 'vehicles.riv', { useCache: false });
+    expect(surface.componentId).toBe('vehicles');
+    expect(getParsePool()!.getStats().completed).toBe(1);
+
+    // Errors raised inside the worker come back as their own types
+    const error = await renderPreview(vehicles, { width: 64, height: 64, times: [0] }).catch((caught) => caught);
+    expect(isPreviewRenderError(error) && error.code).toBe('RENDER_UNAVAILABLE');
+  }, WORKER_TEST_TIMEOUT);
+});
@@ -0,0 +1,231 @@
+/**
+ * Integration Tests for tool profiles and path sandboxing
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import { RiveRuntimeSurface } from '../../src/types';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => ({
+    componentId,
+    artboards: [{ name: 'Main', width: 100, height: 100 }],
+    stateMachines: [{ name: 'SM', inputs: [], layerCount: 1 }],
+    events: [],
+    metadata: { fileSize: buffer.length, parseDate: new Date().toISOString() },
+  })),
+}));
+
+import { setStorageConfig } from '../../src/utils/storage';
+import { setPathPolicy, resolveReadPath } from '../../src/utils/pathPolicy';
+import { createToolRegistry } from '../../src/tools';
+import { LocalStorage } from '../../src/storage';
+
+describe('Tool profiles and path sandboxing', () => {
+  const registry = createToolRegistry();
+  let tmpDir: string;
+  let readRoot: string;
+  let writeRoot: string;
+  let outside: string;
+
+  const surface = {
+    componentId: 'toggle',
+    stateMachines: [{ name: 'SM', inputs: [{ name: 'isOn', type: 'bool' }], events: [] }],
+  };
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-path-policy-test-'));
+    readRoot = path.join(tmpDir, 'incoming');
+    writeRoot = path.join(tmpDir, 'generated');
+    outside = path.join(tmpDir, 'private');
+    await Promise.all([readRoot, writeRoot, outside].map((dir) => fs.mkdir(dir, { recursive: true })));
+
+    await fs.writeFile(path.join(readRoot, 'toggle.riv'), Buffer.from('RIVE'));
+    await fs.writeFile(path.join(outside, 'secret.riv'), Buffer.from('RIVE'));
+    await fs.symlink(outside, path.join(readRoot, 'escape'));
+    await fs.symlink(path.join(readRoot, 'toggle.riv'), path.join(readRoot, 'alias.riv'));
+
+    setStorageConfig({ manifestsPath: path.join(tmpDir, 'manifests'), assetsPath: path.join(tmpDir, 'assets') });
+    setPathPolicy({ readRoots: [readRoot], writeRoots: [writeRoot] });
+  });
+
+  afterAll(async () => {
+    setPathPolicy({});
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should hide mutating tools in the read-only profile', async () => {
+    const readOnly = createToolRegistry({ profile: 'read-only' });
+    const names = readOnly.list().map((tool) => tool.name);
+
+    expect(names).toEqual([
+      'list_libraries',
+      'list_components',
+      'get_component_detail',
+      'get_runtime_surface',
+      'check_component_contract',
+      'check_component_assets',
+      'list_component_versions',
+      'simulate_state_machine',
+      'inspect_parse_cache',
+    ]);
+
+    const result = await readOnly.call('import_rive_file', { filePath: path.join(readRoot, 'toggle.riv') });
+    expect(result.error.code).toBe('UNKNOWN_TOOL');
+  });
+
+  it('should import files inside the read roots', async () => {
+    const result = await registry.call('import_rive_file', { filePath: path.join(readRoot, 'toggle.riv') });
+
+    expect(result.status).toBe('success');
+  });
+
+  it('should reject path traversal', async () => {
+    const result = await registry.call('import_rive_file', {
+      filePath: `${readRoot}/../private/secret.riv`,
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.error.code).toBe('PATH_TRAVERSAL');
+  });
+
+  it('should reject reads outside the read roots, including through symlinks', async () => {
+    const direct = await registry.call('import_rive_file', { filePath: path.join(outside, 'secret.riv') });
+    const viaLink = await registry.call('import_rive_file', {
+      filePath: path.join(readRoot, 'escape', 'secret.riv'),
+    });
+
+    expect(direct.error.code).toBe('PATH_NOT_ALLOWED');
+    expect(viaLink.error.code).toBe('PATH_NOT_ALLOWED');
+  });
+
+  it('should resolve reads to the real path that was checked', async () => {
+    await expect(resolveReadPath(path.join(readRoot, 'alias.riv'))).resolves.toBe(
+      await fs.realpath(path.join(readRoot, 'toggle.riv'))
+    );
+  });
+
+  it('should only write wrappers inside the write roots', async () => {
+    const allowedPath = path.join(writeRoot, 'nested', 'Toggle.tsx');
+    const allowed = await registry.call('generate_wrapper', {
+      surface,
+      riveSrc: '/toggle.riv',
+      outputPath: allowedPath,
+    });
+    expect(allowed.status).toBe('success');
+    await expect(fs.access(allowedPath)).resolves.toBeUndefined();
+
+    const deniedPath = path.join(outside, 'Toggle.tsx');
+    const denied = await registry.call('generate_wrapper', {
+      surface,
+      riveSrc: '/toggle.riv',
+      outputPath: deniedPath,
+    });
+    expect(denied.status).toBe('error');
+    expect(denied.code).toBe('PATH_NOT_ALLOWED');
+    await expect(fs.access(deniedPath)).rejects.toThrow();
+  });
+
+  it('should write wrappers to the real path that was checked', async () => {
+    const checkedDir = path.join(writeRoot, 'release');
+    const link = path.join(writeRoot, 'current');
+    await fs.mkdir(checkedDir, { recursive: true });
+    await fs.symlink(checkedDir, link);
+
+    const result = await registry.call(
+      'generate_wrapper',
+      { surface, riveSrc: '/toggle.riv', outputPath: path.join(link, 'Swapped.tsx') },
+      {
+        // Repoint the link outside the write roots once the paths have been checked
+        onProgress: ({ message }) => {
+          if (message?.startsWith('writing')) {
+            fsSync.unlinkSync(link);
+            fsSync.symlinkSync(outside, link);
+          }
+        },
+      }
+    );
+
+    expect(result.status).toBe('success');
+    await expect(fs.access(path.join(checkedDir, 'Swapped.tsx'))).resolves.toBeUndefined();
+    await expect(fs.access(path.join(outside, 'Swapped.tsx'))).rejects.toThrow();
+  });
+
+  it('should check the Stencil stylesheet path before writing any wrapper file', async () => {
+    // The Stencil stylesheet goes to the generator's fixed path, outside the write roots
+    const componentPath = path.join(writeRoot, 'all', 'Toggle.tsx');
+    const result = await registry.call('generate_wrapper', {
+      surface,
+      framework: 'all',
+      riveSrc: '/toggle.riv',
+      outputPath: componentPath,
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.code).toBe('PATH_NOT_ALLOWED');
+    await expect(fs.access(componentPath)).rejects.toThrow();
+  });
+
+  it('should reject scene output paths outside the write roots', async () => {
+    const result = await registry.call('compose_scene_v2', {
+      id: 'sandboxed',
+      name: 'Sandboxed',
+      viewport: { width: 640, height: 360 },
+      components: [{ name: 'toggle', componentId: 'toggle', position: { x: 0, y: 0 } }],
+      generate: { outputPath: outside },
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.error.code).toBe('PATH_NOT_ALLOWED');
+  });
+
+  it('should reject component and library IDs that would leave the storage directories', async () => {
+    const filePath = path.join(readRoot, 'toggle.riv');
+    const component = await registry.call('import_rive_file', { filePath, componentId: '../../../escaped' });
+    const library = await registry.call('import_rive_file', { filePath, libraryId: 'nested/library' });
+
+    expect(component.error.code).toBe('PATH_TRAVERSAL');
+    expect(library.error.code).toBe('PATH_TRAVERSAL');
+    await expect(fs.access(path.join(tmpDir, '..', 'escaped.riv'))).rejects.toThrow();
+  });
+
+  it('should refuse storage paths outside the local backend directories', async () => {
+    const storage = new LocalStorage({ basePath: path.join(tmpDir, 'data') });
+    await storage.initialize();
+
+    await expect(storage.writeAsset('../../escaped.riv', Buffer.from('RIVE'))).rejects.toThrow(/escapes the asset directory/);
+    await expect(storage.readComponentManifest('../../../escaped')).rejects.toThrow(/escapes the manifest directory/);
+    await expect(fs.access(path.join(tmpDir, 'escaped.riv'))).rejects.toThrow();
+  });
+
+  it('should check scene IDs and every exported scene file', async () => {
+    const scene = {
+      name: 'Sandboxed',
+      viewport: { width: 640, height: 360 },
+      components: [{ name: 'toggle', componentId: 'toggle', position: { x: 0, y: 0 } }],
+      generate: { frameworks: ['react'] },
+    };
+
+    const traversal = await registry.call('compose_scene_v2', { ...scene, id: '../..', export: true });
+    expect(traversal.error.code).toBe('PATH_TRAVERSAL');
+
+    // The scenes directory is outside the write roots
+    process.env.SCENES_PATH = outside;
+    try {
+      const exported = await registry.call('compose_scene_v2', { ...scene, id: 'sandboxed', export: true });
+      expect(exported.error.code).toBe('PATH_NOT_ALLOWED');
+      await expect(fs.access(path.join(outside, 'sandboxed'))).rejects.toThrow();
+
+      process.env.SCENES_PATH = writeRoot;
+      const allowed = await registry.call('compose_scene_v2', { ...scene, id: 'sandboxed', export: true });
+      expect(allowed.status).toBe('success');
+      await expect(fs.access(path.join(writeRoot, 'sandboxed', 'sandboxed-scene.json'))).resolves.toBeUndefined();
+    } finally {
+      delete process.env.SCENES_PATH;
+    }
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Integration Tests for progress notifications and cancellation
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { RiveRuntimeSurface } from '../../src/types';
+import { OperationOptions, ProgressUpdate } from '../../src/utils/progress';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(
+    async (buffer: Buffer, componentId: string, _source?: string, options: OperationOptions = {}): Promise<RiveRuntimeSurface> => {
+      options.onProgress?.({ progress: 1, total: 2, message: 'parsing artboard 1/1' });
+      return {
+        componentId,
+        artboards: [{ name: 'Main', width: 100, height: 100 }],
+        stateMachines: [{ name: 'SM', inputs: [], layerCount: 1 }],
+        events: [],
+        metadata: { fileSize: buffer.length, parseDate: new Date().toISOString() },
+      };
+    }
+  ),
+}));
+
+import { setStorageConfig } from '../../src/utils/storage';
+import { createToolRegistry } from '../../src/tools';
+
+describe('Progress and cancellation', () => {
+  const registry = createToolRegistry();
+  let tmpDir: string;
+  let files: string[];
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-progress-test-'));
+    setStorageConfig({ manifestsPath: path.join(tmpDir, 'manifests'), assetsPath: path.join(tmpDir, 'assets') });
+
+    files = [path.join(tmpDir, 'coin.riv'), path.join(tmpDir, 'reel.riv')];
+    for (const file of files) {
+      await fs.writeFile(file, Buffer.from('RIVE'));
+    }
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report monotonic progress while importing', async () => {
+    const updates: ProgressUpdate[] = [];
+    const result = await registry.call(
+      'import_rive_file',
+      { filePath: files[0], libraryId: 'progress' },
+      { onProgress: (update) => updates.push(update) }
+    );
+
+    expect(result.status).toBe('success');
+    expect(updates.map((u) => u.message)).toContain('parsing artboard 1/1');
+    expect(updates[updates.length - 1]).toMatchObject({ progress: 5, total: 5 });
+    updates.slice(1).forEach((u, i) => expect(u.progress).toBeGreaterThanOrEqual(updates[i].progress));
+  });
+
+  it('should return CANCELLED when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await registry.call(
+      'import_rive_file',
+      { filePath: files[1], libraryId: 'cancelled' },
+      { signal: controller.signal }
+    );
+
+    expect(result.status).toBe('error');
+    expect(result.error.code).toBe('CANCELLED');
+    await expect(fs.access(path.join(tmpDir, 'assets', 'reel.riv'))).rejects.toThrow();
+  });
+
+  it('should report per-file progress for batch imports', async () => {
+    const messages: string[] = [];
+    const result = await registry.call(
+      'import_rive_files',
+      { filePaths: [...files, path.join(tmpDir, 'missing.riv')], libraryId: 'batch' },
+      { onProgress: (update) => messages.push(update.message!) }
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.data.imported.map((c: any) => c.id)).toEqual(['coin', 'reel']);
+    expect(result.data.failed).toEqual([
+      { filePath: path.join(tmpDir, 'missing.riv'), error: expect.objectContaining({ code: 'FILE_NOT_FOUND' }) },
+    ]);
+    expect(messages).toEqual(
+      expect.arrayContaining(['importing 1/3: coin.riv', 'importing 2/3: reel.riv', 'importing 3/3: missing.riv'])
+    );
+  });
+
+  it('should stop generating wrappers when cancelled', async () => {
+    const controller = new AbortController();
+    const result = await registry.call(
+      'compose_scene_v2',
+      {
+        id: 'cancelled-scene',
+        name: 'Cancelled',
+        viewport: { width: 640, height: 360 },
+        components: [{ name: 'coin', componentId: 'coin', position: { x: 0, y: 0 } }],
+        generate: { frameworks: ['react', 'vue'] },
+      },
+      {
+        signal: controller.signal,
+        onProgress: (update) => {
+          if (update.message === 'generating react') controller.abort();
+        },
+      }
+    );
+
+    expect(result.status).toBe('error');
+    expect(result.error.code).toBe('CANCELLED');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Integration Tests for MCP prompts
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { setStorageConfig, saveLibrary } from '../../src/utils/storage';
+import { RiveLibrary, RiveRuntimeSurface } from '../../src/types';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (_buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => {
+    if (componentId === 'broken') {
+      throw new Error('Invalid Rive file');
+    }
+    return {
+      componentId,
+      artboards: [{ name: 'SlotArtboard', width: 800, height: 600 }],
+      stateMachines: [
+        {
+          name: 'SlotSM',
+          inputs: [
+            { name: 'isSpinning', type: 'bool', defaultValue: false },
+            { name: 'spin', type: 'trigger' },
+          ],
+          layerCount: 1,
+        },
+      ],
+      events: [{ name: 'WinSequenceComplete' }],
+      metadata: {
+        fileSize: 4,
+        parseDate: new Date().toISOString(),
+      },
+    };
+  }),
+}));
+
+import { listPrompts, getPrompt } from '../../src/prompts';
+
+describe('MCP prompts', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-prompts-test-'));
+    const manifestsDir = path.join(tmpDir, 'manifests');
+    const assetsDir = path.join(tmpDir, 'assets');
+    await fs.mkdir(manifestsDir, { recursive: true });
+    await fs.mkdir(assetsDir, { recursive: true });
+    await fs.writeFile(path.join(assetsDir, 'slot-machine.riv'), Buffer.from('RIVE'));
+    await fs.writeFile(path.join(assetsDir, 'broken.riv'), Buffer.from('????'));
+
+    setStorageConfig({
+      manifestsPath: manifestsDir,
+      assetsPath: assetsDir,
+    });
+
+    const now = new Date().toISOString();
+    const library: RiveLibrary = {
+      id: 'casino',
+      name: 'Casino',
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      components: [
+        {
+          id: 'slot-machine',
+          libraryId: 'casino',
+          name: 'Slot Machine',
+          filePath: path.join(assetsDir, 'slot-machine.riv'),
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: 'broken',
+          libraryId: 'casino',
+          name: 'Broken',
+          filePath: path.join(assetsDir, 'broken.riv'),
+          createdAt: now,
+          updatedAt: now,
+        },
+      ],
+    };
+
+    await saveLibrary(library);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should list the workflow prompts', () => {
+    expect(listPrompts().map((p) => p.name)).toEqual([
+      'wrap-component',
+      'compose-scene-from-brief',
+      'audit-component',
+    ]);
+  });
+
+  it('should embed the manifest and runtime surface in wrap-component', async () => {
+    const result = await getPrompt('wrap-component', { componentId: 'slot-machine', framework: 'vue' });
+    const [instructions, manifest, surface] = result.messages;
+
+    expect(instructions.content.type).toBe('text');
+    expect((instructions.content as any).text).toContain('vue wrapper');
+    expect((manifest.content as any).resource.uri).toBe('rive://component/slot-machine/manifest');
+    expect((surface.content as any).resource.uri).toBe('rive://component/slot-machine/surface');
+
+    const embeddedSurface = JSON.parse((surface.content as any).resource.text);
+    expect(embeddedSurface.stateMachines[0].inputs.map((i: any) => i.name)).toEqual(['isSpinning', 'spin']);
+  });
+
+  it('should default compose-scene-from-brief to the whole catalog', async () => {
+    const result = await getPrompt('compose-scene-from-brief', { brief: 'Jackpot celebration' });
+    const text = (result.messages[0].content as any).text;
+
+    expect(text).toContain('Jackpot celebration');
+    expect(text).toContain('slot-machine, broken');
+  });
+
+  it('should note an unparseable surface instead of failing', async () => {
+    const result = await getPrompt('audit-component', { componentId: 'broken' });
+    const last = result.messages[result.messages.length - 1];
+
+    expect(last.content.type).toBe('text');
+    expect((last.content as any).text).toContain('could not be parsed');
+  });
+
+  it('should reject missing required arguments', async () => {
+    await expect(getPrompt('audit-component', {})).rejects.toThrow("Missing required argument 'componentId'");
+  });
+
+  it('should reject unsupported frameworks', async () => {
+    await expect(
+      getPrompt('wrap-component', { componentId: 'slot-machine', framework: 'angular' })
+    ).rejects.toThrow("Unsupported framework 'angular'");
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Integration Tests for conditional requests in the remote storage backend
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { RemoteStorage, isStorageConflictError } from '../../src/storage';
+import { RiveComponentManifest } from '../../../../libs/types';
+import { startRestStandIn, RestStandIn } from './fixtures/restStandIn';
+
+const button: RiveComponentManifest = {
+  id: 'button',
+  name: 'Button',
+  version: '1.0.0',
+  libraryId: 'ui',
+  riveFile: 'button.riv',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  stateMachines: [],
+};
+
+function json(data: unknown): Buffer {
+  return Buffer.from(JSON.stringify(data), 'utf-8');
+}
+
+describe('Remote storage', () => {
+  let server: RestStandIn;
+  let storage: RemoteStorage;
+
+  beforeEach(async () => {
+    server = await startRestStandIn();
+    server.files.set('/manifests/index.json', json({ libraries: {}, components: {}, version: '1.0.0', lastUpdated: '' }));
+    server.files.set('/manifests/components/button/manifest.json', json(button));
+
+    storage = new RemoteStorage({
+      manifestUrl: `${server.url}/manifests`,
+      assetBaseUrl: `${server.url}/assets`,
+      writable: true,
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should revalidate cached reads with If-None-Match', async () => {
+    const etag = server.etagOf('/manifests/index.json');
+    await storage.readIndex();
+    const revalidated = await storage.readIndex({ useCache: false });
+
+    expect(revalidated.version).toBe('1.0.0');
+    expect(server.requests.map(({ ifNoneMatch, status }) => ({ ifNoneMatch, status }))).toEqual([
+      { ifNoneMatch: undefined, status: 200 },
+      { ifNoneMatch: etag, status: 304 },
+    ]);
+
+    server.files.set('/manifests/index.json', json({ libraries: {}, components: {}, version: '2.0.0', lastUpdated: '' }));
+    expect((await storage.readIndex({ useCache: false })).version).toBe('2.0.0');
+    expect(server.requests[2].status).toBe(200);
+  });
+
+  it('should write with If-Match when given an etag and surface lost updates', async () => {
+    const manifest = await storage.readComponentManifest('button');
+    const { etag } = await storage.getMetadata('components/button/manifest.json');
+
+    // Another editor saves first
+    server.files.set('/manifests/components/button/manifest.json', json({ ...button, version: '1.1.0' }));
+
+    const error = await storage
+      .writeComponentManifest({ ...manifest, version: '2.0.0' }, { ifMatch: etag })
+      .catch((caught) => caught);
+    expect(isStorageConflictError(error) && error.code).toBe('ETAG_MISMATCH');
+
+    const current = await storage.readComponentManifest('button');
+    expect(current.version).toBe('1.1.0');
+    await storage.writeComponentManifest({ ...current, version: '2.0.0' });
+
+    const put = server.requests.filter((request) => request.method === 'PUT');
+    expect(put.map(({ ifMatch, status }) => ({ ifMatch, status }))).toEqual([
+      { ifMatch: etag, status: 412 },
+      { ifMatch: undefined, status: 200 },
+    ]);
+    expect(JSON.parse(server.files.get('/manifests/components/button/manifest.json')!.toString()).version).toBe('2.0.0');
+  });
+
+  it('should create only when asked and delete on a matching ETag when given one', async () => {
+    await storage.writeAsset('toggle.riv', Buffer.from('RIVE'), { overwrite: false });
+    const duplicate = await storage
+      .writeAsset('toggle.riv', Buffer.from('RIVE2'), { overwrite: false })
+      .catch((caught) => caught);
+    expect(isStorageConflictError(duplicate) && duplicate.code).toBe('ALREADY_EXISTS');
+
+    const stale = await storage.delete('toggle.riv', { ifMatch: '"stale"' }).catch((caught) => caught);
+    expect(isStorageConflictError(stale) && stale.code).toBe('ETAG_MISMATCH');
+    expect(server.files.has('/assets/toggle.riv')).toBe(true);
+
+    const etag = server.etagOf('/assets/toggle.riv');
+    await storage.delete('toggle.riv', { ifMatch: etag });
+    expect(server.files.has('/assets/toggle.riv')).toBe(false);
+    expect(server.requests[server.requests.length - 1]).toMatchObject({ method: 'DELETE', ifMatch: etag, status: 204 });
+
+    // A plain delete is unconditional, even when the cached copy is stale
+    await storage.writeAsset('toggle.riv', Buffer.from('RIVE'));
+    await storage.readAsset('toggle.riv');
+    server.files.set('/assets/toggle.riv', Buffer.from('RIVE-changed'));
+    await storage.delete('toggle.riv');
+    expect(server.files.has('/assets/toggle.riv')).toBe(false);
+    expect(server.requests[server.requests.length - 1]).toMatchObject({ method: 'DELETE', ifMatch: undefined, status: 204 });
+  });
+
+  it('should stay read-only unless writable is set', async () => {
+    const readOnly = new RemoteStorage({ manifestUrl: `${server.url}/manifests` });
+
+    await expect(readOnly.writeAsset('toggle.riv', Buffer.from('RIVE'))).rejects.toThrow(/read-only/);
+    await expect(readOnly.delete('components/button/manifest.json')).rejects.toThrow(/read-only/);
+    expect(server.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Integration Tests for the render_component_preview MCP Tool
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+// A stand-in runtime whose "pixels" record the artboard time and the glow input
+class FakeStateMachineInstance {
+  glow = false;
+
+  constructor(readonly definition: { name: string }, readonly artboard: FakeArtboard) {
+    artboard.stateMachine = this;
+  }
+  advance() {}
+  inputCount() { return 1; }
+  input() {
+    const stateMachine = this;
+    return { name: 'glow', asBool: () => ({ set value(value: boolean) { stateMachine.glow = value; } }) };
+  }
+  delete() {}
+}
+
+class FakeArtboard {
+  time = 0;
+  stateMachine?: FakeStateMachineInstance;
+  bounds = { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+
+  constructor(readonly name: string) {}
+  advance(seconds: number) { this.time += seconds; }
+  draw(renderer: { canvas: FakeCanvas }) {
+    renderer.canvas.content = `${this.name}@${this.time.toFixed(2)}${this.stateMachine?.glow ? ':glow' : ''}`;
+  }
+  stateMachineCount() { return 1; }
+  stateMachineByIndex() { return { name: 'Idle' }; }
+  delete() {}
+}
+
+class FakeCanvas {
+  content = '';
+  tiles: string[] = [];
+
+  constructor(readonly width: number, readonly height: number) {}
+  getContext() {
+    return { drawImage: (source: FakeCanvas, x: number, y: number) => this.tiles.push(`${x},${y}=${source.content}`) };
+  }
+  toBuffer() {
+    return Buffer.from(`${this.width}x${this.height}|${this.tiles.length ? this.tiles.join(';') : this.content}`);
+  }
+}
+
+const fakeRuntime = {
+  Fit: { contain: 'contain' },
+  Alignment: { center: 'center' },
+  load: async () => ({
+    defaultArtboard: () => new FakeArtboard('Main'),
+    artboardCount: () => 2,
+    artboardByIndex: (index: number) => new FakeArtboard(['Main', 'Badge'][index]),
+    unref: () => {},
+  }),
+  StateMachineInstance: FakeStateMachineInstance,
+  makeRenderer: (canvas: FakeCanvas) => ({
+    canvas,
+    clear() {},
+    save() {},
+    restore() {},
+    align() {},
+    flush() {},
+  }),
+  resolveAnimationFrame: () => {},
+};
+
+const getRiveRuntime = jest.fn<() => Promise<any>>(async () => fakeRuntime);
+
+jest.mock('../../src/utils/riveParser', () => ({ getRiveRuntime }));
+jest.mock('canvas', () => ({ Canvas: FakeCanvas }), { virtual: true });
+
+import { storageManager } from '../../src/storage';
+import {
+  setStorageConfig,
+  saveLibrary,
+  getComponentManifest,
+  writeComponentAsset,
+  publishComponentVersion,
+} from '../../src/utils/storage';
+import { renderComponentPreview } from '../../src/tools/renderComponentPreview';
+import { planPreviewTimeline } from '../../src/utils/previewRenderer';
+
+describe('render_component_preview MCP Tool', () => {
+  let tmpDir: string;
+  let assetsPath: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-preview-test-'));
+    assetsPath = path.join(tmpDir, 'assets');
+    setStorageConfig({ manifestsPath: path.join(tmpDir, 'manifests'), assetsPath });
+
+    const filePath = path.join(tmpDir, 'beacon.riv');
+    await fs.writeFile(filePath, Buffer.from('RIVE'));
+
+    const now = new Date().toISOString();
+    await saveLibrary({
+      id: 'signals',
+      name: 'Signals',
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      components: [
+        { id: 'beacon', libraryId: 'signals', name: 'Beacon', filePath, createdAt: now, updatedAt: now },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should store stills and a sprite sheet and link them from the manifest', async () => {
+    const result = await renderComponentPreview({
+      componentId: 'beacon',
+      width: 64,
+      height: 32,
+      times: [0, 0.5],
+      spriteSheet: { frames: 4, duration: 1 },
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.frames).toEqual([
+      { time: 0, url: path.join(assetsPath, 'beacon.thumbnail.png') },
+      { time: 0.5, url: path.join(assetsPath, 'beacon.frame-500ms.png') },
+    ]);
+    expect(result.data!.spriteSheet).toMatchObject({ frames: 4, columns: 2, rows: 2, frameWidth: 64 });
+
+    expect((await fs.readFile(path.join(assetsPath, 'beacon.frame-500ms.png'))).toString()).toBe('64x32|Main@0.50');
+    expect((await fs.readFile(path.join(assetsPath, 'beacon.sprites.png'))).toString()).toBe(
+      '128x64|0,0=Main@0.00;64,0=Main@0.25;0,32=Main@0.50;64,32=Main@0.75'
+    );
+
+    const manifest = await getComponentManifest('beacon');
+    expect(manifest!.thumbnailUrl).toBe(path.join(assetsPath, 'beacon.thumbnail.png'));
+    expect(manifest!.previewUrl).toBe(path.join(assetsPath, 'beacon.sprites.png'));
+  });
+
+  it('should apply input changes before capturing at the same time', async () => {
+    const result = await renderComponentPreview({
+      componentId: 'beacon',
+      artboard: 'Badge',
+      width: 10,
+      height: 10,
+      times: [0.25, 0.5],
+      inputs: [{ at: 0.5, input: 'glow', value: true }],
+      spriteSheet: false,
+    });
+
+    expect(result.data!.artboard).toBe('Badge');
+    expect(result.data!.previewUrl).toBeUndefined();
+    expect((await fs.readFile(result.data!.frames[1].url)).toString()).toBe('10x10|Badge@0.50:glow');
+
+    // The sprite sheet from the earlier render stays linked
+    expect((await getComponentManifest('beacon'))!.previewUrl).toBe(path.join(assetsPath, 'beacon.sprites.png'));
+  });
+
+  it('should report missing artboards and inputs', async () => {
+    const missingArtboard = await renderComponentPreview({ componentId: 'beacon', artboard: 'Nope' });
+    const missingInput = await renderComponentPreview({
+      componentId: 'beacon',
+      inputs: [{ at: 0, input: 'pulse' }],
+    });
+
+    expect(missingArtboard.error!.code).toBe('ARTBOARD_NOT_FOUND');
+    expect(missingInput.error!.code).toBe('INPUT_NOT_FOUND');
+  });
+
+  it('should refuse sprite sheets too large to allocate', async () => {
+    const square = await renderComponentPreview({
+      componentId: 'beacon',
+      width: 4096,
+      height: 4096,
+      spriteSheet: { frames: 120 },
+    });
+    const column = await renderComponentPreview({
+      componentId: 'beacon',
+      width: 4096,
+      height: 4096,
+      spriteSheet: { frames: 120, columns: 1 },
+    });
+
+    expect(square.error!.code).toBe('SPRITE_SHEET_TOO_LARGE');
+    expect(column.error!.code).toBe('SPRITE_SHEET_TOO_LARGE');
+  });
+
+  it('should report when the runtime cannot render', async () => {
+    getRiveRuntime.mockResolvedValueOnce(null);
+
+    const result = await renderComponentPreview({ componentId: 'beacon' });
+
+    expect(result.status).toBe('error');
+    expect(result.error!.code).toBe('RENDER_UNAVAILABLE');
+  });
+
+  it('should order inputs before captures on the timeline', () => {
+    const steps = planPreviewTimeline([0.5], [{ at: 0.5, input: 'glow', value: true }], { frames: 2, duration: 1 });
+
+    expect(steps.map((step) => `${step.kind}@${step.time}`)).toEqual(['sprite@0', 'input@0.5', 'still@0.5', 'sprite@0.5']);
+  });
+});
+
+describe('render_component_preview MCP Tool with published versions', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-preview-versions-test-'));
+    await storageManager.initialize({
+      storage: { backend: 'local', local: { basePath: tmpDir } },
+    });
+
+    const asset = Buffer.from('RIVE');
+    const filePath = await writeComponentAsset('beacon', asset);
+    const now = new Date().toISOString();
+    await saveLibrary({
+      id: 'signals',
+      name: 'Signals',
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      components: [
+        {
+          id: 'beacon',
+          libraryId: 'signals',
+          name: 'Beacon',
+          filePath,
+          createdAt: now,
+          updatedAt: now,
+          metadata: { version: '1.0.0' },
+        },
+      ],
+    });
+    await publishComponentVersion('beacon', asset);
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should store a version\'s previews under the version and leave the manifests alone', async () => {
+    const result = await renderComponentPreview({ componentId: 'beacon', version: 'latest', spriteSheet: false });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.thumbnailUrl).toBe('beacon.1.0.0.thumbnail.png');
+    expect((await getComponentManifest('beacon'))!.thumbnailUrl).toBeUndefined();
+    expect((await getComponentManifest('beacon', '1.0.0'))!.thumbnailUrl).toBeUndefined();
+  });
+
+  it('should report versions that have not been published', async () => {
+    const result = await renderComponentPreview({ componentId: 'beacon', version: '2.0.0' });
+
+    expect(result.status).toBe('error');
+    expect(result.error!.code).toBe('VERSION_NOT_FOUND');
+  });
+});
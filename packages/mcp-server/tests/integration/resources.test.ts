@@ -0,0 +1,138 @@
+/**
+ * Integration Tests for MCP resources
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { setStorageConfig, saveLibrary } from '../../src/utils/storage';
+import { RiveLibrary, RiveRuntimeSurface } from '../../src/types';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (_buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => ({
+    componentId,
+    artboards: [{ name: 'ButtonArtboard', width: 200, height: 80 }],
+    stateMachines: [
+      {
+        name: 'ButtonSM',
+        inputs: [{ name: 'hover', type: 'bool', defaultValue: false }],
+        layerCount: 1,
+      },
+    ],
+    events: [{ name: 'Clicked' }],
+    metadata: {
+      fileSize: 4,
+      parseDate: new Date().toISOString(),
+    },
+  })),
+}));
+
+import {
+  buildResourceUri,
+  parseResourceUri,
+  listResources,
+  listResourceTemplates,
+  readResource,
+} from '../../src/resources';
+
+describe('MCP resources', () => {
+  let tmpDir: string;
+  let assetPath: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-resources-test-'));
+    const manifestsDir = path.join(tmpDir, 'manifests');
+    const assetsDir = path.join(tmpDir, 'assets');
+    await fs.mkdir(manifestsDir, { recursive: true });
+    await fs.mkdir(assetsDir, { recursive: true });
+
+    setStorageConfig({
+      manifestsPath: manifestsDir,
+      assetsPath: assetsDir,
+    });
+
+    assetPath = path.join(assetsDir, 'ui-button.riv');
+    await fs.writeFile(assetPath, Buffer.from('RIVE'));
+
+    const library: RiveLibrary = {
+      id: 'ui-components',
+      name: 'UI Components',
+      version: '1.0.0',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      components: [
+        {
+          id: 'ui-button',
+          libraryId: 'ui-components',
+          name: 'Button',
+          filePath: assetPath,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+      ],
+    };
+
+    await saveLibrary(library);
+  });
+
+  afterAll(async () => {
+    if (tmpDir) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should round-trip resource URIs', () => {
+    expect(buildResourceUri('library', 'ui-components')).toBe('rive://library/ui-components');
+    expect(buildResourceUri('surface', 'ui-button')).toBe('rive://component/ui-button/surface');
+    expect(parseResourceUri('rive://component/ui-button/asset')).toEqual({ kind: 'asset', id: 'ui-button' });
+    expect(parseResourceUri('rive://component/ui-button/unknown')).toBeNull();
+    expect(parseResourceUri('https://example.com/ui-button')).toBeNull();
+  });
+
+  it('should publish a template for every resource kind', () => {
+    const templates = listResourceTemplates().map((t) => t.uriTemplate);
+    expect(templates).toEqual([
+      'rive://library/{id}',
+      'rive://component/{id}/manifest',
+      'rive://component/{id}/surface',
+      'rive://component/{id}/asset',
+    ]);
+  });
+
+  it('should list library and component resources', async () => {
+    const uris = (await listResources()).map((r) => r.uri);
+    expect(uris).toEqual([
+      'rive://library/ui-components',
+      'rive://component/ui-button/manifest',
+      'rive://component/ui-button/surface',
+      'rive://component/ui-button/asset',
+    ]);
+  });
+
+  it('should read a component manifest as JSON', async () => {
+    const [contents] = await readResource('rive://component/ui-button/manifest');
+    const manifest = JSON.parse(contents.text!);
+
+    expect(contents.mimeType).toBe('application/json');
+    expect(manifest.id).toBe('ui-button');
+    expect(manifest.library.id).toBe('ui-components');
+  });
+
+  it('should read a runtime surface', async () => {
+    const [contents] = await readResource('rive://component/ui-button/surface');
+    const surface = JSON.parse(contents.text!);
+
+    expect(surface.stateMachines[0].name).toBe('ButtonSM');
+  });
+
+  it('should read the asset as a base64 blob', async () => {
+    const [contents] = await readResource('rive://component/ui-button/asset');
+    expect(Buffer.from(contents.blob!, 'base64').toString('utf-8')).toBe('RIVE');
+  });
+
+  it('should reject unknown components', async () => {
+    await expect(readResource('rive://component/missing/manifest')).rejects.toThrow(
+      "Component with ID 'missing' not found"
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Integration Tests for Rive event extraction
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { readRiveFile } from '../../src/utils/riveFileReader';
+import { encodeRiv } from './fixtures/encodeRiv';
+
+// Component ids: 0 Main, 1 Coin, 2-4 its properties, 5 Docs
+const game = encodeRiv([
+  [23, {}],
+  [1, { 4: ['string', 'Main'], 7: ['double', 400], 8: ['double', 300] }],
+  [128, { 4: ['string', 'Coin'], 5: ['uint', 0] }],
+  [127, { 4: ['string', 'amount'], 5: ['uint', 1], 243: ['double', 5] }],
+  [130, { 4: ['string', 'currency'], 5: ['uint', 1], 246: ['string', 'USD'] }],
+  [129, { 4: ['string', 'bonus'], 5: ['uint', 1], 245: ['bool', true] }],
+  [131, { 4: ['string', 'Docs'], 5: ['uint', 0], 248: ['string', 'https://rive.app'] }],
+  [31, { 55: ['string', 'spin'] }],
+  [25, { 51: ['uint', 1] }],
+  [26, { 53: ['uint', 395] }],
+  [171, {}],
+  [31, { 55: ['string', 'idle'] }],
+  [53, { 55: ['string', 'Game'] }],
+  [58, { 138: ['string', 'collect'] }],
+  [57, { 138: ['string', 'Main Layer'] }],
+  [63, {}],
+  [65, { 151: ['uint', 2] }],
+  [62, {}],
+  [61, { 149: ['uint', 1] }],
+  [169, { 392: ['uint', 5], 393: ['uint', 1] }],
+  [65, { 151: ['uint', 3] }],
+  [68, { 155: ['uint', 0] }],
+  [169, { 392: ['uint', 1] }],
+  [61, { 149: ['uint', 0] }],
+  [64, {}],
+]);
+
+describe('Rive events', () => {
+  it('should enumerate declared events with typed custom properties', () => {
+    const [coin, docs] = readRiveFile(game).events;
+
+    expect(coin).toMatchObject({
+      name: 'Coin',
+      type: 'general',
+      artboard: 'Main',
+      properties: { amount: 5, currency: 'USD', bonus: true },
+      customProperties: [
+        { name: 'amount', type: 'number', value: 5 },
+        { name: 'currency', type: 'string', value: 'USD' },
+        { name: 'bonus', type: 'boolean', value: true },
+      ],
+    });
+    expect(docs).toMatchObject({ name: 'Docs', type: 'openUrl', url: 'https://rive.app', customProperties: [] });
+  });
+
+  it('should report the states, transitions and timelines that fire each event', () => {
+    const [coin, docs] = readRiveFile(game).events;
+
+    expect(coin.firedBy).toEqual([
+      { stateMachine: 'Game', layer: 'Main Layer', state: 'idle', occurs: 'start', transitionTo: 'spin' },
+      { stateMachine: 'Game', layer: 'Main Layer', state: 'spin', occurs: 'timeline' },
+    ]);
+    expect(docs.firedBy).toEqual([{ stateMachine: 'Game', layer: 'Main Layer', state: 'idle', occurs: 'end' }]);
+  });
+
+  it('should list fired events on each state machine for wrapper callbacks', () => {
+    const [stateMachine] = readRiveFile(game).stateMachines;
+
+    expect(stateMachine.events).toEqual([{ name: 'Coin' }, { name: 'Docs' }]);
+  });
+
+  it('should report no events for files that declare none', async () => {
+    const vehicles = await fs.readFile(path.join(__dirname, 'fixtures', 'vehicles.riv'));
+    const contents = readRiveFile(vehicles);
+
+    expect(contents.events).toEqual([]);
+    expect(contents.stateMachines.map((stateMachine) => stateMachine.events)).toEqual([[], []]);
+  });
+});
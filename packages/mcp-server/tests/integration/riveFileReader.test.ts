@@ -0,0 +1,95 @@
+/**
+ * Integration Tests for the static .riv file reader
+ */
+
+import { describe, it, expect, beforeAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+// Simulate a machine without the node-canvas native module
+jest.mock('canvas', () => {
+  throw new Error('canvas native module missing');
+}, { virtual: true });
+
+import { readRiveFile, validateRiveBuffer } from '../../src/utils/riveFileReader';
+import { parseRiveBuffer } from '../../src/utils/riveParser';
+import { encodeRiv } from './fixtures/encodeRiv';
+
+const composed = encodeRiv([
+  [23, {}],
+  [105, { 203: ['string', 'hero.png'], 204: ['uint', 1] }],
+  [106, { 212: ['bytes', new Uint8Array(32)] }],
+  [141, { 203: ['string', 'Inter'], 204: ['uint', 2], 359: ['bytes', Uint8Array.from({ length: 16 }, (_, i) => i)] }],
+  [1, { 4: ['string', 'Main'], 7: ['double', 400], 8: ['double', 300] }],
+  [128, { 4: ['string', 'Clicked'], 5: ['uint', 0] }],
+  [92, { 4: ['string', 'Badge Instance'], 5: ['uint', 0], 197: ['uint', 1] }],
+  [1, { 4: ['string', 'Badge'], 7: ['double', 64], 8: ['double', 64] }],
+  [128, { 4: ['string', 'Clicked'], 5: ['uint', 0] }],
+]);
+
+describe('Static .riv reader', () => {
+  let vehicles: Buffer;
+
+  beforeAll(async () => {
+    vehicles = await fs.readFile(path.join(__dirname, 'fixtures', 'vehicles.riv'));
+  });
+
+  it('should list artboards and state machines without the runtime', () => {
+    const contents = readRiveFile(vehicles);
+
+    expect(contents.version).toBe('7.0');
+    expect(contents.artboards).toEqual([
+      { name: 'Truck', width: 1920, height: 1080 },
+      { name: 'Jeep', width: 1000, height: 1000 },
+    ]);
+    expect(contents.stateMachines.map((stateMachine) => stateMachine.name)).toEqual(['bumpy', 'weather']);
+    expect(contents.assets).toEqual([]);
+  });
+
+  it('should tell embedded assets from referenced ones', () => {
+    const { assets } = readRiveFile(composed);
+
+    expect(assets).toEqual([
+      {
+        type: 'image',
+        name: 'hero.png',
+        assetId: 1,
+        embedded: true,
+        size: 32,
+        hash: '66687aadf862bd776c8fc18b8e9f8e20089714856ee233b3902a591d0d5f2925',
+      },
+      {
+        type: 'font',
+        name: 'Inter',
+        assetId: 2,
+        embedded: false,
+        cdnUuid: '00010203-0405-0607-0809-0a0b0c0d0e0f',
+      },
+    ]);
+  });
+
+  it('should resolve nested artboards and list events per artboard', () => {
+    const contents = readRiveFile(composed);
+
+    expect(contents.nestedArtboards).toEqual([{ name: 'Badge Instance', artboard: 'Main', source: 'Badge' }]);
+    expect(contents.events.map((event) => [event.artboard, event.name])).toEqual([
+      ['Main', 'Clicked'],
+      ['Badge', 'Clicked'],
+    ]);
+  });
+
+  it('should only validate complete .riv files', () => {
+    expect(validateRiveBuffer(vehicles)).toEqual({ valid: true, version: '7.0' });
+    expect(validateRiveBuffer(Buffer.from('Readme text'))).toEqual({ valid: false, error: 'Missing RIVE fingerprint' });
+    expect(validateRiveBuffer(vehicles.subarray(0, vehicles.length - 3)).error).toMatch(/Unexpected end of file/);
+  });
+
+  it('should fall back to the static reader when the runtime cannot start', async () => {
+    const surface = await parseRiveBuffer(vehicles, 'vehicles');
+
+    expect(surface.metadata.parser).toBe('static');
+    expect(surface.metadata.fileSize).toBe(vehicles.length);
+    expect(surface.artboards.map((artboard) => artboard.name)).toEqual(['Truck', 'Jeep']);
+    expect(surface.stateMachines[1].inputs).toEqual([{ name: 'Raining', type: 'bool', defaultValue: false }]);
+  });
+});
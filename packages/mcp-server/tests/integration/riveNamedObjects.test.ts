@@ -0,0 +1,58 @@
+/**
+ * Integration Tests for named text runs, nodes and nested artboards
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { readRiveFile, readRiveSurface } from '../../src/utils/riveFileReader';
+import { encodeRiv } from './fixtures/encodeRiv';
+
+// Component ids: 0 Jackpot, 1 Coins, 2 winAmount, 3 Win Label, 4 unnamed run, 5 Arm, 6 unnamed node, 7 Coin Burst
+const jackpot = encodeRiv([
+  [23, {}],
+  [1, { 4: ['string', 'Jackpot'], 7: ['double', 800], 8: ['double', 600] }],
+  [2, { 4: ['string', 'Coins'], 5: ['uint', 0] }],
+  [135, { 4: ['string', 'winAmount'], 5: ['uint', 3], 268: ['string', '$0'] }],
+  [134, { 4: ['string', 'Win Label'], 5: ['uint', 0] }],
+  [135, { 5: ['uint', 3], 268: ['string', ' credits'] }],
+  [40, { 4: ['string', 'Arm'], 5: ['uint', 1] }],
+  [2, { 5: ['uint', 0] }],
+  [92, { 4: ['string', 'Coin Burst'], 5: ['uint', 0], 197: ['uint', 1] }],
+  [1, { 4: ['string', 'Coin'], 7: ['double', 64], 8: ['double', 64] }],
+]);
+
+describe('Named objects', () => {
+  it('should list named text runs with their default text', () => {
+    expect(readRiveFile(jackpot).textRuns).toEqual([
+      { name: 'winAmount', text: '$0', artboard: 'Jackpot', textObject: 'Win Label' },
+    ]);
+  });
+
+  it('should list named nodes and bones with the lookup to use', () => {
+    expect(readRiveFile(jackpot).nodes).toEqual([
+      { name: 'Coins', type: 'node', artboard: 'Jackpot' },
+      { name: 'Arm', type: 'bone', artboard: 'Jackpot' },
+    ]);
+  });
+
+  it('should put text runs, nodes and nested artboards on the runtime surface', () => {
+    const surface = readRiveSurface(jackpot, 'jackpot');
+
+    expect(surface.textRuns!.map((run) => run.name)).toEqual(['winAmount']);
+    expect(surface.nodes).toHaveLength(2);
+    expect(surface.nestedArtboards).toEqual([{ name: 'Coin Burst', artboard: 'Jackpot', source: 'Coin' }]);
+  });
+
+  it('should find root bones in exported files', async () => {
+    const vehicles = await fs.readFile(path.join(__dirname, 'fixtures', 'vehicles.riv'));
+    const { nodes } = readRiveFile(vehicles);
+
+    expect(nodes.find((node) => node.name === 'car_body_bone')).toEqual({
+      name: 'car_body_bone',
+      type: 'rootBone',
+      artboard: 'Jeep',
+    });
+    expect(nodes.find((node) => node.name === 'truck')).toMatchObject({ type: 'node', artboard: 'Truck' });
+  });
+});
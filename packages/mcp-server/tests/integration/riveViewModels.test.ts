@@ -0,0 +1,108 @@
+/**
+ * Integration Tests for view model and data binding extraction
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { extractViewModels, toPropertyType } from '../../src/utils/riveViewModels';
+
+// Embind enum values carry the runtime's DataType number
+const dataType = (value: number) => ({ value });
+
+function fakeInstance(values: Record<string, any>, nested: Record<string, any> = {}, properties: any[] = []): any {
+  return {
+    number: (name: string) => ({ value: values[name] }),
+    string: (name: string) => ({ value: values[name] }),
+    boolean: (name: string) => ({ value: values[name] }),
+    color: (name: string) => ({ value: values[name] }),
+    enum: (name: string) => values[name],
+    viewModel: (name: string) => nested[name] ?? null,
+    getProperties: () => properties,
+    unref: () => {},
+  };
+}
+
+const stats = fakeInstance({ hp: 100 }, {}, [{ name: 'hp', type: dataType(2) }]);
+
+const playerProperties = [
+  { name: 'name', type: dataType(1) },
+  { name: 'score', type: dataType(2) },
+  { name: 'alive', type: dataType(3) },
+  { name: 'tint', type: dataType(4) },
+  { name: 'inventory', type: dataType(5) },
+  { name: 'size', type: dataType(6) },
+  { name: 'reset', type: dataType(7) },
+  { name: 'stats', type: dataType(8) },
+  { name: 'avatar', type: dataType(11) },
+];
+
+const player = {
+  name: 'Player',
+  getProperties: () => playerProperties,
+  getInstanceNames: () => ['Default', 'Boss'],
+  defaultInstance: () =>
+    fakeInstance(
+      { name: 'Hero', score: 0, alive: true, tint: -16776961, size: { value: 'small', values: ['small', 'large'] } },
+      { stats }
+    ),
+};
+
+const artboards = [{ name: 'Main', delete: () => {} }, { name: 'Icon', delete: () => {} }];
+
+const riveFile: any = {
+  enums: () => [{ name: 'Size', values: ['small', 'large'] }],
+  viewModelCount: () => 1,
+  viewModelByIndex: () => player,
+  artboardCount: () => artboards.length,
+  artboardByIndex: (index: number) => artboards[index],
+  defaultArtboardViewModel: (artboard: { name: string }) => (artboard.name === 'Main' ? player : null),
+};
+
+describe('View model extraction', () => {
+  it('should describe view model properties with their default values', () => {
+    const { viewModels, enums } = extractViewModels(riveFile);
+
+    expect(enums).toEqual([{ name: 'Size', values: ['small', 'large'] }]);
+    expect(viewModels).toEqual([
+      {
+        name: 'Player',
+        instances: ['Default', 'Boss'],
+        properties: [
+          { name: 'name', type: 'string', defaultValue: 'Hero' },
+          { name: 'score', type: 'number', defaultValue: 0 },
+          { name: 'alive', type: 'boolean', defaultValue: true },
+          { name: 'tint', type: 'color', defaultValue: 0xff0000ff },
+          { name: 'inventory', type: 'list' },
+          { name: 'size', type: 'enum', defaultValue: 'small', enumValues: ['small', 'large'] },
+          { name: 'reset', type: 'trigger' },
+          { name: 'stats', type: 'viewModel', properties: [{ name: 'hp', type: 'number', defaultValue: 100 }] },
+          { name: 'avatar', type: 'image' },
+        ],
+      },
+    ]);
+  });
+
+  it('should bind artboards to their default view model', () => {
+    const { artboardViewModels, dataBindings } = extractViewModels(riveFile);
+
+    expect(artboardViewModels).toEqual(['Player', undefined]);
+    expect(dataBindings).toHaveLength(10);
+    expect(dataBindings.every((binding) => binding.artboard === 'Main' && binding.viewModel === 'Player')).toBe(true);
+    expect(dataBindings.find((binding) => binding.path === 'stats/hp')).toMatchObject({ name: 'hp', type: 'number' });
+  });
+
+  it('should accept data types as names or numbers', () => {
+    expect(toPropertyType('enumType')).toBe('enum');
+    expect(toPropertyType('assetImage')).toBe('image');
+    expect(toPropertyType(2)).toBe('number');
+    expect(toPropertyType(0)).toBeNull();
+  });
+
+  it('should return empty lists for runtimes without data binding', () => {
+    expect(extractViewModels({ artboardCount: () => 0 } as any)).toEqual({
+      viewModels: [],
+      enums: [],
+      artboardViewModels: [],
+      dataBindings: [],
+    });
+  });
+});
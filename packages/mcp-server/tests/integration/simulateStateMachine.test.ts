@@ -0,0 +1,205 @@
+/**
+ * Integration Tests for the simulate_state_machine MCP Tool
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+const SMI_INPUT = { bool: 59, number: 56, trigger: 58 };
+
+// Scripts the Truck's 'bumpy' machine from vehicles.riv: bump plays 'bounce' on Layer 2
+// for one second, then it exits back to 'Empty'
+class FakeBumpy {
+  private time = 0;
+  private started = false;
+  private bumped = false;
+  private bounceStart: number | null = null;
+  private changes: string[] = [];
+  private events: any[] = [];
+
+  constructor(readonly definition: { name: string }) {}
+  inputCount() { return 1; }
+  input() {
+    return { name: 'bump', type: SMI_INPUT.trigger, asTrigger: () => ({ fire: () => { this.bumped = true; } }) };
+  }
+  advance(seconds: number) {
+    this.time += seconds;
+    this.changes = [];
+    this.events = [];
+    if (!this.started) {
+      this.started = true;
+      this.changes = ['idle', 'Empty', 'curves'];
+    } else if (this.bumped) {
+      this.bumped = false;
+      this.bounceStart = this.time;
+      this.changes = ['bounce'];
+      this.events = [{ name: 'Bumped', type: 128, properties: { strength: 2 } }];
+    } else if (this.bounceStart !== null && this.time - this.bounceStart >= 1 - 1e-9) {
+      this.bounceStart = null;
+      this.changes = ['Empty'];
+    }
+  }
+  stateChangedCount() { return this.changes.length; }
+  stateChangedNameByIndex(index: number) { return this.changes[index]; }
+  reportedEventCount() { return this.events.length; }
+  reportedEventAt(index: number) { return this.events[index]; }
+  delete() {}
+}
+
+const truck = {
+  name: 'Truck',
+  advance() {},
+  stateMachineCount: () => 1,
+  stateMachineByIndex: () => ({ name: 'bumpy' }),
+  delete() {},
+};
+
+const fakeRuntime = {
+  SMIInput: SMI_INPUT,
+  load: async () => ({
+    defaultArtboard: () => truck,
+    artboardCount: () => 1,
+    artboardByIndex: () => truck,
+    unref: () => {},
+  }),
+  StateMachineInstance: FakeBumpy,
+};
+
+jest.mock('../../src/utils/riveParser', () => ({ getRiveRuntime: async () => fakeRuntime }));
+
+import { setStorageConfig, saveLibrary } from '../../src/utils/storage';
+import { simulateStateMachine } from '../../src/tools/simulateStateMachine';
+
+describe('simulate_state_machine MCP Tool', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join('/tmp', 'rive-simulate-test-'));
+    setStorageConfig({ manifestsPath: path.join(tmpDir, 'manifests'), assetsPath: path.join(tmpDir, 'assets') });
+
+    const filePath = path.join(tmpDir, 'vehicles.riv');
+    await fs.copyFile(path.join(__dirname, 'fixtures', 'vehicles.riv'), filePath);
+
+    const now = new Date().toISOString();
+    await saveLibrary({
+      id: 'garage',
+      name: 'Garage',
+      version: '1.0.0',
+      createdAt: now,
+      updatedAt: now,
+      components: [{ id: 'vehicles', libraryId: 'garage', name: 'Vehicles', filePath, createdAt: now, updatedAt: now }],
+    });
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report each layer state and the events fired after every step', async () => {
+    const result = await simulateStateMachine({
+      componentId: 'vehicles',
+      steps: [
+        { action: 'advance', ms: 100 },
+        { action: 'fireTrigger', input: 'bump' },
+        { action: 'advance', ms: 500 },
+        { action: 'advance', ms: 1000 },
+      ],
+    });
+
+    expect(result.status).toBe('success');
+    const { initial, steps, events } = result.data!;
+
+    expect(initial.layers).toEqual([
+      { layer: 'Layer 1', state: 'idle' },
+      { layer: 'Layer 2', state: 'Empty' },
+      { layer: 'Layer 3', state: 'curves' },
+    ]);
+    expect(steps[2].layers[1]).toEqual({ layer: 'Layer 2', state: 'bounce' });
+    expect(steps[2].stateChanges).toEqual(['bounce']);
+    expect(steps[3].layers[1]).toEqual({ layer: 'Layer 2', state: 'Empty' });
+
+    expect(events).toEqual([{ name: 'Bumped', type: 'general', time: 116.667, properties: { strength: 2 } }]);
+    expect(steps[2].events).toEqual(events);
+  });
+
+  it('should advance in fixed frames and time each one', async () => {
+    const result = await simulateStateMachine({
+      componentId: 'vehicles',
+      frameRate: 30,
+      steps: [{ action: 'advance', ms: 1000 }, { action: 'advance', ms: 10 }],
+    });
+
+    const [second, tail] = result.data!.steps;
+    expect(second).toMatchObject({ frames: 30, time: 1000 });
+    expect(second.frameTime!.maxMs).toBeGreaterThanOrEqual(second.frameTime!.averageMs);
+    expect(tail).toMatchObject({ frames: 1, time: 1010 });
+    expect(result.data!.duration).toBe(1010);
+  });
+
+  it('should notice a cancel during a long advance at fractional frame rates', async () => {
+    const controller = new AbortController();
+    let frames = 0;
+    truck.advance = () => {
+      if (++frames === 100) {
+        controller.abort();
+      }
+    };
+
+    try {
+      const result = await simulateStateMachine(
+        { componentId: 'vehicles', frameRate: 29.97, steps: [{ action: 'advance', ms: 5 * 60 * 1000 }] },
+        { signal: controller.signal }
+      );
+
+      expect(result.error!.code).toBe('CANCELLED');
+      expect(frames).toBeLessThan(200);
+    } finally {
+      truck.advance = () => {};
+    }
+  });
+
+  it('should reject steps that do not fit the state machine', async () => {
+    const missing = await simulateStateMachine({
+      componentId: 'vehicles',
+      steps: [{ action: 'fireTrigger', input: 'honk' }],
+    });
+    const wrongType = await simulateStateMachine({
+      componentId: 'vehicles',
+      steps: [{ action: 'setInput', input: 'bump', value: true }],
+    });
+    const tooLong = await simulateStateMachine({
+      componentId: 'vehicles',
+      steps: [{ action: 'advance', ms: 10 * 60 * 1000 }],
+    });
+
+    expect(missing.error!.code).toBe('INPUT_NOT_FOUND');
+    expect(wrongType.error!.code).toBe('INVALID_STEP');
+    expect(tooLong.error!.code).toBe('INVALID_STEP');
+  });
+
+  it('should reject input steps without an input name', async () => {
+    const unnamedTrigger = await simulateStateMachine({
+      componentId: 'vehicles',
+      steps: [{ action: 'fireTrigger' } as any],
+    });
+    const emptyInput = await simulateStateMachine({
+      componentId: 'vehicles',
+      steps: [{ action: 'advance', ms: 16 }, { action: 'setInput', input: '', value: 1 }],
+    });
+
+    expect(unnamedTrigger.error).toMatchObject({ code: 'INVALID_STEP', message: expect.stringContaining('Step 0') });
+    expect(emptyInput.error).toMatchObject({ code: 'INVALID_STEP', message: expect.stringContaining('Step 1') });
+  });
+
+  it('should report unknown state machines', async () => {
+    const result = await simulateStateMachine({
+      componentId: 'vehicles',
+      stateMachine: 'weather',
+      steps: [{ action: 'advance', ms: 16 }],
+    });
+
+    expect(result.status).toBe('error');
+    expect(result.error!.code).toBe('STATE_MACHINE_NOT_FOUND');
+  });
+});
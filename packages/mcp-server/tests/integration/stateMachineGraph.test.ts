@@ -0,0 +1,75 @@
+/**
+ * Integration Tests for state machine graph extraction from .riv files
+ */
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { readStateMachineGraphs, RiveArtboardStateMachines } from '../../src/utils/riveStateMachineGraph';
+import { readRiveBinary, RiveFormatError } from '../../src/utils/riveBinaryReader';
+
+describe('State machine graphs', () => {
+  let buffer: Buffer;
+  let graphs: RiveArtboardStateMachines[];
+
+  beforeAll(async () => {
+    buffer = await fs.readFile(path.join(__dirname, 'fixtures', 'vehicles.riv'));
+    graphs = readStateMachineGraphs(buffer);
+  });
+
+  it('should read the header and the whole object stream', () => {
+    const file = readRiveBinary(buffer);
+
+    expect(file.header.majorVersion).toBe(7);
+    expect(file.objects[0].typeKey).toBe(23); // Backboard
+    expect(graphs.map((graph) => graph.artboard)).toEqual(['Truck', 'Jeep']);
+  });
+
+  it('should report every layer instead of a fixed layer count', () => {
+    const [bumpy] = graphs[0].stateMachines;
+
+    expect(bumpy.name).toBe('bumpy');
+    expect(bumpy.inputs).toEqual([{ name: 'bump', type: 'trigger' }]);
+    expect(bumpy.layerCount).toBe(3);
+    expect(bumpy.layers!.map((layer) => layer.name)).toEqual(['Layer 1', 'Layer 2', 'Layer 3']);
+  });
+
+  it('should link transitions to target states with their conditions', () => {
+    const layer = graphs[0].stateMachines[0].layers![1];
+    const [entry, empty, bounce] = layer.states;
+
+    expect(entry).toMatchObject({ type: 'entry', transitions: [{ to: 1, toName: 'Empty', conditions: [] }] });
+    expect(empty.transitions).toEqual([
+      { to: 2, toName: 'bounce', duration: 0, conditions: [{ input: 'bump', inputType: 'trigger' }] },
+    ]);
+    expect(bounce).toMatchObject({ type: 'animation', animation: 'bounce' });
+    expect(bounce.transitions[0]).toMatchObject({ to: 1, exitTime: 1000, conditions: [] });
+  });
+
+  it('should describe bool conditions by the value that passes', () => {
+    const [weather] = graphs[1].stateMachines;
+    const states = weather.layers![0].states;
+    const rainy = states.find((state) => state.name === 'rainy')!;
+    const sunny = states.find((state) => state.name === 'sunny')!;
+
+    expect(weather.inputs).toEqual([{ name: 'Raining', type: 'bool', defaultValue: false }]);
+    expect(rainy.transitions[0]).toMatchObject({
+      toName: 'sunny',
+      duration: 500,
+      conditions: [{ input: 'Raining', inputType: 'bool', op: '==', value: false }],
+    });
+    expect(sunny.transitions[0].conditions).toEqual([{ input: 'Raining', inputType: 'bool', op: '==', value: true }]);
+  });
+
+  it('should flag states no transition path reaches', () => {
+    const states = graphs[0].stateMachines[0].layers![0].states;
+
+    expect(states.filter((state) => !state.reachable).map((state) => state.type)).toEqual(['exit']);
+    expect(states.find((state) => state.name === 'idle')!.reachable).toBe(true);
+  });
+
+  it('should reject files that are not .riv or are truncated', () => {
+    expect(() => readRiveBinary(Buffer.from('PNG not a rive file'))).toThrow(RiveFormatError);
+    expect(() => readRiveBinary(buffer.subarray(0, 200))).toThrow('Unexpected end of file');
+  });
+});
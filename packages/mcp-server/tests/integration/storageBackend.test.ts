@@ -0,0 +1,126 @@
+/**
+ * Integration Tests for tools running on a configured storage backend
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { RiveRuntimeSurface } from '../../src/types';
+
+jest.mock('../../src/utils/riveParser', () => ({
+  parseRiveBuffer: jest.fn(async (buffer: Buffer, componentId: string): Promise<RiveRuntimeSurface> => ({
+    componentId,
+    artboards: [{ name: 'ToggleArtboard', width: 120, height: 60 }],
+    stateMachines: [
+      {
+        name: 'ToggleSM',
+        inputs: [{ name: 'isOn', type: 'bool', defaultValue: false }],
+        layerCount: 1,
+      },
+    ],
+    events: [],
+    metadata: {
+      fileSize: buffer.length,
+      parseDate: new Date().toISOString(),
+    },
+  })),
+}));
+
+import { storageManager } from '../../src/storage';
+import { removeComponentFromLibrary, getStorageBackend } from '../../src/utils/storage';
+import { importRiveFile } from '../../src/tools/importRiveFile';
+import { listComponents } from '../../src/tools/listComponents';
+import { getRuntimeSurface } from '../../src/tools/getRuntimeSurface';
+
+describe('Tools on the configured storage backend', () => {
+  let tmpDir: string;
+  let sourcePath: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(__dirname, 'fixtures', 'backend-'));
+    sourcePath = path.join(tmpDir, 'Toggle Switch.riv');
+    await fs.writeFile(sourcePath, Buffer.from('RIVE-toggle'));
+
+    await storageManager.initialize({
+      storage: {
+        backend: 'local',
+        local: { basePath: path.join(tmpDir, 'data') },
+      },
+    });
+  });
+
+  afterAll(async () => {
+    storageManager.reset();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should import the asset and manifests through the backend', async () => {
+    const result = await importRiveFile({ filePath: sourcePath, libraryId: 'ui' });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.component.id).toBe('toggle-switch');
+    expect(result.data!.component.filePath).toBe('toggle-switch.riv');
+
+    const manifestsDir = path.join(tmpDir, 'data', 'manifests');
+    const index = JSON.parse(await fs.readFile(path.join(manifestsDir, 'index.json'), 'utf-8'));
+    expect(Object.keys(index.libraries)).toEqual(['ui']);
+    expect(index.components['toggle-switch']).toMatchObject({
+      libraryId: 'ui',
+      riveFile: 'toggle-switch.riv',
+      storageBackend: 'local',
+      stateMachines: [{ name: 'ToggleSM', inputs: [{ name: 'isOn', type: 'bool', defaultValue: false }] }],
+    });
+
+    const manifest = JSON.parse(
+      await fs.readFile(path.join(manifestsDir, 'components', 'toggle-switch', 'manifest.json'), 'utf-8')
+    );
+    expect(manifest.artboards).toEqual(['ToggleArtboard']);
+
+    const asset = await fs.readFile(path.join(tmpDir, 'data', 'assets', 'toggle-switch.riv'));
+    expect(asset.toString()).toBe('RIVE-toggle');
+  });
+
+  it('should list components from the manifest index', async () => {
+    const result = await listComponents({ libraryId: 'ui' });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.map((c) => c.id)).toEqual(['toggle-switch']);
+    expect(result.data![0].stateMachineName).toBe('ToggleSM');
+  });
+
+  it('should parse the runtime surface from the stored asset', async () => {
+    const result = await getRuntimeSurface({ componentId: 'toggle-switch' });
+
+    expect(result.status).toBe('success');
+    expect(result.data!.componentId).toBe('toggle-switch');
+    expect(result.data!.metadata.fileSize).toBe('RIVE-toggle'.length);
+  });
+
+  it('should drop removed components from the index', async () => {
+    expect(await removeComponentFromLibrary('ui', 'toggle-switch')).toBe(true);
+
+    const index = await getStorageBackend()!.readIndex({ useCache: false });
+    expect(index.components).toEqual({});
+    expect(index.libraries.ui.components).toEqual([]);
+  });
+
+  it('should keep every component when imports into one library run at once', async () => {
+    const sources = await Promise.all(
+      ['Slider', 'Checkbox', 'Radio'].map(async (name) => {
+        const filePath = path.join(tmpDir, `${name}.riv`);
+        await fs.writeFile(filePath, `RIVE-${name}`);
+        return filePath;
+      })
+    );
+
+    const results = await Promise.all(sources.map((filePath) => importRiveFile({ filePath, libraryId: 'ui' })));
+    expect(results.map((result) => result.status)).toEqual(['success', 'success', 'success']);
+
+    const index = await getStorageBackend()!.readIndex({ useCache: false });
+    expect(Object.keys(index.components).sort()).toEqual(['checkbox', 'radio', 'slider']);
+    expect([...index.libraries.ui.components].sort()).toEqual(['checkbox', 'radio', 'slider']);
+    for (const id of ['checkbox', 'radio', 'slider']) {
+      expect(await getStorageBackend()!.exists(`components/${id}/manifest.json`)).toBe(true);
+    }
+  });
+});
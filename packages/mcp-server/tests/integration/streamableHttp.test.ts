@@ -0,0 +1,275 @@
+/**
+ * Integration Tests for the streamable HTTP transport
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+// The SDK ships ES modules only; the HTTP transport does not use these
+jest.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({ StdioServerTransport: class {} }), { virtual: true });
+jest.mock('@modelcontextprotocol/sdk/server/sse.js', () => ({ SSEServerTransport: class {} }), { virtual: true });
+
+import {
+  StreamableHttpServerTransport,
+  SESSION_HEADER,
+  isInitializeRequest,
+} from '../../src/transport/streamableHttp';
+import { startTransport, isOriginAllowed } from '../../src/transport';
+
+describe('StreamableHttpServerTransport', () => {
+  let transport: StreamableHttpServerTransport;
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    transport = new StreamableHttpServerTransport();
+
+    // Echo server: answers every request after params.delayMs, emitting a progress notification first
+    transport.onmessage = (message: any) => {
+      if (!('id' in message) || !('method' in message)) {
+        return;
+      }
+      const progressToken = message.params?._meta?.progressToken;
+      setTimeout(() => {
+        void transport
+          .send({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken, progress: 1, total: 1 },
+          } as any)
+          .then(() => transport.send({ jsonrpc: '2.0', id: message.id, result: { echo: message.method } } as any));
+      }, message.params?.delayMs ?? 0);
+    };
+
+    httpServer = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        void transport.handlePost(req, res, JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      });
+    });
+
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await transport.close();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  });
+
+  function post(body: unknown, accept = 'application/json') {
+    return new Promise<{ status: number; headers: http.IncomingHttpHeaders; text: string }>((resolve, reject) => {
+      const req = http.request(
+        baseUrl,
+        { method: 'POST', headers: { 'Content-Type': 'application/json', Accept: accept } },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk) => chunks.push(chunk));
+          res.on('end', () =>
+            resolve({ status: res.statusCode!, headers: res.headers, text: Buffer.concat(chunks).toString('utf-8') })
+          );
+        }
+      );
+      req.on('error', reject);
+      req.end(JSON.stringify(body));
+    });
+  }
+
+  it('should detect initialize requests', () => {
+    expect(isInitializeRequest({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })).toBe(true);
+    expect(isInitializeRequest([{ jsonrpc: '2.0', method: 'notifications/initialized' }])).toBe(false);
+  });
+
+  it('should answer a single request with a JSON body and the session header', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers[SESSION_HEADER]).toBe(transport.sessionId);
+    expect(JSON.parse(response.text)).toEqual({ jsonrpc: '2.0', id: 1, result: { echo: 'tools/list' } });
+  });
+
+  it('should answer a batch with an array of responses', async () => {
+    const response = await post([
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { jsonrpc: '2.0', id: 3, method: 'prompts/list' },
+    ]);
+
+    const body = JSON.parse(response.text);
+    expect(body.map((r: any) => r.id).sort()).toEqual([2, 3]);
+  });
+
+  function events(text: string) {
+    return text
+      .split('\n\n')
+      .filter(Boolean)
+      .map((chunk) => JSON.parse(chunk.split('data: ')[1]));
+  }
+
+  function call(id: number, progressToken: string, delayMs = 0) {
+    return post(
+      { jsonrpc: '2.0', id, method: 'tools/call', params: { delayMs, _meta: { progressToken } } },
+      'application/json, text/event-stream'
+    );
+  }
+
+  it('should stream notifications and the response as server-sent events', async () => {
+    const response = await call(4, 'progress-4');
+
+    expect(response.headers['content-type']).toBe('text/event-stream');
+    expect(events(response.text)).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'progress-4', progress: 1, total: 1 } },
+      { jsonrpc: '2.0', id: 4, result: { echo: 'tools/call' } },
+    ]);
+  });
+
+  it('should send progress to the stream of the request it belongs to', async () => {
+    // The first call reports progress while the second, newer stream is still open
+    const [first, second] = await Promise.all([call(5, 'progress-5', 50), call(6, 'progress-6', 150)]);
+
+    expect(events(first.text).map((event) => event.params?.progressToken ?? event.id)).toEqual(['progress-5', 5]);
+    expect(events(second.text).map((event) => event.params?.progressToken ?? event.id)).toEqual(['progress-6', 6]);
+  });
+
+  it('should acknowledge notifications with 202', async () => {
+    const response = await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    expect(response.status).toBe(202);
+  });
+});
+
+/**
+ * Stands in for the MCP server: answers every request with an empty result
+ */
+function fakeServer(closeError?: Error): Server {
+  let connected: StreamableHttpServerTransport | undefined;
+  const server = {
+    onclose: undefined as (() => void) | undefined,
+    async connect(transport: StreamableHttpServerTransport) {
+      connected = transport;
+      transport.onclose = () => server.onclose?.();
+      transport.onmessage = (message: any) => {
+        if ('id' in message && 'method' in message) {
+          void transport.send({ jsonrpc: '2.0', id: message.id, result: {} } as any);
+        }
+      };
+      await transport.start();
+    },
+    async close() {
+      if (closeError) {
+        throw closeError;
+      }
+      await connected?.close();
+    },
+  };
+  return server as unknown as Server;
+}
+
+describe('HTTP transport sessions', () => {
+  it('should close sessions that stay idle past the timeout', async () => {
+    const running = await startTransport(
+      { server: { transport: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 100 } } as any,
+      fakeServer
+    );
+
+    try {
+      const initialize = await fetch(running.url!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+        }),
+      });
+      expect(initialize.status).toBe(200);
+      const sessionId = initialize.headers.get(SESSION_HEADER)!;
+      expect(running.sessionCount()).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(running.sessionCount()).toBe(0);
+      const expired = await fetch(running.url!, { method: 'GET', headers: { [SESSION_HEADER]: sessionId } });
+      expect(expired.status).toBe(404);
+    } finally {
+      await running.close();
+    }
+  });
+
+  it('should drop idle sessions whose server fails to close and keep sweeping the rest', async () => {
+    let created = 0;
+    const running = await startTransport(
+      { server: { transport: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 100 } } as any,
+      () => fakeServer(created++ === 0 ? new Error('close failed') : undefined)
+    );
+
+    try {
+      for (let id = 1; id <= 2; id++) {
+        const initialize = await fetch(running.url!, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id,
+            method: 'initialize',
+            params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+          }),
+        });
+        expect(initialize.status).toBe(200);
+      }
+      expect(running.sessionCount()).toBe(2);
+
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(running.sessionCount()).toBe(0);
+    } finally {
+      await running.close();
+    }
+  });
+
+  it('should refuse requests from origins that are not allowed', async () => {
+    const running = await startTransport(
+      {
+        server: { transport: 'http', host: '127.0.0.1', port: 0, allowedOrigins: ['https://studio.example.com'] },
+      } as any,
+      fakeServer
+    );
+    const initialize = (origin?: string) =>
+      fetch(running.url!, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...(origin ? { Origin: origin } : {}),
+        },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+        }),
+      });
+
+    try {
+      const refused = await initialize('https://evil.example.com');
+      expect(refused.status).toBe(403);
+      expect(running.sessionCount()).toBe(0);
+
+      expect((await initialize('https://studio.example.com')).status).toBe(200);
+      expect((await initialize()).status).toBe(200);
+      expect(running.sessionCount()).toBe(2);
+    } finally {
+      await running.close();
+    }
+  });
+
+  it('should only allow loopback origins by default', () => {
+    expect(isOriginAllowed('http://localhost:5173')).toBe(true);
+    expect(isOriginAllowed('http://127.0.0.1:3000')).toBe(true);
+    expect(isOriginAllowed('http://localhost.evil.example.com')).toBe(false);
+    expect(isOriginAllowed('null')).toBe(false);
+    expect(isOriginAllowed('http://localhost:5173', ['https://studio.example.com'])).toBe(false);
+  });
+});
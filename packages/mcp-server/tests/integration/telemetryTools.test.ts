@@ -0,0 +1,99 @@
+/**
+ * Integration Tests for telemetry tools mounted on the MCP server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/riveParser', () => ({}));
+
+import {
+  createTelemetryService,
+  createTelemetryToolsContext,
+  TelemetryService,
+} from '@astralismotion/telemetry-service';
+import { createToolRegistry, createTelemetryTools, ToolRegistry } from '../../src/tools';
+
+describe('Telemetry tools', () => {
+  let telemetry: TelemetryService;
+  let registry: ToolRegistry;
+
+  beforeAll(async () => {
+    telemetry = createTelemetryService({ enabled: true, flushInterval: 0, storage: { type: 'memory' } });
+    registry = createToolRegistry({ tools: await createTelemetryTools(createTelemetryToolsContext(telemetry)) });
+
+    await telemetry.storage.storeEvents([
+      {
+        id: 'evt-1',
+        type: 'performance',
+        timestamp: Date.now(),
+        sessionId: 'session-1',
+        componentId: 'slot-machine',
+        severity: 'info',
+        data: { fps: 60, frameTime: 16.6 },
+      } as any,
+    ]);
+  });
+
+  afterAll(async () => {
+    await telemetry.shutdown();
+  });
+
+  it('should not mount telemetry tools by default', () => {
+    const names = createToolRegistry().list().map((tool) => tool.name);
+    expect(names).not.toContain('collect_metrics');
+  });
+
+  it('should mount all telemetry tools when a context is provided', () => {
+    const names = registry.list().map((tool) => tool.name);
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'collect_metrics',
+        'analyze_performance',
+        'analyze_user_behavior',
+        'get_realtime_stats',
+        'analyze_feature_adoption',
+      ])
+    );
+  });
+
+  it('should only list the analysis tools in the read-only profile', async () => {
+    const readOnly = createToolRegistry({
+      profile: 'read-only',
+      tools: await createTelemetryTools(createTelemetryToolsContext(telemetry)),
+    });
+    const names = readOnly.list().map((tool) => tool.name);
+
+    expect(names).not.toContain('collect_metrics');
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'analyze_performance',
+        'analyze_user_behavior',
+        'get_realtime_stats',
+        'analyze_feature_adoption',
+      ])
+    );
+  });
+
+  it('should query the configured storage adapter', async () => {
+    const result = await registry.call('collect_metrics', { componentIds: ['slot-machine'] });
+
+    expect(result.status).toBe('success');
+    expect(result.tool).toBe('collect_metrics');
+    expect(result.data.eventCount).toBe(1);
+  });
+
+  it('should report storage statistics', async () => {
+    const result = await registry.call('get_realtime_stats', { includeStorage: true });
+
+    expect(result.status).toBe('success');
+    expect(result.data.storage).toBeDefined();
+  });
+
+  it('should validate telemetry tool arguments', async () => {
+    const result = await registry.call('analyze_feature_adoption', { featureName: 'autoplay' });
+
+    expect(result.status).toBe('error');
+    expect(result.error.code).toBe('INVALID_ARGUMENT');
+    expect(result.error.details.errors[0].path).toBe('/componentId');
+  });
+});
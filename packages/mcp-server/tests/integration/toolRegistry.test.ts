@@ -0,0 +1,115 @@
+/**
+ * Integration Tests for the tool registry and argument validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { ToolRegistry } from '../../src/tools/registry';
+import { generateWrapperTool } from '../../src/tools/generateWrapper';
+import { composeSceneTool } from '../../src/tools/composeScene';
+import { validateSchema } from '../../src/utils/schemaValidator';
+
+describe('Tool registry', () => {
+  function createRegistry() {
+    const handler = jest.fn(async (params: any) => ({ status: 'success', data: params }));
+    const registry = new ToolRegistry()
+      .register({ ...generateWrapperTool, handler })
+      .register({ ...composeSceneTool, handler });
+    return { registry, handler };
+  }
+
+  it('should list tools with their schemas in registration order', () => {
+    const { registry } = createRegistry();
+    const tools = registry.list();
+
+    expect(tools.map((t) => t.name)).toEqual(['generate_wrapper', 'compose_scene']);
+    expect(tools[0].inputSchema.required).toEqual(['surface', 'riveSrc']);
+  });
+
+  it('should reject duplicate registrations', () => {
+    const { registry } = createRegistry();
+    expect(() => registry.register(composeSceneTool)).toThrow('Tool already registered: compose_scene');
+  });
+
+  it('should dispatch valid arguments to the handler', async () => {
+    const { registry, handler } = createRegistry();
+    const args = {
+      name: 'Jackpot',
+      components: [{ componentId: 'slot-machine', instanceName: 'slot' }],
+    };
+
+    const result = await registry.call('compose_scene', args);
+
+    expect(handler).toHaveBeenCalledWith(args, {});
+    expect(result.status).toBe('success');
+  });
+
+  it('should return INVALID_ARGUMENT with JSON pointer paths for malformed surfaces', async () => {
+    const { registry, handler } = createRegistry();
+
+    const result = await registry.call('generate_wrapper', {
+      riveSrc: '/assets/button.riv',
+      surface: {
+        componentId: 'button',
+        stateMachines: [{ name: 'SM', inputs: [{ name: 'hover', type: 'boolean' }] }],
+      },
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.status).toBe('error');
+    expect(result.error.code).toBe('INVALID_ARGUMENT');
+    expect(result.error.details.errors).toEqual([
+      expect.objectContaining({ path: '/surface/stateMachines/0/inputs/0/type', keyword: 'enum' }),
+    ]);
+  });
+
+  it('should report missing required properties', async () => {
+    const { registry } = createRegistry();
+
+    const result = await registry.call('compose_scene', {
+      name: 'Jackpot',
+      components: [{ componentId: 'slot-machine' }],
+    });
+
+    expect(result.error.details.errors).toEqual([
+      expect.objectContaining({ path: '/components/0/instanceName', keyword: 'required' }),
+    ]);
+    expect(result.error.message).toContain('/components/0/instanceName: is required');
+  });
+
+  it('should return UNKNOWN_TOOL for unregistered tools', async () => {
+    const { registry } = createRegistry();
+    const result = await registry.call('render_everything', {});
+
+    expect(result.status).toBe('error');
+    expect(result.error.code).toBe('UNKNOWN_TOOL');
+  });
+});
+
+describe('validateSchema', () => {
+  it('should stop at type mismatches', () => {
+    expect(validateSchema({ type: 'object', required: ['a'] }, [])).toEqual([
+      { path: '', keyword: 'type', message: 'must be object, got array' },
+    ]);
+  });
+
+  it('should escape JSON pointer segments', () => {
+    const errors = validateSchema(
+      { type: 'object', additionalProperties: { type: 'number' } },
+      { 'a/b~c': 'x' }
+    );
+    expect(errors[0].path).toBe('/a~1b~0c');
+  });
+
+  it('should check integer, minimum and additionalProperties', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: { zIndex: { type: 'integer' as const, minimum: 0 } },
+      additionalProperties: false,
+    };
+
+    expect(validateSchema(schema, { zIndex: 1.5 })[0].keyword).toBe('type');
+    expect(validateSchema(schema, { zIndex: -1 })[0].keyword).toBe('minimum');
+    expect(validateSchema(schema, { extra: true })[0].keyword).toBe('additionalProperties');
+    expect(validateSchema(schema, { zIndex: 2 })).toEqual([]);
+  });
+});
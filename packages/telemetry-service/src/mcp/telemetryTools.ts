@@ -540,12 +540,10 @@ export const telemetryToolDefinitions = [
         featureName: {
           type: 'string',
           description: 'Name of the feature to analyze',
-          required: true,
         },
         componentId: {
           type: 'string',
           description: 'Component ID containing the feature',
-          required: true,
         },
         startTime: {
           type: 'number',
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Check component assets
+ * Lists the images, fonts and audio each component's .riv file references and exits
+ * non-zero when one cannot be resolved through the configured storage backend
+ */
+
+import { program } from 'commander';
+import { initializeConfig } from '../../packages/mcp-server/src/config';
+import { initializeStorage } from '../../packages/mcp-server/src/storage';
+import { getAllComponents } from '../../packages/mcp-server/src/utils/storage';
+import { checkComponentAssets } from '../../packages/mcp-server/src/tools/checkComponentAssets';
+import { AssetInventoryReport } from '../../packages/mcp-server/src/utils/assetInventory';
+
+interface CheckFailure {
+  componentId: string;
+  code: string;
+  message: string;
+}
+
+function printReport(report: AssetInventoryReport, verbose: boolean) {
+  const { summary } = report;
+  const icon = report.resolvable ? '✅' : '❌';
+
+  console.log(
+    `${icon} ${report.componentId}: ${summary.embedded} embedded, ${summary.resolved}/${summary.referenced} referenced resolved`
+  );
+
+  report.assets
+    .filter((asset) => verbose || asset.status === 'missing')
+    .forEach((asset) => {
+      const label = `${asset.type} '${asset.name}'`;
+      if (asset.status === 'embedded') {
+        console.log(`   📦 ${label}: ${asset.size} bytes, sha256 ${asset.hash}`);
+      } else if (asset.status === 'resolved') {
+        console.log(`   🔗 ${label}: ${asset.key}`);
+      } else {
+        console.log(`   ❌ ${label}: not found as ${asset.candidates!.join(' or ')}`);
+      }
+    });
+}
+
+async function main() {
+  program
+    .name('check-component-assets')
+    .description('Check that assets referenced by .riv files resolve through the storage backend')
+    .option('-c, --component <ids...>', 'Component IDs to check (default: all)')
+    .option('--config <path>', 'Server config file (default: CONFIG_PATH)')
+    .option('--json', 'Print the reports as JSON')
+    .option('-v, --verbose', 'List embedded and resolved assets too')
+    .parse(process.argv);
+
+  const options = program.opts();
+
+  const config = await initializeConfig(options.config || process.env.CONFIG_PATH);
+  await initializeStorage(config);
+
+  const componentIds: string[] =
+    options.component || (await getAllComponents()).map(({ component }) => component.id);
+
+  const reports: AssetInventoryReport[] = [];
+  const failures: CheckFailure[] = [];
+
+  for (const componentId of componentIds) {
+    const result = await checkComponentAssets({ componentId });
+    if (result.status === 'success') {
+      reports.push(result.data!);
+    } else {
+      failures.push({ componentId, code: result.error!.code, message: result.error!.message });
+    }
+  }
+
+  const unresolved = reports.filter((report) => !report.resolvable);
+
+  if (options.json) {
+    console.log(JSON.stringify({ reports, failures }, null, 2));
+  } else {
+    console.log(`\n🔍 Checking assets of ${componentIds.length} component(s)...\n`);
+    reports.forEach((report) => printReport(report, options.verbose));
+    failures.forEach((failure) => console.log(`⚠️  ${failure.componentId}: ${failure.code} - ${failure.message}`));
+
+    console.log('\n' + '='.repeat(60));
+    console.log(
+      `\n${unresolved.length} component(s) with missing assets, ${failures.length} could not be checked\n`
+    );
+  }
+
+  if (unresolved.length > 0 || failures.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Asset check failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
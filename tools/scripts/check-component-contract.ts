@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+/**
+ * Check component contracts
+ * Diffs each stored manifest against the surface parsed from its .riv asset and
+ * exits non-zero when a change would break existing wrappers or scenes
+ */
+
+import { program } from 'commander';
+import { initializeConfig } from '../../packages/mcp-server/src/config';
+import { initializeStorage } from '../../packages/mcp-server/src/storage';
+import { getAllComponents } from '../../packages/mcp-server/src/utils/storage';
+import { checkComponentContract } from '../../packages/mcp-server/src/tools/checkComponentContract';
+import { ContractReport } from '../../packages/mcp-server/src/utils/componentContract';
+
+interface CheckFailure {
+  componentId: string;
+  code: string;
+  message: string;
+}
+
+function printReport(report: ContractReport, verbose: boolean) {
+  const icon = report.compatible ? (report.changes.length > 0 ? '➕' : '✅') : '❌';
+  const suggestion = report.versionSuggestion;
+  const version =
+    suggestion && suggestion.bump !== 'none'
+      ? `${suggestion.current} → ${suggestion.suggested} (${suggestion.bump})`
+      : report.manifestVersion;
+
+  console.log(
+    `${icon} ${report.componentId} @ ${version}: ${report.summary.breaking} breaking, ${report.summary.additive} additive`
+  );
+
+  report.changes
+    .filter((change) => verbose || change.kind === 'breaking')
+    .forEach((change) => {
+      const marker = change.kind === 'breaking' ? '   ❌' : '   ➕';
+      console.log(`${marker} ${change.path}: ${change.message}`);
+    });
+}
+
+async function main() {
+  program
+    .name('check-component-contract')
+    .description('Diff stored component manifests against their parsed .riv files')
+    .option('-c, --component <ids...>', 'Component IDs to check (default: all)')
+    .option('--config <path>', 'Server config file (default: CONFIG_PATH)')
+    .option('--json', 'Print the reports as JSON')
+    .option('--no-fail-on-breaking', 'Exit 0 even when breaking changes are found')
+    .option('-v, --verbose', 'List additive changes too')
+    .parse(process.argv);
+
+  const options = program.opts();
+
+  const config = await initializeConfig(options.config || process.env.CONFIG_PATH);
+  await initializeStorage(config);
+
+  const componentIds: string[] =
+    options.component || (await getAllComponents()).map(({ component }) => component.id);
+
+  const reports: ContractReport[] = [];
+  const failures: CheckFailure[] = [];
+
+  for (const componentId of componentIds) {
+    const result = await checkComponentContract({ componentId });
+    if (result.status === 'success') {
+      reports.push(result.data!);
+    } else {
+      failures.push({ componentId, code: result.error!.code, message: result.error!.message });
+    }
+  }
+
+  const breaking = reports.filter((report) => !report.compatible);
+
+  if (options.json) {
+    console.log(JSON.stringify({ reports, failures }, null, 2));
+  } else {
+    console.log(`\n🔍 Checking ${componentIds.length} component contract(s)...\n`);
+    reports.forEach((report) => printReport(report, options.verbose));
+    failures.forEach((failure) => console.log(`⚠️  ${failure.componentId}: ${failure.code} - ${failure.message}`));
+
+    console.log('\n' + '='.repeat(60));
+    console.log(
+      `\n${breaking.length} component(s) with breaking changes, ${failures.length} could not be checked\n`
+    );
+  }
+
+  if ((options.failOnBreaking && breaking.length > 0) || failures.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Contract check failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+/**
+ * Garbage-collect content-addressed assets
+ * Removes sha256/<hash>.riv blobs that no component has referenced for the grace period
+ */
+
+import { program } from 'commander';
+import { initializeConfig } from '../../packages/mcp-server/src/config';
+import { initializeStorage } from '../../packages/mcp-server/src/storage';
+
+async function main() {
+  program
+    .name('gc-assets')
+    .description('Remove content-addressed asset blobs that no component references')
+    .option('--config <path>', 'Server config file (default: CONFIG_PATH)')
+    .option('--grace <minutes>', 'Keep blobs unreferenced for less than this long', '60')
+    .option('--dry-run', 'List the blobs that would be removed without removing them')
+    .parse(process.argv);
+
+  const options = program.opts();
+  const graceMinutes = Number(options.grace);
+  if (!Number.isFinite(graceMinutes) || graceMinutes < 0) {
+    throw new Error(`--grace must be a number of minutes, got '${options.grace}'`);
+  }
+
+  const config = await initializeConfig(options.config || process.env.CONFIG_PATH);
+  const storage = await initializeStorage(config);
+
+  const result = await storage.collectGarbage({
+    gracePeriodMs: graceMinutes * 60 * 1000,
+    dryRun: options.dryRun === true,
+  });
+
+  console.log(`\n🧹 ${options.dryRun ? 'Would remove' : 'Removed'} ${result.removed.length} unreferenced blob(s):`);
+  result.removed.forEach((key) => console.log(`   - ${key}`));
+  console.log(`\n⏳ ${result.pending.length} unreferenced blob(s) still inside the ${graceMinutes} minute grace period`);
+  console.log(`✅ ${result.referenced} blob(s) in use\n`);
+}
+
+main().catch((error) => {
+  console.error('❌ Asset garbage collection failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
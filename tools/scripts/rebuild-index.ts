@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+
+/**
+ * Rebuild the manifest index
+ * Reconstructs index.json on the configured storage backend from the component and library manifests
+ */
+
+import { program } from 'commander';
+import { initializeConfig } from '../../packages/mcp-server/src/config';
+import { initializeStorage } from '../../packages/mcp-server/src/storage';
+
+async function main() {
+  program
+    .name('rebuild-index')
+    .description('Rebuild index.json from the component and library manifests on the storage backend')
+    .option('--config <path>', 'Server config file (default: CONFIG_PATH)')
+    .parse(process.argv);
+
+  const options = program.opts();
+
+  const config = await initializeConfig(options.config || process.env.CONFIG_PATH);
+  const storage = await initializeStorage(config);
+
+  console.log(`\n🔍 Scanning ${storage.getBackendType()} storage for manifests...\n`);
+  const index = await storage.rebuildIndex();
+
+  const components = Object.keys(index.components);
+  const libraries = Object.keys(index.libraries);
+  console.log(`✅ ${components.length} component(s):`);
+  components.forEach((id) => console.log(`   - ${id}`));
+  console.log(`\n✅ ${libraries.length} library(ies):`);
+  libraries.forEach((id) => console.log(`   - ${id}`));
+  console.log(`\n✅ Manifest index rebuilt at ${index.lastUpdated}\n`);
+}
+
+main().catch((error) => {
+  console.error('❌ Index rebuild failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
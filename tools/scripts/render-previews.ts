@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+/**
+ * Render component previews
+ * Renders a thumbnail and animated sprite sheet for each component, stores them next
+ * to its .riv asset and links them from the manifest
+ */
+
+import { program } from 'commander';
+import { initializeConfig } from '../../packages/mcp-server/src/config';
+import { initializeStorage } from '../../packages/mcp-server/src/storage';
+import { getAllComponents } from '../../packages/mcp-server/src/utils/storage';
+import {
+  renderComponentPreview,
+  RenderComponentPreviewResponse,
+} from '../../packages/mcp-server/src/tools/renderComponentPreview';
+
+interface RenderFailure {
+  componentId: string;
+  code: string;
+  message: string;
+}
+
+function parseNumberList(value: string): number[] {
+  return value.split(',').map((item) => Number(item.trim()));
+}
+
+async function main() {
+  program
+    .name('render-previews')
+    .description('Render thumbnails and sprite sheet previews for stored components')
+    .option('-c, --component <ids...>', 'Component IDs to render (default: all)')
+    .option('--config <path>', 'Server config file (default: CONFIG_PATH)')
+    .option('-s, --size <pixels>', 'Frame width and height', '512')
+    .option('-t, --times <seconds>', 'Comma-separated capture times; the first is the thumbnail', '0')
+    .option('-f, --frames <count>', 'Sprite sheet frames', '12')
+    .option('-d, --duration <seconds>', 'Seconds covered by the sprite sheet', '1')
+    .option('--no-sprite-sheet', 'Only render stills')
+    .option('--json', 'Print the results as JSON')
+    .parse(process.argv);
+
+  const options = program.opts();
+
+  const config = await initializeConfig(options.config || process.env.CONFIG_PATH);
+  await initializeStorage(config);
+
+  const componentIds: string[] =
+    options.component || (await getAllComponents()).map(({ component }) => component.id);
+  const size = Number(options.size);
+
+  const rendered: RenderComponentPreviewResponse[] = [];
+  const failures: RenderFailure[] = [];
+
+  for (const componentId of componentIds) {
+    const result = await renderComponentPreview({
+      componentId,
+      width: size,
+      height: size,
+      times: parseNumberList(options.times),
+      spriteSheet: options.spriteSheet && { frames: Number(options.frames), duration: Number(options.duration) },
+    });
+
+    if (result.status === 'success') {
+      rendered.push(result.data!);
+    } else {
+      failures.push({ componentId, code: result.error!.code, message: result.error!.message });
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ rendered, failures }, null, 2));
+  } else {
+    console.log(`\n🖼️  Rendering ${componentIds.length} component preview(s)...\n`);
+    rendered.forEach((preview) => {
+      const source = preview.stateMachine ? `${preview.artboard}/${preview.stateMachine}` : preview.artboard;
+      console.log(`✅ ${preview.componentId} (${source}): ${preview.thumbnailUrl}`);
+      if (preview.previewUrl) {
+        console.log(`   ${preview.previewUrl}`);
+      }
+    });
+    failures.forEach((failure) => console.log(`⚠️  ${failure.componentId}: ${failure.code} - ${failure.message}`));
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`\n${rendered.length} rendered, ${failures.length} failed\n`);
+  }
+
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Preview rendering failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});